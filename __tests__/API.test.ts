@@ -1,5 +1,7 @@
 import axios from 'axios';
-import { fetchJsonFromApi } from '../src/API';
+import { fetchJsonFromApi, fetchPaginatedJsonFromApi, parseLinkHeader } from '../src/API';
+import { RateLimitError } from '../src/httpClient';
+import { getAuthScope, getCachedResponse, isCacheEnabled, refreshCachedResponse, storeCachedResponse } from '../src/cache';
 import { logMessage } from '../src/logFile';
 import * as dotenv from 'dotenv';
 
@@ -7,6 +9,7 @@ import * as dotenv from 'dotenv';
 jest.mock('axios');
 jest.mock('../src/logFile');
 jest.mock('dotenv');
+jest.mock('../src/cache');
 
 describe('fetchJsonFromApi', () => {
   beforeEach(() => {
@@ -90,6 +93,13 @@ describe('fetchJsonFromApi', () => {
     ]);
   });
 
+  it('should keep the HTTP status and error code of a failed request', async () => {
+    const mockError = Object.assign(new Error('Request failed with status code 404'), { code: 'ERR_BAD_REQUEST', response: { status: 404, headers: {} } });
+    (axios.get as jest.Mock).mockRejectedValue(mockError);
+
+    await expect(fetchJsonFromApi('https://api.github.com/repos/example/missing')).rejects.toMatchObject({ status: 404, code: 'ERR_BAD_REQUEST' });
+  });
+
   it('should fetch without Authorization header when GITHUB_TOKEN is not available', async () => {
     const apiLink = 'https://api.github.com/repos/example/repo';
     const mockResponse = { data: { id: 123, name: 'example-repo' } };
@@ -115,4 +125,160 @@ describe('fetchJsonFromApi', () => {
       'Proceeding without authorization token.',
     ]);
   });
-});
\ No newline at end of file
+});
+
+describe('fetchJsonFromApi rate limits', () => {
+  it('should surface a RateLimitError even for the license endpoint', async () => {
+    // A separate host keeps the exhausted budget from affecting other tests
+    const apiLink = 'https://ratelimited.example.com/repos/example/repo/license';
+    const reset = Math.floor(Date.now() / 1000) + 3600;
+
+    (axios.get as jest.Mock).mockRejectedValue({
+      message: 'Request failed with status code 403',
+      response: { status: 403, headers: { 'x-ratelimit-remaining': '0', 'x-ratelimit-reset': String(reset) }, data: {} },
+    });
+
+    await expect(fetchJsonFromApi(apiLink)).rejects.toBeInstanceOf(RateLimitError);
+  });
+});
+
+describe('fetchJsonFromApi caching', () => {
+  const apiLink = 'https://api.github.com/repos/example/repo';
+  const cachedEntry = {
+    url: apiLink,
+    scope: 'token:abc',
+    body: { id: 123, cached: true },
+    etag: '"etag-1"',
+    lastModified: null,
+    link: null,
+    fetchedAt: 0,
+    expiresAt: 0,
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (axios.get as jest.Mock).mockReset();
+    (isCacheEnabled as jest.Mock).mockReturnValue(true);
+    (getAuthScope as jest.Mock).mockReturnValue('token:abc');
+    process.env.GITHUB_TOKEN = 'mocked_token';
+  });
+
+  afterAll(() => {
+    (isCacheEnabled as jest.Mock).mockReturnValue(undefined);
+  });
+
+  it('should serve a fresh cached response without a request', async () => {
+    (getCachedResponse as jest.Mock).mockResolvedValue({ ...cachedEntry, expiresAt: Date.now() + 60000 });
+
+    const result = await fetchJsonFromApi(apiLink);
+
+    expect(result).toEqual(cachedEntry.body);
+    expect(axios.get).not.toHaveBeenCalled();
+  });
+
+  it('should revalidate a stale entry with If-None-Match and reuse it on 304', async () => {
+    (getCachedResponse as jest.Mock).mockResolvedValue(cachedEntry);
+    (axios.get as jest.Mock).mockRejectedValue({ message: 'Not Modified', response: { status: 304, headers: {} } });
+
+    const result = await fetchJsonFromApi(apiLink);
+
+    expect(result).toEqual(cachedEntry.body);
+    expect(axios.get).toHaveBeenCalledWith(apiLink, {
+      headers: {
+        'Accept': 'application/vnd.github.v3+json',
+        'Authorization': 'token mocked_token',
+        'If-None-Match': '"etag-1"',
+      },
+    });
+    expect(refreshCachedResponse).toHaveBeenCalledWith(apiLink, 'token:abc');
+    expect(storeCachedResponse).not.toHaveBeenCalled();
+  });
+
+  it('should store a new response on a cache miss', async () => {
+    (getCachedResponse as jest.Mock).mockResolvedValue(undefined);
+    (axios.get as jest.Mock).mockResolvedValue({ status: 200, data: { id: 1 }, headers: { etag: '"etag-2"' } });
+
+    const result = await fetchJsonFromApi(apiLink);
+
+    expect(result).toEqual({ id: 1 });
+    expect(storeCachedResponse).toHaveBeenCalledWith(apiLink, 'token:abc', { id: 1 }, { etag: '"etag-2"' });
+  });
+
+  it('should fall back to the network when the cache cannot be read', async () => {
+    (getCachedResponse as jest.Mock).mockRejectedValue(new Error('SQLITE_CANTOPEN'));
+    (axios.get as jest.Mock).mockResolvedValue({ status: 200, data: { id: 1 }, headers: {} });
+
+    const result = await fetchJsonFromApi(apiLink);
+
+    expect(result).toEqual({ id: 1 });
+  });
+});
+
+describe('parseLinkHeader', () => {
+  it('should map each relation to its URL', () => {
+    const header = '<https://api.github.com/repositories/1/issues?page=2>; rel="next", ' +
+      '<https://api.github.com/repositories/1/issues?page=5>; rel="last"';
+
+    expect(parseLinkHeader(header)).toEqual({
+      next: 'https://api.github.com/repositories/1/issues?page=2',
+      last: 'https://api.github.com/repositories/1/issues?page=5',
+    });
+  });
+
+  it('should return an empty map when the header is missing', () => {
+    expect(parseLinkHeader(undefined)).toEqual({});
+  });
+});
+
+describe('fetchPaginatedJsonFromApi', () => {
+  const apiLink = 'https://api.github.com/repos/example/repo/issues?state=closed';
+  const pageLink = (page: number) => `https://api.github.com/repos/example/repo/issues?state=closed&per_page=100&page=${page}`;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (axios.get as jest.Mock).mockReset();
+    process.env.GITHUB_TOKEN = 'mocked_token';
+  });
+
+  it('should follow rel="next" links and concatenate every page', async () => {
+    (axios.get as jest.Mock)
+      .mockResolvedValueOnce({ data: [{ id: 1 }, { id: 2 }], headers: { link: `<${pageLink(2)}>; rel="next"` } })
+      .mockResolvedValueOnce({ data: [{ id: 3 }], headers: {} });
+
+    const result = await fetchPaginatedJsonFromApi(apiLink);
+
+    expect(result).toEqual({ data: [{ id: 1 }, { id: 2 }, { id: 3 }], pages: 2, truncated: false });
+    expect(axios.get).toHaveBeenNthCalledWith(1, 'https://api.github.com/repos/example/repo/issues?state=closed&per_page=100', {
+      headers: {
+        'Accept': 'application/vnd.github.v3+json',
+        'Authorization': 'token mocked_token',
+      },
+    });
+    expect(axios.get).toHaveBeenNthCalledWith(2, pageLink(2), expect.any(Object));
+  });
+
+  it('should stop at the page cap and report the result as truncated', async () => {
+    (axios.get as jest.Mock)
+      .mockResolvedValueOnce({ data: [{ id: 1 }], headers: { link: `<${pageLink(2)}>; rel="next"` } })
+      .mockResolvedValueOnce({ data: [{ id: 2 }], headers: { link: `<${pageLink(3)}>; rel="next"` } });
+
+    const result = await fetchPaginatedJsonFromApi(apiLink, 2);
+
+    expect(result).toEqual({ data: [{ id: 1 }, { id: 2 }], pages: 2, truncated: true });
+    expect(axios.get).toHaveBeenCalledTimes(2);
+  });
+
+  it('should keep an explicit per_page value', async () => {
+    (axios.get as jest.Mock).mockResolvedValueOnce({ data: [], headers: {} });
+
+    await fetchPaginatedJsonFromApi('https://api.github.com/repos/example/repo/contributors?per_page=50');
+
+    expect(axios.get).toHaveBeenCalledWith('https://api.github.com/repos/example/repo/contributors?per_page=50', expect.any(Object));
+  });
+
+  it('should throw when a page request fails', async () => {
+    (axios.get as jest.Mock).mockRejectedValue(new Error('Request failed'));
+
+    await expect(fetchPaginatedJsonFromApi(apiLink)).rejects.toThrow('API request failed: Request failed');
+  });
+});
@@ -1,78 +1,202 @@
-import { getBusFactor } from '../src/metrics/busFactor';
-import { fetchJsonFromApi } from '../src/API';
-import { getGitHubAPILink, getContributionCounts } from '../src/githubData';
+import { getBusFactor, getKeyAuthors, groupCommitAuthors } from '../src/metrics/busFactor';
 import { getTimestampWithThreeDecimalPlaces } from '../src/metrics/getLatency';
-import { logMessage } from '../src/logFile';
+import { getDefaultConfig, ScoreConfig } from '../src/config';
+import { Commit } from '../src/providers/provider';
+import { RepoContext } from '../src/repoContext';
 
 // Mock dependencies
-jest.mock('../src/API');
-jest.mock('../src/githubData');
 jest.mock('../src/metrics/getLatency');
 jest.mock('../src/logFile');
 
+// Builds a commit by an author given as a login, or as a name and email without an account
+function commit(sha: string, author: { login?: string, name?: string, email?: string }): Commit {
+  return { sha, date: '2024-09-01T00:00:00Z', authorLogin: author.login ?? null, authorName: author.name ?? author.login ?? null, authorEmail: author.email ?? null };
+}
+
+// Builds a context serving a commit history and the files of each commit
+function makeContext(commits: Commit[], options: { truncated?: boolean, files?: Record<string, string[]>, subdirectory?: string } = {}): RepoContext {
+  return {
+    url: 'https://github.com/example/repo',
+    subdirectory: options.subdirectory ?? null,
+    getCommits: jest.fn().mockResolvedValue({ data: commits, truncated: options.truncated ?? false }),
+    getCommitFiles: jest.fn().mockImplementation(async (sha: string) => options.files?.[sha] ?? null),
+  } as unknown as RepoContext;
+}
+
+// Builds a history where each author made the given number of commits
+function history(counts: Record<string, number>): Commit[] {
+  return Object.entries(counts).flatMap(([login, count]) => Array.from({ length: count }, (_, index) => commit(`${login}${index}`, { login })));
+}
+
 describe('getBusFactor', () => {
   const mockURL = 'https://github.com/example/repo';
-  const mockContributorData = [
-    { commits: 50 },
-    { commits: 30 },
-    { commits: 20 }
-  ];
+  const now = new Date('2024-10-19T15:00:00Z');
 
   beforeEach(() => {
     jest.clearAllMocks();
+    (getTimestampWithThreeDecimalPlaces as jest.Mock).mockReturnValueOnce(1000).mockReturnValueOnce(1005);
   });
 
-  it('should return 0 if no contributor data is fetched', async () => {
-    (getGitHubAPILink as jest.Mock).mockReturnValue('https://api.github.com/repos/example/repo/contributors');
-    (fetchJsonFromApi as jest.Mock).mockResolvedValue([]);
-    (getContributionCounts as jest.Mock).mockReturnValue([]);
-    (getTimestampWithThreeDecimalPlaces as jest.Mock).mockReturnValueOnce(1000).mockReturnValueOnce(1005);
+  it('should return 0 if no commits were made in the window', async () => {
+    const context = makeContext([]);
 
-    const result = await getBusFactor(mockURL);
+    const result = await getBusFactor(mockURL, context, getDefaultConfig(), now);
 
     expect(result.score).toEqual(0);
     expect(result.latency).toEqual(5); // Latency of 5ms (1005 - 1000)
-    expect(getGitHubAPILink).toHaveBeenCalledWith(mockURL, 'contributors');
-    expect(fetchJsonFromApi).toHaveBeenCalledWith('https://api.github.com/repos/example/repo/contributors');
+    expect(result.details).toEqual({ People: 0 });
+    expect(result.explanation?.reasoning).toBe('No commits by people were made since 2023-10-19, so the score is 0.');
+    expect(context.getCommits).toHaveBeenCalledWith('2023-10-19T00:00:00.000Z');
   });
 
-  it('should return correct Bus Factor for contributors', async () => {
-    const adjustedContributorData = [
-      { commits: 90 }, // First contributor does most of the work
-      { commits: 5 },  // Second contributor
-      { commits: 5 }   // Third contributor
-    ];
-  
-    (getGitHubAPILink as jest.Mock).mockReturnValue('https://api.github.com/repos/example/repo/contributors');
-    (fetchJsonFromApi as jest.Mock).mockResolvedValue(adjustedContributorData);
-    (getContributionCounts as jest.Mock).mockReturnValue([90, 5, 5]);
-    (getTimestampWithThreeDecimalPlaces as jest.Mock).mockReturnValueOnce(1000).mockReturnValueOnce(1005);
-  
-    const result = await getBusFactor(mockURL);
-  
-    expect(result.score).toBeCloseTo(0.3, 1); // Bus factor is now 0.3 because the first contributor is enough
-    expect(result.latency).toEqual(5); // Latency of 5ms (1005 - 1000)
-    expect(getGitHubAPILink).toHaveBeenCalledWith(mockURL, 'contributors');
-    expect(fetchJsonFromApi).toHaveBeenCalledWith('https://api.github.com/repos/example/repo/contributors');
+  it('should round the latency to three decimals when no commits were made', async () => {
+    (getTimestampWithThreeDecimalPlaces as jest.Mock).mockReset().mockReturnValueOnce(1000).mockReturnValueOnce(1000.1234);
+
+    const result = await getBusFactor(mockURL, makeContext([]), getDefaultConfig(), now);
+
+    expect(result.latency).toBe(0.123);
   });
 
-  it('should handle a single contributor with all commits', async () => {
-    (getGitHubAPILink as jest.Mock).mockReturnValue('https://api.github.com/repos/example/repo/contributors');
-    (fetchJsonFromApi as jest.Mock).mockResolvedValue([{ commits: 100 }]);
-    (getContributionCounts as jest.Mock).mockReturnValue([100]);
-    (getTimestampWithThreeDecimalPlaces as jest.Mock).mockReturnValueOnce(1000).mockReturnValueOnce(1005);
+  it('should count the people who made half of the commits', async () => {
+    const context = makeContext(history({ alice: 5, bob: 3, carol: 2 }));
 
-    const result = await getBusFactor(mockURL);
+    const result = await getBusFactor(mockURL, context, getDefaultConfig(), now);
 
-    expect(result.score).toEqual(0); // Only one contributor, Bus Factor is 0
-    expect(result.latency).toEqual(5); // Latency of 5ms (1005 - 1000)
+    expect(result.score).toBe(0.2);
+    expect(result.details).toEqual({ People: 1 });
+    expect(result.explanation).toMatchObject({
+      inputs: { since: '2023-10-19', commits: 10, botCommits: 0, authors: 3 },
+      intermediate: { busFactor: 1, keyContributors: 'alice', keyContributorShare: 0.5 },
+      thresholds: { commitShare: 0.5, windowMonths: 12, target: 5, fileOwnership: false },
+      complete: true,
+      reasoning: 'The top 1 of 3 authors made 50% of the 10 commits since 2023-10-19, so the bus factor is 1 and the score is 1/5, or 0.2.',
+    });
+    expect(result.explanation?.inputs.topContributors).toEqual([
+      expect.objectContaining({ login: 'alice', commits: 5, share: 0.5 }),
+      expect.objectContaining({ login: 'bob', commits: 3, share: 0.3 }),
+      expect.objectContaining({ login: 'carol', commits: 2, share: 0.2 }),
+    ]);
+  });
+
+  it('should merge aliases and leave out bots', async () => {
+    const context = makeContext([
+      commit('1', { login: 'alice', name: 'Alice Doe', email: 'alice@example.com' }),
+      commit('2', { name: 'Alice D.', email: 'Alice@Example.com' }),
+      commit('3', { name: 'Alice Doe', email: '123+alice@users.noreply.github.com' }),
+      commit('4', { login: 'bob' }),
+      commit('5', { login: 'bob' }),
+      commit('6', { login: 'carol' }),
+      commit('7', { login: 'carol' }),
+      commit('8', { login: 'dependabot[bot]' }),
+      commit('9', { name: 'renovate-bot', email: 'bot@renovateapp.com' }),
+    ]);
+
+    const result = await getBusFactor(mockURL, context, getDefaultConfig(), now);
+
+    expect(result.score).toBe(0.4);
+    expect(result.explanation?.inputs).toMatchObject({ commits: 7, botCommits: 2, authors: 3 });
+    expect(result.explanation?.inputs.topContributors).toContainEqual({
+      login: 'alice',
+      aliases: '123+alice@users.noreply.github.com, Alice D., Alice Doe, Alice@Example.com, alice, alice@example.com',
+      commits: 3,
+      share: 0.429,
+    });
+  });
+
+  it('should use the configured window, share, target and bots', async () => {
+    const config: ScoreConfig = getDefaultConfig();
+    config.busFactor = { ...config.busFactor, windowMonths: 3, commitShare: 0.9, target: 2, bots: ['carol'] };
+    const context = makeContext(history({ alice: 5, bob: 3, carol: 2, dan: 1 }));
+
+    const result = await getBusFactor(mockURL, context, config, now);
+
+    expect(context.getCommits).toHaveBeenCalledWith('2024-07-19T00:00:00.000Z');
+    expect(result.score).toBe(1);
+    expect(result.details).toEqual({ People: 3 });
+    expect(result.explanation?.reasoning).toBe('The top 3 of 3 authors made 100% of the 9 commits since 2024-07-19, so the bus factor is 3 and the score is 3/2 capped at 1, or 1.');
+  });
+
+  it('should count the files each author owns with file ownership', async () => {
+    const config: ScoreConfig = getDefaultConfig();
+    config.busFactor.fileOwnership = true;
+    const commits = history({ alice: 4, bob: 1, carol: 1, dan: 1 });
+    const files = Object.fromEntries(commits.map(({ sha }) => [sha, sha.startsWith('alice') ? ['src/a.ts'] : [`src/${sha}.ts`]]));
+    const context = makeContext(commits, { files });
+
+    const result = await getBusFactor(mockURL, context, config, now);
+
+    expect(result.score).toBe(0.4);
+    expect(result.explanation).toMatchObject({
+      inputs: { files: 4 },
+      intermediate: { busFactor: 2, keyContributors: 'alice, bob' },
+      complete: true,
+      reasoning: 'The top 2 of 4 authors own 50% of the 4 files changed since 2023-10-19, so the bus factor is 2 and the score is 2/5, or 0.4.',
+    });
+    expect(result.explanation?.inputs.topContributors).toContainEqual(expect.objectContaining({ login: 'alice', commits: 4, files: 1 }));
+    expect(context.getCommitFiles).toHaveBeenCalledTimes(7);
+  });
+
+  it('should only count files in the package directory', async () => {
+    const config: ScoreConfig = getDefaultConfig();
+    config.busFactor.fileOwnership = true;
+    const context = makeContext([commit('1', { login: 'alice' }), commit('2', { login: 'bob' })], {
+      subdirectory: 'packages/core',
+      files: { '1': ['packages/core/index.ts', 'README.md'], '2': ['packages/core/index.ts', 'packages/other/index.ts'] },
+    });
+
+    const result = await getBusFactor(mockURL, context, config, now);
+
+    expect(result.explanation?.inputs.files).toBe(1);
+    expect(result.details).toEqual({ People: 2 }); // Both authors own the only file
+  });
+
+  it('should mark truncated histories and unknown commit files as incomplete', async () => {
+    const config: ScoreConfig = getDefaultConfig();
+    config.busFactor.fileOwnership = true;
+    const truncated = await getBusFactor(mockURL, makeContext(history({ alice: 1 }), { truncated: true }), getDefaultConfig(), now);
+    const missingFiles = await getBusFactor(mockURL, makeContext(history({ alice: 2 }), { files: { alice0: ['a.ts'] } }), config, now);
+
+    expect(truncated.explanation?.complete).toBe(false);
+    expect(missingFiles.explanation?.complete).toBe(false);
   });
 
   it('should handle errors gracefully', async () => {
-    (getGitHubAPILink as jest.Mock).mockReturnValue('https://api.github.com/repos/example/repo/contributors');
-    (fetchJsonFromApi as jest.Mock).mockRejectedValue(new Error('API Error'));
-    (getTimestampWithThreeDecimalPlaces as jest.Mock).mockReturnValueOnce(1000).mockReturnValueOnce(1005);
+    const context = makeContext([]);
+    (context.getCommits as jest.Mock).mockRejectedValue(new Error('API Error'));
+
+    await expect(getBusFactor(mockURL, context, getDefaultConfig(), now)).rejects.toThrow('API Error');
+  });
+});
+
+describe('groupCommitAuthors', () => {
+  it('should join authors through a shared login or email', () => {
+    const authors = groupCommitAuthors([
+      commit('1', { name: 'Sam', email: 'sam@home.com' }),
+      commit('2', { name: 'Sam S.', email: 'sam@home.com' }),
+      commit('3', { login: 'samdev', email: 'sam@home.com' }),
+      commit('4', { name: 'Kim', email: 'kim@example.com' }),
+    ]);
+
+    expect(authors.map(author => [author.name, author.commits.length])).toEqual([['samdev', 3], ['Kim', 1]]);
+  });
+
+  it('should keep apart different people who share a name', () => {
+    const authors = groupCommitAuthors([
+      commit('1', { name: 'John Smith', email: 'john@work.com' }),
+      commit('2', { name: 'John Smith', email: 'jsmith@example.org' }),
+      commit('3', { login: 'jsmith', name: 'John Smith' }),
+      commit('4', { name: 'John Smith' }),
+      commit('5', { name: 'john smith' }),
+    ]);
+
+    expect(authors.map(author => author.commits.map(commit => commit.sha))).toEqual([['4', '5'], ['1'], ['2'], ['3']]);
+  });
+});
 
-    await expect(getBusFactor(mockURL)).rejects.toThrow('API Error');
+describe('getKeyAuthors', () => {
+  it('should remove the authors owning the most items until the share is orphaned', () => {
+    expect(getKeyAuthors([['a'], ['a'], ['b'], ['c']], 0.5)).toEqual({ people: ['a'], orphanedShare: 0.5 });
+    expect(getKeyAuthors([['a', 'b'], ['a'], ['b']], 0.5)).toEqual({ people: ['a', 'b'], orphanedShare: 1 });
+    expect(getKeyAuthors([], 0.5)).toEqual({ people: [], orphanedShare: 0 });
   });
-});
\ No newline at end of file
+});
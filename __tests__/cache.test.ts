@@ -0,0 +1,104 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  clearCache, closeCache, getAuthScope, getCachedResponse, getCacheFilePath, getCacheStats, getCacheTTL,
+  refreshCachedResponse, storeCachedResponse
+} from '../src/cache';
+
+jest.mock('../src/logFile');
+
+describe('SQLite response cache', () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'cache-test-'));
+    process.env.CACHE_FILE = path.join(tempDir, 'cache.sqlite');
+  });
+
+  afterEach(async () => {
+    await closeCache();
+    delete process.env.CACHE_FILE;
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should store and return responses with their validators', async () => {
+    const url = 'https://api.github.com/repos/owner/repo';
+    await storeCachedResponse(url, 'anonymous', { size: 42 }, { etag: '"abc"', 'last-modified': 'Mon, 01 Jan 2024 00:00:00 GMT' });
+
+    const cached = await getCachedResponse(url, 'anonymous');
+
+    expect(cached).toMatchObject({
+      url,
+      scope: 'anonymous',
+      body: { size: 42 },
+      etag: '"abc"',
+      lastModified: 'Mon, 01 Jan 2024 00:00:00 GMT',
+      link: null,
+    });
+    expect(cached!.expiresAt - cached!.fetchedAt).toBe(getCacheTTL(url) * 1000);
+  });
+
+  it('should keep entries for different auth scopes apart', async () => {
+    const url = 'https://api.github.com/repos/owner/repo';
+    await storeCachedResponse(url, getAuthScope('token-a'), { private: true }, {});
+
+    expect(await getCachedResponse(url, getAuthScope('token-b'))).toBeUndefined();
+    expect(await getCachedResponse(url, getAuthScope(undefined))).toBeUndefined();
+    expect(await getCachedResponse(url, getAuthScope('token-a'))).toMatchObject({ body: { private: true } });
+  });
+
+  it('should renew the expiry of revalidated entries', async () => {
+    const url = 'https://api.github.com/repos/owner/repo/issues?state=open&per_page=100';
+    await storeCachedResponse(url, 'anonymous', [], { link: '<https://next>; rel="next"' });
+    const before = await getCachedResponse(url, 'anonymous');
+
+    await new Promise(resolve => setTimeout(resolve, 5));
+    await refreshCachedResponse(url, 'anonymous');
+    const after = await getCachedResponse(url, 'anonymous');
+
+    expect(after!.expiresAt).toBeGreaterThan(before!.expiresAt);
+    expect(after!.link).toBe('<https://next>; rel="next"');
+  });
+
+  it('should report statistics and clear every entry', async () => {
+    await storeCachedResponse('https://registry.npmjs.org/express', 'anonymous', {}, {});
+    await storeCachedResponse('https://api.github.com/repos/owner/repo', 'anonymous', {}, {});
+
+    const stats = await getCacheStats();
+    expect(stats).toMatchObject({ path: process.env.CACHE_FILE, entries: 2, fresh: 2, stale: 0 });
+    expect(stats.sizeBytes).toBeGreaterThan(0);
+
+    expect(await clearCache()).toBe(2);
+    expect((await getCacheStats()).entries).toBe(0);
+  });
+
+  it('should keep the database in the user cache directory unless CACHE_FILE is set', () => {
+    const xdgCacheHome = process.env.XDG_CACHE_HOME;
+    process.env.XDG_CACHE_HOME = tempDir;
+    try {
+      expect(getCacheFilePath()).toBe(process.env.CACHE_FILE);
+      delete process.env.CACHE_FILE;
+      expect(getCacheFilePath()).toBe(path.join(tempDir, 'pkgscore', 'cache.sqlite'));
+      delete process.env.XDG_CACHE_HOME;
+      expect(getCacheFilePath()).toBe(path.join(os.homedir(), '.cache', 'pkgscore', 'cache.sqlite'));
+    } finally {
+      if (xdgCacheHome === undefined) {
+        delete process.env.XDG_CACHE_HOME;
+      } else {
+        process.env.XDG_CACHE_HOME = xdgCacheHome;
+      }
+    }
+  });
+
+  it('should use per-endpoint time-to-live values', () => {
+    expect(getCacheTTL('https://api.github.com/repos/owner/repo/issues?state=open')).toBe(3600);
+    expect(getCacheTTL('https://api.github.com/repos/owner/repo/issues/comments?since=2025-01-01T00%3A00%3A00.000Z')).toBe(3600);
+    expect(getCacheTTL(`https://api.github.com/repos/owner/repo/commits/${'a'.repeat(40)}/check-runs?per_page=100`)).toBe(3600);
+    expect(getCacheTTL('https://api.github.com/repos/owner/repo/license')).toBe(7 * 24 * 3600);
+    expect(getCacheTTL('https://registry.npmjs.org/express')).toBe(24 * 3600);
+    expect(getCacheTTL('https://api.github.com/repos/owner/repo/commits?since=2025-01-01T00%3A00%3A00.000Z')).toBe(24 * 3600);
+    expect(getCacheTTL(`https://api.github.com/repos/owner/repo/commits/${'a'.repeat(40)}`)).toBe(30 * 24 * 3600);
+    expect(getCacheTTL('https://api.github.com/repos/owner/repo')).toBe(6 * 3600);
+  });
+});
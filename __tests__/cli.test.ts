@@ -0,0 +1,130 @@
+import { CliError, getMetricOptionNames, getUsage, parseArgs, parseMetrics } from '../src/cli';
+
+describe('parseArgs', () => {
+  it('should score a lone URL file, as before commands existed', () => {
+    expect(parseArgs(['urls.txt'])).toMatchObject({ command: 'score', file: 'urls.txt', repos: [], metrics: null, output: 'json', latency: null });
+  });
+
+  it('should parse score with a file or repeated --repo options', () => {
+    expect(parseArgs(['score', 'urls.txt', '--output', 'yaml'])).toMatchObject({ command: 'score', file: 'urls.txt', output: 'yaml' });
+    expect(parseArgs(['score', '--repo', 'https://github.com/a/b', '--repo=https://www.npmjs.com/package/c', '-o', 'text'])).toMatchObject({
+      command: 'score',
+      file: null,
+      repos: ['https://github.com/a/b', 'https://www.npmjs.com/package/c'],
+      output: 'text',
+    });
+  });
+
+  it('should accept format aliases and the latency flags', () => {
+    expect(parseArgs(['score', 'urls.txt', '-o', 'md', '--latency'])).toMatchObject({ output: 'markdown', latency: true });
+    expect(parseArgs(['score', 'urls.txt', '--output=csv', '--no-latency'])).toMatchObject({ output: 'csv', latency: false });
+  });
+
+  it('should parse a report format and path', () => {
+    expect(parseArgs(['urls.txt']).report).toBeNull();
+    expect(parseArgs(['score', 'urls.txt', '--report', 'html', 'out/report.html'])).toMatchObject({ file: 'urls.txt', report: { format: 'html', path: 'out/report.html' } });
+    expect(parseArgs(['--report=html', 'report.html', 'urls.txt']).report).toEqual({ format: 'html', path: 'report.html' });
+  });
+
+  it('should add explanations to JSON output with --explain', () => {
+    expect(parseArgs(['urls.txt']).explain).toBe(false);
+    expect(parseArgs(['score', 'urls.txt', '--explain'])).toMatchObject({ explain: true, output: 'json' });
+  });
+
+  it('should take a config file for score, explain and doctor', () => {
+    expect(parseArgs(['urls.txt']).config).toBeNull();
+    expect(parseArgs(['score', 'urls.txt', '--config', 'team.yml']).config).toBe('team.yml');
+    expect(parseArgs(['doctor', '--config=team.yml']).config).toBe('team.yml');
+  });
+
+  it('should parse the concurrency, progress and thread options', () => {
+    expect(parseArgs(['urls.txt'])).toMatchObject({ concurrency: null, progress: null, threads: false });
+    expect(parseArgs(['score', 'urls.txt', '--concurrency', '8', '--no-progress', '--threads'])).toMatchObject({ concurrency: 8, progress: false, threads: true });
+    expect(parseArgs(['explain', 'https://github.com/a/b', '--threads']).threads).toBe(true);
+  });
+
+  it('should parse the output file, order and resume options', () => {
+    expect(parseArgs(['urls.txt'])).toMatchObject({ out: null, order: 'input', resume: false });
+    expect(parseArgs(['score', 'urls.txt', '--out', 'results.ndjson', '--order=completion', '--resume'])).toMatchObject({ out: 'results.ndjson', order: 'completion', resume: true });
+  });
+
+  it('should take a policy file and a JUnit report for score', () => {
+    expect(parseArgs(['urls.txt']).policy).toBeNull();
+    expect(parseArgs(['score', 'urls.txt', '--policy', 'policy.yml', '--report', 'junit', 'results.xml'])).toMatchObject({ policy: 'policy.yml', report: { format: 'junit', path: 'results.xml' } });
+  });
+
+  it('should keep --metrics to resolve once plugins are loaded', () => {
+    expect(parseArgs(['score', 'urls.txt', '--metrics', 'license,BusFactor,ramp_up']).metrics).toBe('license,BusFactor,ramp_up');
+  });
+
+  it('should parse explain, cache, doctor and the global flags', () => {
+    expect(parseArgs(['explain', 'https://github.com/a/b', '-m', 'license'])).toMatchObject({ command: 'explain', repos: ['https://github.com/a/b'], metrics: 'license' });
+    expect(parseArgs(['cache', 'clear'])).toMatchObject({ command: 'cache', cacheAction: 'clear' });
+    expect(parseArgs(['--cache-stats'])).toMatchObject({ command: 'cache', cacheAction: 'stats' });
+    expect(parseArgs(['doctor', '--no-cache'])).toMatchObject({ command: 'doctor', cache: false });
+    expect(parseArgs(['--replay', 'urls.txt'])).toMatchObject({ command: 'score', httpMode: 'replay' });
+  });
+
+  it('should turn --help into the help of the command', () => {
+    expect(parseArgs(['--help'])).toMatchObject({ command: 'help', helpTopic: null });
+    expect(parseArgs(['score', '-h'])).toMatchObject({ command: 'help', helpTopic: 'score' });
+    expect(parseArgs(['help', 'cache'])).toMatchObject({ command: 'help', helpTopic: 'cache' });
+    expect(getUsage('cache')).toContain('run cache stats');
+    expect(getUsage()).toContain('Commands:');
+  });
+
+  it.each([
+    [[], 'Missing command. Run with --help for usage.'],
+    [['score'], 'score needs a URL file or --repo <url>.'],
+    [['a.txt', 'b.txt'], 'score takes one URL file, got 2 arguments: a.txt b.txt.'],
+    [['score', 'a.txt', '--repo', 'https://github.com/a/b'], 'Give either a URL file or --repo, not both.'],
+    [['score', 'a.txt', '--output', 'xml'], 'Unknown output format: xml. Valid formats: json, yaml, csv, markdown, text.'],
+    [['score', 'a.txt', '--report', 'pdf', 'r.pdf'], 'Unknown report format: pdf. Valid formats: html, junit.'],
+    [['score', 'a.txt', '--report', 'html'], 'Option --report needs a format and a path, as in `--report html report.html`.'],
+    [['explain', 'https://github.com/a/b', '--report', 'html', 'r.html'], 'Option --report is only valid for score.'],
+    [['score', 'a.txt', '--explain', '-o', 'csv'], 'Option --explain only works with --output json, not csv.'],
+    [['explain', 'https://github.com/a/b', '--explain'], 'Option --explain is only valid for score.'],
+    [['explain', 'https://github.com/a/b', '--policy', 'p.yml'], 'Option --policy is only valid for score.'],
+    [['score', 'a.txt', '--order', 'random'], 'Unknown order: random. Valid orders: input, completion.'],
+    [['score', 'a.txt', '--resume'], 'Option --resume needs --out <path>, the file to resume.'],
+    [['score', 'a.txt', '--out', 'r.csv', '-o', 'csv', '--resume'], 'Option --resume only works with --output json, not csv.'],
+    [['score', 'a.txt', '--concurrency', '0'], 'Option --concurrency needs a whole number of at least 1, got 0.'],
+    [['score', 'a.txt', '--progress', '--no-progress'], '--progress and --no-progress cannot be used together.'],
+    [['explain', 'https://github.com/a/b', '--concurrency=2'], 'Option --concurrency is only valid for score.'],
+    [['score', 'a.txt', '--latency', '--no-latency'], '--latency and --no-latency cannot be used together.'],
+    [['explain', 'https://github.com/a/b', '--no-latency'], 'Option --no-latency is only valid for score.'],
+    [['score', 'a.txt', '--output'], 'Option --output needs a value.'],
+    [['score', 'a.txt', '--parallel'], 'Unknown option: --parallel. Run with --help for the list of options.'],
+    [['score', 'a.txt', '--no-cache=yes'], 'Option --no-cache does not take a value.'],
+    [['score', 'a.txt', '-o', 'json', '-o', 'yaml'], 'Option --output was given more than once.'],
+    [['score', 'a.txt', '--record', '--replay'], '--record and --replay cannot be used together.'],
+    [['explain'], 'explain takes exactly one URL, got 0.'],
+    [['explain', 'https://github.com/a/b', '--output', 'yaml'], 'Option --output is only valid for score.'],
+    [['cache'], 'cache needs an action: stats or clear.'],
+    [['cache', 'stats', '--config', 'team.yml'], 'Option --config is only valid for score, explain and doctor.'],
+    [['doctor', '--metrics', 'license'], 'Option --metrics is only valid for score and explain.'],
+    [['doctor', 'now'], 'doctor takes no arguments, got: now.'],
+    [['help', 'scroe'], 'Unknown command: scroe. Commands: score, explain, cache, doctor, help.'],
+    [['score', '--clear-cache'], 'Option --clear-cache cannot be combined with a command or URL; use `cache clear`.'],
+  ])('should reject %j', (argv, message) => {
+    expect(() => parseArgs(argv)).toThrow(new CliError(message));
+  });
+});
+
+describe('parseMetrics', () => {
+  it('should select metrics in calculation order', () => {
+    expect(parseMetrics('license,BusFactor,ramp_up')).toEqual(['RampUp', 'BusFactor', 'License']);
+    expect(getMetricOptionNames()).toEqual(['ramp-up', 'correctness', 'bus-factor', 'responsive-maintainer', 'license']);
+  });
+
+  it('should accept every spelling of a metric name once', () => {
+    expect(parseMetrics('Responsive-Maintainer, responsivemaintainer ,correctness')).toEqual(['Correctness', 'ResponsiveMaintainer']);
+  });
+
+  it.each([
+    ['security', 'Unknown metric: security. Valid metrics: ramp-up, correctness, bus-factor, responsive-maintainer, license.'],
+    [',', '--metrics needs at least one metric name.'],
+  ])('should reject %j', (value, message) => {
+    expect(() => parseMetrics(value)).toThrow(new CliError(message));
+  });
+});
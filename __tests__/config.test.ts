@@ -0,0 +1,221 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  ConfigError,
+  findConfigFile,
+  getDefaultConfig,
+  getConfig,
+  getConfigHash,
+  getConfigSource,
+  loadConfig,
+  parseConfigText,
+  setConfig,
+  validateConfig,
+} from '../src/config';
+
+jest.mock('../src/logFile');
+
+describe('parseConfigText', () => {
+  it('should parse JSON', () => {
+    expect(parseConfigText('{ "weights": { "license": 1 } }', 'a')).toEqual({ weights: { license: 1 } });
+    expect(() => parseConfigText('{ "weights": ', 'a')).toThrow(/^a: invalid JSON/);
+  });
+
+  it('should parse nested YAML mappings with comments', () => {
+    const yaml = [
+      '# Team settings',
+      'weights:',
+      '  license: 0.5   # twice the default',
+      '  busFactor: .25',
+      '',
+      'rampUp:',
+      '  maxSizeKb: 1e5',
+      'correctness:',
+      "  note: 'quoted # not a comment'",
+    ].join('\n');
+
+    expect(parseConfigText(yaml, 'a')).toEqual({
+      weights: { license: 0.5, busFactor: 0.25 },
+      rampUp: { maxSizeKb: 100000 },
+      correctness: { note: 'quoted # not a comment' },
+    });
+  });
+
+  it('should parse quoted YAML keys', () => {
+    const yaml = ['exceptions:', '  "@scope/pkg":', '    expires: 2025-01-31', "  'https://github.com/a/b':", '    reason: fork'].join('\n');
+
+    expect(parseConfigText(yaml, 'a')).toEqual({ exceptions: { '@scope/pkg': { expires: '2025-01-31' }, 'https://github.com/a/b': { reason: 'fork' } } });
+  });
+
+  it('should parse SPDX license ids as keys', () => {
+    expect(parseConfigText('license:\n  compatibility:\n    Apache-2.0: 1\n    GPL-2.0+: 0', 'a')).toEqual({ license: { compatibility: { 'Apache-2.0': 1, 'GPL-2.0+': 0 } } });
+  });
+
+  it('should parse YAML lists', () => {
+    const yaml = ['plugins:', '  - ./metrics/security.js', "  - 'popularity.js'  # quoted", 'extra:', '- 1', 'weights:', '  license: 1'].join('\n');
+
+    expect(parseConfigText(yaml, 'a')).toEqual({ plugins: ['./metrics/security.js', 'popularity.js'], extra: [1], weights: { license: 1 } });
+  });
+
+  it('should reject lines that are not key-value pairs', () => {
+    expect(() => parseConfigText('weights:\n  license: 1\n  - busFactor', '.pkgscorerc')).toThrow(new ConfigError('.pkgscorerc, line 3: expected `key: value`.'));
+    expect(() => parseConfigText('plugins:\n  - a.js\n  b: 1', '.pkgscorerc')).toThrow(new ConfigError('.pkgscorerc, line 3: expected `- item`.'));
+    expect(() => parseConfigText('weights:\n\tlicense: 1', '.pkgscorerc')).toThrow(new ConfigError('.pkgscorerc, line 2: indent with spaces, not tabs.'));
+  });
+});
+
+describe('validateConfig', () => {
+  it('should use the defaults for an empty file', () => {
+    expect(validateConfig(null)).toEqual(getDefaultConfig());
+  });
+
+  it('should merge weights over the defaults and normalize them', () => {
+    const config = validateConfig({ weights: { license: 0.5, rampUp: 0.4 } });
+
+    // 0.5 + 0.25 + 0.25 + 0.2 + 0.4 = 1.6
+    expect(config.weights.License).toBeCloseTo(0.5 / 1.6);
+    expect(config.weights.RampUp).toBeCloseTo(0.25);
+    expect(Object.values(config.weights).reduce((sum, weight) => sum + weight, 0)).toBeCloseTo(1);
+  });
+
+  it('should set metric tunables', () => {
+    const config = validateConfig({ busFactor: { commitShare: 0.8 }, rampUp: { maxSizeKb: 1000 } });
+
+    expect(config.busFactor.commitShare).toBe(0.8);
+    expect(config.rampUp).toEqual({ maxSizeKb: 1000 });
+  });
+
+  it('should merge correctness weights over the defaults and set the bug labels', () => {
+    const config = validateConfig({ correctness: { weights: { ci: 0.5, resolution: 0 }, windowMonths: 3, bugLabels: ['defect'] } });
+
+    expect(config.correctness).toEqual({
+      weights: { tests: 0.25, ci: 0.5, bugs: 0.2, releaseBuild: 0.15, resolution: 0 },
+      windowMonths: 3,
+      bugLabels: ['defect'],
+    });
+  });
+
+  it('should set the bus factor window, bots and file ownership', () => {
+    const config = validateConfig({ busFactor: { windowMonths: 6, target: 3, bots: ['ci-*', '*[bot]'], fileOwnership: true } });
+
+    expect(config.busFactor).toEqual({ commitShare: 0.5, windowMonths: 6, target: 3, bots: ['ci-*', '*[bot]'], fileOwnership: true });
+  });
+
+  it('should set the responsiveness window, half-lives and bots', () => {
+    const config = validateConfig({ responsiveMaintainer: { windowMonths: 3, responseHalfLifeDays: 2, bots: ['ci-*'] } });
+
+    expect(config.responsiveMaintainer).toEqual({ windowMonths: 3, responseHalfLifeDays: 2, closeHalfLifeDays: 30, commitHalfLifeDays: 90, releaseHalfLifeDays: 180, bots: ['ci-*'] });
+  });
+
+  it('should set the missing-metric policy of the NetScore', () => {
+    expect(validateConfig(null).netScore.missingMetrics).toBe('renormalize');
+    expect(validateConfig({ netScore: { missingMetrics: 'zero' } }).netScore.missingMetrics).toBe('zero');
+  });
+
+  it('should merge license scores over the compatibility matrix', () => {
+    const config = validateConfig({ license: { compatibility: { 'Apache-2.0': 1, 'GPL-2.0+ WITH Classpath-exception-2.0': 0.8 }, unknown: 0.2 } });
+
+    expect(config.license.compatibility).toMatchObject({ 'MIT': 1, 'Apache-2.0': 1, 'GPL-2.0-or-later WITH Classpath-exception-2.0': 0.8, 'GPL-3.0-only': 0 });
+    expect(config.license.unknown).toBe(0.2);
+  });
+
+  it.each([
+    [[], 'a must contain a mapping.'],
+    [{ weight: {} }, 'a: unknown key weight. Valid keys: plugins, weights, netScore, busFactor, correctness, rampUp, responsiveMaintainer, license.'],
+    [{ weights: { security: 1 } }, 'a: unknown key weights.security. Valid keys: rampUp, correctness, busFactor, responsiveMaintainer, license.'],
+    [{ weights: { license: -1 } }, 'a: weights.license must be a number of at least 0, got -1.'],
+    [{ weights: { license: '20%' } }, 'a: weights.license must be a number of at least 0, got "20%".'],
+    [{ weights: { license: 0, busFactor: 0, correctness: 0, rampUp: 0, responsiveMaintainer: 0 } }, 'a: the weights add up to 0; give at least one metric a positive weight.'],
+    [{ busFactor: { commitShare: 95 } }, 'a: busFactor.commitShare must be a number from 0.01 to 1, got 95.'],
+    [{ busFactor: { windowMonths: 0 } }, 'a: busFactor.windowMonths must be a number from 1 to 120, got 0.'],
+    [{ busFactor: { bots: 'dependabot' } }, 'a: busFactor.bots must be a list of author patterns.'],
+    [{ busFactor: { fileOwnership: 'yes' } }, 'a: busFactor.fileOwnership must be true or false, got "yes".'],
+    [{ correctness: { maxOpenIssues: 150 } }, 'a: unknown key correctness.maxOpenIssues. Valid keys: windowMonths, weights, bugLabels.'],
+    [{ correctness: { weights: { coverage: 1 } } }, 'a: unknown key correctness.weights.coverage. Valid keys: tests, ci, bugs, releaseBuild, resolution.'],
+    [{ correctness: { weights: { ci: -1 } } }, 'a: correctness.weights.ci must be a number of at least 0, got -1.'],
+    [{ correctness: { weights: { tests: 0, ci: 0, bugs: 0, releaseBuild: 0, resolution: 0 } } }, 'a: the correctness weights add up to 0; give at least one signal a positive weight.'],
+    [{ correctness: { bugLabels: 'bug' } }, 'a: correctness.bugLabels must be a list of label patterns.'],
+    [{ responsiveMaintainer: { closeHalfLifeDays: 0 } }, 'a: responsiveMaintainer.closeHalfLifeDays must be a number of at least 0.01, got 0.'],
+    [{ responsiveMaintainer: { bots: [1] } }, 'a: responsiveMaintainer.bots must be a list of author patterns.'],
+    [{ busFactor: { aliases: {} } }, 'a: unknown key busFactor.aliases. Valid keys: commitShare, windowMonths, target, bots, fileOwnership.'],
+    [{ rampUp: { maxSizeKb: 0 } }, 'a: rampUp.maxSizeKb must be a number of at least 1, got 0.'],
+    [{ rampUp: 50000 }, 'a: rampUp must be a mapping.'],
+    [{ netScore: { missingMetrics: 'skip' } }, 'a: netScore.missingMetrics must be one of renormalize, zero, got "skip".'],
+    [{ license: { compatibility: { 'MIT OR ISC': 1 } } }, 'a: license.compatibility.MIT OR ISC must be keyed by one SPDX license id, optionally with WITH and an exception.'],
+    [{ license: { compatibility: { MIT: 2 } } }, 'a: license.compatibility.MIT must be a number from 0 to 1, got 2.'],
+    [{ license: { unknown: -1 } }, 'a: license.unknown must be a number from 0 to 1, got -1.'],
+  ])('should reject %j', (raw, message) => {
+    expect(() => validateConfig(raw, 'a')).toThrow(new ConfigError(message));
+  });
+});
+
+describe('loadConfig', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'config-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true });
+    setConfig(getDefaultConfig());
+  });
+
+  it('should find the config file in a parent directory', () => {
+    fs.mkdirSync(path.join(dir, 'a', 'b'), { recursive: true });
+    fs.writeFileSync(path.join(dir, '.pkgscorerc'), '{}');
+
+    expect(findConfigFile(path.join(dir, 'a', 'b'))).toBe(path.join(dir, '.pkgscorerc'));
+  });
+
+  it('should load a config file and record its hash', () => {
+    const file = path.join(dir, 'team.yml');
+    fs.writeFileSync(file, 'rampUp:\n  maxSizeKb: 10000\n');
+    const defaultHash = getConfigHash();
+
+    const config = loadConfig(file);
+
+    expect(config.rampUp.maxSizeKb).toBe(10000);
+    expect(getConfig()).toBe(config);
+    expect(getConfigSource()).toBe(file);
+    expect(getConfigHash()).toMatch(/^[0-9a-f]{12}$/);
+    expect(getConfigHash()).not.toBe(defaultHash);
+  });
+
+  it('should hash plugins by their path from the config file', () => {
+    const onMachine = (root: string) => {
+      setConfig({ ...getDefaultConfig(), plugins: [path.join(root, 'team', 'metrics', 'security.js')] }, path.join(root, 'team', '.pkgscorerc'));
+      return getConfigHash();
+    };
+
+    const hash = onMachine(path.join(dir, 'alice'));
+
+    expect(onMachine(path.join(dir, 'bob'))).toBe(hash);
+    setConfig(getDefaultConfig());
+  });
+
+  it('should load the metric modules listed under plugins', () => {
+    fs.writeFileSync(path.join(dir, 'security.js'), "exports.metric = { name: 'Security', description: 'Open advisories.', dataSources: ['repo'], defaultWeight: 0.5, compute: async () => ({ score: 1, latency: 0 }) };");
+    const file = path.join(dir, '.pkgscorerc');
+    fs.writeFileSync(file, 'plugins:\n  - ./security.js\nweights:\n  security: 1\n');
+
+    const config = loadConfig(file);
+
+    expect(config.plugins).toEqual([path.join(dir, 'security.js')]);
+    expect(config.weights.Security).toBeCloseTo(0.6);  // 1 of 1 + (0.1 + 0.2 + 0.25 + 0.25 + 0.2) / 1.5
+    expect(getDefaultConfig().weights.Security).toBeCloseTo(0.5 / 1.5);
+  });
+
+  it('should report a metric module that cannot be loaded', () => {
+    const file = path.join(dir, '.pkgscorerc');
+    fs.writeFileSync(file, '{ "plugins": ["./missing.js"] }');
+
+    expect(() => loadConfig(file)).toThrow(new RegExp(`^${file}: Cannot load the metric module`));
+    expect(() => validateConfig({ plugins: './missing.js' }, 'a')).toThrow(new ConfigError('a: plugins must be a list of module paths.'));
+  });
+
+  it('should report a missing config file', () => {
+    expect(() => loadConfig(path.join(dir, 'missing.json'))).toThrow(/^Cannot read the config file .*missing\.json/);
+  });
+});
@@ -1,87 +1,163 @@
 import { calculateCorrectness } from '../src/metrics/correctness';
-import { fetchJsonFromApi } from '../src/API';
-import { getGitHubAPILink } from '../src/githubData';
 import { getTimestampWithThreeDecimalPlaces } from '../src/metrics/getLatency';
-import { logMessage } from '../src/logFile';
+import { getDefaultConfig, ScoreConfig } from '../src/config';
+import { Check, Commit, Issue, MergeRequest, Release } from '../src/providers/provider';
+import { RepoContext } from '../src/repoContext';
 
 // Mock dependencies
-jest.mock('../src/API');
-jest.mock('../src/githubData');
 jest.mock('../src/metrics/getLatency');
 jest.mock('../src/logFile');
 
+interface ContextData {
+  testFiles?: string[];
+  packageJson?: any;
+  commits?: Commit[];
+  checks?: Record<string, Check[] | null>;
+  issues?: Issue[];
+  mergeRequests?: MergeRequest[];
+  releases?: Release[];
+  truncated?: boolean;
+}
+
+// Builds a context serving the given test files, manifest, history, checks of each ref, issues, pull requests and releases;
+// issues and pull requests are filtered by their opening time, as the providers do
+function makeContext(data: ContextData = {}): RepoContext {
+  const list = <T>(items: T[] = []) => jest.fn().mockResolvedValue({ data: items, truncated: data.truncated ?? false });
+  const opened = <T extends { createdAt: string }>(items: T[] = []) => jest.fn().mockImplementation(async (state: string, since?: string) => ({
+    data: items.filter(item => !since || Date.parse(item.createdAt) >= Date.parse(since)),
+    truncated: data.truncated ?? false,
+  }));
+  return {
+    url: 'https://github.com/example/repo',
+    getTestFiles: jest.fn().mockResolvedValue(data.testFiles ?? []),
+    getPackageJson: jest.fn().mockResolvedValue(data.packageJson ?? null),
+    getCommits: list(data.commits),
+    getChecks: jest.fn().mockImplementation(async (ref: string) => data.checks?.[ref] ?? null),
+    getIssues: opened(data.issues),
+    getMergeRequests: opened(data.mergeRequests),
+    getReleases: list(data.releases),
+  } as unknown as RepoContext;
+}
+
+function commit(sha: string): Commit {
+  return { sha, date: '2024-10-01T00:00:00Z', authorLogin: 'alice', authorName: null, authorEmail: null };
+}
+
+function issue(number: number, createdAt: string, state: 'open' | 'closed', labels: string[] = [], isPullRequest = false): Issue {
+  return { number, state, createdAt, closedAt: state === 'closed' ? createdAt : null, author: 'user', isPullRequest, labels };
+}
+
+function request(number: number, state: MergeRequest['state']): MergeRequest {
+  return { number, state, createdAt: '2024-09-01T00:00:00Z', closedAt: state === 'open' ? null : '2024-09-02T00:00:00Z', mergedAt: state === 'merged' ? '2024-09-02T00:00:00Z' : null, author: 'dev' };
+}
+
+const passed = (name = 'build'): Check => ({ name, conclusion: 'success' });
+const failed = (name = 'build'): Check => ({ name, conclusion: 'failure' });
+
 describe('calculateCorrectness', () => {
   const mockURL = 'https://github.com/example/repo';
-  const mockRepoData = { open_issues_count: 10 }; // Mock repository data
-  const mockClosedPullData = [{ id: 1 }, { id: 2 }, { id: 3 }]; // Mock closed pull requests
-  const mockOpenPullData = [{ id: 4 }, { id: 5 }]; // Mock open pull requests
-  const mockClosedIssuesData = [{ id: 6 }, { id: 7 }]; // Mock closed issues
-  const mockOpenIssuesData = [{ id: 8 }]; // Mock open issues
+  const now = new Date('2024-10-19T15:00:00Z');
 
   beforeEach(() => {
     jest.clearAllMocks();
+    (getTimestampWithThreeDecimalPlaces as jest.Mock).mockReturnValueOnce(1000).mockReturnValueOnce(1006);
   });
 
-  it('should return a valid correctness score and latency', async () => {
-    // Mock API calls
-    (getGitHubAPILink as jest.Mock).mockReturnValue('https://api.github.com/repos/example/repo');
-    (fetchJsonFromApi as jest.Mock)
-      .mockResolvedValueOnce(mockRepoData) // Repository data
-      .mockResolvedValueOnce(mockClosedPullData) // Closed PRs
-      .mockResolvedValueOnce(mockOpenPullData) // Open PRs
-      .mockResolvedValueOnce(mockClosedIssuesData) // Closed issues
-      .mockResolvedValueOnce(mockOpenIssuesData); // Open issues
+  it('should weigh tests, CI, bugs, the release build and resolution', async () => {
+    const context = makeContext({
+      testFiles: ['__tests__/'],
+      packageJson: { scripts: { test: 'jest' } },
+      commits: ['c1', 'c2', 'c3', 'c4', 'c5', 'c6'].map(commit),
+      checks: {
+        c1: [passed()],
+        c2: [passed('lint'), failed('test')],
+        c3: [{ name: 'build', conclusion: 'pending' }], // Still running
+        c5: [passed(), { name: 'deploy', conclusion: 'skipped' }],
+        c6: [failed()], // Older than the commits checked
+        abc123: [passed()],
+      },
+      issues: [
+        issue(1, '2024-10-01T00:00:00Z', 'closed', ['bug']),
+        issue(2, '2024-09-01T00:00:00Z', 'open', ['Type: Bug']),
+        issue(3, '2024-08-01T00:00:00Z', 'closed', ['enhancement']),
+        issue(4, '2024-07-01T00:00:00Z', 'open'),
+        issue(5, '2024-07-01T00:00:00Z', 'closed', ['bug'], true), // A pull request listed among the issues
+        issue(6, '2024-01-01T00:00:00Z', 'open', ['bug']), // Opened before the window
+      ],
+      mergeRequests: [request(7, 'merged'), request(8, 'open'), request(9, 'closed')],
+      releases: [{ tag: 'v1.0.0', publishedAt: '2024-09-01T00:00:00Z', commit: 'abc123' }],
+    });
 
-    (getTimestampWithThreeDecimalPlaces as jest.Mock).mockReturnValueOnce(1000).mockReturnValueOnce(1006); // Simulate latency
+    const result = await calculateCorrectness(mockURL, context, getDefaultConfig(), now);
 
-    const result = await calculateCorrectness(mockURL);
-
-    // Update based on actual correctness calculation
-    expect(result.score).toBeCloseTo(0.6, 1); // Adjusted score based on calculation
+    expect(result.score).toBe(0.73);
     expect(result.latency).toEqual(6); // Latency of 6ms (1006 - 1000)
+    expect(result.details).toEqual({ Tests: 1, CI: 0.667, Bugs: 0.375, ReleaseBuild: 1, Resolution: 0.583 });
+    expect(result.explanation).toEqual({
+      inputs: {
+        testFiles: '__tests__/', testScript: 'jest', commitsChecked: 3, commitsPassed: 2, since: '2024-04-19', recentIssues: 4, bugIssues: 2, closedBugIssues: 1,
+        latestRelease: 'v1.0.0', openIssues: 2, closedIssues: 2, openPullRequests: 1, closedPullRequests: 2,
+      },
+      intermediate: {
+        testsScore: 1, ciScore: 0.667, bugShare: 0.5, bugClosureRate: 0.5, bugsScore: 0.375, releaseBuildScore: 1,
+        issueResolutionRate: 0.5, pullRequestMergeRate: 0.667, resolutionScore: 0.583,
+      },
+      thresholds: { testsWeight: 0.25, ciWeight: 0.25, bugsWeight: 0.2, releaseBuildWeight: 0.15, resolutionWeight: 0.15, windowMonths: 6, ciCommits: 5 },
+      complete: true,
+      reasoning: 'Signals: tests 1 (a test suite, a test script); CI 0.667 (2 of 3 recent commits passed); bugs 0.375 (2 of 4 issues since 2024-04-19 are bugs, 1 closed); '
+        + 'release build 1 (v1.0.0 passed); resolution 0.583 (50% of issues and 67% of pull requests since 2024-04-19 closed); their weighted average is 0.73.',
+    });
+    expect(context.getChecks).not.toHaveBeenCalledWith('c6');
+    expect(context.getIssues).toHaveBeenCalledWith('all', '2024-04-19T00:00:00.000Z'); // The window is applied by the listing
+    expect(context.getMergeRequests).toHaveBeenCalledWith('all', '2024-04-19T00:00:00.000Z');
+    expect(context.getCommits).toHaveBeenCalledWith('2023-10-19T00:00:00.000Z'); // The Bus Factor's window, to share the listing
+  });
 
-    // Ensure that all mocked API calls were made with the correct URLs
-    expect(fetchJsonFromApi).toHaveBeenCalledWith('https://api.github.com/repos/example/repo');
-    expect(fetchJsonFromApi).toHaveBeenCalledWith('https://api.github.com/repos/example/repo/pulls?state=closed');
-    expect(fetchJsonFromApi).toHaveBeenCalledWith('https://api.github.com/repos/example/repo/pulls?state=open');
-    expect(fetchJsonFromApi).toHaveBeenCalledWith('https://api.github.com/repos/example/repo/issues?state=closed');
-    expect(fetchJsonFromApi).toHaveBeenCalledWith('https://api.github.com/repos/example/repo/issues?state=open');
+  it('should leave out signals without data and use the configured weights', async () => {
+    const config: ScoreConfig = getDefaultConfig();
+    config.correctness.weights = { tests: 1, ci: 0, bugs: 0, releaseBuild: 0, resolution: 1 };
+    const context = makeContext({ testFiles: ['test/'], packageJson: { scripts: { test: 'echo "Error: no test specified" && exit 1' } } });
+
+    const result = await calculateCorrectness(mockURL, context, config, now);
+
+    expect(result.score).toBe(0.75);
+    expect(result.details).toEqual({ Tests: 0.5, CI: null, Bugs: null, ReleaseBuild: null, Resolution: 1 });
+    expect(result.explanation?.reasoning).toBe('Signals: tests 0.5 (a test suite, no test script); CI unknown (no finished checks on recent commits); '
+      + 'bugs unknown (no issues opened since 2024-04-19); release build unknown (no release); resolution 1 (100% of issues and 100% of pull requests since 2024-04-19 closed); their weighted average is 0.75.');
+  });
+
+  it('should judge repositories without package.json on their test suite alone', async () => {
+    const withSuite = await calculateCorrectness(mockURL, makeContext({ testFiles: ['src/parser.test.ts'] }), getDefaultConfig(), now);
+    const withoutSuite = await calculateCorrectness(mockURL, makeContext(), getDefaultConfig(), now);
+
+    expect(withSuite.details?.Tests).toBe(1);
+    expect(withoutSuite.details?.Tests).toBe(0);
+    expect(withoutSuite.explanation?.reasoning).toContain('tests 0 (no test suite)');
   });
 
-  it('should calculate correctness score correctly with no issues or PRs', async () => {
-    // Mock API calls to simulate no issues and no pull requests
-    (getGitHubAPILink as jest.Mock).mockReturnValue('https://api.github.com/repos/example/repo');
-    (fetchJsonFromApi as jest.Mock)
-      .mockResolvedValueOnce({ open_issues_count: 0 }) // No issues in the repo
-      .mockResolvedValueOnce([]) // No closed PRs
-      .mockResolvedValueOnce([]) // No open PRs
-      .mockResolvedValueOnce([]) // No closed issues
-      .mockResolvedValueOnce([]); // No open issues
-  
-    (getTimestampWithThreeDecimalPlaces as jest.Mock).mockReturnValueOnce(1000).mockReturnValueOnce(1004); // Simulate latency
-  
-    const result = await calculateCorrectness(mockURL);
-  
-    expect(result.score).toEqual(0.7); // Adjusted score based on calculation
-    expect(result.latency).toEqual(4); // Latency of 4ms (1004 - 1000)
+  it('should read the checks of a release tag and the configured bug labels', async () => {
+    const config: ScoreConfig = getDefaultConfig();
+    config.correctness.bugLabels = ['defect*'];
+    const context = makeContext({
+      checks: { 'v2.0.0': [passed(), failed('e2e')] },
+      issues: [issue(1, '2024-10-01T00:00:00Z', 'closed', ['Defect: crash']), issue(2, '2024-10-01T00:00:00Z', 'open', ['bug'])],
+      releases: [{ tag: 'v2.0.0', publishedAt: '2024-10-01T00:00:00Z', commit: null }],
+      truncated: true,
+    });
+
+    const result = await calculateCorrectness(mockURL, context, config, now);
+
+    expect(context.getChecks).toHaveBeenCalledWith('v2.0.0');
+    expect(result.details).toMatchObject({ ReleaseBuild: 0, Bugs: 0.75 });
+    expect(result.explanation?.reasoning).toContain('release build 0 (v2.0.0 failed)');
+    expect(result.explanation?.complete).toBe(false);
+    expect(result.explanation?.reasoning).toMatch(/Only the newest issues and pull requests since 2024-04-19 could be listed, so bugs and resolution are based on a truncated sample\.$/);
   });
 
-  it('should calculate a lower score when there are many open issues', async () => {
-    const manyOpenIssues = Array.from({ length: 300 }, (_, i) => ({ id: i })); // Increase the number of open issues
-  
-    (getGitHubAPILink as jest.Mock).mockReturnValue('https://api.github.com/repos/example/repo');
-    (fetchJsonFromApi as jest.Mock)
-      .mockResolvedValueOnce(mockRepoData) // Repo data with open issues
-      .mockResolvedValueOnce(mockClosedPullData) // Closed PRs
-      .mockResolvedValueOnce(mockOpenPullData) // Open PRs
-      .mockResolvedValueOnce(mockClosedIssuesData) // Closed issues
-      .mockResolvedValueOnce(manyOpenIssues); // Simulate many open issues
-  
-    (getTimestampWithThreeDecimalPlaces as jest.Mock).mockReturnValueOnce(1000).mockReturnValueOnce(1008); // Simulate latency
-  
-    const result = await calculateCorrectness(mockURL);
-  
-    expect(result.score).toEqual(0.5); // Lower score due to many open issues
-    expect(result.latency).toEqual(8); // Latency of 8ms (1008 - 1000)
+  it('should handle errors gracefully', async () => {
+    const context = makeContext();
+    (context.getIssues as jest.Mock).mockRejectedValue(new Error('API Error'));
+
+    await expect(calculateCorrectness(mockURL, context, getDefaultConfig(), now)).rejects.toThrow('API Error');
   });
-});
\ No newline at end of file
+});
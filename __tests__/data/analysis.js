@@ -0,0 +1,6 @@
+// Module run in a worker thread by the multithread tests
+exports.countWords = text => text.split(/\s+/).filter(word => word !== '').length;
+exports.fail = () => {
+  throw new Error('Cannot analyze the input');
+};
+exports.exit = code => process.exit(code);
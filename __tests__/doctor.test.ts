@@ -0,0 +1,57 @@
+import axios from 'axios';
+import { runDoctorChecks } from '../src/doctor';
+import { getCacheStats, isCacheEnabled } from '../src/cache';
+
+// Mock external dependencies
+jest.mock('axios');
+jest.mock('../src/logFile');
+jest.mock('../src/cache');
+
+describe('runDoctorChecks', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    process.env.GITHUB_TOKEN = 'mocked_token';
+    process.env.LOG_FILE = '/tmp/app.log';
+    (isCacheEnabled as jest.Mock).mockReturnValue(true);
+    (getCacheStats as jest.Mock).mockResolvedValue({ path: '/tmp/cache.sqlite', entries: 3, fresh: 3, stale: 0, sizeBytes: 1024 });
+  });
+
+  it('should pass every check in a working environment', async () => {
+    (axios.get as jest.Mock).mockResolvedValue({ status: 200, headers: {}, data: { resources: { core: { remaining: 4999, limit: 5000 } } } });
+
+    const checks = await runDoctorChecks();
+
+    expect(checks.every(check => check.ok)).toBe(true);
+    expect(checks.find(check => check.name === 'GitHub API')?.detail).toBe('Reachable, 4999 of 5000 requests left');
+    expect(checks.find(check => check.name === 'Response cache')?.detail).toBe('/tmp/cache.sqlite (3 entries)');
+    expect(axios.get).toHaveBeenCalledWith('https://api.github.com/rate_limit', { headers: { 'Authorization': 'token mocked_token' } });
+  });
+
+  it('should report a missing token without calling the API', async () => {
+    delete process.env.GITHUB_TOKEN;
+
+    const checks = await runDoctorChecks();
+
+    expect(checks.find(check => check.name === 'GITHUB_TOKEN')).toMatchObject({ ok: false, required: true });
+    expect(checks.some(check => check.name === 'GitHub API')).toBe(false);
+    expect(axios.get).not.toHaveBeenCalled();
+  });
+
+  it('should report an unreachable API and an unusable cache', async () => {
+    (axios.get as jest.Mock).mockRejectedValue({ message: 'Request failed with status code 401', response: { status: 401, headers: {}, data: {} } });
+    (getCacheStats as jest.Mock).mockRejectedValue(new Error('SQLITE_CANTOPEN'));
+
+    const checks = await runDoctorChecks();
+
+    expect(checks.find(check => check.name === 'GitHub API')).toMatchObject({ ok: false, required: true });
+    expect(checks.find(check => check.name === 'Response cache')).toMatchObject({ ok: false, required: false, detail: 'Cannot open the cache: SQLITE_CANTOPEN' });
+  });
+
+  it('should report the config file', async () => {
+    (axios.get as jest.Mock).mockResolvedValue({ status: 200, headers: {}, data: {} });
+
+    const checks = await runDoctorChecks('/nonexistent/.pkgscorerc');
+
+    expect(checks.find(check => check.name === 'Config file')).toMatchObject({ ok: false, required: true, detail: expect.stringMatching(/^Cannot read the config file \/nonexistent\/.pkgscorerc/) });
+  });
+});
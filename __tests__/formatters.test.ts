@@ -0,0 +1,117 @@
+import { getFormatter, getFormatters, registerFormatter } from '../src/formatters';
+import { getDataFields } from '../src/formatters/formatter';
+import { getScoreBadge } from '../src/formatters/markdown';
+import { DataObject, initJSON } from '../src/json';
+
+jest.mock('../src/logFile');
+
+/**
+ * Builds a result with the given fields, leaving the others null.
+ */
+function result(fields: Partial<DataObject>): DataObject {
+  return { ...initJSON(), ...fields };
+}
+
+/**
+ * Formats results with a registered format.
+ */
+function format(name: string, results: DataObject[], latency?: boolean): string {
+  return getFormatter(name)!.format(results, { latency });
+}
+
+const results = [
+  result({ URL: 'https://github.com/a/b', NetScore: 0.75, NetScore_Latency: 1.2, License: 1, License_Latency: 12.5 }),
+  result({ URL: 'https://www.npmjs.com/package/c', NetScore: 0.3, BusFactor: 0.5 }),
+];
+
+describe('formatter registry', () => {
+  it('should list the built-in formats and resolve aliases', () => {
+    expect(getFormatters().map(formatter => formatter.name)).toEqual(['json', 'yaml', 'csv', 'markdown', 'text']);
+    expect(getFormatter('ndjson')!.name).toBe('json');
+    expect(getFormatter('md')!.name).toBe('markdown');
+    expect(getFormatter('yml')!.name).toBe('yaml');
+    expect(getFormatter('xml')).toBeUndefined();
+  });
+
+  it('should register a new format', () => {
+    registerFormatter({ name: 'urls', description: 'URLs only', latencyByDefault: false, streaming: false, format: data => data.map(item => item.URL).join('\n') });
+
+    expect(format('urls', results)).toBe('https://github.com/a/b\nhttps://www.npmjs.com/package/c');
+  });
+});
+
+describe('json formatter', () => {
+  it('should print each object whole by default', () => {
+    expect(format('json', results).split('\n').map(line => JSON.parse(line))).toEqual(results);
+  });
+
+  it('should leave out the latencies on request', () => {
+    expect(Object.keys(JSON.parse(format('json', results, false).split('\n')[0]))).toEqual(['URL', 'NetScore', 'RampUp', 'Correctness', 'BusFactor', 'ResponsiveMaintainer', 'License']);
+  });
+
+  it('should keep the explanations', () => {
+    const explanation = { inputs: {}, intermediate: {}, thresholds: {}, complete: true, reasoning: 'No license was found, so the score is 0.' };
+    const explained = { ...results[0], Explanation: { License: explanation } };
+
+    expect(JSON.parse(format('json', [explained]))).toEqual(explained);
+    expect(JSON.parse(format('json', [explained], false)).Explanation).toEqual({ License: explanation });
+  });
+});
+
+describe('yaml formatter', () => {
+  it('should print a YAML list with one mapping per URL', () => {
+    const yaml = format('yaml', [result({ URL: 'https://github.com/a/b #1', License: 1 })]);
+
+    expect(yaml.split('\n').slice(0, 3)).toEqual(['- URL: "https://github.com/a/b #1"', '  NetScore: null', '  NetScore_Latency: null']);
+    expect(yaml.split('\n')).toHaveLength(getDataFields().length);
+    expect(yaml).toContain('  License: 1');
+  });
+});
+
+describe('csv formatter', () => {
+  it('should print a header and one row per URL in a stable column order', () => {
+    const lines = format('csv', results).split('\n');
+
+    expect(lines[0]).toBe(getDataFields().join(','));
+    expect(lines[1]).toBe('https://github.com/a/b,0.75,1.2,,,,,,,,,1,12.5');
+  });
+
+  it('should drop the latency columns and quote special characters', () => {
+    const lines = format('csv', [result({ URL: 'https://example.com/a,"b"', NetScore: 0 })], false).split('\n');
+
+    expect(lines).toEqual(['URL,NetScore,RampUp,Correctness,BusFactor,ResponsiveMaintainer,License', '"https://example.com/a,""b""",0,,,,,']);
+  });
+});
+
+describe('markdown formatter', () => {
+  it('should color badges by score', () => {
+    expect(getScoreBadge(0.7)).toBe('![0.7](https://img.shields.io/badge/-0.7-brightgreen)');
+    expect(getScoreBadge(0.4)).toBe('![0.4](https://img.shields.io/badge/-0.4-yellow)');
+    expect(getScoreBadge(0)).toBe('![0](https://img.shields.io/badge/-0-red)');
+    expect(getScoreBadge(null)).toBe('![n/a](https://img.shields.io/badge/-n%2Fa-lightgrey)');
+  });
+
+  it('should print a table without latencies by default', () => {
+    const lines = format('markdown', results).split('\n');
+
+    expect(lines[0]).toBe('| URL | NetScore | RampUp | Correctness | BusFactor | ResponsiveMaintainer | License |');
+    expect(lines[1]).toBe('| --- | :---: | :---: | :---: | :---: | :---: | :---: |');
+    expect(lines[2].startsWith('| https://github.com/a/b | ![0.75](https://img.shields.io/badge/-0.75-brightgreen) |')).toBe(true);
+    expect(lines).toHaveLength(4);
+  });
+
+  it('should print latencies in milliseconds on request', () => {
+    expect(format('markdown', results, true).split('\n')[2]).toContain('| 12.5 ms |');
+  });
+});
+
+describe('text formatter', () => {
+  it('should print an aligned table', () => {
+    expect(format('text', results).split('\n')).toEqual([
+      'URL                              NetScore  RampUp  Correctness  BusFactor  ResponsiveMaintainer  License',
+      '-------------------------------  --------  ------  -----------  ---------  --------------------  -------',
+      'https://github.com/a/b               0.75       -            -          -                     -        1',
+      'https://www.npmjs.com/package/c       0.3       -            -        0.5                     -        -',
+    ]);
+  });
+});
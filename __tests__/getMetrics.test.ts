@@ -1,15 +1,16 @@
-import { getMetrics } from '../src/metrics/getMetrics';
+import { getDetailFields, getMetrics, getMetricsData, scorePackage } from '../src/metrics/getMetrics';
 import { getBusFactor } from '../src/metrics/busFactor';
 import { getLicenseScore } from '../src/metrics/license';
 import { formatJSON, initJSON } from '../src/json';
 import { URLType } from '../src/URL';
-import { getNodeJsAPILink } from '../src/npmjsData';
+import { getNodeJsRepository } from '../src/npmjsData';
 import { calculateCorrectness } from '../src/metrics/correctness';
 import { calculateRampUp } from '../src/metrics/rampUp';
 import { calculateResponsiveMaintainer } from '../src/metrics/responsiveMaintainer';
 import { getNetScore, getNetScoreLatency } from '../src/metrics/netScore';
-import { getNumberOfCores } from '../src/multithread';
 import { logMessage } from '../src/logFile';
+import { getDefaultConfig, setConfig } from '../src/config';
+import { RepoContext } from '../src/repoContext';
 
 // Mock dependencies
 jest.mock('../src/metrics/busFactor');
@@ -21,10 +22,10 @@ jest.mock('../src/metrics/netScore');
 jest.mock('../src/npmjsData');
 jest.mock('../src/json');
 jest.mock('../src/URL');
-jest.mock('../src/multithread');
 jest.mock('../src/logFile');
 
 describe('getMetrics', () => {
+  const DEFAULT_CONFIG = getDefaultConfig();
   const mockURL = 'https://github.com/example/repo';
   const mockNpmURL = 'https://www.npmjs.com/package/example';
   const mockNodeJsAPIURL = 'https://registry.npmjs.org/example';
@@ -50,7 +51,6 @@ describe('getMetrics', () => {
   it('should return the correct metrics for a GitHub repository URL', async () => {
     // Mock the dependencies
     (initJSON as jest.Mock).mockReturnValue({}); // Mock empty JSON initialization
-    (getNumberOfCores as jest.Mock).mockReturnValue(4); // Mock number of cores
     (URLType as jest.Mock).mockReturnValue('github'); // Mock URL type detection
     (getBusFactor as jest.Mock).mockResolvedValue({ score: 0.5, latency: 10 });
     (calculateCorrectness as jest.Mock).mockResolvedValue({ score: 0.7, latency: 8 });
@@ -64,14 +64,13 @@ describe('getMetrics', () => {
     const result = await getMetrics(mockURL);
 
     expect(initJSON).toHaveBeenCalled();
-    expect(getNumberOfCores).toHaveBeenCalled();
-    expect(getBusFactor).toHaveBeenCalledWith(mockURL);
-    expect(calculateCorrectness).toHaveBeenCalledWith(mockURL);
-    expect(getLicenseScore).toHaveBeenCalledWith(mockURL);
-    expect(calculateRampUp).toHaveBeenCalledWith(mockURL);
-    expect(calculateResponsiveMaintainer).toHaveBeenCalledWith(mockURL);
-    expect(getNetScore).toHaveBeenCalledWith(0.9, 0.7, 0.5, 0.6, 1);
-    expect(getNetScoreLatency).toHaveBeenCalledWith(7, 8, 10, 9, 6);
+    expect(getBusFactor).toHaveBeenCalledWith(mockURL, expect.objectContaining({ url: mockURL }), DEFAULT_CONFIG);
+    expect(calculateCorrectness).toHaveBeenCalledWith(mockURL, expect.objectContaining({ url: mockURL }), DEFAULT_CONFIG);
+    expect(getLicenseScore).toHaveBeenCalledWith(mockURL, expect.objectContaining({ url: mockURL }), DEFAULT_CONFIG);
+    expect(calculateRampUp).toHaveBeenCalledWith(mockURL, expect.objectContaining({ url: mockURL }), DEFAULT_CONFIG);
+    expect(calculateResponsiveMaintainer).toHaveBeenCalledWith(mockURL, expect.objectContaining({ url: mockURL }), DEFAULT_CONFIG);
+    expect(getNetScore).toHaveBeenCalledWith({ RampUp: 0.9, Correctness: 0.7, BusFactor: 0.5, ResponsiveMaintainer: 0.6, License: 1 }, DEFAULT_CONFIG.weights, 'renormalize');
+    expect(getNetScoreLatency).toHaveBeenCalledWith({ RampUp: 7, Correctness: 8, BusFactor: 10, ResponsiveMaintainer: 9, License: 6 });
     expect(formatJSON).toHaveBeenCalledWith(expect.any(Object)); // Ensure the JSON is formatted
     expect(result).toEqual(JSON.stringify(mockRepoData));
   });
@@ -79,9 +78,8 @@ describe('getMetrics', () => {
   it('should convert npmjs URL to Node.js API link and return the correct metrics', async () => {
     // Mock the dependencies
     (initJSON as jest.Mock).mockReturnValue({}); // Mock empty JSON initialization
-    (getNumberOfCores as jest.Mock).mockReturnValue(4); // Mock number of cores
     (URLType as jest.Mock).mockReturnValue('npmjs'); // Mock URL type detection
-    (getNodeJsAPILink as jest.Mock).mockResolvedValue(mockNodeJsAPIURL); // Mock npmjs to Node.js API link conversion
+    (getNodeJsRepository as jest.Mock).mockResolvedValue({ url: mockNodeJsAPIURL, directory: 'packages/example' }); // Mock npmjs to repository conversion
     (getBusFactor as jest.Mock).mockResolvedValue({ score: 0.5, latency: 10 });
     (calculateCorrectness as jest.Mock).mockResolvedValue({ score: 0.7, latency: 8 });
     (getLicenseScore as jest.Mock).mockResolvedValue({ score: 1, latency: 6 });
@@ -94,25 +92,127 @@ describe('getMetrics', () => {
     const result = await getMetrics(mockNpmURL);
 
     expect(initJSON).toHaveBeenCalled();
-    expect(getNodeJsAPILink).toHaveBeenCalledWith(mockNpmURL); // Ensure npmjs URL was converted
-    expect(getBusFactor).toHaveBeenCalledWith(mockNodeJsAPIURL);
-    expect(calculateCorrectness).toHaveBeenCalledWith(mockNodeJsAPIURL);
-    expect(getLicenseScore).toHaveBeenCalledWith(mockNodeJsAPIURL);
-    expect(calculateRampUp).toHaveBeenCalledWith(mockNodeJsAPIURL);
-    expect(calculateResponsiveMaintainer).toHaveBeenCalledWith(mockNodeJsAPIURL);
-    expect(getNetScore).toHaveBeenCalledWith(0.9, 0.7, 0.5, 0.6, 1);
-    expect(getNetScoreLatency).toHaveBeenCalledWith(7, 8, 10, 9, 6);
+    expect(getNodeJsRepository).toHaveBeenCalledWith(mockNpmURL); // Ensure npmjs URL was converted
+    expect(getBusFactor).toHaveBeenCalledWith(mockNodeJsAPIURL, expect.objectContaining({ url: mockNodeJsAPIURL, subdirectory: 'packages/example' }), DEFAULT_CONFIG);
+    expect(calculateCorrectness).toHaveBeenCalledWith(mockNodeJsAPIURL, expect.objectContaining({ url: mockNodeJsAPIURL }), DEFAULT_CONFIG);
+    expect(getLicenseScore).toHaveBeenCalledWith(mockNodeJsAPIURL, expect.objectContaining({ url: mockNodeJsAPIURL }), DEFAULT_CONFIG);
+    expect(calculateRampUp).toHaveBeenCalledWith(mockNodeJsAPIURL, expect.objectContaining({ url: mockNodeJsAPIURL }), DEFAULT_CONFIG);
+    expect(calculateResponsiveMaintainer).toHaveBeenCalledWith(mockNodeJsAPIURL, expect.objectContaining({ url: mockNodeJsAPIURL }), DEFAULT_CONFIG);
+    expect(getNetScore).toHaveBeenCalledWith({ RampUp: 0.9, Correctness: 0.7, BusFactor: 0.5, ResponsiveMaintainer: 0.6, License: 1 }, DEFAULT_CONFIG.weights, 'renormalize');
+    expect(getNetScoreLatency).toHaveBeenCalledWith({ RampUp: 7, Correctness: 8, BusFactor: 10, ResponsiveMaintainer: 9, License: 6 });
     expect(formatJSON).toHaveBeenCalledWith(expect.any(Object)); // Ensure the JSON is formatted
     expect(result).toEqual(JSON.stringify(mockRepoData));
   });
 
-  it('should handle errors gracefully during metrics calculation', async () => {
-    // Mock the dependencies to simulate an error during the calculation
-    (initJSON as jest.Mock).mockReturnValue({}); // Mock empty JSON initialization
-    (getNumberOfCores as jest.Mock).mockReturnValue(4); // Mock number of cores
-    (URLType as jest.Mock).mockReturnValue('github'); // Mock URL type detection
-    (getBusFactor as jest.Mock).mockRejectedValue(new Error('Bus Factor calculation failed'));
+  it('should hand the metrics the npm manifest the repository was resolved from', async () => {
+    const manifest = { name: 'example', time: {} };
+    (initJSON as jest.Mock).mockReturnValue({ NetScore: null });
+    (URLType as jest.Mock).mockReturnValue('npmjs');
+    (getNodeJsRepository as jest.Mock).mockResolvedValue({ url: mockURL, directory: null, manifest });
+    (calculateResponsiveMaintainer as jest.Mock).mockImplementation(async (url: string, context: RepoContext) => ({ score: await context.getPackageManifest() === manifest ? 1 : 0, latency: 9 }));
+
+    const result = await scorePackage(mockNpmURL, ['ResponsiveMaintainer']);
+
+    expect(result.data.ResponsiveMaintainer).toBe(1);
+  });
+
+  it('should only run the requested metrics and skip the Net Score', async () => {
+    (initJSON as jest.Mock).mockReturnValue({ License: null, License_Latency: null, NetScore: null });
+    (URLType as jest.Mock).mockReturnValue('github');
+    (getLicenseScore as jest.Mock).mockResolvedValue({ score: 1, latency: 6 });
+
+    const result = await getMetricsData(mockURL, ['License']);
+
+    expect(result).toEqual({ URL: mockURL, License: 1, License_Latency: 6, NetScore: null, ConfigHash: expect.stringMatching(/^[0-9a-f]{12}$/) });
+    expect(getLicenseScore).toHaveBeenCalledWith(mockURL, expect.objectContaining({ url: mockURL }), DEFAULT_CONFIG);
+    expect(getBusFactor).not.toHaveBeenCalled();
+    expect(calculateCorrectness).not.toHaveBeenCalled();
+    expect(getNetScore).not.toHaveBeenCalled();
+    expect(formatJSON).not.toHaveBeenCalled();
+  });
+
+  it('should return the explanation reported by each metric', async () => {
+    (initJSON as jest.Mock).mockReturnValue({ NetScore: null });
+    (URLType as jest.Mock).mockReturnValue('github');
+    const explanation = { inputs: { license: 'MIT License', spdxId: 'MIT' }, intermediate: {}, thresholds: {}, complete: true, reasoning: 'Found MIT License, so the score is 1.' };
+    (getLicenseScore as jest.Mock).mockResolvedValue({ score: 1, latency: 6, explanation });
+    (calculateRampUp as jest.Mock).mockResolvedValue({ score: 0.9, latency: 7 });
+
+    const result = await scorePackage(mockURL, ['License', 'RampUp']);
+
+    expect(result.data).toEqual({ URL: mockURL, License: 1, License_Latency: 6, RampUp: 0.9, RampUp_Latency: 7, NetScore: null, ConfigHash: expect.stringMatching(/^[0-9a-f]{12}$/) });
+    expect(result.explanations).toEqual({ License: explanation });
+  });
+
+  it('should keep the details of each metric out of the scores', async () => {
+    (initJSON as jest.Mock).mockReturnValue({ NetScore: null });
+    (URLType as jest.Mock).mockReturnValue('github');
+    (getLicenseScore as jest.Mock).mockResolvedValue({ score: 1, latency: 6, details: { Detected: 'MIT', Confidence: null } });
+    (calculateRampUp as jest.Mock).mockResolvedValue({ score: 0.9, latency: 7 });
+
+    const result = await scorePackage(mockURL, ['License', 'RampUp']);
+
+    expect(Object.keys(result.data)).not.toContain('License_Detected');
+    expect(result.details).toEqual({ License: { Detected: 'MIT', Confidence: null } });
+    expect(getDetailFields(result.details)).toEqual({ License_Detected: 'MIT', License_Confidence: null });
+  });
+
+  it('should record the hash of the configuration, default or not', async () => {
+    const config = { ...DEFAULT_CONFIG, rampUp: { maxSizeKb: 1000 } };
+    (initJSON as jest.Mock).mockImplementation(() => ({ NetScore: null }));
+    (URLType as jest.Mock).mockReturnValue('github');
+    (calculateRampUp as jest.Mock).mockResolvedValue({ score: 0.9, latency: 7 });
+
+    const defaults = await getMetricsData(mockURL, ['RampUp']);
+    setConfig(config, '/team/.pkgscorerc');
+    const result = await getMetricsData(mockURL, ['RampUp']);
+    setConfig(DEFAULT_CONFIG);
+
+    expect(defaults.ConfigHash).toMatch(/^[0-9a-f]{12}$/);
+    expect(result.ConfigHash).toMatch(/^[0-9a-f]{12}$/);
+    expect(result.ConfigHash).not.toBe(defaults.ConfigHash);
+    expect(calculateRampUp).toHaveBeenCalledWith(mockURL, expect.anything(), config);
+  });
+
+  it('should report a failed metric as null and keep the others', async () => {
+    (initJSON as jest.Mock).mockReturnValue({ NetScore: null });
+    (URLType as jest.Mock).mockReturnValue('github');
+    (getBusFactor as jest.Mock).mockRejectedValue(Object.assign(new Error('API request failed: Request failed with status code 502'), { status: 502 }));
+    (calculateCorrectness as jest.Mock).mockResolvedValue({ score: 0.7, latency: 8 });
+    (getLicenseScore as jest.Mock).mockResolvedValue({ score: 1, latency: 6 });
+    (calculateRampUp as jest.Mock).mockResolvedValue({ score: 0.9, latency: 7 });
+    (calculateResponsiveMaintainer as jest.Mock).mockRejectedValue(new Error('socket hang up'));
+    (getNetScore as jest.Mock).mockResolvedValue(0.8);
+    (getNetScoreLatency as jest.Mock).mockResolvedValue(21);
+
+    const result = await scorePackage(mockURL);
+
+    expect(result.data).toMatchObject({ BusFactor: null, BusFactor_Latency: null, ResponsiveMaintainer: null, License: 1, NetScore: 0.8 });
+    expect(result.errors).toEqual({
+      BusFactor: { code: 'HTTP_502', message: 'API request failed: Request failed with status code 502' },
+      ResponsiveMaintainer: { code: 'METRIC_FAILED', message: 'socket hang up' },
+    });
+    expect(result.data.Errors).toEqual(result.errors);
+    expect(getNetScore).toHaveBeenCalledWith({ RampUp: 0.9, Correctness: 0.7, BusFactor: null, ResponsiveMaintainer: null, License: 1 }, DEFAULT_CONFIG.weights, 'renormalize');
+  });
+
+  it('should fail every metric when the package cannot be resolved', async () => {
+    (initJSON as jest.Mock).mockReturnValue({ NetScore: null });
+    (URLType as jest.Mock).mockReturnValue('npmjs');
+    (getNodeJsRepository as jest.Mock).mockRejectedValue(Object.assign(new Error('getaddrinfo ENOTFOUND registry.npmjs.org'), { code: 'ENOTFOUND' }));
+
+    const result = await scorePackage(mockNpmURL, ['License', 'RampUp']);
+
+    expect(result.data).toEqual({
+      URL: mockNpmURL, License: null, License_Latency: null, RampUp: null, RampUp_Latency: null, NetScore: null, ConfigHash: expect.stringMatching(/^[0-9a-f]{12}$/),
+      Errors: { License: { code: 'ENOTFOUND', message: 'getaddrinfo ENOTFOUND registry.npmjs.org' }, RampUp: { code: 'ENOTFOUND', message: 'getaddrinfo ENOTFOUND registry.npmjs.org' } },
+    });
+    expect(getLicenseScore).not.toHaveBeenCalled();
+  });
+
+  it('should reject an unknown metric', async () => {
+    (initJSON as jest.Mock).mockReturnValue({ NetScore: null });
 
-    await expect(getMetrics(mockURL)).rejects.toThrow('Bus Factor calculation failed');
+    await expect(scorePackage(mockURL, ['Security'])).rejects.toThrow('Unknown metric: Security');
   });
-});
\ No newline at end of file
+});
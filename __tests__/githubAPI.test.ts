@@ -5,6 +5,7 @@ import { logMessage } from '../src/logFile';
 // Mock external dependencies
 jest.mock('axios');
 jest.mock('../src/logFile');
+jest.mock('../src/cache');
 
 describe('GitHub Data Utility Functions', () => {
     beforeEach(() => {
@@ -79,18 +80,21 @@ describe('GitHub Data Utility Functions', () => {
     describe('fetchOpenIssuesCount', () => {
         it('should fetch open issues from the GitHub API and log the process', async () => {
             (axios.get as jest.Mock).mockResolvedValueOnce({
-                data: Array(100).fill({}) // Mock 100 open issues
+                data: Array(100).fill({}), // Mock 100 open issues
+                headers: { link: '<https://api.github.com/repos/owner/repo/issues?state=open&per_page=100&page=2>; rel="next"' }
             }).mockResolvedValueOnce({
-                data: Array(50).fill({}) // Mock 50 open issues (end of pagination)
+                data: Array(50).fill({}), // Mock 50 open issues (end of pagination)
+                headers: {}
             });
 
             const result = await fetchOpenIssuesCount('owner', 'repo');
 
             expect(result).toBe(150); // 100 + 50
+            expect(axios.get).toHaveBeenNthCalledWith(2, 'https://api.github.com/repos/owner/repo/issues?state=open&per_page=100&page=2', expect.any(Object));
 
             expect(logMessage).toHaveBeenCalledWith('fetchOpenIssuesCount - API URL', [
                 'Constructing API URL for fetching issues.',
-                'API URL: https://api.github.com/repos/owner/repo/issues?state=open&per_page=100&page=1'
+                'API URL: https://api.github.com/repos/owner/repo/issues?state=open'
             ]);
             expect(logMessage).toHaveBeenCalledWith('fetchOpenIssuesCount - Final Count', [
                 'Completed fetching open issues.',
@@ -107,7 +111,7 @@ describe('GitHub Data Utility Functions', () => {
 
             expect(logMessage).toHaveBeenCalledWith('fetchOpenIssuesCount - API Error', [
                 'Error occurred while fetching open issues.',
-                'Error details: Error: API Error'
+                'Error details: Error: API request failed: API Error'
             ]);
 
             expect(console.error).toHaveBeenCalledWith('Error fetching open issues:', expect.any(Error));
@@ -117,18 +121,21 @@ describe('GitHub Data Utility Functions', () => {
     describe('fetchClosedIssuesCount', () => {
         it('should fetch closed issues from the GitHub API and log the process', async () => {
             (axios.get as jest.Mock).mockResolvedValueOnce({
-                data: Array(100).fill({}) // Mock 100 closed issues
+                data: Array(100).fill({}), // Mock 100 closed issues
+                headers: { link: '<https://api.github.com/repos/owner/repo/issues?state=closed&per_page=100&page=2>; rel="next"' }
             }).mockResolvedValueOnce({
-                data: Array(30).fill({}) // Mock 30 closed issues (end of pagination)
+                data: Array(30).fill({}), // Mock 30 closed issues (end of pagination)
+                headers: {}
             });
 
             const result = await fetchClosedIssuesCount('owner', 'repo');
 
             expect(result).toBe(130); // 100 + 30
+            expect(axios.get).toHaveBeenNthCalledWith(2, 'https://api.github.com/repos/owner/repo/issues?state=closed&per_page=100&page=2', expect.any(Object));
 
             expect(logMessage).toHaveBeenCalledWith('fetchClosedIssuesCount - API URL', [
                 'Constructing API URL for fetching closed issues.',
-                'API URL: https://api.github.com/repos/owner/repo/issues?state=closed&per_page=100&page=1'
+                'API URL: https://api.github.com/repos/owner/repo/issues?state=closed'
             ]);
             expect(logMessage).toHaveBeenCalledWith('fetchClosedIssuesCount - Final Count', [
                 'Completed fetching closed issues.',
@@ -145,7 +152,7 @@ describe('GitHub Data Utility Functions', () => {
 
             expect(logMessage).toHaveBeenCalledWith('fetchClosedIssuesCount - API Error', [
                 'Error occurred while fetching closed issues.',
-                'Error details: Error: API Error'
+                'Error details: Error: API request failed: API Error'
             ]);
 
             expect(console.error).toHaveBeenCalledWith('Error fetching closed issues:', expect.any(Error));
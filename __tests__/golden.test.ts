@@ -0,0 +1,76 @@
+import axios from 'axios';
+import * as fs from 'fs';
+import * as path from 'path';
+import { scorePackage } from '../src/metrics/getMetrics';
+import { setGitHubBackend } from '../src/graphqlData';
+import { setHttpMode } from '../src/recorder';
+
+jest.mock('../src/logFile');
+
+// The recorded fixture set and the output of replaying it. `RECORD_FIXTURES=1 npx jest golden`
+// records both again from the sample URLs, which needs network access and a GITHUB_TOKEN.
+const fixtureDir = path.join(__dirname, 'fixtures', 'golden');
+const goldenPath = path.join(__dirname, 'data', 'golden.json');
+const sampleUrlsPath = path.join(__dirname, 'data', 'sample_urls.txt');
+
+interface Golden {
+  recordedAt: string;     // When the fixtures were recorded; replays run at this time
+  results: { data: Record<string, unknown>, explanations: unknown, details: unknown, errors: unknown }[];
+}
+
+// Scores each URL from the fixtures with the clock set to the recording time, leaving out latencies, which differ between runs
+async function replay(urls: string[], recordedAt: string): Promise<Golden['results']> {
+  jest.useFakeTimers({
+    now: new Date(recordedAt),
+    doNotFake: ['nextTick', 'setImmediate', 'setTimeout', 'clearTimeout', 'setInterval', 'clearInterval', 'queueMicrotask', 'performance', 'hrtime'],
+  });
+  setHttpMode('replay');
+  const results: Golden['results'] = [];
+  for (const url of urls) {
+    const { data, explanations, details, errors } = await scorePackage(url);
+    results.push({ data: Object.fromEntries(Object.entries(data).filter(([key]) => !key.endsWith('_Latency'))), explanations, details, errors });
+  }
+  return results;
+}
+
+describe('golden recording', () => {
+  beforeEach(() => {
+    process.env.FIXTURE_DIR = fixtureDir;
+    setGitHubBackend('rest');
+  });
+
+  afterEach(() => {
+    setHttpMode('live');
+    delete process.env.FIXTURE_DIR;
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  if (process.env.RECORD_FIXTURES === '1') {
+    it('should record the sample URLs and the output of replaying them', async () => {
+      const urls = fs.readFileSync(sampleUrlsPath, 'utf-8').split('\n').map(line => line.trim()).filter(line => line !== '');
+      fs.rmSync(fixtureDir, { recursive: true, force: true });
+
+      const recordedAt = new Date().toISOString();
+      setHttpMode('record');
+      for (const url of urls) {
+        await scorePackage(url);
+      }
+
+      const golden: Golden = { recordedAt, results: await replay(urls, recordedAt) };
+      fs.writeFileSync(goldenPath, JSON.stringify(golden, null, 2) + '\n', 'utf-8');
+    }, 600000);
+  } else {
+    it('should replay the recorded fixtures offline and match the golden output', async () => {
+      const golden: Golden = JSON.parse(fs.readFileSync(goldenPath, 'utf-8'));
+      const get = jest.spyOn(axios, 'get').mockRejectedValue(new Error('network disabled'));
+      const post = jest.spyOn(axios, 'post').mockRejectedValue(new Error('network disabled'));
+
+      const results = await replay(golden.results.map(result => String(result.data.URL)), golden.recordedAt);
+
+      expect(get).not.toHaveBeenCalled();
+      expect(post).not.toHaveBeenCalled();
+      expect(results).toEqual(golden.results);
+    });
+  }
+});
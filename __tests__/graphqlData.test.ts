@@ -0,0 +1,188 @@
+import axios from 'axios';
+import { fetchJsonFromApi, fetchPaginatedJsonFromApi } from '../src/API';
+import { getGitHubBackend, resolveFromGraphQL, setGitHubBackend } from '../src/graphqlData';
+
+// Mock external dependencies
+jest.mock('axios');
+jest.mock('../src/logFile');
+jest.mock('../src/cache');
+
+const snapshot = {
+  nameWithOwner: 'example/repo',
+  diskUsage: 2048,
+  pushedAt: '2024-09-01T00:00:00Z',
+  isArchived: false,
+  stargazerCount: 10,
+  forkCount: 2,
+  defaultBranchRef: {
+    name: 'main',
+    target: {
+      history: {
+        totalCount: 3,
+        nodes: [
+          { committedDate: '2024-09-01T00:00:00Z', author: { email: 'a@example.com', name: 'A', user: { login: 'alice' } } },
+          { committedDate: '2024-08-01T00:00:00Z', author: { email: 'a@example.com', name: 'A', user: { login: 'alice' } } },
+          { committedDate: '2024-07-01T00:00:00Z', author: { email: 'bob@example.com', name: 'Bob', user: null } },
+        ],
+      },
+    },
+  },
+  licenseInfo: { key: 'mit', spdxId: 'MIT', name: 'MIT License' },
+  openIssues: { totalCount: 1, nodes: [{ number: 3, createdAt: '2024-09-01T00:00:00Z', closedAt: null, author: { login: 'carol' } }] },
+  closedIssues: { totalCount: 150, nodes: [{ number: 1, createdAt: '2024-01-01T00:00:00Z', closedAt: '2024-01-02T00:00:00Z', author: null, labels: { nodes: [{ name: 'bug' }] } }] },
+  openPullRequests: { totalCount: 2, nodes: [{ number: 5, createdAt: '2024-09-01T00:00:00Z', closedAt: null, mergedAt: null, author: { login: 'dave' } }, { number: 6, createdAt: '2024-09-02T00:00:00Z', closedAt: null, mergedAt: null, author: null }] },
+  closedPullRequests: { totalCount: 0, nodes: [] },
+  releases: { totalCount: 1, nodes: [{ tagName: 'v1.0.0', createdAt: '2024-05-01T00:00:00Z', publishedAt: '2024-05-01T00:00:00Z', isDraft: false, isPrerelease: false }] },
+};
+
+let repoCounter = 0;
+
+/**
+ * Returns the API link of a repository not used by any earlier test, so memoized snapshots never leak between tests.
+ */
+function nextRepo(): string {
+  repoCounter++;
+  return `https://api.github.com/repos/example/repo${repoCounter}`;
+}
+
+describe('resolveFromGraphQL', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    process.env.GITHUB_TOKEN = 'mocked_token';
+    setGitHubBackend('graphql');
+    (axios.post as jest.Mock).mockResolvedValue({ status: 200, headers: {}, data: { data: { repository: snapshot } } });
+  });
+
+  afterAll(() => {
+    setGitHubBackend('rest');
+  });
+
+  it('should map repository metadata to the REST shape', async () => {
+    const resolved = await resolveFromGraphQL(nextRepo());
+
+    expect(resolved?.data).toMatchObject({
+      size: 2048,
+      open_issues_count: 3,
+      default_branch: 'main',
+      license: { key: 'mit', spdx_id: 'MIT', name: 'MIT License' },
+    });
+    expect(axios.post).toHaveBeenCalledWith('https://api.github.com/graphql', expect.objectContaining({
+      variables: { owner: 'example', name: expect.stringMatching(/^repo\d+$/) },
+    }), { headers: expect.objectContaining({ 'Authorization': 'bearer mocked_token' }) });
+  });
+
+  it('should serve every resource of a repository from one query', async () => {
+    const repo = nextRepo();
+
+    const [metadata, license, contributors, closedIssues, openPulls, releases] = await Promise.all([
+      resolveFromGraphQL(repo),
+      resolveFromGraphQL(`${repo}/license`),
+      resolveFromGraphQL(`${repo}/contributors`),
+      resolveFromGraphQL(`${repo}/issues?state=closed`),
+      resolveFromGraphQL(`${repo}/pulls?state=open`),
+      resolveFromGraphQL(`${repo}/releases`),
+    ]);
+
+    expect(axios.post).toHaveBeenCalledTimes(1);
+    expect(metadata?.truncated).toBe(false);
+    expect(license?.data).toEqual({ license: { key: 'mit', spdx_id: 'MIT', name: 'MIT License' } });
+    expect(contributors?.data).toEqual([{ login: 'alice', contributions: 2 }, { login: 'bob@example.com', contributions: 1 }]);
+    expect(closedIssues).toEqual({
+      data: [{ number: 1, state: 'closed', created_at: '2024-01-01T00:00:00Z', closed_at: '2024-01-02T00:00:00Z', user: null, labels: [{ name: 'bug' }] }],
+      truncated: true,
+    });
+    expect(openPulls?.data).toHaveLength(2);
+    expect(openPulls?.data[0]).toEqual({ number: 5, state: 'open', created_at: '2024-09-01T00:00:00Z', closed_at: null, merged_at: null, user: { login: 'dave' } });
+    expect(releases?.data).toEqual([{ tag_name: 'v1.0.0', created_at: '2024-05-01T00:00:00Z', published_at: '2024-05-01T00:00:00Z', draft: false, prerelease: false }]);
+  });
+
+  it('should return an empty object for the license endpoint when the repository has no license', async () => {
+    (axios.post as jest.Mock).mockResolvedValue({ status: 200, headers: {}, data: { data: { repository: { ...snapshot, licenseInfo: null } } } });
+
+    const resolved = await resolveFromGraphQL(`${nextRepo()}/license`);
+
+    expect(resolved?.data).toEqual({});
+  });
+
+  it('should leave unsupported resources, other hosts and the REST backend to REST', async () => {
+    expect(await resolveFromGraphQL(`${nextRepo()}/readme`)).toBeUndefined();
+    expect(await resolveFromGraphQL('https://registry.npmjs.org/express')).toBeUndefined();
+
+    setGitHubBackend('rest');
+    expect(getGitHubBackend()).toBe('rest');
+    expect(await resolveFromGraphQL(nextRepo())).toBeUndefined();
+  });
+
+  it('should use REST when no token is configured', async () => {
+    delete process.env.GITHUB_TOKEN;
+
+    expect(await resolveFromGraphQL(nextRepo())).toBeUndefined();
+    expect(axios.post).not.toHaveBeenCalled();
+  });
+
+  it('should query a GitHub Enterprise Server host through its own endpoint and token', async () => {
+    process.env.GITHUB_API_HOSTS = 'github.acme.corp';
+    process.env.GITHUB_HOST_TOKENS = 'github.acme.corp=acme_token';
+
+    const resolved = await resolveFromGraphQL('https://github.acme.corp/api/v3/repos/team/service/license');
+
+    expect(resolved?.data).toEqual({ license: { key: 'mit', spdx_id: 'MIT', name: 'MIT License' } });
+    expect(axios.post).toHaveBeenCalledWith('https://github.acme.corp/api/graphql', expect.objectContaining({
+      variables: { owner: 'team', name: 'service' },
+    }), { headers: expect.objectContaining({ 'Authorization': 'bearer acme_token' }) });
+
+    delete process.env.GITHUB_HOST_TOKENS;
+    expect(await resolveFromGraphQL('https://github.acme.corp/api/v3/repos/team/other')).toBeUndefined();
+    delete process.env.GITHUB_API_HOSTS;
+  });
+
+  it('should throw when GraphQL reports errors', async () => {
+    (axios.post as jest.Mock).mockResolvedValue({ status: 200, headers: {}, data: { errors: [{ message: 'Could not resolve to a Repository' }] } });
+
+    await expect(resolveFromGraphQL(nextRepo())).rejects.toThrow('GraphQL request failed: Could not resolve to a Repository');
+  });
+});
+
+describe('GraphQL backend in the API helpers', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    process.env.GITHUB_TOKEN = 'mocked_token';
+    setGitHubBackend('graphql');
+    (axios.post as jest.Mock).mockResolvedValue({ status: 200, headers: {}, data: { data: { repository: snapshot } } });
+  });
+
+  afterAll(() => {
+    setGitHubBackend('rest');
+  });
+
+  it('should serve fetchJsonFromApi and complete lists without REST requests', async () => {
+    const repo = nextRepo();
+
+    const metadata = await fetchJsonFromApi(repo);
+    const openIssues = await fetchPaginatedJsonFromApi(`${repo}/issues?state=open`);
+
+    expect(metadata.size).toBe(2048);
+    expect(openIssues).toEqual({ data: [expect.objectContaining({ number: 3 })], pages: 1, truncated: false });
+    expect(axios.get).not.toHaveBeenCalled();
+  });
+
+  it('should page through REST when the snapshot holds only part of a list', async () => {
+    const repo = nextRepo();
+    (axios.get as jest.Mock).mockResolvedValue({ status: 200, headers: {}, data: [{ number: 1 }, { number: 2 }] });
+
+    const closedIssues = await fetchPaginatedJsonFromApi(`${repo}/issues?state=closed`);
+
+    expect(closedIssues).toEqual({ data: [{ number: 1 }, { number: 2 }], pages: 1, truncated: false });
+    expect(axios.get).toHaveBeenCalledTimes(1);
+  });
+
+  it('should fall back to REST when the GraphQL query fails', async () => {
+    (axios.post as jest.Mock).mockResolvedValue({ status: 200, headers: {}, data: { errors: [{ message: 'Something went wrong' }] } });
+    (axios.get as jest.Mock).mockResolvedValue({ status: 200, headers: {}, data: { size: 99 } });
+
+    const metadata = await fetchJsonFromApi(nextRepo());
+
+    expect(metadata).toEqual({ size: 99 });
+    expect(axios.get).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,121 @@
+import {
+  getAuthorizationHeader,
+  getGitHubApiBase,
+  getGitHubApiHosts,
+  getGitHubGraphQLURL,
+  getGitHubHostForApiUrl,
+  getGitHubToken,
+  getGitLabApiHosts,
+  getGitLabHostForApiUrl,
+  getGitLabToken,
+  isGitHubHost,
+  isGitLabHost,
+} from '../src/hosts';
+
+describe('GitHub host mappings', () => {
+  beforeEach(() => {
+    process.env.GITHUB_API_HOSTS = 'github.acme.corp=https://github.acme.corp/api/v3/, GHE.Example.com, code.test=http://127.0.0.1:8080';
+    process.env.GITHUB_HOST_TOKENS = 'github.acme.corp=acme_token';
+    process.env.GITHUB_TOKEN = 'public_token';
+  });
+
+  afterAll(() => {
+    delete process.env.GITHUB_API_HOSTS;
+    delete process.env.GITHUB_HOST_TOKENS;
+  });
+
+  it('should map every configured host to its API base', () => {
+    expect(getGitHubApiHosts()).toEqual(new Map([
+      ['github.com', 'https://api.github.com'],
+      ['github.acme.corp', 'https://github.acme.corp/api/v3'],
+      ['ghe.example.com', 'https://ghe.example.com/api/v3'],
+      ['code.test', 'http://127.0.0.1:8080'],
+    ]));
+    expect(getGitHubApiBase('GitHub.Acme.Corp')).toBe('https://github.acme.corp/api/v3');
+    expect(getGitHubApiBase('gitlab.com')).toBeNull();
+    expect(getGitHubApiBase(null)).toBeNull();
+  });
+
+  it('should only know github.com without configuration', () => {
+    delete process.env.GITHUB_API_HOSTS;
+
+    expect(isGitHubHost('github.com')).toBe(true);
+    expect(isGitHubHost('github.acme.corp')).toBe(false);
+  });
+
+  it('should find the host behind an API URL', () => {
+    expect(getGitHubHostForApiUrl('https://api.github.com/repos/owner/repo')).toBe('github.com');
+    expect(getGitHubHostForApiUrl('https://github.acme.corp/api/v3/repos/team/repo/issues?state=open')).toBe('github.acme.corp');
+    expect(getGitHubHostForApiUrl('https://github.acme.corp/team/repo')).toBeNull();
+    expect(getGitHubHostForApiUrl('https://registry.npmjs.org/express')).toBeNull();
+  });
+
+  it('should derive the GraphQL endpoint', () => {
+    expect(getGitHubGraphQLURL('github.com')).toBe('https://api.github.com/graphql');
+    expect(getGitHubGraphQLURL('github.acme.corp')).toBe('https://github.acme.corp/api/graphql');
+    expect(getGitHubGraphQLURL('code.test')).toBe('http://127.0.0.1:8080/graphql');
+    expect(getGitHubGraphQLURL('example.com')).toBeNull();
+  });
+
+  it('should send each GitHub host only its own token', () => {
+    expect(getGitHubToken('github.com')).toBe('public_token');
+    expect(getGitHubToken('github.acme.corp')).toBe('acme_token');
+    expect(getGitHubToken('ghe.example.com')).toBeUndefined();
+
+    expect(getAuthorizationHeader('https://api.github.com/repos/owner/repo')).toBe('token public_token');
+    expect(getAuthorizationHeader('https://github.acme.corp/api/v3/repos/team/repo')).toBe('token acme_token');
+    expect(getAuthorizationHeader('https://ghe.example.com/api/v3/repos/team/repo')).toBeUndefined();
+  });
+
+  it('should send no token to hosts that are not a known API', () => {
+    expect(getAuthorizationHeader('https://registry.npmjs.org/express')).toBeUndefined();
+    expect(getAuthorizationHeader('https://example.com/repos/owner/repo')).toBeUndefined();
+    expect(getAuthorizationHeader('https://api.github.com.example.com/repos/owner/repo')).toBeUndefined();
+  });
+});
+
+describe('GitLab host mappings', () => {
+  beforeEach(() => {
+    process.env.GITLAB_API_HOSTS = 'gitlab.acme.corp=https://gitlab.acme.corp/api/v4/, code.example.com';
+    process.env.GITLAB_HOST_TOKENS = 'gitlab.acme.corp=acme_token';
+    process.env.GITLAB_TOKEN = 'public_token';
+    delete process.env.GITLAB_API_URL;
+  });
+
+  afterAll(() => {
+    delete process.env.GITLAB_API_URL;
+    delete process.env.GITLAB_API_HOSTS;
+    delete process.env.GITLAB_HOST_TOKENS;
+    delete process.env.GITLAB_TOKEN;
+  });
+
+  it('should map every configured host to its API base', () => {
+    expect(getGitLabApiHosts()).toEqual(new Map([
+      ['gitlab.com', 'https://gitlab.com/api/v4'],
+      ['gitlab.acme.corp', 'https://gitlab.acme.corp/api/v4'],
+      ['code.example.com', 'https://code.example.com/api/v4'],
+    ]));
+    expect(isGitLabHost('GitLab.Acme.Corp')).toBe(true);
+    expect(isGitLabHost('github.com')).toBe(false);
+    expect(isGitLabHost(null)).toBe(false);
+  });
+
+  it('should know the host of a self-managed GITLAB_API_URL', () => {
+    delete process.env.GITLAB_API_HOSTS;
+    process.env.GITLAB_API_URL = 'https://git.example.org/api/v4';
+
+    expect(isGitLabHost('git.example.org')).toBe(true);
+    expect(getGitLabToken('git.example.org')).toBe('public_token');
+    expect(getAuthorizationHeader('https://git.example.org/api/v4/projects/a%2Fb')).toBe('Bearer public_token');
+  });
+
+  it('should send each GitLab host only its own token', () => {
+    expect(getGitLabToken('gitlab.com')).toBe('public_token');
+    expect(getGitLabToken('gitlab.acme.corp')).toBe('acme_token');
+    expect(getGitLabToken('code.example.com')).toBeUndefined();
+    expect(getAuthorizationHeader('https://gitlab.com/api/v4/projects/a%2Fb')).toBe('Bearer public_token');
+    expect(getAuthorizationHeader('https://gitlab.acme.corp/api/v4/projects/a%2Fb')).toBe('Bearer acme_token');
+    expect(getAuthorizationHeader('https://code.example.com/api/v4/projects/a%2Fb')).toBeUndefined();
+    expect(getGitLabHostForApiUrl('https://registry.npmjs.org/express')).toBeNull();
+  });
+});
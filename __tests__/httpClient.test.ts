@@ -0,0 +1,152 @@
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { getWithRetry, getRateLimitState, RateLimitError } from '../src/httpClient';
+
+jest.mock('../src/logFile');
+
+// Each response the stub server should send, in order; the last one repeats
+type StubResponse = { status: number, headers?: Record<string, string>, body?: any };
+
+describe('getWithRetry', () => {
+  let server: http.Server;
+  let baseUrl: string;
+  let responses: StubResponse[];
+  let hits: number;
+
+  const fastOptions = { maxRetries: 3, baseDelayMs: 1, maxRateLimitWaitMs: 1000 };
+
+  beforeEach(async () => {
+    hits = 0;
+    responses = [];
+    server = http.createServer((req, res) => {
+      const stub = responses[Math.min(hits, responses.length - 1)];
+      hits++;
+      res.writeHead(stub.status, { 'Content-Type': 'application/json', ...stub.headers });
+      res.end(JSON.stringify(stub.body ?? {}));
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterEach(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  it('should return the response on success and record the rate limit budget', async () => {
+    const reset = Math.floor(Date.now() / 1000) + 60;
+    responses = [{ status: 200, headers: { 'X-RateLimit-Limit': '5000', 'X-RateLimit-Remaining': '4999', 'X-RateLimit-Reset': String(reset) }, body: { ok: true } }];
+
+    const response = await getWithRetry(`${baseUrl}/repos/a/b`, {}, fastOptions);
+
+    expect(response.data).toEqual({ ok: true });
+    expect(getRateLimitState(new URL(baseUrl).host)).toEqual({ limit: 5000, remaining: 4999, resetAt: reset * 1000 });
+  });
+
+  it('should retry 5xx responses with backoff until one succeeds', async () => {
+    responses = [{ status: 502 }, { status: 503 }, { status: 200, body: { ok: true } }];
+
+    const response = await getWithRetry(`${baseUrl}/repos/a/b`, {}, fastOptions);
+
+    expect(response.data).toEqual({ ok: true });
+    expect(hits).toBe(3);
+  });
+
+  it('should give up on 5xx responses after the configured number of retries', async () => {
+    responses = [{ status: 500 }];
+
+    await expect(getWithRetry(`${baseUrl}/repos/a/b`, {}, { ...fastOptions, maxRetries: 2 })).rejects.toMatchObject({ response: { status: 500 } });
+    expect(hits).toBe(3);
+  });
+
+  it('should wait for Retry-After on a secondary rate limit and retry', async () => {
+    responses = [
+      { status: 403, headers: { 'Retry-After': '0' }, body: { message: 'You have exceeded a secondary rate limit.' } },
+      { status: 200, body: { ok: true } }
+    ];
+
+    const response = await getWithRetry(`${baseUrl}/repos/a/b`, {}, fastOptions);
+
+    expect(response.data).toEqual({ ok: true });
+    expect(hits).toBe(2);
+  });
+
+  it('should read Retry-After as an HTTP-date', async () => {
+    const retryAt = new Date(Math.ceil(Date.now() / 1000) * 1000 + 3600 * 1000);
+    responses = [{ status: 429, headers: { 'Retry-After': retryAt.toUTCString() } }];
+
+    const error = await getWithRetry(`${baseUrl}/repos/a/b`, {}, fastOptions).catch(e => e);
+
+    expect(error).toBeInstanceOf(RateLimitError);
+    expect(error.resetAt).toBeGreaterThanOrEqual(retryAt.getTime() - 1000);
+    expect(error.resetAt).toBeLessThanOrEqual(retryAt.getTime() + 1000);
+    expect(hits).toBe(1); // Too far away to wait for
+  });
+
+  it('should retry at once after a Retry-After date in the past', async () => {
+    responses = [
+      { status: 429, headers: { 'Retry-After': new Date(Date.now() - 60000).toUTCString() } },
+      { status: 200, body: { ok: true } }
+    ];
+
+    const response = await getWithRetry(`${baseUrl}/repos/a/b`, {}, fastOptions);
+
+    expect(response.data).toEqual({ ok: true });
+    expect(hits).toBe(2);
+  });
+
+  it('should throw a RateLimitError when retries on 429 are exhausted', async () => {
+    responses = [{ status: 429, headers: { 'Retry-After': '0' } }];
+
+    const request = getWithRetry(`${baseUrl}/repos/a/b`, {}, { ...fastOptions, maxRetries: 1 });
+
+    await expect(request).rejects.toBeInstanceOf(RateLimitError);
+    expect(hits).toBe(2);
+  });
+
+  it('should throw a RateLimitError immediately when the primary limit resets too far away', async () => {
+    const reset = Math.floor(Date.now() / 1000) + 3600;
+    responses = [{ status: 403, headers: { 'X-RateLimit-Remaining': '0', 'X-RateLimit-Reset': String(reset) }, body: { message: 'API rate limit exceeded' } }];
+
+    const error = await getWithRetry(`${baseUrl}/repos/a/b`, {}, fastOptions).catch(e => e);
+
+    expect(error).toBeInstanceOf(RateLimitError);
+    expect(error.status).toBe(403);
+    expect(hits).toBe(1);
+  });
+
+  it('should defer new requests to a host whose budget is exhausted', async () => {
+    const reset = Math.floor(Date.now() / 1000) + 3600;
+    responses = [{ status: 200, headers: { 'X-RateLimit-Remaining': '0', 'X-RateLimit-Reset': String(reset) } }];
+
+    await getWithRetry(`${baseUrl}/repos/a/b`, {}, fastOptions);
+    const error = await getWithRetry(`${baseUrl}/repos/a/c`, {}, fastOptions).catch(e => e);
+
+    expect(error).toBeInstanceOf(RateLimitError);
+    expect(error.resetAt).toBe(reset * 1000);
+    expect(hits).toBe(1); // The second request was never sent
+  });
+
+  it('should not retry client errors', async () => {
+    responses = [{ status: 404, body: { message: 'Not Found' } }];
+
+    await expect(getWithRetry(`${baseUrl}/repos/a/b`, {}, fastOptions)).rejects.toMatchObject({ response: { status: 404 } });
+    expect(hits).toBe(1);
+  });
+
+  it('should return 304 responses to the caller', async () => {
+    responses = [{ status: 304 }];
+
+    const response = await getWithRetry(`${baseUrl}/repos/a/b`, { 'If-None-Match': '"abc"' }, fastOptions);
+
+    expect(response.status).toBe(304);
+    expect(hits).toBe(1);
+  });
+
+  it('should retry network errors', async () => {
+    const closedUrl = baseUrl;
+    await new Promise(resolve => server.close(resolve));
+    server = http.createServer();
+
+    await expect(getWithRetry(`${closedUrl}/repos/a/b`, {}, { ...fastOptions, maxRetries: 1 })).rejects.toMatchObject({ code: 'ECONNREFUSED' });
+  });
+});
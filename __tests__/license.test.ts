@@ -1,51 +1,69 @@
-import { getLicenseScore } from '../src/metrics/license';
+import { detectLicenseInText, getLicenseScore, scoreLicenseExpression } from '../src/metrics/license';
 import { fetchJsonFromApi } from '../src/API';
 import { getGitHubAPILink } from '../src/githubData';
 import { getTimestampWithThreeDecimalPlaces } from '../src/metrics/getLatency';
+import { getDefaultConfig, ScoreConfig } from '../src/config';
+import { LicenseFile, LicenseInfo } from '../src/providers/provider';
+import { RepoContext } from '../src/repoContext';
+import { parseSpdxExpression } from '../src/spdx';
+import { LICENSE_CORPUS } from '../src/licenseCorpus';
 
 // Mock dependencies
 jest.mock('../src/API');
 jest.mock('../src/githubData');
 jest.mock('../src/metrics/getLatency');
 
+// Builds a context serving a package manifest, a license, license files and a README
+function makeContext(data: { manifest?: any, license?: LicenseInfo | null, files?: LicenseFile[], readme?: string | null }): RepoContext {
+  return {
+    url: 'https://github.com/example/repo',
+    getPackageManifest: jest.fn().mockResolvedValue(data.manifest),
+    getLicense: jest.fn().mockResolvedValue(data.license ?? null),
+    getLicenseFiles: jest.fn().mockResolvedValue(data.files ?? []),
+    getReadme: jest.fn().mockResolvedValue(data.readme ?? null),
+  } as unknown as RepoContext;
+}
+
 describe('getLicenseScore', () => {
   const mockGitHubURL = 'https://github.com/example/repo';
-  const mockAPIResponseWithLicense = { license: { name: 'MIT' } };
+  const mockAPIResponseWithLicense = { license: { key: 'mit', spdx_id: 'MIT', name: 'MIT License' } };
   const mockAPIResponseWithoutLicense = {};
 
   beforeEach(() => {
     jest.clearAllMocks();
   });
 
-  it('should return a score of 1 if a license is present', async () => {
+  it('should return a score of 1 for a license compatible with LGPL-2.1', async () => {
     // Mock the API call and other dependencies
-    (getGitHubAPILink as jest.Mock).mockReturnValue('https://api.github.com/repos/example/repo/license');
+    (getGitHubAPILink as jest.Mock).mockReturnValue('https://api.github.com/repos/example/repo');
     (fetchJsonFromApi as jest.Mock).mockResolvedValue(mockAPIResponseWithLicense);
     (getTimestampWithThreeDecimalPlaces as jest.Mock).mockReturnValue(1000);
 
-    const { score, latency } = await getLicenseScore(mockGitHubURL);
+    const { score, latency, details } = await getLicenseScore(mockGitHubURL);
 
     expect(score).toEqual(1);
     expect(latency).toEqual(0); // Latency is mocked to return 0 in this case
-    expect(getGitHubAPILink).toHaveBeenCalledWith(mockGitHubURL, 'license');
+    expect(details).toEqual({ Detected: 'MIT', Confidence: null, Reason: 'The license API declares MIT, which scores 1 in the license compatibility matrix.' });
+    expect(getGitHubAPILink).toHaveBeenCalledWith(mockGitHubURL);
     expect(fetchJsonFromApi).toHaveBeenCalledWith('https://api.github.com/repos/example/repo/license');
   });
 
   it('should return a score of 0 if no license is found', async () => {
-    (getGitHubAPILink as jest.Mock).mockReturnValue('https://api.github.com/repos/example/repo/license');
+    (getGitHubAPILink as jest.Mock).mockReturnValue('https://api.github.com/repos/example/repo');
     (fetchJsonFromApi as jest.Mock).mockResolvedValue(mockAPIResponseWithoutLicense);
     (getTimestampWithThreeDecimalPlaces as jest.Mock).mockReturnValue(1000);
 
-    const { score, latency } = await getLicenseScore(mockGitHubURL);
+    const { score, latency, explanation } = await getLicenseScore(mockGitHubURL);
 
     expect(score).toEqual(0);
     expect(latency).toEqual(0); // Latency is mocked to return 0 in this case
-    expect(getGitHubAPILink).toHaveBeenCalledWith(mockGitHubURL, 'license');
+    expect(explanation?.reasoning).toBe('No license was found, so the score is 0.');
+    expect(getGitHubAPILink).toHaveBeenCalledWith(mockGitHubURL);
     expect(fetchJsonFromApi).toHaveBeenCalledWith('https://api.github.com/repos/example/repo/license');
   });
 
   it('should calculate the correct latency', async () => {
-    (getGitHubAPILink as jest.Mock).mockReturnValue('https://api.github.com/repos/example/repo/license');
+    (getGitHubAPILink as jest.Mock).mockReturnValue('https://api.github.com/repos/example/repo');
     (fetchJsonFromApi as jest.Mock).mockResolvedValue(mockAPIResponseWithLicense);
     (getTimestampWithThreeDecimalPlaces as jest.Mock)
       .mockReturnValueOnce(1000) // Start time
@@ -56,4 +74,142 @@ describe('getLicenseScore', () => {
     expect(score).toEqual(1);
     expect(latency).toEqual(5); // Latency calculated as 1005 - 1000
   });
+
+  it('should score GPL-3.0 as incompatible', async () => {
+    (getTimestampWithThreeDecimalPlaces as jest.Mock).mockReturnValue(1000);
+    const context = makeContext({ license: { key: 'gpl-3.0', spdxId: 'GPL-3.0', name: 'GNU General Public License v3.0', text: null } });
+
+    const { score, details } = await getLicenseScore(mockGitHubURL, context, getDefaultConfig());
+
+    expect(score).toBe(0);
+    expect(details?.Detected).toBe('GPL-3.0-only');
+  });
+
+  it('should prefer the license of the npm manifest', async () => {
+    (getTimestampWithThreeDecimalPlaces as jest.Mock).mockReturnValue(1000);
+    const context = makeContext({
+      manifest: { license: 'MIT OR Apache-2.0' },
+      license: { key: 'apache-2.0', spdxId: 'Apache-2.0', name: 'Apache License 2.0', text: null },
+    });
+
+    const { score, details, explanation } = await getLicenseScore(mockGitHubURL, context, getDefaultConfig());
+
+    expect(score).toBe(1);
+    expect(details).toEqual({
+      Detected: 'MIT OR Apache-2.0',
+      Confidence: null,
+      Reason: 'The npm manifest declares MIT OR Apache-2.0: MIT scores 1, Apache-2.0 scores 0.5. OR takes the best choice and AND the worst, so the score is 1.',
+    });
+    expect(explanation?.inputs).toEqual({ declared: 'MIT OR Apache-2.0', source: 'the npm manifest' });
+    expect(context.getLicense).not.toHaveBeenCalled();
+  });
+
+  it('should read the license file when the API reports NOASSERTION', async () => {
+    (getTimestampWithThreeDecimalPlaces as jest.Mock).mockReturnValue(1000);
+    const text = 'GNU LESSER GENERAL PUBLIC LICENSE\n                       Version 2.1, February 1999\n';
+    const context = makeContext({ license: { key: 'other', spdxId: 'NOASSERTION', name: 'Other', text } });
+
+    const { score, details } = await getLicenseScore(mockGitHubURL, context, getDefaultConfig());
+
+    expect(score).toBe(1);
+    expect(details?.Detected).toBe('LGPL-2.1-only');
+  });
+
+  it('should read the License section of the README when there is no license file', async () => {
+    (getTimestampWithThreeDecimalPlaces as jest.Mock).mockReturnValue(1000);
+    const readme = '# Repo\n\nUses MIT-style tooling.\n\n## License\n\nReleased under the Apache License 2.0.\n\n## Contributing\n\nMIT';
+    const context = makeContext({ readme });
+
+    const { score, details } = await getLicenseScore(mockGitHubURL, context, getDefaultConfig());
+
+    expect(score).toBe(0.5);
+    expect(details?.Detected).toBe('Apache-2.0');
+  });
+
+  it('should classify a COPYING file when the API finds no license', async () => {
+    (getTimestampWithThreeDecimalPlaces as jest.Mock).mockReturnValue(1000);
+    const text = `Copyright (C) 2021 Example Authors\n\n${LICENSE_CORPUS['LGPL-2.1-only']}`;
+    const context = makeContext({ files: [{ path: 'COPYING', text }] });
+
+    const { score, details, explanation } = await getLicenseScore(mockGitHubURL, context, getDefaultConfig());
+
+    expect(score).toBe(1);
+    expect(details).toEqual({
+      Detected: 'LGPL-2.1-only',
+      Confidence: 1,
+      Reason: 'The file COPYING matches the text of LGPL-2.1-only with confidence 1, which scores 1 in the license compatibility matrix.',
+    });
+    expect(explanation?.thresholds).toMatchObject({ minConfidence: 0.8 });
+  });
+
+  it('should classify the full license text in the License section of the README', async () => {
+    (getTimestampWithThreeDecimalPlaces as jest.Mock).mockReturnValue(1000);
+    const readme = `# Repo\n\n## License\n\nCopyright (c) 2024 Example\n\n${LICENSE_CORPUS['BSD-2-Clause']}`;
+    const context = makeContext({ readme });
+
+    const { score, details } = await getLicenseScore(mockGitHubURL, context, getDefaultConfig());
+
+    expect(score).toBe(1);
+    expect(details?.Detected).toBe('BSD-2-Clause');
+    expect(details?.Confidence).toBeGreaterThanOrEqual(0.8);
+  });
+
+  it('should not trust a match below the minimum confidence', async () => {
+    (getTimestampWithThreeDecimalPlaces as jest.Mock).mockReturnValue(1000);
+    const config: ScoreConfig = getDefaultConfig();
+    config.license.unknown = 0.25;
+    const text = 'This software may be used, copied and modified by employees of Example Corp for any purpose, provided that this notice is kept.';
+    const context = makeContext({ files: [{ path: 'LICENSE.txt', text }] });
+
+    const { score, details } = await getLicenseScore(mockGitHubURL, context, config);
+
+    expect(score).toBe(0.25);
+    expect(details).toEqual({ Detected: 'LICENSE.txt', Confidence: null, Reason: 'A license was found in the file LICENSE.txt but not identified, so the score is 0.25.' });
+  });
+
+  it('should score a license that is not identified as unknown', async () => {
+    (getTimestampWithThreeDecimalPlaces as jest.Mock).mockReturnValue(1000);
+    const config: ScoreConfig = getDefaultConfig();
+    config.license.unknown = 0.25;
+    const context = makeContext({ license: { key: 'other', spdxId: 'NOASSERTION', name: 'Other', text: 'All rights reserved.' } });
+
+    const { score, details } = await getLicenseScore(mockGitHubURL, context, config);
+
+    expect(score).toBe(0.25);
+    expect(details).toEqual({ Detected: 'NOASSERTION', Confidence: null, Reason: 'A license was found in the license API (NOASSERTION) but not identified, so the score is 0.25.' });
+  });
+});
+
+describe('scoreLicenseExpression', () => {
+  const settings = { compatibility: { 'MIT': 1, 'Apache-2.0': 0.5, 'GPL-2.0-or-later': 0, 'GPL-2.0-or-later WITH Classpath-exception-2.0': 0.75 }, unknown: 0.1 };
+
+  it('should take the best license of OR and the worst of AND', () => {
+    expect(scoreLicenseExpression(parseSpdxExpression('MIT OR GPL-2.0+'), settings).score).toBe(1);
+    expect(scoreLicenseExpression(parseSpdxExpression('MIT AND (Apache-2.0 OR GPL-2.0+)'), settings).score).toBe(0.5);
+  });
+
+  it('should look up a license with its exception first', () => {
+    expect(scoreLicenseExpression(parseSpdxExpression('GPL-2.0+ WITH Classpath-exception-2.0'), settings).score).toBe(0.75);
+    expect(scoreLicenseExpression(parseSpdxExpression('Apache-2.0 WITH LLVM-exception'), settings).score).toBe(0.5);
+  });
+
+  it('should give licenses missing from the matrix the unknown score', () => {
+    expect(scoreLicenseExpression(parseSpdxExpression('LicenseRef-Proprietary'), settings)).toEqual({
+      score: 0.1,
+      licenses: { 'LicenseRef-Proprietary': 0.1 },
+      unknown: ['LicenseRef-Proprietary'],
+    });
+  });
+});
+
+describe('detectLicenseInText', () => {
+  it('should read an SPDX-License-Identifier tag', () => {
+    expect(detectLicenseInText('/* SPDX-License-Identifier: BSD-3-Clause OR MIT */')).toEqual(parseSpdxExpression('BSD-3-Clause OR MIT'));
+  });
+
+  it('should recognize the text of common licenses', () => {
+    expect(detectLicenseInText('MIT License\n\nPermission is hereby granted, free of charge, to any person')).toEqual(parseSpdxExpression('MIT'));
+    expect(detectLicenseInText('Redistribution and use in source and binary forms, with or without\nmodification...')).toEqual(parseSpdxExpression('BSD-2-Clause'));
+    expect(detectLicenseInText('Copyright 2024. All rights reserved.')).toBeNull();
+  });
 });
@@ -0,0 +1,46 @@
+import { classifyLicenseText, normalizeLicenseText } from '../src/licenseClassifier';
+import { LICENSE_CORPUS } from '../src/licenseCorpus';
+
+describe('normalizeLicenseText', () => {
+  it('should drop copyright lines, URLs, case and punctuation', () => {
+    const text = 'Copyright (c) 2024 Example Authors\nAll rights reserved.\n\nSee <https://example.com/LICENSE>.\nThe Licence applies;\n  Terms & Conditions.';
+
+    expect(normalizeLicenseText(text)).toBe('see the license applies terms and conditions');
+  });
+});
+
+describe('classifyLicenseText', () => {
+  it('should match every corpus text to itself', () => {
+    for (const [license, text] of Object.entries(LICENSE_CORPUS)) {
+      expect(classifyLicenseText(text)).toEqual({ license, confidence: 1 });
+    }
+  });
+
+  it('should ignore the copyright holder and line wrapping', () => {
+    const text = LICENSE_CORPUS['MIT']
+      .replace('Copyright (c) <year> <copyright holders>', 'Copyright © 2019-2024 Jane Doe <jane@example.com>')
+      .replace(/([^\n])\n([^\n])/g, '$1 $2');
+
+    expect(classifyLicenseText(text)).toEqual({ license: 'MIT', confidence: 1 });
+  });
+
+  it('should tell the BSD licenses apart', () => {
+    const match = classifyLicenseText(LICENSE_CORPUS['BSD-3-Clause']);
+    const twoClause = classifyLicenseText(LICENSE_CORPUS['BSD-2-Clause']);
+
+    expect(match?.license).toBe('BSD-3-Clause');
+    expect(twoClause?.license).toBe('BSD-2-Clause');
+  });
+
+  it('should give a partial text a lower confidence', () => {
+    const half = LICENSE_CORPUS['Apache-2.0'].slice(0, LICENSE_CORPUS['Apache-2.0'].length / 2);
+    const match = classifyLicenseText(half);
+
+    expect(match?.license).toBe('Apache-2.0');
+    expect(match?.confidence).toBeLessThan(0.8);
+  });
+
+  it('should return null for a text without words', () => {
+    expect(classifyLicenseText('Copyright 2024 Example\n---')).toBeNull();
+  });
+});
@@ -1,4 +1,5 @@
-import { getNumberOfCores } from '../src/multithread';
+import * as path from 'path';
+import { getDefaultConcurrency, getNumberOfCores, runInWorker, runPool, setWorkerThreadsEnabled } from '../src/multithread';
 import { cpus } from 'os';
 import { logMessage } from '../src/logFile';
 
@@ -54,4 +55,88 @@ describe('getNumberOfCores', () => {
     // Check the result for 8 CPU cores
     expect(result).toEqual(8);
   });
-});
\ No newline at end of file
+});
+
+describe('getDefaultConcurrency', () => {
+  it('should follow the core count up to a cap', () => {
+    expect(getDefaultConcurrency(2, null)).toBe(8);
+    expect(getDefaultConcurrency(32, null)).toBe(16);
+    expect(getDefaultConcurrency(0, null)).toBe(4);
+  });
+
+  it('should shrink as the API budget runs low', () => {
+    expect(getDefaultConcurrency(4, 5000)).toBe(16);
+    expect(getDefaultConcurrency(4, 60)).toBe(6);
+    expect(getDefaultConcurrency(4, 0)).toBe(1);
+  });
+});
+
+describe('runPool', () => {
+  // Resolves with the item after the given delay
+  const delayed = (item: number) => new Promise<number>(resolve => setTimeout(() => resolve(item), item));
+
+  it('should keep the item order and the concurrency limit', async () => {
+    let running = 0;
+    let maxRunning = 0;
+    const progress: number[] = [];
+
+    const results = await runPool([30, 5, 20, 1, 10], async item => {
+      maxRunning = Math.max(maxRunning, ++running);
+      const result = await delayed(item);
+      running--;
+      return result * 2;
+    }, 2, ({ done }) => progress.push(done));
+
+    expect(results).toEqual([60, 10, 40, 2, 20]);
+    expect(maxRunning).toBe(2);
+    expect(progress).toEqual([1, 2, 3, 4, 5]);
+  });
+
+  it('should read a changing limit before each task', async () => {
+    let limit = 3;
+    let running = 0;
+    const seen: number[] = [];
+
+    await runPool([1, 1, 1, 1, 1, 1], async item => {
+      seen.push(++running);
+      limit = 1;
+      await delayed(item);
+      running--;
+    }, () => limit);
+
+    expect(seen).toEqual([1, 2, 3, 1, 1, 1]);
+  });
+
+  it('should resolve an empty run and reject when a task throws', async () => {
+    await expect(runPool([], delayed, 4)).resolves.toEqual([]);
+    await expect(runPool([1, 2], async item => {
+      throw new Error(`Task ${item} failed`);
+    }, 1)).rejects.toThrow('Task 1 failed');
+  });
+});
+
+describe('runInWorker', () => {
+  const file = path.join(__dirname, 'data', 'analysis.js');
+
+  afterEach(() => {
+    setWorkerThreadsEnabled(false);
+  });
+
+  it('should run in the current thread unless worker threads are enabled', async () => {
+    await expect(runInWorker(file, 'countWords', ['one two  three'])).resolves.toBe(3);
+  });
+
+  it('should return the result or the error of a worker thread', async () => {
+    setWorkerThreadsEnabled(true);
+
+    await expect(runInWorker(file, 'countWords', ['one two  three'])).resolves.toBe(3);
+    await expect(runInWorker(file, 'fail', [])).rejects.toThrow('Cannot analyze the input');
+  });
+
+  it('should reject when a worker thread exits without a result', async () => {
+    setWorkerThreadsEnabled(true);
+
+    await expect(runInWorker(file, 'exit', [3])).rejects.toThrow('Worker thread for exit exited with code 3 before returning a result');
+    await expect(runInWorker(file, 'exit', [0])).rejects.toThrow('exited with code 0');
+  });
+});
@@ -16,16 +16,16 @@ describe('getNetScore', () => {
     const responsive_maintainer = 0.85;
     const license = 1.0;
 
-    const result = await getNetScore(ramp_up_time, correctness, bus_factor, responsive_maintainer, license);
+    const result = await getNetScore({ RampUp: ramp_up_time, Correctness: correctness, BusFactor: bus_factor, ResponsiveMaintainer: responsive_maintainer, License: license });
 
     expect(logMessage).toHaveBeenCalledWith('getNetScore', ['Calculating net score.', 'Starting calculations.']);
-    expect(logMessage).toHaveBeenCalledWith('getNetScore', ['Net score calculated before rounding.', `Net score: 0.8475000000000001`]); // Adjusted the calculated value
+    expect(logMessage).toHaveBeenCalledWith('getNetScore', ['Net score calculated before rounding.', `Net score: 0.8474999999999999`]); // Metrics are added in output order
     expect(logMessage).toHaveBeenCalledWith('getNetScore', ['Net score rounded.', `Rounded net score: 0.8`]); // Adjusted the rounded value
 
     // Net score formula:
-    // 0.2 * license + 0.25 * bus_factor + 0.25 * responsive_maintainer + 0.2 * correctness + 0.1 * ramp_up_time
-    // = (0.2 * 1.0) + (0.25 * 0.7) + (0.25 * 0.85) + (0.2 * 0.9) + (0.1 * 0.8)
-    // = 0.2 + 0.175 + 0.2125 + 0.18 + 0.08 = 0.8475, rounded to 0.8
+    // 0.1 * ramp_up_time + 0.2 * correctness + 0.25 * bus_factor + 0.25 * responsive_maintainer + 0.2 * license
+    // = (0.1 * 0.8) + (0.2 * 0.9) + (0.25 * 0.7) + (0.25 * 0.85) + (0.2 * 1.0)
+    // = 0.08 + 0.18 + 0.175 + 0.2125 + 0.2 = 0.8475, rounded to 0.8
 
     expect(result).toEqual(0.8); // Final rounded net score
 });
@@ -37,7 +37,7 @@ describe('getNetScore', () => {
     const responsive_maintainer = 0;
     const license = 0;
 
-    const result = await getNetScore(ramp_up_time, correctness, bus_factor, responsive_maintainer, license);
+    const result = await getNetScore({ RampUp: ramp_up_time, Correctness: correctness, BusFactor: bus_factor, ResponsiveMaintainer: responsive_maintainer, License: license });
 
     expect(logMessage).toHaveBeenCalledWith('getNetScore', ['Calculating net score.', 'Starting calculations.']);
     expect(logMessage).toHaveBeenCalledWith('getNetScore', ['Net score calculated before rounding.', `Net score: 0`]);
@@ -53,17 +53,46 @@ describe('getNetScore', () => {
     const responsive_maintainer = 0.3;
     const license = 0.8;
 
-    const result = await getNetScore(ramp_up_time, correctness, bus_factor, responsive_maintainer, license);
+    const result = await getNetScore({ RampUp: ramp_up_time, Correctness: correctness, BusFactor: bus_factor, ResponsiveMaintainer: responsive_maintainer, License: license });
 
     // Formula:
-    // 0.2 * 0.8 + 0.25 * 0.9 + 0.25 * 0.3 + 0.2 * 0.2 + 0.1 * 0.5
-    // = 0.16 + 0.225 + 0.075 + 0.04 + 0.05 = 0.55
+    // 0.1 * 0.5 + 0.2 * 0.2 + 0.25 * 0.9 + 0.25 * 0.3 + 0.2 * 0.8
+    // = 0.05 + 0.04 + 0.225 + 0.075 + 0.16 = 0.55
     expect(logMessage).toHaveBeenCalledWith('getNetScore', ['Calculating net score.', 'Starting calculations.']);
     expect(logMessage).toHaveBeenCalledWith('getNetScore', ['Net score calculated before rounding.', `Net score: 0.55`]);
     expect(logMessage).toHaveBeenCalledWith('getNetScore', ['Net score rounded.', `Rounded net score: 0.6`]);
 
     expect(result).toEqual(0.6); // Final rounded score
   });
+
+  it('should use the given weights', async () => {
+    const weights = { BusFactor: 0, Correctness: 0, License: 0.5, RampUp: 0.5, ResponsiveMaintainer: 0 };
+
+    const result = await getNetScore({ RampUp: 0.4, Correctness: 1, BusFactor: 1, ResponsiveMaintainer: 1, License: 1 }, weights);
+
+    expect(result).toEqual(0.7); // 0.5 * 1 + 0.5 * 0.4
+  });
+
+  it('should renormalize over the metrics that succeeded', async () => {
+    const weights = { RampUp: 0.5, License: 0.25, BusFactor: 0.25 };
+
+    expect(await getNetScore({ RampUp: 1, License: 0.4, BusFactor: null }, weights, 'renormalize')).toEqual(0.8); // (0.5 + 0.1) / 0.75
+    expect(await getNetScore({ RampUp: null, License: null, BusFactor: null }, weights, 'renormalize')).toBeNull();
+  });
+
+  it('should count failed metrics as zero', async () => {
+    const weights = { RampUp: 0.5, License: 0.25, BusFactor: 0.25 };
+
+    expect(await getNetScore({ RampUp: 1, License: 0.4, BusFactor: null }, weights, 'zero')).toEqual(0.6); // 0.5 + 0.1
+  });
+
+  it('should weigh plugin metrics and ignore metrics without a weight', async () => {
+    const weights = { RampUp: 0.5, Security: 0.5 };
+
+    const result = await getNetScore({ RampUp: 1, Security: 0.2, Popularity: 1 }, weights);
+
+    expect(result).toEqual(0.6); // 0.5 * 1 + 0.5 * 0.2
+  });
 });
 
 describe('getNetScoreLatency', () => {
@@ -78,13 +107,13 @@ describe('getNetScoreLatency', () => {
     const responsive_maintainer_latency = 9.2;
     const license_latency = 4.1;
 
-    const result = await getNetScoreLatency(
-      ramp_up_latency,
-      correctness_latency,
-      bus_factor_latency,
-      responsive_maintainer_latency,
-      license_latency
-    );
+    const result = await getNetScoreLatency({
+      RampUp: ramp_up_latency,
+      Correctness: correctness_latency,
+      BusFactor: bus_factor_latency,
+      ResponsiveMaintainer: responsive_maintainer_latency,
+      License: license_latency
+    });
 
     expect(logMessage).toHaveBeenCalledWith('getNetScoreLatency', ['Calculating net score latency.', 'Starting latency calculations.']);
     expect(logMessage).toHaveBeenCalledWith('getNetScoreLatency', ['Net score latency calculated before rounding.', `Net score latency: 38.800000000000004`]); // Adjusted the calculated value
@@ -101,13 +130,13 @@ it('should handle zero latencies and return 0', async () => {
   const responsive_maintainer_latency = 0;
   const license_latency = 0;
 
-  const result = await getNetScoreLatency(
-    ramp_up_latency,
-    correctness_latency,
-    bus_factor_latency,
-    responsive_maintainer_latency,
-    license_latency
-  );
+  const result = await getNetScoreLatency({
+    RampUp: ramp_up_latency,
+    Correctness: correctness_latency,
+    BusFactor: bus_factor_latency,
+    ResponsiveMaintainer: responsive_maintainer_latency,
+    License: license_latency
+  });
 
   expect(logMessage).toHaveBeenCalledWith('getNetScoreLatency', ['Calculating net score latency.', 'Starting latency calculations.']);
   expect(logMessage).toHaveBeenCalledWith('getNetScoreLatency', ['Net score latency calculated before rounding.', `Net score latency: 0`]);
@@ -123,13 +152,13 @@ it('should handle a mix of latencies and return the correct latency sum', async
   const responsive_maintainer_latency = 7.8;
   const license_latency = 9.1;
 
-  const result = await getNetScoreLatency(
-    ramp_up_latency,
-    correctness_latency,
-    bus_factor_latency,
-    responsive_maintainer_latency,
-    license_latency
-  );
+  const result = await getNetScoreLatency({
+    RampUp: ramp_up_latency,
+    Correctness: correctness_latency,
+    BusFactor: bus_factor_latency,
+    ResponsiveMaintainer: responsive_maintainer_latency,
+    License: license_latency
+  });
 
   expect(logMessage).toHaveBeenCalledWith('getNetScoreLatency', ['Calculating net score latency.', 'Starting latency calculations.']);
   expect(logMessage).toHaveBeenCalledWith('getNetScoreLatency', ['Net score latency calculated before rounding.', `Net score latency: 27.1`]); // Adjusted value
@@ -138,4 +167,8 @@ it('should handle a mix of latencies and return the correct latency sum', async
   // Total latency = 1.2 + 3.4 + 5.6 + 7.8 + 9.1 = 27.1
   expect(result).toEqual(27.1); // Final rounded latency score
 });
+
+it('should leave out the latencies of failed metrics', async () => {
+  expect(await getNetScoreLatency({ RampUp: 1.5, License: null })).toEqual(1.5);
+});
 });
\ No newline at end of file
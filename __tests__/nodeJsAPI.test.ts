@@ -1,4 +1,4 @@
-import { getNodeJsAPILink } from '../src/npmjsData';
+import { getNodeJsAPILink, getNodeJsRepository } from '../src/npmjsData';
 import { fetchJsonFromApi } from './../src/API';
 
 jest.mock('../src/API', () => ({
@@ -22,10 +22,38 @@ describe('getNodeJsAPILink', () => {
     expect(fetchJsonFromApi).toHaveBeenCalledWith('https://registry.npmjs.org/browserify');
     
     // Check the log messages instead of console.log
-    expect(logMessageSpy).toHaveBeenCalledWith('getNodeJsAPILink', ['Returning cleaned GitHub repository URL.', 'https://github.com/browserify/browserify']);
+    expect(logMessageSpy).toHaveBeenCalledWith('getNodeJsRepository', ['Returning cleaned repository URL.', 'https://github.com/browserify/browserify']);
     
     logMessageSpy.mockRestore();
   });
+  it('should fetch the manifest of a scoped package version and accept shorthand repositories', async () => {
+    (fetchJsonFromApi as jest.Mock).mockResolvedValue({ repository: 'github:DefinitelyTyped/DefinitelyTyped' });
+
+    const logMessageSpy = jest.spyOn(require('../src/logFile'), 'logMessage').mockImplementation();
+
+    const result = await getNodeJsAPILink('https://www.npmjs.com/package/@types/node/v/20.1.0');
+
+    expect(fetchJsonFromApi).toHaveBeenCalledWith('https://registry.npmjs.org/@types%2Fnode/20.1.0');
+    expect(result).toBe('https://github.com/DefinitelyTyped/DefinitelyTyped');
+
+    logMessageSpy.mockRestore();
+  });
+  it('should read the package directory of a monorepo package', async () => {
+    (fetchJsonFromApi as jest.Mock).mockResolvedValue({
+      repository: { type: 'git', url: 'https://github.com/babel/babel.git', directory: 'packages/babel-core/' },
+    });
+
+    const logMessageSpy = jest.spyOn(require('../src/logFile'), 'logMessage').mockImplementation();
+
+    expect(await getNodeJsRepository('https://www.npmjs.com/package/@babel/core')).toEqual({
+      url: 'https://github.com/babel/babel',
+      directory: 'packages/babel-core',
+      manifest: { repository: { type: 'git', url: 'https://github.com/babel/babel.git', directory: 'packages/babel-core/' } },
+    });
+    expect(await getNodeJsAPILink('https://www.npmjs.com/package/@babel/core')).toBe('https://github.com/babel/babel');
+
+    logMessageSpy.mockRestore();
+  });
   it('should handle missing repository link gracefully', async () => {
     const mockNpmData = {};
     (fetchJsonFromApi as jest.Mock).mockResolvedValue(mockNpmData);
@@ -35,7 +63,7 @@ describe('getNodeJsAPILink', () => {
     await getNodeJsAPILink('https://www.npmjs.com/package/nonexistent-package');
     
     // Ensure the log message for missing repository link
-    expect(logMessageSpy).toHaveBeenCalledWith('getNodeJsAPILink', ['No GitHub repository link found or data is incomplete.', 'Returning empty string.']);
+    expect(logMessageSpy).toHaveBeenCalledWith('getNodeJsRepository', ['No repository link found or data is incomplete.', 'Returning empty repository.']);
     
     logMessageSpy.mockRestore();
   });
@@ -48,7 +76,7 @@ describe('getNodeJsAPILink', () => {
     await getNodeJsAPILink('https://www.npmjs.com/package/nonexistent-package');
     
     // Ensure the error is logged using logMessage
-    expect(logMessageSpy).toHaveBeenCalledWith('getNodeJsAPILink', ['Error fetching data from npm API.', `Error: ${mockError}`]);
+    expect(logMessageSpy).toHaveBeenCalledWith('getNodeJsRepository', ['Error fetching data from npm API.', `Error: ${mockError}`]);
   
     logMessageSpy.mockRestore();
   });
@@ -0,0 +1,122 @@
+import { formatExplanation, formatOutput, formatPolicyResults, formatProgress } from '../src/output';
+import { DataObject, initJSON } from '../src/json';
+
+jest.mock('../src/logFile');
+
+/**
+ * Builds a result with the given fields, leaving the others null.
+ */
+function result(fields: Partial<DataObject>): DataObject {
+  return { ...initJSON(), ...fields };
+}
+
+describe('formatOutput', () => {
+  const results = [
+    result({ URL: 'https://github.com/a/b', NetScore: 0.5, License: 1, License_Latency: 12.5 }),
+    result({ URL: 'https://www.npmjs.com/package/c', NetScore: 0.8 }),
+  ];
+
+  it('should print one JSON object per line by default', () => {
+    const lines = formatOutput(results, 'json').split('\n');
+
+    expect(lines).toHaveLength(2);
+    expect(JSON.parse(lines[0])).toEqual(results[0]);
+  });
+
+  it('should pass the format options to the formatter', () => {
+    const lines = formatOutput(results, 'ndjson', { latency: false }).split('\n');
+
+    expect(JSON.parse(lines[0])).toEqual({ URL: 'https://github.com/a/b', NetScore: 0.5, RampUp: null, Correctness: null, BusFactor: null, ResponsiveMaintainer: null, License: 1 });
+  });
+
+  it('should reject an unknown format', () => {
+    expect(() => formatOutput(results, 'xml')).toThrow('Unknown output format: xml');
+  });
+});
+
+describe('formatExplanation', () => {
+  it('should describe each calculated metric', () => {
+    const text = formatExplanation({ data: result({ URL: 'https://github.com/a/b', License: 1, License_Latency: 3 }), explanations: {}, details: {}, errors: {} }, ['License']);
+
+    expect(text).toBe([
+      'https://github.com/a/b',
+      'NetScore: -',
+      '',
+      'License: 1 (3 ms)',
+      '  How compatible the license is with the product license (LGPL-2.1 by default), from the compatibility matrix; 0 if no license is found.',
+    ].join('\n'));
+  });
+
+  it('should say why a metric failed', () => {
+    const data = result({ URL: 'https://github.com/a/b' });
+    const text = formatExplanation({ data, explanations: {}, details: {}, errors: { License: { code: 'RATE_LIMITED', message: 'Rate limit exceeded' } } }, ['License']);
+
+    expect(text.split('\n').slice(3)).toEqual([
+      'License: - (- ms)',
+      '  How compatible the license is with the product license (LGPL-2.1 by default), from the compatibility matrix; 0 if no license is found.',
+      '  Failed (RATE_LIMITED): Rate limit exceeded',
+    ]);
+  });
+
+  it('should print the reasoning, values and details behind a score', () => {
+    const data = result({ URL: 'https://github.com/a/b', BusFactor: 0.5, BusFactor_Latency: 4 });
+    const text = formatExplanation({
+      data,
+      explanations: {
+        BusFactor: {
+          inputs: { contributors: 2, topContributors: [{ login: 'alice', commits: 3, share: 0.75 }] },
+          intermediate: {},
+          thresholds: { commitShare: 0.95 },
+          complete: false,
+          reasoning: '1 of 2 contributors made 95% of the commits.',
+        },
+      },
+      details: { BusFactor: { People: 1 } },
+      errors: {},
+    }, ['BusFactor']);
+
+    expect(text.split('\n').slice(3)).toEqual([
+      'BusFactor: 0.5 (4 ms)',
+      '  How many people must leave before the busFactor.commitShare share of the commits from the last busFactor.windowMonths months loses its author, bots excluded; busFactor.target or more scores 1.',
+      '  1 of 2 contributors made 95% of the commits.',
+      '  Some data was truncated or unavailable; the score may be inaccurate.',
+      '  Inputs:',
+      '    contributors: 2',
+      '    topContributors:',
+      '      - login: alice, commits: 3, share: 0.75',
+      '  Thresholds:',
+      '    commitShare: 0.95',
+      '  Details:',
+      '    People: 1',
+    ]);
+  });
+});
+
+describe('formatProgress', () => {
+  it('should align the count and add the failures', () => {
+    expect(formatProgress({ done: 7, total: 300, running: 4 }, 'https://github.com/a/b')).toBe('[  7/300] https://github.com/a/b');
+    expect(formatProgress({ done: 300, total: 300, running: 0 }, 'https://github.com/a/b', 2)).toBe('[300/300] https://github.com/a/b (2 failed)');
+  });
+});
+
+describe('formatPolicyResults', () => {
+  it('should list the rules each package breaks and sum up the check', () => {
+    const text = formatPolicyResults([
+      { url: 'https://github.com/a/b', passed: true, violations: [] },
+      { url: 'https://github.com/c/d', passed: true, violations: [{ rule: 'minimums.netScore', message: 'NetScore 0.4 is below the minimum 0.5', waivedUntil: '2030-01-01' }] },
+      { url: 'https://github.com/e/f', passed: false, violations: [{ rule: 'requirements.license', message: 'License 0 is below the required 1', waivedUntil: null }] },
+    ]);
+
+    expect(text).toBe([
+      'PASS https://github.com/c/d',
+      '  minimums.netScore: NetScore 0.4 is below the minimum 0.5 (waived until 2030-01-01)',
+      'FAIL https://github.com/e/f',
+      '  requirements.license: License 0 is below the required 1',
+      'Policy: 1 of 3 packages violates the policy.',
+    ].join('\n'));
+  });
+
+  it('should say when every package passes', () => {
+    expect(formatPolicyResults([{ url: 'a', passed: true, violations: [] }, { url: 'b', passed: true, violations: [] }])).toBe('Policy: all 2 packages pass.');
+  });
+});
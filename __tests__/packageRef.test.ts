@@ -0,0 +1,165 @@
+import { getPackageRefType, getRegistryURL, getRepositoryURL, PackageRef, parsePackageRef } from '../src/packageRef';
+import { getGitHubAPILink } from '../src/githubData';
+import { convertGitUrlToHttps } from '../src/npmjsData';
+import { URLType } from '../src/URL';
+
+// Mock dependencies
+jest.mock('../src/logFile');
+
+/**
+ * Builds an expected reference, leaving unspecified fields null.
+ */
+function ref(fields: Partial<PackageRef>): PackageRef {
+  return { host: null, owner: null, repo: null, packageName: null, scope: null, version: null, subdirectory: null, ...fields };
+}
+
+describe('parsePackageRef', () => {
+  const lodash = { host: 'github.com', owner: 'lodash', repo: 'lodash' };
+
+  it.each([
+    // GitHub web URLs
+    ['https://github.com/lodash/lodash', ref(lodash)],
+    ['http://github.com/lodash/lodash', ref(lodash)],
+    ['https://github.com/lodash/lodash/', ref(lodash)],
+    ['https://www.github.com/lodash/lodash', ref(lodash)],
+    ['https://GitHub.com/lodash/lodash', ref(lodash)],
+    ['github.com/lodash/lodash', ref(lodash)],
+    ['https://github.com/lodash/lodash.git', ref(lodash)],
+    ['https://github.com/lodash/lodash?tab=readme-ov-file', ref(lodash)],
+    ['https://github.com/lodash/lodash#readme', ref(lodash)],
+    ['https://github.com/lodash/lodash/issues', ref(lodash)],
+    ['https://github.com/lodash/lodash/pulls?q=is%3Aopen', ref(lodash)],
+    ['https://github.com/lodash/lodash/tree/main', ref({ ...lodash, version: 'main' })],
+    ['https://github.com/lodash/lodash/tree/main/', ref({ ...lodash, version: 'main' })],
+    ['https://github.com/babel/babel/tree/main/packages/babel-core', ref({ host: 'github.com', owner: 'babel', repo: 'babel', version: 'main', subdirectory: 'packages/babel-core' })],
+    ['https://github.com/babel/babel/blob/v7.0.0/packages/babel-core/package.json', ref({ host: 'github.com', owner: 'babel', repo: 'babel', version: 'v7.0.0', subdirectory: 'packages/babel-core' })],
+    ['https://github.com/lodash/lodash/blob/main/README.md', ref({ ...lodash, version: 'main' })],
+    ['https://github.com/vercel/next.js', ref({ host: 'github.com', owner: 'vercel', repo: 'next.js' })],
+
+    // Git transports
+    ['git://github.com/lodash/lodash.git', ref(lodash)],
+    ['git+https://github.com/lodash/lodash.git', ref(lodash)],
+    ['git+ssh://git@github.com/lodash/lodash.git', ref(lodash)],
+    ['ssh://git@github.com/lodash/lodash.git', ref(lodash)],
+    ['git@github.com:lodash/lodash.git', ref(lodash)],
+    ['git@github.com:lodash/lodash', ref(lodash)],
+    ['git+https://github.com/lodash/lodash.git#4.17.21', ref({ ...lodash, version: '4.17.21' })],
+    ['git+ssh://git@github.com/lodash/lodash.git#semver:^4.0.0', ref({ ...lodash, version: '^4.0.0' })],
+    ['git+https://gitlab.com/group/project.git', ref({ host: 'gitlab.com', owner: 'group', repo: 'project' })],
+
+    // package.json shorthands
+    ['github:lodash/lodash', ref(lodash)],
+    ['github:lodash/lodash#main', ref({ ...lodash, version: 'main' })],
+    ['lodash/lodash', ref(lodash)],
+    ['gitlab:group/project', ref({ host: 'gitlab.com', owner: 'group', repo: 'project' })],
+    ['bitbucket:team/repo', ref({ host: 'bitbucket.org', owner: 'team', repo: 'repo' })],
+
+    // Other hosts
+    ['https://gitlab.com/group/project/-/tree/main/docs', ref({ host: 'gitlab.com', owner: 'group', repo: 'project', version: 'main', subdirectory: 'docs' })],
+    ['https://bitbucket.org/team/repo', ref({ host: 'bitbucket.org', owner: 'team', repo: 'repo' })],
+    ['https://example.com', ref({ host: 'example.com' })],
+
+    // npm website
+    ['https://www.npmjs.com/package/express', ref({ host: 'npmjs.com', packageName: 'express' })],
+    ['https://npmjs.com/package/express', ref({ host: 'npmjs.com', packageName: 'express' })],
+    ['https://www.npmjs.com/package/express?activeTab=versions', ref({ host: 'npmjs.com', packageName: 'express' })],
+    ['https://www.npmjs.com/package/express/v/4.18.2', ref({ host: 'npmjs.com', packageName: 'express', version: '4.18.2' })],
+    ['https://www.npmjs.com/package/@types/node', ref({ host: 'npmjs.com', packageName: '@types/node', scope: '@types' })],
+    ['https://www.npmjs.com/package/@types/node/v/20.1.0', ref({ host: 'npmjs.com', packageName: '@types/node', scope: '@types', version: '20.1.0' })],
+    ['https://www.npmjs.com/package/@types%2Fnode', ref({ host: 'npmjs.com', packageName: '@types/node', scope: '@types' })],
+    ['https://www.npmjs.com/search?q=express', ref({ host: 'npmjs.com' })],
+
+    // npm registry
+    ['https://registry.npmjs.org/express', ref({ host: 'registry.npmjs.org', packageName: 'express' })],
+    ['https://registry.npmjs.org/express/4.18.2', ref({ host: 'registry.npmjs.org', packageName: 'express', version: '4.18.2' })],
+    ['https://registry.npmjs.org/express/-/express-4.18.2.tgz', ref({ host: 'registry.npmjs.org', packageName: 'express' })],
+    ['https://registry.npmjs.org/@types%2fnode', ref({ host: 'registry.npmjs.org', packageName: '@types/node', scope: '@types' })],
+    ['https://registry.npmjs.org/@types/node/20.1.0', ref({ host: 'registry.npmjs.org', packageName: '@types/node', scope: '@types', version: '20.1.0' })],
+
+    // Not URLs
+    ['', ref({})],
+    ['not a url', ref({})],
+  ])('should parse %s', (input, expected) => {
+    expect(parsePackageRef(input)).toEqual(expected);
+  });
+});
+
+describe('getPackageRefType', () => {
+  it.each([
+    ['https://github.com/lodash/lodash/tree/main', 'github'],
+    ['git+ssh://git@github.com/lodash/lodash.git', 'github'],
+    ['github:lodash/lodash', 'github'],
+    ['https://www.npmjs.com/package/@types/node', 'npmjs'],
+    ['https://registry.npmjs.org/express', 'npmjs'],
+    ['https://gitlab.com/group/project', 'other'],
+    ['https://github.com', 'other'],
+    ['https://www.npmjs.com/', 'other'],
+    ['https://example.com', 'other'],
+    ['https://github.acme.corp/team/service', 'other'],
+  ])('should classify %s as %s', (input, expected) => {
+    expect(getPackageRefType(parsePackageRef(input))).toBe(expected);
+    expect(URLType(input)).toBe(expected);
+  });
+});
+
+describe('GitHub Enterprise Server hosts', () => {
+  beforeAll(() => {
+    process.env.GITHUB_API_HOSTS = 'github.acme.corp=https://github.acme.corp/api/v3';
+  });
+
+  afterAll(() => {
+    delete process.env.GITHUB_API_HOSTS;
+  });
+
+  it.each([
+    ['https://github.acme.corp/team/service/tree/main', 'https://github.acme.corp/api/v3/repos/team/service'],
+    ['git@github.acme.corp:team/service.git', 'https://github.acme.corp/api/v3/repos/team/service'],
+    ['git+https://github.acme.corp/team/service.git', 'https://github.acme.corp/api/v3/repos/team/service'],
+  ])('should classify %s as github and use its API', (input, expected) => {
+    expect(getPackageRefType(parsePackageRef(input))).toBe('github');
+    expect(URLType(input)).toBe('github');
+    expect(getGitHubAPILink(input)).toBe(expected);
+  });
+});
+
+describe('getRepositoryURL and getRegistryURL', () => {
+  it.each([
+    ['https://github.com/lodash/lodash/tree/main/src', 'https://github.com/lodash/lodash'],
+    ['git@github.com:lodash/lodash.git', 'https://github.com/lodash/lodash'],
+    ['gitlab:group/project', 'https://gitlab.com/group/project'],
+    ['https://www.npmjs.com/package/express', null],
+  ])('should build the repository URL of %s', (input, expected) => {
+    expect(getRepositoryURL(parsePackageRef(input))).toBe(expected);
+  });
+
+  it.each([
+    ['https://www.npmjs.com/package/express', 'https://registry.npmjs.org/express'],
+    ['https://www.npmjs.com/package/express/v/4.18.2', 'https://registry.npmjs.org/express/4.18.2'],
+    ['https://www.npmjs.com/package/@types/node', 'https://registry.npmjs.org/@types%2Fnode'],
+    ['https://github.com/lodash/lodash', null],
+  ])('should build the registry URL of %s', (input, expected) => {
+    expect(getRegistryURL(parsePackageRef(input))).toBe(expected);
+  });
+});
+
+describe('URL helpers built on parsePackageRef', () => {
+  it.each([
+    ['https://github.com/lodash/lodash/tree/main', 'https://api.github.com/repos/lodash/lodash'],
+    ['https://github.com/lodash/lodash/', 'https://api.github.com/repos/lodash/lodash'],
+    ['https://github.com/lodash/lodash?tab=readme-ov-file', 'https://api.github.com/repos/lodash/lodash'],
+    ['https://www.github.com/lodash/lodash', 'https://api.github.com/repos/lodash/lodash'],
+    ['git://github.com/lodash/lodash.git', 'https://api.github.com/repos/lodash/lodash'],
+  ])('getGitHubAPILink should resolve %s', (input, expected) => {
+    expect(getGitHubAPILink(input)).toBe(expected);
+  });
+
+  it.each([
+    ['git+ssh://git@github.com/browserify/browserify.git', 'https://github.com/browserify/browserify'],
+    ['git+https://github.com/browserify/browserify.git', 'https://github.com/browserify/browserify'],
+    ['git://github.com/browserify/browserify.git', 'https://github.com/browserify/browserify'],
+    ['github:browserify/browserify', 'https://github.com/browserify/browserify'],
+    ['https://github.com/browserify/browserify', 'https://github.com/browserify/browserify'],
+  ])('convertGitUrlToHttps should convert %s', (input, expected) => {
+    expect(convertGitUrlToHttps(input)).toBe(expected);
+  });
+});
@@ -0,0 +1,95 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { evaluatePolicy, loadPolicy, Policy, validatePolicy } from '../src/policy';
+import { ConfigError } from '../src/config';
+import { DataObject, initJSON } from '../src/json';
+import { ScoredPackage } from '../src/metrics/getMetrics';
+
+jest.mock('../src/logFile');
+
+// Builds a scored package with the given fields, leaving the others null
+function scored(fields: Partial<DataObject>, errors: ScoredPackage['errors'] = {}): ScoredPackage {
+  return { data: { ...initJSON(), ...fields }, explanations: {}, details: {}, errors };
+}
+
+describe('validatePolicy', () => {
+  it('should key the rules and exceptions by field', () => {
+    const policy = validatePolicy({
+      minimums: { netScore: 0.5, rampUp: 0.2 },
+      requirements: { license: 1 },
+      exceptions: { lodash: { expires: '2030-01-31', rules: ['netScore'], reason: 'Replacement planned' }, 'a/b': { expires: '2030-06-30' } },
+    }, 'p');
+
+    expect(policy).toEqual({
+      minimums: { NetScore: 0.5, RampUp: 0.2 },
+      requirements: { License: 1 },
+      exceptions: [
+        { package: 'lodash', rules: ['NetScore'], expires: '2030-01-31', reason: 'Replacement planned' },
+        { package: 'a/b', rules: null, expires: '2030-06-30', reason: null },
+      ],
+    });
+  });
+
+  it.each([
+    [{ minimum: {} }, 'p: unknown key minimum. Valid keys: minimums, requirements, exceptions.'],
+    [{ minimums: { stars: 0.5 } }, 'p: unknown key minimums.stars. Valid keys: netScore, rampUp, correctness, busFactor, responsiveMaintainer, license.'],
+    [{ requirements: { license: 2 } }, 'p: requirements.license must be a number from 0 to 1, got 2.'],
+    [{ exceptions: { lodash: { expires: '31/01/2030' } } }, 'p: exceptions.lodash.expires must be a date as YYYY-MM-DD, got "31/01/2030".'],
+    [{ exceptions: { lodash: { expires: '2030-01-31', rules: ['stars'] } } }, 'p: exceptions.lodash.rules must be a list of minimums to waive. Valid rules: netScore, rampUp, correctness, busFactor, responsiveMaintainer, license.'],
+  ])('should reject %j', (raw, message) => {
+    expect(() => validatePolicy(raw, 'p')).toThrow(new ConfigError(message));
+  });
+});
+
+describe('loadPolicy', () => {
+  it('should read a YAML policy file', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'policy-'));
+    const file = path.join(dir, 'policy.yml');
+    fs.writeFileSync(file, ['requirements:', '  busFactor: 0.3', 'exceptions:', '  "@scope/pkg":', '    expires: 2030-01-31'].join('\n'));
+
+    expect(loadPolicy(file)).toMatchObject({ requirements: { BusFactor: 0.3 }, exceptions: [{ package: '@scope/pkg', expires: '2030-01-31' }] });
+    expect(() => loadPolicy(path.join(dir, 'missing.yml'))).toThrow(/^Cannot read the policy file/);
+    fs.rmSync(dir, { recursive: true });
+  });
+});
+
+describe('evaluatePolicy', () => {
+  const now = new Date('2025-03-01T12:00:00Z');
+  const policy: Policy = {
+    minimums: { NetScore: 0.5, RampUp: 0.3 },
+    requirements: { BusFactor: 0.3 },
+    exceptions: [
+      { package: 'example/repo', rules: ['NetScore'], expires: '2025-03-01', reason: null },
+      { package: 'lodash', rules: null, expires: '2025-02-28', reason: null },
+    ],
+  };
+
+  it('should pass a package that meets every rule', () => {
+    const result = evaluatePolicy(policy, scored({ URL: 'https://github.com/a/b', NetScore: 0.8, RampUp: 0.3, BusFactor: 0.5 }), now);
+
+    expect(result).toEqual({ url: 'https://github.com/a/b', passed: true, violations: [] });
+  });
+
+  it('should waive minimums with an exception that has not expired, but not requirements', () => {
+    const result = evaluatePolicy(policy, scored({ URL: 'https://github.com/Example/Repo', NetScore: 0.4, RampUp: 0.5, BusFactor: 0.2 }), now);
+
+    expect(result).toEqual({
+      url: 'https://github.com/Example/Repo',
+      passed: false,
+      violations: [
+        { rule: 'requirements.busFactor', message: 'BusFactor 0.2 is below the required 0.3', waivedUntil: null },
+        { rule: 'minimums.netScore', message: 'NetScore 0.4 is below the minimum 0.5', waivedUntil: '2025-03-01' },
+      ],
+    });
+  });
+
+  it('should count a rule with a missing score or an expired exception', () => {
+    const result = evaluatePolicy(policy, scored({ URL: 'https://www.npmjs.com/package/lodash', NetScore: 0.9, BusFactor: 0.5 }, { RampUp: { code: 'HTTP_404', message: 'Not Found' } }), now);
+
+    expect(result.passed).toBe(false);
+    expect(result.violations).toEqual([
+      { rule: 'minimums.rampUp', message: 'RampUp has no score (HTTP_404), so it does not reach the minimum 0.3 (the exception expired on 2025-02-28)', waivedUntil: null },
+    ]);
+  });
+});
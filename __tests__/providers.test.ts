@@ -0,0 +1,351 @@
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { createRepositoryProvider } from '../src/providers';
+import { keepOpenedSince } from '../src/providers/provider';
+import { createRepoContext } from '../src/repoContext';
+import { getBusFactor } from '../src/metrics/busFactor';
+import { calculateCorrectness } from '../src/metrics/correctness';
+import { getLicenseScore } from '../src/metrics/license';
+import { calculateRampUp } from '../src/metrics/rampUp';
+import { calculateResponsiveMaintainer } from '../src/metrics/responsiveMaintainer';
+
+jest.mock('../src/logFile');
+jest.mock('../src/cache');
+
+// A stub route: matches a request path (and optionally query parameters) and returns a body
+type StubRoute = { path: string, query?: Record<string, string>, status?: number, contentType?: string, body: any };
+
+const base64 = (text: string) => Buffer.from(text).toString('base64');
+
+// Time the stub histories are scored at, so every stub commit is inside the default window
+const now = new Date('2024-04-01T00:00:00Z');
+
+describe('repository providers against stub APIs', () => {
+  let server: http.Server;
+  let baseUrl: string;
+  let routes: StubRoute[];
+  let requests: { url: string, authorization?: string }[];
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      const url = new URL(req.url || '/', baseUrl);
+      requests.push({ url: req.url || '', authorization: req.headers.authorization });
+
+      const route = routes.find(candidate => candidate.path === url.pathname
+        && Object.entries(candidate.query || {}).every(([name, value]) => url.searchParams.getAll(name).join(',') === value));
+      if (!route) {
+        res.writeHead(404, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ message: 'Not Found' }));
+        return;
+      }
+      res.writeHead(route.status ?? 200, { 'Content-Type': route.contentType ?? 'application/json' });
+      res.end(typeof route.body === 'string' ? route.body : JSON.stringify(route.body));
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    process.env.GITLAB_API_URL = `${baseUrl}/gitlab/api/v4`;
+    process.env.BITBUCKET_API_URL = `${baseUrl}/bitbucket/2.0`;
+    process.env.GITHUB_API_HOSTS = `github.acme.corp=${baseUrl}/ghe/api/v3`;
+    process.env.GITHUB_HOST_TOKENS = 'github.acme.corp=acme_token';
+  });
+
+  afterAll(async () => {
+    delete process.env.GITLAB_API_URL;
+    delete process.env.BITBUCKET_API_URL;
+    delete process.env.GITHUB_API_HOSTS;
+    delete process.env.GITHUB_HOST_TOKENS;
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    requests = [];
+    process.env.GITHUB_TOKEN = 'github_token';
+    process.env.GITLAB_TOKEN = 'gitlab_token';
+    delete process.env.BITBUCKET_TOKEN;
+  });
+
+  it('should select the provider by host', () => {
+    expect(createRepositoryProvider('https://github.com/owner/repo').name).toBe('github');
+    expect(createRepositoryProvider('git+https://gitlab.com/group/project.git').name).toBe('gitlab');
+    expect(createRepositoryProvider('https://bitbucket.org/team/repo/src/main/').name).toBe('bitbucket');
+    expect(createRepositoryProvider('https://github.acme.corp/team/service').name).toBe('github');
+  });
+
+  it('should serve self-managed GitLab hosts with the GitLab provider', () => {
+    process.env.GITLAB_API_HOSTS = 'gitlab.acme.corp=https://gitlab.acme.corp/api/v4';
+    const provider = createRepositoryProvider('https://gitlab.acme.corp/group/project');
+    delete process.env.GITLAB_API_HOSTS;
+
+    expect(provider.name).toBe('gitlab');
+    expect(provider.apiLink).toBe('https://gitlab.acme.corp/api/v4/projects/group%2Fproject');
+  });
+
+  describe('GitHub Enterprise Server', () => {
+    const repo = '/ghe/api/v3/repos/team/service';
+    const url = 'https://github.acme.corp/team/service';
+
+    beforeEach(() => {
+      routes = [
+        { path: repo, body: { full_name: 'team/service', size: 2048, open_issues_count: 1, default_branch: 'main', archived: false } },
+        { path: `${repo}/contributors`, body: [{ login: 'alice', contributions: 60 }, { login: 'bob', contributions: 40 }] },
+        {
+          path: `${repo}/commits`, query: { since: '2023-04-01T00:00:00.000Z' },
+          body: [
+            ...['alice', 'alice', 'bob', 'bob', 'carol'].map((login, index) => ({ sha: `${index}`, author: { login }, commit: { author: { name: login, email: `${login}@example.com`, date: '2024-03-01T00:00:00Z' } } })),
+            { sha: '5', author: { login: 'dependabot[bot]' }, commit: { author: { name: 'dependabot[bot]', email: 'support@github.com', date: '2024-03-02T00:00:00Z' } } },
+          ]
+        },
+        { path: `${repo}/issues`, query: { state: 'open' }, body: [{ number: 2, created_at: '2024-03-01T00:00:00Z', closed_at: null, user: { login: 'erin' }, labels: [{ name: 'bug' }] }] },
+        {
+          path: `${repo}/issues`, query: { state: 'closed' },
+          body: [
+            { number: 3, created_at: '2024-03-10T00:00:00Z', closed_at: '2024-03-12T00:00:00Z', user: { login: 'dave' }, pull_request: {} },
+            { number: 1, created_at: '2024-01-01T00:00:00Z', closed_at: '2024-01-02T00:00:00Z', user: { login: 'frank' } },
+          ]
+        },
+        {
+          path: `${repo}/issues`, query: { state: 'all' },
+          body: [
+            { number: 3, created_at: '2024-03-10T00:00:00Z', closed_at: '2024-03-12T00:00:00Z', user: { login: 'dave' }, pull_request: {} },
+            { number: 2, created_at: '2024-03-01T00:00:00Z', closed_at: null, user: { login: 'erin' }, labels: [{ name: 'bug' }] },
+            { number: 1, created_at: '2024-01-01T00:00:00Z', closed_at: '2024-01-02T00:00:00Z', user: { login: 'frank' } },
+          ]
+        },
+        { path: `${repo}/pulls`, query: { state: 'open' }, body: [] },
+        { path: `${repo}/pulls`, query: { state: 'closed' }, body: [{ number: 3, created_at: '2024-03-10T00:00:00Z', closed_at: '2024-03-12T00:00:00Z', merged_at: '2024-03-12T00:00:00Z', user: { login: 'dave' } }] },
+        { path: `${repo}/pulls`, query: { state: 'all' }, body: [{ number: 3, created_at: '2024-03-10T00:00:00Z', closed_at: '2024-03-12T00:00:00Z', merged_at: '2024-03-12T00:00:00Z', user: { login: 'dave' } }] },
+        {
+          path: `${repo}/issues/comments`, query: { since: '2023-10-01T00:00:00.000Z' },
+          body: [
+            { issue_url: `${baseUrl}${repo}/issues/3`, created_at: '2024-03-10T12:00:00Z', user: { login: 'alice', type: 'User' }, author_association: 'OWNER' },
+            { issue_url: `${baseUrl}${repo}/issues/2`, created_at: '2024-03-01T01:00:00Z', user: { login: 'helper[bot]', type: 'Bot' }, author_association: 'NONE' },
+            { issue_url: `${baseUrl}${repo}/issues/1`, created_at: '2024-01-01T06:00:00Z', user: { login: 'bob', type: 'User' }, author_association: 'MEMBER' },
+          ]
+        },
+        { path: `${repo}/releases`, body: [{ tag_name: 'v2.0.0-rc.1', draft: true, created_at: '2024-03-20T00:00:00Z' }, { tag_name: 'v1.0.0', draft: false, published_at: '2024-03-01T00:00:00Z' }] },
+        { path: `${repo}/commits/0/check-runs`, body: { check_runs: [{ name: 'test', status: 'completed', conclusion: 'success' }] } },
+        { path: `${repo}/commits/1/check-runs`, body: { check_runs: [{ name: 'test', status: 'completed', conclusion: 'failure' }, { name: 'lint', status: 'completed', conclusion: 'neutral' }] } },
+        { path: `${repo}/commits/v1.0.0/check-runs`, body: { check_runs: [{ name: 'test', status: 'completed', conclusion: 'success' }] } },
+        { path: `${repo}/contents`, body: [{ type: 'dir', name: 'test' }, { type: 'dir', name: 'src' }, { type: 'file', name: 'package.json' }] },
+        { path: `${repo}/contents/package.json`, body: { content: base64(JSON.stringify({ name: 'service', scripts: { test: 'mocha' } })) } },
+        { path: `${repo}/license`, body: { license: { key: 'mit', spdx_id: 'MIT', name: 'MIT License' } } },
+        { path: `${repo}/readme`, body: { content: base64('# Service') } },
+      ];
+    });
+
+    it('should score every metric against the configured API with the host\'s token', async () => {
+      const context = createRepoContext(url);
+
+      const [busFactor, correctness, license, rampUp, responsiveMaintainer] = await Promise.all([
+        getBusFactor(url, context, undefined, now),
+        calculateCorrectness(url, context, undefined, now),
+        getLicenseScore(url, context),
+        calculateRampUp(url, context),
+        calculateResponsiveMaintainer(url, context, undefined, now),
+      ]);
+
+      expect(context.apiLink).toBe(`${baseUrl}${repo}`);
+      expect(await context.getReadme()).toBe('# Service');
+      expect([busFactor.score, correctness.score, license.score, rampUp.score, responsiveMaintainer.score]).toEqual([0.4, 0.64, 1, 1, 0.7]);
+      expect(busFactor.explanation?.inputs).toMatchObject({ commits: 5, botCommits: 1, authors: 3 });
+      expect(correctness.details).toEqual({ Tests: 1, CI: 0.5, Bugs: 0, ReleaseBuild: 1, Resolution: 0.75 });
+      expect(responsiveMaintainer.explanation?.inputs).toMatchObject({ issues: 2, pullRequests: 1, maintainerComments: 2, lastRelease: 'v1.0.0' });
+      expect(requests.map(request => request.url)).toContain(`${repo}/issues?state=closed&since=2023-10-01T00%3A00%3A00.000Z&per_page=100`); // Correctness lists each state from its window
+      expect(requests.every(request => request.authorization === 'token acme_token')).toBe(true);
+    });
+  });
+
+  describe('GitLab', () => {
+    const project = '/gitlab/api/v4/projects/group%2Fproject';
+    const url = 'https://gitlab.com/group/project';
+
+    beforeEach(() => {
+      routes = [
+        {
+          path: project,
+          body: {
+            path_with_namespace: 'group/project', statistics: { repository_size: 10240 * 1024 }, open_issues_count: 1,
+            default_branch: 'main', archived: false, license: { key: 'mit', name: 'MIT License' }
+          }
+        },
+        { path: `${project}/repository/contributors`, body: [{ name: 'Alice', commits: 97 }, { name: 'Bob', commits: 1 }, { name: 'Carol', commits: 1 }, { email: 'dan@example.com', commits: 1 }] },
+        {
+          path: `${project}/repository/commits`,
+          body: [['Alice', 'alice@example.com'], ['alice', 'alice@example.com'], ['Bob', 'bob@example.com'], ['Carol', 'carol@example.com'], ['Dan', 'dan@example.com']]
+            .map(([name, email], index) => ({ id: `${index}`, author_name: name, author_email: email, authored_date: '2024-03-01T00:00:00Z' }))
+        },
+        { path: `${project}/issues`, query: { state: 'opened' }, body: [{ iid: 3, state: 'opened', created_at: '2024-03-01T00:00:00Z', closed_at: null, author: { username: 'carol' } }] },
+        { path: `${project}/issues`, query: { state: 'closed' }, body: [{ iid: 1, state: 'closed', created_at: '2024-01-01T00:00:00Z', closed_at: '2024-01-02T00:00:00Z' }, { iid: 2, state: 'closed', created_at: '2024-02-01T00:00:00Z', closed_at: '2024-02-02T00:00:00Z' }] },
+        { path: `${project}/issues`, query: { state: 'all' }, body: [{ iid: 3, state: 'opened', created_at: '2024-03-01T00:00:00Z', closed_at: null, labels: ['bug'] }, { iid: 1, state: 'closed', created_at: '2024-01-01T00:00:00Z', closed_at: '2024-01-02T00:00:00Z' }, { iid: 2, state: 'closed', created_at: '2024-02-01T00:00:00Z', closed_at: '2024-02-02T00:00:00Z' }] },
+        { path: `${project}/merge_requests`, query: { state: 'opened' }, body: [{ iid: 9, state: 'opened', created_at: '2024-03-01T00:00:00Z' }] },
+        { path: `${project}/merge_requests`, query: { state: 'all' }, body: [{ iid: 9, state: 'opened', created_at: '2024-03-01T00:00:00Z', author: { username: 'dan' } }] },
+        { path: `${project}/merge_requests`, query: { state: 'closed' }, body: [{ iid: 8, state: 'closed', created_at: '2024-02-01T00:00:00Z', closed_at: '2024-02-03T00:00:00Z' }] },
+        { path: `${project}/merge_requests`, query: { state: 'merged' }, body: [{ iid: 6, state: 'merged', created_at: '2024-01-01T00:00:00Z', merged_at: '2024-01-02T00:00:00Z', author: { username: 'dan' } }, { iid: 7, state: 'merged', created_at: '2024-01-05T00:00:00Z', merged_at: '2024-01-06T00:00:00Z' }] },
+        {
+          path: `${project}/events`, query: { action: 'commented', after: '2023-09-30' },
+          body: [
+            { created_at: '2024-03-02T00:00:00Z', author: { username: 'alice' }, note: { noteable_type: 'MergeRequest', noteable_iid: 9, system: false } },
+            { created_at: '2024-03-01T12:00:00Z', author: { username: 'alice' }, note: { noteable_type: 'MergeRequest', noteable_iid: 9, system: true } },
+            { created_at: '2024-03-01T06:00:00Z', author: { username: 'alice' }, note: { noteable_type: 'Issue', noteable_iid: 3, system: false } },
+          ]
+        },
+        { path: `${project}/releases`, body: [{ tag_name: 'v1.0.0', released_at: '2024-02-01T00:00:00Z', commit: { id: '0' } }] },
+        { path: `${project}/repository/commits/0/statuses`, body: [{ name: 'test', status: 'success' }, { name: 'lint', status: 'failed', allow_failure: true }] },
+        { path: `${project}/repository/commits/1/statuses`, body: [{ name: 'test', status: 'running' }] },
+        { path: `${project}/repository/tree`, query: { ref: 'main' }, body: [{ type: 'tree', name: 'spec' }, { type: 'blob', name: 'package.json' }] },
+        { path: `${project}/repository/files/package.json`, query: { ref: 'main' }, body: { content: base64(JSON.stringify({ scripts: { test: 'vitest' } })) } },
+        { path: `${project}/repository/files/README.md`, query: { ref: 'main' }, body: { content: base64('# Project') } },
+      ];
+    });
+
+    it('should normalize GitLab data', async () => {
+      const provider = createRepositoryProvider(url);
+
+      expect(await provider.getMetadata()).toEqual({ fullName: 'group/project', sizeKb: 10240, openIssuesCount: 1, defaultBranch: 'main', pushedAt: null, archived: false });
+      expect((await provider.getContributors()).data[3]).toEqual({ login: 'dan@example.com', contributions: 1 });
+      expect((await provider.getCommits('2023-04-01T00:00:00.000Z')).data[0]).toEqual({ sha: '0', date: '2024-03-01T00:00:00Z', authorLogin: null, authorName: 'Alice', authorEmail: 'alice@example.com' });
+      expect(await provider.getLicense()).toEqual({ key: 'mit', spdxId: null, name: 'MIT License', text: null });
+      expect(await provider.getReadme()).toBe('# Project');
+      expect(await provider.getFileContents('missing.txt')).toBeNull();
+
+      const closed = await provider.getMergeRequests('closed');
+      expect(closed.data.map(request => request.state)).toEqual(['closed', 'merged', 'merged']);
+      expect(closed.data[1]).toEqual({ number: 6, state: 'merged', createdAt: '2024-01-01T00:00:00Z', closedAt: '2024-01-02T00:00:00Z', mergedAt: '2024-01-02T00:00:00Z', author: 'dan' });
+      expect((await provider.getComments('2023-10-01T00:00:00.000Z')).data).toEqual([
+        { number: 9, onMergeRequest: true, author: 'alice', createdAt: '2024-03-02T00:00:00Z', maintainer: null, bot: false },
+        { number: 3, onMergeRequest: false, author: 'alice', createdAt: '2024-03-01T06:00:00Z', maintainer: null, bot: false },
+      ]); // System notes are left out
+    });
+
+    it('should score every metric and only send the GitLab token', async () => {
+      const context = createRepoContext(url);
+
+      const [busFactor, correctness, license, rampUp, responsiveMaintainer] = await Promise.all([
+        getBusFactor(url, context, undefined, now),
+        calculateCorrectness(url, context, undefined, now),
+        getLicenseScore(url, context),
+        calculateRampUp(url, context),
+        calculateResponsiveMaintainer(url, context, undefined, now),
+      ]);
+
+      expect(busFactor.score).toBe(0.4); // Alice committed under two names with one email
+      expect(busFactor.details).toEqual({ People: 2 });
+      expect(correctness.score).toBe(0.7);
+      expect(correctness.details).toEqual({ Tests: 1, CI: 1, Bugs: 0, ReleaseBuild: 1, Resolution: 0.333 }); // The failed lint job may fail
+      expect(license.score).toBe(1);
+      expect(rampUp.score).toBe(0.8);
+      expect(responsiveMaintainer.score).toBe(0.76);
+      expect(requests.map(request => request.url)).toContain(`${project}/issues?state=all&created_after=2023-10-01T00%3A00%3A00.000Z&per_page=100`);
+      expect(requests.every(request => request.authorization === 'Bearer gitlab_token')).toBe(true);
+    });
+  });
+
+  describe('Bitbucket', () => {
+    const repo = '/bitbucket/2.0/repositories/team/repo';
+    const url = 'https://bitbucket.org/team/repo';
+
+    beforeEach(() => {
+      routes = [
+        { path: repo, body: { full_name: 'team/repo', size: 51200 * 1024, mainbranch: { name: 'main' }, updated_on: '2024-03-01T00:00:00Z' } },
+        { path: `${repo}/commits`, query: { page: '2' }, body: { values: [{ hash: 'b1', date: '2023-01-01T00:00:00+00:00', author: { raw: 'Bob <bob@example.com>' } }] } },
+        {
+          path: `${repo}/commits`,
+          body: {
+            values: [1, 2, 3].map(index => ({ hash: `a${index}`, date: '2024-03-01T00:00:00+00:00', author: { raw: 'Alice <alice@example.com>', user: { nickname: 'alice' } } })),
+            next: `${baseUrl}${repo}/commits?page=2`
+          }
+        },
+        { path: `${repo}/pullrequests`, query: { state: 'OPEN' }, body: { values: [{ id: 3, state: 'OPEN', created_on: '2024-03-01T00:00:00Z', updated_on: '2024-03-01T00:00:00Z' }] } },
+        {
+          path: `${repo}/pullrequests`, query: { state: 'OPEN,MERGED,DECLINED,SUPERSEDED' },
+          body: { values: [{ id: 3, state: 'OPEN', created_on: '2024-03-01T00:00:00Z', updated_on: '2024-03-01T00:00:00Z', author: { nickname: 'carol' } }] }
+        },
+        {
+          path: `${repo}/pullrequests/activity`,
+          body: {
+            values: [
+              { pull_request: { id: 3 }, comment: { created_on: '2024-03-03T00:00:00Z', user: { nickname: 'alice', type: 'user' } } },
+              { pull_request: { id: 3 }, approval: { date: '2024-03-02T00:00:00Z' } },
+              { pull_request: { id: 1 }, comment: { created_on: '2023-01-01T00:00:00Z', user: { nickname: 'alice', type: 'user' } } },
+            ]
+          }
+        },
+        { path: `${repo}/refs/tags`, body: { values: [{ name: 'v1.0.0', target: { hash: 'a3', date: '2024-01-01T00:00:00+00:00' } }] } },
+        { path: `${repo}/commit/a1/statuses`, body: { values: [{ key: 'build', name: 'Build', state: 'SUCCESSFUL' }] } },
+        { path: `${repo}/commit/a3/statuses`, body: { values: [{ key: 'build', name: 'Build', state: 'FAILED' }] } },
+        { path: `${repo}/src/main/`, body: { values: [{ type: 'commit_directory', path: 'tests' }, { type: 'commit_file', path: 'package.json' }] } },
+        { path: `${repo}/src/main/package.json`, contentType: 'text/plain', body: '{ "scripts": { "test": "tap" } }' },
+        {
+          path: `${repo}/pullrequests`, query: { state: 'MERGED,DECLINED,SUPERSEDED' },
+          body: { values: [{ id: 1, state: 'MERGED', created_on: '2024-01-01T00:00:00Z', updated_on: '2024-01-02T00:00:00Z' }, { id: 2, state: 'DECLINED', created_on: '2024-02-01T00:00:00Z', updated_on: '2024-02-02T00:00:00Z' }] }
+        },
+        { path: `${repo}/src/main/LICENSE`, contentType: 'text/plain', body: 'MIT License\n\nCopyright (c) 2024' },
+        { path: `${repo}/src/main/README.md`, contentType: 'text/plain', body: '# Repo' },
+      ];
+    });
+
+    it('should normalize Bitbucket data', async () => {
+      const provider = createRepositoryProvider(url);
+
+      expect(await provider.getMetadata()).toMatchObject({ fullName: 'team/repo', sizeKb: 51200, openIssuesCount: null, defaultBranch: 'main' });
+      expect(await provider.getContributors()).toEqual({
+        data: [{ login: 'alice', contributions: 3 }, { login: 'Bob <bob@example.com>', contributions: 1 }],
+        truncated: false,
+      });
+      expect(await provider.getCommits('2023-04-01T00:00:00.000Z')).toEqual({
+        data: [1, 2, 3].map(index => ({ sha: `a${index}`, date: '2024-03-01T00:00:00+00:00', authorLogin: 'alice', authorName: 'Alice', authorEmail: 'alice@example.com' })),
+        truncated: false,
+      }); // Bob's commit is older than the window
+      expect(await provider.getIssues('open')).toEqual({ data: [], truncated: false }); // Issue tracker disabled
+      expect(await provider.getComments('2023-10-01T00:00:00.000Z')).toEqual({
+        data: [{ number: 3, onMergeRequest: true, author: 'alice', createdAt: '2024-03-03T00:00:00Z', maintainer: null, bot: false }],
+        truncated: false,
+      }); // Approvals and older comments are left out
+      expect(await provider.getReleases()).toEqual({ data: [{ tag: 'v1.0.0', publishedAt: '2024-01-01T00:00:00+00:00', commit: 'a3' }], truncated: false });
+      expect(await provider.getChecks('a1')).toEqual([{ name: 'Build', conclusion: 'success' }]);
+      expect(await provider.listDirectories()).toEqual(['tests']);
+      expect(await provider.getLicense()).toEqual({ key: null, spdxId: null, name: 'LICENSE', text: 'MIT License\n\nCopyright (c) 2024' });
+      expect(await provider.getReadme()).toBe('# Repo');
+
+      const closed = await provider.getMergeRequests('closed');
+      expect(closed.data).toEqual([
+        { number: 1, state: 'merged', createdAt: '2024-01-01T00:00:00Z', closedAt: '2024-01-02T00:00:00Z', mergedAt: '2024-01-02T00:00:00Z', author: null },
+        { number: 2, state: 'closed', createdAt: '2024-02-01T00:00:00Z', closedAt: '2024-02-02T00:00:00Z', mergedAt: null, author: null },
+      ]);
+    });
+
+    it('should score every metric without sending other services\' tokens', async () => {
+      const context = createRepoContext(url);
+
+      const [busFactor, correctness, license, rampUp, responsiveMaintainer] = await Promise.all([
+        getBusFactor(url, context, undefined, now),
+        calculateCorrectness(url, context, undefined, now),
+        getLicenseScore(url, context),
+        calculateRampUp(url, context),
+        calculateResponsiveMaintainer(url, context, undefined, now),
+      ]);
+
+      expect(busFactor.score).toBe(0.2);
+      expect(correctness.score).toBe(0.56);
+      expect(correctness.explanation?.reasoning).toContain('release build 0 (v1.0.0 failed)');
+      expect(license.score).toBe(1);
+      expect(rampUp.score).toBe(0);
+      expect(responsiveMaintainer.score).toBe(0.68); // Only pull request comments and tags are known
+      expect(requests.map(request => request.url)).toContain(`${repo}/pullrequests?state=OPEN&state=MERGED&state=DECLINED&state=SUPERSEDED&q=created_on%3E%3D2023-10-01T00%3A00%3A00.000Z&pagelen=50`);
+      expect(requests.every(request => request.authorization === undefined)).toBe(true);
+    });
+  });
+});
+
+describe('keepOpenedSince', () => {
+  const items = [{ createdAt: '2024-03-01T00:00:00Z' }, { createdAt: '2024-02-01T00:00:00Z' }, { createdAt: '2023-09-01T00:00:00Z' }];
+
+  it('should keep the items opened in the window', () => {
+    expect(keepOpenedSince({ data: items, truncated: false }, '2023-10-01T00:00:00.000Z')).toEqual({ data: items.slice(0, 2), truncated: false });
+  });
+
+  it('should only stay truncated while the whole listing is inside the window', () => {
+    expect(keepOpenedSince({ data: items, truncated: true }, '2023-10-01T00:00:00.000Z').truncated).toBe(false); // The items cut off are older
+    expect(keepOpenedSince({ data: items, truncated: true }, '2023-01-01T00:00:00.000Z').truncated).toBe(true);
+  });
+});
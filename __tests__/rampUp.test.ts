@@ -62,5 +62,6 @@ describe('calculateRampUp', () => {
 
     expect(result.score).toEqual(1); // The default score is 1 if the size is not available (0 is considered a small repo)
     expect(result.latency).toEqual(4); // Latency of 4ms (1004 - 1000)
+    expect(result.explanation).toMatchObject({ inputs: { sizeKb: 0 }, thresholds: { maxSizeKb: 50000 }, complete: false }); // The size is unknown
   });
 });
\ No newline at end of file
@@ -0,0 +1,143 @@
+import axios from 'axios';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  getFixturePath, loadFixture, recordFixture, replayResponse, scrubHeaders, setHttpMode, UnrecordedRequestError
+} from '../src/recorder';
+import { testURL } from '../src/URL';
+import { getMetrics } from '../src/metrics/getMetrics';
+
+jest.mock('axios');
+jest.mock('../src/logFile');
+
+describe('record/replay', () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'fixtures-'));
+    process.env.FIXTURE_DIR = tempDir;
+  });
+
+  afterEach(() => {
+    setHttpMode('live');
+    delete process.env.FIXTURE_DIR;
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  describe('scrubHeaders', () => {
+    it('should redact credentials and keep other headers', () => {
+      expect(scrubHeaders({ Authorization: 'token secret', Accept: 'application/json', 'x-skip': undefined }))
+        .toEqual({ Authorization: '[REDACTED]', Accept: 'application/json' });
+    });
+
+    it('should redact cookies set by a response and GitLab tokens', () => {
+      expect(scrubHeaders({ 'set-cookie': 'session=abc', 'PRIVATE-TOKEN': 'glpat-secret', 'X-Api-Key': 'key', etag: '"a"' }))
+        .toEqual({ 'set-cookie': '[REDACTED]', 'PRIVATE-TOKEN': '[REDACTED]', 'X-Api-Key': '[REDACTED]', etag: '"a"' });
+
+      const url = 'https://registry.npmjs.org/pkg';
+      recordFixture('GET', url, {}, { status: 200, headers: { 'set-cookie': ['session=abc; Path=/'] }, body: {} });
+      expect(fs.readFileSync(getFixturePath('GET', url), 'utf-8')).not.toContain('session=abc');
+    });
+  });
+
+  describe('fixtures', () => {
+    it('should round-trip a recorded exchange', () => {
+      const url = 'https://api.github.com/repos/owner/repo';
+      recordFixture('GET', url, { Authorization: 'token secret' }, { status: 200, headers: { etag: '"a"' }, body: { size: 10 } });
+
+      expect(fs.existsSync(getFixturePath('GET', url))).toBe(true);
+      expect(loadFixture('GET', url)).toEqual({
+        method: 'GET',
+        url,
+        request: { headers: { Authorization: '[REDACTED]' } },
+        response: { status: 200, headers: { etag: '"a"' }, body: { size: 10 } },
+      });
+      expect(replayResponse('GET', url)).toEqual({ status: 200, headers: { etag: '"a"' }, data: { size: 10 } });
+    });
+
+    it('should replay recorded error responses as axios-style errors', () => {
+      const url = 'https://api.github.com/repos/owner/repo/license';
+      recordFixture('GET', url, {}, { status: 404, headers: {}, body: { message: 'Not Found' } });
+
+      expect(() => replayResponse('GET', url)).toThrow('Request failed with status code 404');
+      try {
+        replayResponse('GET', url);
+      } catch (error: any) {
+        expect(error.response).toEqual({ status: 404, headers: {}, data: { message: 'Not Found' } });
+      }
+    });
+
+    it('should throw an UnrecordedRequestError for requests without a fixture', () => {
+      expect(() => loadFixture('GET', 'https://api.github.com/repos/owner/missing')).toThrow(UnrecordedRequestError);
+    });
+  });
+
+  describe('testURL', () => {
+    it('should record and replay HEAD requests', async () => {
+      global.fetch = jest.fn().mockResolvedValue({ ok: true, status: 200 });
+      setHttpMode('record');
+      expect(await testURL('https://github.com/owner/repo')).toBe(true);
+
+      (global.fetch as jest.Mock).mockRejectedValue(new Error('offline'));
+      setHttpMode('replay');
+      expect(await testURL('https://github.com/owner/repo')).toBe(true);
+      await expect(testURL('https://github.com/owner/other')).rejects.toBeInstanceOf(UnrecordedRequestError);
+    });
+  });
+
+  describe('getMetrics', () => {
+    const repoUrl = 'https://github.com/owner/repo';
+    const api = 'https://api.github.com/repos/owner/repo';
+    const routes: Record<string, any> = {
+      [api]: { size: 1000, open_issues_count: 2 },
+      [`${api}/license`]: { license: { spdx_id: 'MIT' } },
+      [`${api}/contributors?per_page=100`]: [{ contributions: 60 }, { contributions: 30 }, { contributions: 10 }],
+      [`${api}/pulls?state=closed&per_page=100`]: [{ id: 1 }, { id: 2 }],
+      [`${api}/pulls?state=open&per_page=100`]: [{ id: 3 }],
+      [`${api}/issues?state=closed&per_page=100`]: [{ id: 4 }, { id: 5 }],
+      [`${api}/issues?state=open&per_page=100`]: [{ id: 6 }],
+      [`${api}/issues?state=all&per_page=100`]: [{ closed_at: '2024-01-01T00:00:00Z' }, { closed_at: null }],
+    };
+
+    // Strips latencies, which differ between runs
+    const scores = (output: string) => Object.fromEntries(
+      Object.entries(JSON.parse(output)).filter(([key]) => !key.endsWith('_Latency'))
+    );
+
+    it('should produce identical scores when replaying a recorded run without network access', async () => {
+      process.env.GITHUB_TOKEN = 'secret-token';
+      (axios.get as jest.Mock).mockImplementation(async (url: string) => {
+        if (!(url in routes)) {
+          throw new Error(`Unexpected request: ${url}`);
+        }
+        return { status: 200, headers: {}, data: routes[url] };
+      });
+
+      setHttpMode('record');
+      const recorded = await getMetrics(repoUrl);
+
+      (axios.get as jest.Mock).mockRejectedValue(new Error('network disabled'));
+      setHttpMode('replay');
+      const replayed = await getMetrics(repoUrl);
+
+      expect(scores(replayed)).toEqual(scores(recorded));
+      expect(JSON.parse(replayed).NetScore).not.toBeNull();
+
+      // The token must never reach the fixtures
+      for (const file of fs.readdirSync(tempDir)) {
+        expect(fs.readFileSync(path.join(tempDir, file), 'utf-8')).not.toContain('secret-token');
+      }
+    });
+
+    it('should report the metrics whose requests were not recorded', async () => {
+      setHttpMode('replay');
+
+      const result = JSON.parse(await getMetrics('https://github.com/owner/unrecorded'));
+
+      expect(result.BusFactor).toBeNull();
+      expect(result.Errors.BusFactor).toEqual({ code: 'NOT_RECORDED', message: expect.stringContaining('https://api.github.com/repos/owner/unrecorded') });
+    });
+  });
+});
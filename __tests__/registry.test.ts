@@ -0,0 +1,105 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  createMetricContext,
+  getMetric,
+  getMetricNames,
+  getRegisteredMetrics,
+  loadMetricModule,
+  MetricError,
+  registerMetric,
+} from '../src/metrics/registry';
+import { Metric } from '../src/metrics/metric';
+import { RepoContext } from '../src/repoContext';
+import { initJSON } from '../src/json';
+import { getDataFields } from '../src/formatters/formatter';
+
+jest.mock('../src/logFile');
+
+// Builds a plugin metric with the given fields
+function makeMetric(fields: Partial<Metric> = {}): Metric {
+  return {
+    name: 'Popularity',
+    description: 'Downloads in the last week.',
+    dataSources: ['packageManifest'],
+    defaultWeight: 0.1,
+    compute: async () => ({ score: 1, latency: 0 }),
+    ...fields,
+  };
+}
+
+describe('registry', () => {
+  it('should register the built-in metrics in output order', () => {
+    expect(getMetricNames().slice(0, 5)).toEqual(['RampUp', 'Correctness', 'BusFactor', 'ResponsiveMaintainer', 'License']);
+    expect(getMetric('Correctness')?.dataSources).toEqual(['testFiles', 'packageJson', 'commits', 'checks', 'issues', 'mergeRequests', 'releases']);
+    expect(getRegisteredMetrics().slice(0, 5).reduce((sum, metric) => sum + metric.defaultWeight, 0)).toBeCloseTo(1);
+  });
+
+  it('should add the fields of a registered metric after the built-in ones', () => {
+    registerMetric(makeMetric({ name: 'Stars' }));
+
+    expect(getMetricNames()).toContain('Stars');
+    expect(initJSON()).toMatchObject({ Stars: null, Stars_Latency: null });
+    expect(getDataFields().slice(-2)).toEqual(['Stars', 'Stars_Latency']);
+  });
+
+  it.each([
+    [{ name: 'popularity' }, 'p: metric name must be PascalCase letters and digits, got "popularity".'],
+    [{ name: 'NetScore' }, 'p: NetScore is an output field and cannot name a metric.'],
+    [{ description: '' }, 'p: metric Popularity needs a description.'],
+    [{ dataSources: ['downloads'] }, 'p: metric Popularity has invalid data sources downloads. Valid data sources: repo, contributors, commits, commitFiles, issues, mergeRequests, comments, releases, checks, license, licenseFiles, readme, testFiles, packageJson, size, packageManifest.'],
+    [{ defaultWeight: -1 }, 'p: metric Popularity needs a default weight of at least 0.'],
+    [{ compute: 'score' }, 'p: metric Popularity needs a compute function.'],
+    [{ name: 'License' }, 'p: a metric named License is already registered.'],
+  ])('should reject a metric with %j', (fields, message) => {
+    expect(() => registerMetric(makeMetric(fields as Partial<Metric>), 'p')).toThrow(new MetricError(message));
+  });
+});
+
+describe('loadMetricModule', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'metrics-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true });
+  });
+
+  it('should register every metric a module exports, once', () => {
+    const file = path.join(dir, 'team.js');
+    fs.writeFileSync(file, [
+      "const metric = (name) => ({ name, description: 'Team metric.', dataSources: ['readme'], defaultWeight: 0, compute: async () => ({ score: 0.5, latency: 1 }) });",
+      "exports.metrics = [metric('Docs'), metric('Examples')];",
+    ].join('\n'));
+
+    expect(loadMetricModule(file).map(metric => metric.name)).toEqual(['Docs', 'Examples']);
+    expect(loadMetricModule(file)).toHaveLength(2);
+    expect(getMetricNames().slice(-2)).toEqual(['Docs', 'Examples']);
+  });
+
+  it('should report a module without metrics or with an invalid one', () => {
+    fs.writeFileSync(path.join(dir, 'empty.js'), 'exports.score = 1;');
+    fs.writeFileSync(path.join(dir, 'invalid.js'), "exports.default = { name: 'Bad' };");
+
+    expect(() => loadMetricModule(path.join(dir, 'empty.js'))).toThrow(/empty\.js: the module exports no metric/);
+    expect(() => loadMetricModule(path.join(dir, 'invalid.js'))).toThrow(/invalid\.js: metric Bad needs a description\./);
+    expect(() => loadMetricModule(path.join(dir, 'missing.js'))).toThrow(/^Cannot load the metric module/);
+    expect(getMetric('Bad')).toBeUndefined();
+  });
+});
+
+describe('createMetricContext', () => {
+  it('should only expose the data sources a metric declares', async () => {
+    const context = { url: 'https://github.com/a/b', getRepo: jest.fn().mockResolvedValue({ sizeKb: 1 }), getReadme: jest.fn() } as unknown as RepoContext;
+
+    const scoped = createMetricContext(context, makeMetric({ dataSources: ['repo'] }));
+
+    expect(scoped.url).toBe('https://github.com/a/b');
+    await expect(scoped.getRepo()).resolves.toEqual({ sizeKb: 1 });
+    expect(() => scoped.getReadme()).toThrow(new MetricError('Metric Popularity reads the readme data source, which it does not declare.'));
+    expect(context.getReadme).not.toHaveBeenCalled();
+  });
+});
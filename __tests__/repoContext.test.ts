@@ -0,0 +1,247 @@
+import { createRepoContext } from '../src/repoContext';
+import { fetchJsonFromApi, fetchPaginatedJsonFromApi } from '../src/API';
+import { logMessage } from '../src/logFile';
+
+// Mock dependencies
+jest.mock('../src/API');
+jest.mock('../src/logFile');
+
+describe('createRepoContext', () => {
+  const mockURL = 'https://github.com/example/repo';
+  const apiLink = 'https://api.github.com/repos/example/repo';
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (fetchJsonFromApi as jest.Mock).mockResolvedValue({ size: 100 });
+    (fetchPaginatedJsonFromApi as jest.Mock).mockResolvedValue({ data: [], pages: 1, truncated: false });
+  });
+
+  it('should not fetch anything until a resource is requested', () => {
+    const context = createRepoContext(mockURL);
+
+    expect(context.apiLink).toBe(apiLink);
+    expect(fetchJsonFromApi).not.toHaveBeenCalled();
+    expect(fetchPaginatedJsonFromApi).not.toHaveBeenCalled();
+  });
+
+  it('should share one request between concurrent callers', async () => {
+    const context = createRepoContext(mockURL);
+
+    const [first, second, third] = await Promise.all([context.getRepo(), context.getRepo(), context.getRepo()]);
+
+    expect(first).toMatchObject({ sizeKb: 100 });
+    expect(second).toBe(first);
+    expect(third).toBe(first);
+    expect(fetchJsonFromApi).toHaveBeenCalledTimes(1);
+    expect(context.getStats()).toEqual({ requests: 1, saved: 2 });
+    expect(logMessage).toHaveBeenCalledWith('RepoContext', [
+      'Reusing fetched resource.',
+      `Resource: repo, Repository: ${mockURL}, Calls saved: 2`,
+    ]);
+  });
+
+  it('should memoize each resource under its own endpoint', async () => {
+    const context = createRepoContext(mockURL);
+
+    await context.getContributors();
+    await context.getIssues('open');
+    await context.getIssues('closed');
+    await context.getIssues('open');
+    await context.getMergeRequests('closed');
+    await context.getLicense();
+    await context.getReadme();
+
+    expect(fetchPaginatedJsonFromApi).toHaveBeenCalledWith(`${apiLink}/contributors`);
+    expect(fetchPaginatedJsonFromApi).toHaveBeenCalledWith(`${apiLink}/issues?state=open`);
+    expect(fetchPaginatedJsonFromApi).toHaveBeenCalledWith(`${apiLink}/issues?state=closed`);
+    expect(fetchPaginatedJsonFromApi).toHaveBeenCalledWith(`${apiLink}/pulls?state=closed`);
+    expect(fetchPaginatedJsonFromApi).toHaveBeenCalledTimes(4);
+    expect(fetchJsonFromApi).toHaveBeenCalledWith(`${apiLink}/license`);
+    expect(fetchJsonFromApi).toHaveBeenCalledWith(`${apiLink}/readme`);
+    expect(context.getStats()).toEqual({ requests: 6, saved: 1 });
+  });
+
+  it('should memoize comments by their start and releases once', async () => {
+    const context = createRepoContext(mockURL);
+
+    await context.getComments('2024-04-19T00:00:00.000Z');
+    await context.getComments('2024-04-19T00:00:00.000Z');
+    await context.getComments('2024-07-19T00:00:00.000Z');
+    await context.getReleases();
+    await context.getReleases();
+
+    expect(fetchPaginatedJsonFromApi).toHaveBeenCalledWith(`${apiLink}/issues/comments?since=2024-04-19T00%3A00%3A00.000Z&sort=created&direction=desc`);
+    expect(fetchPaginatedJsonFromApi).toHaveBeenCalledWith(`${apiLink}/releases`, 1);
+    expect(context.getStats()).toEqual({ requests: 3, saved: 2 });
+  });
+
+  it('should list the issues and pull requests opened in a window apart from the full listings', async () => {
+    const context = createRepoContext(mockURL);
+    const since = '2024-04-19T00:00:00.000Z';
+
+    await context.getIssues('all');
+    await context.getIssues('all', since);
+    await context.getIssues('all', since);
+    await context.getMergeRequests('all', since);
+
+    expect(fetchPaginatedJsonFromApi).toHaveBeenCalledWith(`${apiLink}/issues?state=all`);
+    expect(fetchPaginatedJsonFromApi).toHaveBeenCalledWith(`${apiLink}/issues?state=open&since=2024-04-19T00%3A00%3A00.000Z`);
+    expect(fetchPaginatedJsonFromApi).toHaveBeenCalledWith(`${apiLink}/issues?state=closed&since=2024-04-19T00%3A00%3A00.000Z`);
+    expect(fetchPaginatedJsonFromApi).toHaveBeenCalledWith(`${apiLink}/pulls?state=open`);
+    expect(fetchPaginatedJsonFromApi).toHaveBeenCalledWith(`${apiLink}/pulls?state=closed`);
+    expect(context.getStats()).toEqual({ requests: 3, saved: 1 });
+  });
+
+  it('should share failures instead of retrying them', async () => {
+    (fetchJsonFromApi as jest.Mock).mockRejectedValue(new Error('API Error'));
+    const context = createRepoContext(mockURL);
+
+    await expect(context.getRepo()).rejects.toThrow('API Error');
+    await expect(context.getRepo()).rejects.toThrow('API Error');
+    expect(fetchJsonFromApi).toHaveBeenCalledTimes(1);
+  });
+
+  it('should fetch the npm manifest only for packages', async () => {
+    const githubContext = createRepoContext(mockURL);
+    const npmContext = createRepoContext(mockURL, 'https://www.npmjs.com/package/example');
+
+    expect(await githubContext.getPackageManifest()).toBeUndefined();
+    await npmContext.getPackageManifest();
+
+    expect(fetchJsonFromApi).toHaveBeenCalledTimes(1);
+    expect(fetchJsonFromApi).toHaveBeenCalledWith('https://registry.npmjs.org/example');
+    expect(githubContext.getStats()).toEqual({ requests: 0, saved: 0 });
+  });
+
+  it('should reuse the npm manifest the repository was resolved from', async () => {
+    const manifest = { name: 'example', repository: 'github:example/repo' };
+    const context = createRepoContext(mockURL, 'https://www.npmjs.com/package/example', null, manifest);
+
+    expect(await context.getPackageManifest()).toBe(manifest);
+    expect(fetchJsonFromApi).not.toHaveBeenCalled();
+  });
+
+  describe('with a package subdirectory', () => {
+    const monorepoURL = 'https://github.com/example/monorepo';
+    const monorepoLink = 'https://api.github.com/repos/example/monorepo';
+
+    it('should take the subdirectory from tree URLs', () => {
+      expect(createRepoContext(`${monorepoURL}/tree/main/packages/core`).subdirectory).toBe('packages/core');
+      expect(createRepoContext(monorepoURL, undefined, '/packages/core/').subdirectory).toBe('packages/core');
+      expect(createRepoContext(monorepoURL).subdirectory).toBeNull();
+    });
+
+    it('should scope contributors, README, license and size to the directory', async () => {
+      (fetchJsonFromApi as jest.Mock).mockImplementation(async (url: string) => {
+        if (url === monorepoLink) {
+          return { size: 90000, default_branch: 'main' };
+        }
+        if (url === `${monorepoLink}/readme/packages/core`) {
+          return { content: Buffer.from('# Core').toString('base64') };
+        }
+        if (url === `${monorepoLink}/git/trees/main%3Apackages%2Fcore?recursive=1`) {
+          return { tree: [{ type: 'blob', size: 2048 }, { type: 'tree' }, { type: 'blob', size: 1024 }], truncated: false };
+        }
+        if (url === `${monorepoLink}/license`) {
+          return { license: { key: 'mit', spdx_id: 'MIT', name: 'MIT License' } };
+        }
+        throw new Error('Not Found');
+      });
+      (fetchPaginatedJsonFromApi as jest.Mock).mockResolvedValue({
+        data: [{ author: { login: 'alice' } }, { author: null, commit: { author: { email: 'bob@example.com' } } }, { author: { login: 'alice' } }],
+        pages: 1,
+        truncated: false,
+      });
+      const context = createRepoContext(monorepoURL, undefined, 'packages/core');
+
+      expect(await context.getContributors()).toEqual({
+        data: [{ login: 'alice', contributions: 2 }, { login: 'bob@example.com', contributions: 1 }],
+        truncated: false,
+      });
+      expect(fetchPaginatedJsonFromApi).toHaveBeenCalledWith(`${monorepoLink}/commits?path=packages%2Fcore`);
+      expect(await context.getReadme()).toBe('# Core');
+      expect(await context.getSizeKb()).toBe(3);
+      expect(await context.getLicense()).toEqual({ key: 'mit', spdxId: 'MIT', name: 'MIT License', text: null }); // No license file in the directory
+      expect(fetchJsonFromApi).toHaveBeenCalledWith(`${monorepoLink}/contents/packages/core/LICENSE`);
+    });
+
+    it('should prefer a license file in the directory', async () => {
+      (fetchJsonFromApi as jest.Mock).mockImplementation(async (url: string) => {
+        if (url === `${monorepoLink}/contents/packages/core/LICENSE.md`) {
+          return { content: Buffer.from('MIT License').toString('base64') };
+        }
+        throw new Error('Not Found');
+      });
+      const context = createRepoContext(monorepoURL, undefined, 'packages/core');
+
+      expect(await context.getLicense()).toEqual({ key: null, spdxId: null, name: 'packages/core/LICENSE.md', text: 'MIT License' });
+    });
+
+    it('should list the license files of the repository root when the directory has none', async () => {
+      (fetchJsonFromApi as jest.Mock).mockImplementation(async (url: string) => {
+        if (url === `${monorepoLink}/contents/packages/core`) {
+          return [{ type: 'file', name: 'index.js' }, { type: 'file', name: 'package.json' }];
+        }
+        if (url === `${monorepoLink}/contents`) {
+          return [{ type: 'file', name: 'README.md' }, { type: 'file', name: 'LICENSE' }, { type: 'file', name: 'COPYING.LESSER' }, { type: 'dir', name: 'licenses' }, { type: 'file', name: 'license.js' }];
+        }
+        if (url === `${monorepoLink}/contents/COPYING.LESSER`) {
+          return { content: Buffer.from('GNU LESSER GENERAL PUBLIC LICENSE').toString('base64') };
+        }
+        if (url === `${monorepoLink}/contents/LICENSE`) {
+          return { content: Buffer.from('MIT License').toString('base64') };
+        }
+        throw new Error('Not Found');
+      });
+      const context = createRepoContext(monorepoURL, undefined, 'packages/core');
+
+      expect(await context.getLicenseFiles()).toEqual([
+        { path: 'COPYING.LESSER', text: 'GNU LESSER GENERAL PUBLIC LICENSE' },
+        { path: 'LICENSE', text: 'MIT License' },
+      ]);
+    });
+
+    it('should find the tests and package.json of the directory', async () => {
+      (fetchJsonFromApi as jest.Mock).mockImplementation(async (url: string) => {
+        if (url === `${monorepoLink}/contents/packages/core`) {
+          return [{ type: 'dir', name: 'src' }, { type: 'dir', name: '__tests__' }, { type: 'file', name: 'index.spec.ts' }, { type: 'file', name: 'package.json' }];
+        }
+        if (url === `${monorepoLink}/contents/packages/core/package.json`) {
+          return { content: Buffer.from('{ "scripts": { "test": "jest" } }').toString('base64') };
+        }
+        throw new Error('Not Found');
+      });
+      const context = createRepoContext(monorepoURL, undefined, 'packages/core');
+
+      expect(await context.getTestFiles()).toEqual(['packages/core/__tests__/', 'packages/core/index.spec.ts']);
+      expect(await context.getPackageJson()).toEqual({ scripts: { test: 'jest' } });
+    });
+
+    it('should look for tests in the repository root and ignore an invalid package.json', async () => {
+      (fetchJsonFromApi as jest.Mock).mockImplementation(async (url: string) => {
+        if (url === `${monorepoLink}/contents`) {
+          return [{ type: 'dir', name: 'test' }, { type: 'file', name: 'test.md' }];
+        }
+        if (url === `${monorepoLink}/contents/packages/core/package.json`) {
+          return { content: Buffer.from('{ "name": ').toString('base64') };
+        }
+        throw new Error('Not Found');
+      });
+      const context = createRepoContext(monorepoURL, undefined, 'packages/core');
+
+      expect(await context.getTestFiles()).toEqual(['test/']);
+      expect(await context.getPackageJson()).toBeNull();
+    });
+
+    it('should fall back to the repository size when the directory cannot be sized', async () => {
+      (fetchJsonFromApi as jest.Mock).mockImplementation(async (url: string) => {
+        if (url === monorepoLink) {
+          return { size: 90000, default_branch: 'main' };
+        }
+        return { tree: [], truncated: true };
+      });
+
+      expect(await createRepoContext(monorepoURL, undefined, 'packages/core').getSizeKb()).toBe(90000);
+    });
+  });
+});
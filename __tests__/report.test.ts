@@ -0,0 +1,121 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { DataObject, initJSON } from '../src/json';
+import { ScoredPackage } from '../src/metrics/getMetrics';
+import { renderHtmlReport, renderJUnitReport, writeReport } from '../src/report';
+import { PolicyResult } from '../src/policy';
+
+jest.mock('../src/logFile');
+
+/**
+ * Builds a scored package with the given fields, leaving the others null.
+ */
+function scored(fields: Partial<DataObject>, explanations: ScoredPackage['explanations'] = {}, errors: ScoredPackage['errors'] = {}, details: ScoredPackage['details'] = {}): ScoredPackage {
+  return { data: { ...initJSON(), ...fields }, explanations, errors, details };
+}
+
+describe('renderHtmlReport', () => {
+  const packages = [
+    scored(
+      { URL: 'https://github.com/a/b', NetScore: 0.85, BusFactor: 0.3, License: 1, RampUp: 0.9 },
+      {
+        BusFactor: {
+          inputs: { contributors: 2, totalCommits: 10, topContributors: [{ login: 'alice', commits: 9, share: 0.9 }, { login: 'bob', commits: 1, share: 0.1 }] },
+          intermediate: { keyContributors: 2, keyContributorShare: 1 },
+          thresholds: { commitShare: 0.95 },
+          complete: false,
+          reasoning: '2 of 2 contributors made 95% of the commits, so the score is 1 - 2/2, rounded to 0.',
+        },
+        RampUp: { inputs: { sizeKb: 5000, directory: null }, intermediate: {}, thresholds: { maxSizeKb: 50000 }, complete: true, reasoning: 'Small.' },
+      },
+      {},
+      { License: { Detected: 'MIT', Confidence: null } },
+    ),
+    scored({ URL: 'https://github.com/c/<script>', NetScore: 0.15 }, {}, { License: { code: 'HTTP_502', message: 'API request failed: Bad Gateway' } }),
+  ];
+  const html = renderHtmlReport(packages, new Date('2024-05-01T12:00:00Z'));
+
+  it('should not load anything from the network', () => {
+    expect(html.startsWith('<!DOCTYPE html>')).toBe(true);
+    expect(html).not.toMatch(/(src|href)="https?:/);
+    expect(html).toContain('<style>');
+    expect(html).toContain('<script>');
+  });
+
+  it('should summarize the run and list the scores in a sortable table', () => {
+    expect(html).toContain('Generated 2024-05-01T12:00:00.000Z for 2 packages. Mean NetScore: 0.50.');
+    expect(html).toContain('<td class="good" data-value="0.85">0.85</td>');
+    expect(html).toContain('<td class="poor" data-value="0.15">0.15</td>');
+    expect(html).toContain('<td class="none" data-value="-1">n/a</td>');
+  });
+
+  it('should chart the NetScore distribution and each metric', () => {
+    expect(html).toContain('<span class="label" title="0.8 to 1.0">0.8 to 1.0</span><span class="track"><div class="bar" style="width: 50.0%"></div></span><span class="value">1</span>');
+    expect(html).toContain('<h3>ResponsiveMaintainer</h3>');
+    expect(html).toContain('<div class="bar" style="width: 90.0%"></div></span><span class="value">0.9</span>');
+  });
+
+  it('should show the explanation and details of each score', () => {
+    expect(html).toContain('<summary>https://github.com/a/b (NetScore 0.85)</summary>');
+    expect(html).toContain('<p>2 of 2 contributors made 95% of the commits, so the score is 1 - 2/2, rounded to 0.</p>\n<p class="incomplete">');
+    expect(html).toContain('<h5>Inputs</h5>\n<table><tr><td>Contributors</td><td>2</td></tr><tr><td>Total commits</td><td>10</td></tr>');
+    expect(html).toContain('<tr><td>alice</td><td>9</td><td>0.9</td></tr>');
+    expect(html).toContain('<h5>Intermediate values</h5>\n<table><tr><td>Key contributors</td><td>2</td></tr>');
+    expect(html).toContain('<h5>Thresholds</h5>\n<table><tr><td>Max size kb</td><td>50000</td></tr></table>');
+    expect(html).toContain('<tr><td>Directory</td><td>n/a</td></tr>');
+    expect(html).not.toContain('<p>Small.</p>\n<p class="incomplete">');
+    expect(html).toContain('<h4>License: 1</h4>\n<p class="description">How compatible the license is with the product license (LGPL-2.1 by default), from the compatibility matrix; 0 if no license is found.</p>\n<p class="description">No explanation reported.</p>\n<h5>Details</h5>\n<table><tr><td>Detected</td><td>MIT</td></tr><tr><td>Confidence</td><td>n/a</td></tr></table>');
+  });
+
+  it('should show why a metric failed', () => {
+    expect(html).toContain('<h4>License: failed</h4>\n<p class="description">How compatible the license is with the product license (LGPL-2.1 by default), from the compatibility matrix; 0 if no license is found.</p>\n<p class="incomplete">Failed (HTTP_502): API request failed: Bad Gateway</p>');
+  });
+
+  it('should escape URLs', () => {
+    expect(html).toContain('https://github.com/c/&lt;script&gt;');
+    expect(html).not.toContain('c/<script>');
+  });
+});
+
+describe('renderJUnitReport', () => {
+  const packages = [
+    scored({ URL: 'https://github.com/a/b', NetScore: 0.85, NetScore_Latency: 1500 }),
+    scored({ URL: 'https://github.com/c/<d>', NetScore: 0.15 }, {}, { License: { code: 'HTTP_502', message: 'Bad Gateway' } }),
+  ];
+
+  it('should fail the packages with failed metrics without a policy', () => {
+    const xml = renderJUnitReport(packages, null, new Date('2024-05-01T12:00:00Z'));
+
+    expect(xml).toContain('<testsuite name="Package scores" tests="2" failures="1" errors="0" skipped="0" timestamp="2024-05-01T12:00:00.000Z">');
+    expect(xml).toContain('<testcase classname="scores" name="https://github.com/a/b" time="1.500">');
+    expect(xml).toContain('<testcase classname="scores" name="https://github.com/c/&lt;d&gt;" time="0.000">');
+    expect(xml).toContain('<failure type="MetricFailure" message="1 metric failed">License failed (HTTP_502): Bad Gateway</failure>');
+  });
+
+  it('should fail the packages that violate the policy and list waived rules', () => {
+    const policy: PolicyResult[] = [
+      { url: 'https://github.com/a/b', passed: true, violations: [{ rule: 'minimums.busFactor', message: 'BusFactor 0.2 is below the minimum 0.3', waivedUntil: '2030-01-01' }] },
+      { url: 'https://github.com/c/<d>', passed: false, violations: [{ rule: 'requirements.netScore', message: 'NetScore 0.15 is below the required 0.5', waivedUntil: null }] },
+    ];
+
+    const xml = renderJUnitReport(packages, policy);
+
+    expect(xml).toContain('<testsuites name="Package policy" tests="2" failures="1" errors="0">');
+    expect(xml).toContain('<failure type="PolicyViolation" message="1 policy rule violated">requirements.netScore: NetScore 0.15 is below the required 0.5</failure>');
+    expect(xml).toContain('Waived until 2030-01-01: minimums.busFactor: BusFactor 0.2 is below the minimum 0.3</system-out>');
+    expect(xml.match(/<failure /g)).toHaveLength(1);
+  });
+});
+
+describe('writeReport', () => {
+  it('should write the HTML report to the given path', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'report-'));
+    const file = path.join(dir, 'report.html');
+
+    writeReport('html', file, [scored({ URL: 'https://github.com/a/b', NetScore: 0.5 })]);
+
+    expect(fs.readFileSync(file, 'utf8')).toContain('<title>Package score report</title>');
+    fs.rmSync(dir, { recursive: true });
+  });
+});
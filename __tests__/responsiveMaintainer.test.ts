@@ -1,72 +1,178 @@
-import { calculateResponsiveMaintainer } from '../src/metrics/responsiveMaintainer'; // Adjust the path
-import { getGitHubAPILink } from '../src/githubData';
-import { fetchJsonFromApi } from '../src/API';
+import { calculateResponsiveMaintainer, decayScore, getPercentile } from '../src/metrics/responsiveMaintainer';
 import { getTimestampWithThreeDecimalPlaces } from '../src/metrics/getLatency';
-import { logMessage } from '../src/logFile';
+import { getDefaultConfig, ScoreConfig } from '../src/config';
+import { Comment, Commit, Issue, keepOpenedSince, MergeRequest, Release } from '../src/providers/provider';
+import { RepoContext } from '../src/repoContext';
 
-jest.mock('../src/githubData', () => ({
-  getGitHubAPILink: jest.fn(),
-}));
+// Mock dependencies
+jest.mock('../src/metrics/getLatency');
+jest.mock('../src/logFile');
 
-jest.mock('../src/API', () => ({
-  fetchJsonFromApi: jest.fn(),
-}));
+interface ContextData {
+  issues?: Issue[];
+  mergeRequests?: MergeRequest[];
+  comments?: Comment[];
+  commits?: Commit[];
+  releases?: Release[];
+  pushedAt?: string | null;
+  manifest?: any;
+  truncated?: boolean;
+}
 
-jest.mock('../src/metrics/getLatency', () => ({
-  getTimestampWithThreeDecimalPlaces: jest.fn(),
-}));
+// Builds a context serving the given issues, pull requests, comments, commits and releases;
+// issues and pull requests are windowed by their opening time, as the providers do
+function makeContext(data: ContextData = {}): RepoContext {
+  const list = <T>(items: T[] = []) => jest.fn().mockResolvedValue({ data: items, truncated: data.truncated ?? false });
+  const opened = <T extends { createdAt: string }>(items: T[] = []) => jest.fn().mockImplementation(async (state: string, since?: string) => {
+    const result = { data: items, truncated: data.truncated ?? false };
+    return since ? keepOpenedSince(result, since) : result;
+  });
+  return {
+    url: 'https://github.com/example/repo',
+    getRepo: jest.fn().mockResolvedValue({ pushedAt: data.pushedAt ?? null }),
+    getIssues: opened(data.issues),
+    getMergeRequests: opened(data.mergeRequests),
+    getComments: list(data.comments),
+    getCommits: list(data.commits),
+    getReleases: list(data.releases),
+    getPackageManifest: jest.fn().mockResolvedValue(data.manifest),
+  } as unknown as RepoContext;
+}
 
-jest.mock('../src/logFile', () => ({
-  logMessage: jest.fn(),
-}));
+function issue(number: number, createdAt: string, closedAt: string | null, author = 'user', isPullRequest = false): Issue {
+  return { number, state: closedAt ? 'closed' : 'open', createdAt, closedAt, author, isPullRequest, labels: [] };
+}
 
+function comment(number: number, createdAt: string, author: string, options: Partial<Comment> = {}): Comment {
+  return { number, onMergeRequest: null, author, createdAt, maintainer: true, bot: false, ...options };
+}
 
 describe('calculateResponsiveMaintainer', () => {
-  const URL = 'https://github.com/user/repo';
-  const API_link = 'https://api.github.com/repos/user/repo';
-  const repoData = { open_issues_count: 10 };
-  const issuesData = [
-    { closed_at: '2022-01-01T00:00:00Z' },
-    { closed_at: null },
-    { closed_at: '2022-01-02T00:00:00Z' },
-  ];
-  const latencyStart = 1000.123;
-  const latencyEnd = 1002.456;
+  const mockURL = 'https://github.com/example/repo';
+  const now = new Date('2024-10-19T15:00:00Z');
 
   beforeEach(() => {
     jest.clearAllMocks();
-    
-    // Mock timestamps for latency
-    (getTimestampWithThreeDecimalPlaces as jest.Mock).mockReturnValueOnce(latencyStart).mockReturnValueOnce(latencyEnd);
-    
-    // Mock API link generation
-    (getGitHubAPILink as jest.Mock).mockReturnValue(API_link);
-    
-    // Mock fetch API data
-    (fetchJsonFromApi as jest.Mock)
-      .mockResolvedValueOnce(repoData)  // First call for repo data
-      .mockResolvedValueOnce(issuesData); // Second call for issues data
+    (getTimestampWithThreeDecimalPlaces as jest.Mock).mockReturnValueOnce(1000.123).mockReturnValueOnce(1002.456);
+  });
+
+  it('should score first response, close, last commit and last release times', async () => {
+    const context = makeContext({
+      issues: [
+        issue(1, '2024-10-01T00:00:00Z', '2024-10-03T00:00:00Z'),
+        issue(2, '2024-10-10T00:00:00Z', '2024-10-11T00:00:00Z'),
+        issue(3, '2024-10-05T00:00:00Z', '2024-10-08T00:00:00Z', 'dev', true), // The pull request, listed among the issues
+        issue(4, '2024-01-01T00:00:00Z', null), // Opened before the window
+        issue(5, '2024-10-02T00:00:00Z', null, 'dependabot[bot]'),
+      ],
+      mergeRequests: [{ number: 3, state: 'merged', createdAt: '2024-10-05T00:00:00Z', closedAt: '2024-10-08T00:00:00Z', mergedAt: '2024-10-08T00:00:00Z', author: 'dev' }],
+      comments: [
+        comment(1, '2024-10-01T01:00:00Z', 'helper', { bot: true }),
+        comment(1, '2024-10-01T12:00:00Z', 'owner'),
+        comment(2, '2024-10-10T01:00:00Z', 'passerby', { maintainer: false }),
+        comment(3, '2024-10-05T01:00:00Z', 'dev'), // The author answering their own pull request
+        comment(3, '2024-10-06T00:00:00Z', 'owner'),
+      ],
+      commits: [{ sha: 'a', date: '2024-10-18T15:00:00Z', authorLogin: 'owner', authorName: null, authorEmail: null }],
+      releases: [{ tag: 'v1.2.0', publishedAt: '2024-04-22T15:00:00Z', commit: null }],
+    });
+
+    const result = await calculateResponsiveMaintainer(mockURL, context, getDefaultConfig(), now);
+
+    expect(result.score).toBe(0.87);
+    expect(result.latency).toBe(2.333);
+    expect(result.explanation).toMatchObject({
+      inputs: { since: '2024-04-19', issues: 2, pullRequests: 1, botItems: 1, maintainerComments: 3, lastCommit: '2024-10-18T15:00:00.000Z', lastRelease: 'v1.2.0' },
+      intermediate: {
+        firstResponseMedianDays: 1, firstResponseP90Days: 1, closeMedianDays: 2, closeP90Days: 2.8,
+        daysSinceLastCommit: 1, daysSinceLastRelease: 180,
+        firstResponseScore: 0.906, closeScore: 0.946, lastCommitScore: 0.992, lastReleaseScore: 0.5,
+      },
+      thresholds: { windowMonths: 6, responseHalfLifeDays: 7, closeHalfLifeDays: 30, commitHalfLifeDays: 90, releaseHalfLifeDays: 180 },
+      complete: true,
+      reasoning: 'Of the 3 issues and pull requests opened since 2024-04-19, half got a first response within 1 day (90% within 1 day) and half were closed within 2 days (90% within 2.8 days); the last commit was 1 day ago and the last release (v1.2.0) 180 days ago, so the weighted score is 0.87.',
+    });
+    expect(context.getIssues).toHaveBeenCalledWith('all', '2024-04-19T00:00:00.000Z'); // The window is applied by the listing
+    expect(context.getMergeRequests).toHaveBeenCalledWith('all', '2024-04-19T00:00:00.000Z');
+    expect(context.getComments).toHaveBeenCalledWith('2024-04-19T00:00:00.000Z');
+    expect(context.getCommits).toHaveBeenCalledWith('2023-10-19T00:00:00.000Z'); // The Bus Factor's window, to share the listing
   });
 
-  it('handles no closed issues and avoids division by zero', async () => {
-    // Override the mock to simulate no closed issues
-    (fetchJsonFromApi as jest.Mock).mockResolvedValueOnce(repoData).mockResolvedValueOnce([{ closed_at: null }, { closed_at: null }]);
+  it('should score only the last push when nothing else is known', async () => {
+    const context = makeContext({ pushedAt: '2024-07-21T15:00:00Z' });
 
-    const result = await calculateResponsiveMaintainer(URL);
+    const result = await calculateResponsiveMaintainer(mockURL, context, getDefaultConfig(), now);
 
-    expect(result.score).toBe(0.17); // With no closed issues, score should be 0
-    expect(result.latency).toBe(parseFloat((latencyEnd - latencyStart).toFixed(3)));
+    expect(result.score).toBe(0.5);
+    expect(result.explanation?.intermediate).toMatchObject({ firstResponseMedianDays: null, closeMedianDays: null, lastReleaseScore: null });
+    expect(result.explanation?.reasoning).toBe('No issues or pull requests were opened since 2024-04-19; the last commit was 90 days ago and no release was found, so the weighted score is 0.5.');
   });
 
-  it('handles missing open_issues_count in repoData and uses counted value', async () => {
-    const repoDataWithoutOpenIssuesCount = {};
-    
-    // Mock to return repo data without open_issues_count
-    (fetchJsonFromApi as jest.Mock).mockResolvedValueOnce(repoDataWithoutOpenIssuesCount).mockResolvedValueOnce(issuesData);
+  it('should score 0 without any activity', async () => {
+    const result = await calculateResponsiveMaintainer(mockURL, makeContext(), getDefaultConfig(), now);
 
-    const result = await calculateResponsiveMaintainer(URL);
+    expect(result.score).toBe(0);
+    expect(result.explanation?.reasoning).toContain('no commit was found and no release was found');
+  });
+
+  it('should count items still waiting and use the configured half-lives and bots', async () => {
+    const config: ScoreConfig = getDefaultConfig();
+    config.responsiveMaintainer = { ...config.responsiveMaintainer, responseHalfLifeDays: 14, closeHalfLifeDays: 14, bots: ['triage-*'] };
+    const context = makeContext({
+      issues: [issue(1, '2024-10-05T15:00:00Z', null)],
+      comments: [comment(1, '2024-10-05T16:00:00Z', 'triage-helper')],
+      commits: [{ sha: 'a', date: '2024-10-19T15:00:00Z', authorLogin: 'owner', authorName: null, authorEmail: null }],
+      manifest: { name: 'pkg', time: { created: '2020-01-01T00:00:00Z', modified: '2024-10-19T00:00:00Z', '1.0.0': '2024-10-19T09:00:00Z' } },
+      truncated: true,
+    });
+
+    const result = await calculateResponsiveMaintainer(mockURL, context, config, now);
+
+    expect(result.explanation).toMatchObject({
+      inputs: { maintainerComments: 0, lastRelease: 'pkg@1.0.0' },
+      intermediate: { firstResponseMedianDays: 14, closeMedianDays: 14, daysSinceLastRelease: 0.25, firstResponseScore: 0.5, closeScore: 0.5 },
+      complete: false,
+    });
+    expect(result.explanation?.reasoning).toContain('the last release (pkg@1.0.0) 6 hours ago');
+  });
+
+  it('should stay complete when a cut-off history still covers the whole window', async () => {
+    // The listings hit the page limit, but their oldest items were opened long before the window
+    const context = makeContext({
+      issues: [issue(2, '2024-10-10T00:00:00Z', '2024-10-11T00:00:00Z'), issue(1, '2022-01-01T00:00:00Z', '2022-01-02T00:00:00Z')],
+      mergeRequests: [
+        { number: 4, state: 'merged', createdAt: '2024-10-12T00:00:00Z', closedAt: '2024-10-13T00:00:00Z', mergedAt: '2024-10-13T00:00:00Z', author: 'dev' },
+        { number: 3, state: 'closed', createdAt: '2021-06-01T00:00:00Z', closedAt: '2021-06-02T00:00:00Z', mergedAt: null, author: 'dev' },
+      ],
+      truncated: true,
+    });
+    (context.getComments as jest.Mock).mockResolvedValue({ data: [], truncated: false });
+
+    const result = await calculateResponsiveMaintainer(mockURL, context, getDefaultConfig(), now);
+
+    expect(result.explanation).toMatchObject({ inputs: { issues: 1, pullRequests: 1 }, complete: true });
+  });
+
+  it('should handle errors gracefully', async () => {
+    const context = makeContext();
+    (context.getComments as jest.Mock).mockRejectedValue(new Error('API Error'));
+
+    await expect(calculateResponsiveMaintainer(mockURL, context, getDefaultConfig(), now)).rejects.toThrow('API Error');
+  });
+});
+
+describe('getPercentile', () => {
+  it('should interpolate between the nearest values', () => {
+    expect(getPercentile([1, 2, 3, 4], 0.5)).toBe(2.5);
+    expect(getPercentile([1, 2, 3], 0.9)).toBeCloseTo(2.8);
+    expect(getPercentile([5], 0.9)).toBe(5);
+  });
+});
 
-    expect(result.score).toBe(1); // Same issue count as before, so same score
-    expect(result.latency).toBe(parseFloat((latencyEnd - latencyStart).toFixed(3)));
+describe('decayScore', () => {
+  it('should halve the score every half-life', () => {
+    expect(decayScore(0, 7)).toBe(1);
+    expect(decayScore(7, 7)).toBe(0.5);
+    expect(decayScore(14, 7)).toBe(0.25);
   });
-});
\ No newline at end of file
+});
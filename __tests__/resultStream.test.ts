@@ -0,0 +1,105 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { createResultStream, readCompletedURLs } from '../src/resultStream';
+import { DataObject, initJSON } from '../src/json';
+
+jest.mock('../src/logFile');
+
+// Builds a result for a URL
+function result(URL: string): DataObject {
+  return { ...initJSON(), URL, NetScore: 0.5 };
+}
+
+// Reads the URLs of the NDJSON lines of a file
+function readURLs(file: string): string[] {
+  return fs.readFileSync(file, 'utf-8').trim().split('\n').map(line => JSON.parse(line).URL);
+}
+
+describe('createResultStream', () => {
+  let dir: string;
+  let file: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'results-'));
+    file = path.join(dir, 'results.ndjson');
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true });
+  });
+
+  it('should write each result once the results before it are written', () => {
+    const stream = createResultStream({ format: 'json', formatOptions: {}, order: 'input', path: file, append: false });
+
+    stream.write(1, result('b'));
+    expect(fs.readFileSync(file, 'utf-8')).toBe('');
+    stream.write(0, result('a'));
+    expect(readURLs(file)).toEqual(['a', 'b']);
+    stream.write(2, result('c'));
+    stream.close();
+
+    expect(readURLs(file)).toEqual(['a', 'b', 'c']);
+  });
+
+  it('should write results as they complete in completion order', () => {
+    const stream = createResultStream({ format: 'json', formatOptions: {}, order: 'completion', path: file, append: false });
+
+    stream.write(1, result('b'));
+    expect(readURLs(file)).toEqual(['b']);
+    stream.write(0, result('a'));
+    stream.close();
+
+    expect(readURLs(file)).toEqual(['b', 'a']);
+  });
+
+  it('should write a table format whole when closed and append when asked', () => {
+    fs.writeFileSync(file, 'earlier\n');
+    const stream = createResultStream({ format: 'csv', formatOptions: { latency: false }, order: 'input', path: file, append: true });
+
+    stream.write(1, result('b'));
+    stream.write(0, result('a'));
+    expect(fs.readFileSync(file, 'utf-8')).toBe('earlier\n');
+    stream.close();
+
+    expect(fs.readFileSync(file, 'utf-8').split('\n').map(line => line.split(',')[0])).toEqual(['earlier', 'URL', 'a', 'b', '']);
+  });
+});
+
+describe('readCompletedURLs', () => {
+  let dir: string;
+  let file: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'results-'));
+    file = path.join(dir, 'results.ndjson');
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true });
+  });
+
+  it('should return no URLs for a missing file', () => {
+    expect(readCompletedURLs(file)).toEqual(new Set());
+  });
+
+  it('should read the URLs and remove a result cut off by a crash', () => {
+    fs.writeFileSync(file, '{"URL":"a","NetScore":1}\n{"URL":"b","NetScore":0.5}\n{"URL":"c","Net');
+
+    expect(readCompletedURLs(file)).toEqual(new Set(['a', 'b']));
+    expect(fs.readFileSync(file, 'utf-8')).toBe('{"URL":"a","NetScore":1}\n{"URL":"b","NetScore":0.5}\n');
+  });
+
+  it('should end a complete last line with a newline', () => {
+    fs.writeFileSync(file, '{"URL":"a"}');
+
+    expect(readCompletedURLs(file)).toEqual(new Set(['a']));
+    expect(fs.readFileSync(file, 'utf-8')).toBe('{"URL":"a"}\n');
+  });
+
+  it('should reject a file that is not NDJSON output', () => {
+    fs.writeFileSync(file, 'URL,NetScore\na,1\n');
+
+    expect(() => readCompletedURLs(file)).toThrow('line 1 is not a JSON result with a URL.');
+  });
+});
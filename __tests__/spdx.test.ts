@@ -0,0 +1,65 @@
+import { formatSpdxExpression, getExpressionLicenses, normalizeLicenseId, parseSpdxExpression, readLicense, SpdxError } from '../src/spdx';
+
+describe('normalizeLicenseId', () => {
+  it('should correct the case of known ids', () => {
+    expect(normalizeLicenseId('mit')).toBe('MIT');
+    expect(normalizeLicenseId('apache-2.0')).toBe('Apache-2.0');
+  });
+
+  it('should replace deprecated GNU ids', () => {
+    expect(normalizeLicenseId('GPL-2.0')).toBe('GPL-2.0-only');
+    expect(normalizeLicenseId('GPL-2.0+')).toBe('GPL-2.0-or-later');
+    expect(normalizeLicenseId('lgpl-2.1')).toBe('LGPL-2.1-only');
+  });
+
+  it('should map common license names to ids', () => {
+    expect(normalizeLicenseId('MIT License')).toBe('MIT');
+    expect(normalizeLicenseId('Apache License 2.0')).toBe('Apache-2.0');
+    expect(normalizeLicenseId('GNU Lesser General Public License v2.1')).toBe('LGPL-2.1-only');
+  });
+
+  it('should keep unknown ids', () => {
+    expect(normalizeLicenseId('LicenseRef-Custom')).toBe('LicenseRef-Custom');
+  });
+});
+
+describe('parseSpdxExpression', () => {
+  it('should parse a single license', () => {
+    expect(parseSpdxExpression('MIT')).toEqual({ type: 'license', id: 'MIT', exception: null });
+  });
+
+  it('should bind AND tighter than OR', () => {
+    expect(parseSpdxExpression('MIT OR Apache-2.0 AND BSD-3-Clause')).toEqual({
+      type: 'or',
+      left: { type: 'license', id: 'MIT', exception: null },
+      right: {
+        type: 'and',
+        left: { type: 'license', id: 'Apache-2.0', exception: null },
+        right: { type: 'license', id: 'BSD-3-Clause', exception: null },
+      },
+    });
+  });
+
+  it('should parse parentheses, exceptions and lowercase operators', () => {
+    const expression = parseSpdxExpression('(MIT or GPL-2.0+ with Classpath-exception-2.0) and ISC');
+
+    expect(formatSpdxExpression(expression)).toBe('(MIT OR GPL-2.0-or-later WITH Classpath-exception-2.0) AND ISC');
+    expect(getExpressionLicenses(expression)).toEqual(['MIT', 'GPL-2.0-or-later WITH Classpath-exception-2.0', 'ISC']);
+  });
+
+  it('should reject invalid expressions', () => {
+    expect(() => parseSpdxExpression('')).toThrow(new SpdxError('Invalid SPDX expression "": it is empty.'));
+    expect(() => parseSpdxExpression('MIT OR')).toThrow(new SpdxError('Invalid SPDX expression "MIT OR": it ends where a license is expected.'));
+    expect(() => parseSpdxExpression('(MIT')).toThrow(new SpdxError('Invalid SPDX expression "(MIT": a parenthesis is not closed.'));
+    expect(() => parseSpdxExpression('MIT Apache-2.0')).toThrow(new SpdxError('Invalid SPDX expression "MIT Apache-2.0": "Apache-2.0" is not expected here.'));
+    expect(() => parseSpdxExpression('MIT WITH')).toThrow(new SpdxError('Invalid SPDX expression "MIT WITH": WITH must be followed by an exception id.'));
+  });
+});
+
+describe('readLicense', () => {
+  it('should read license names as well as expressions', () => {
+    expect(formatSpdxExpression(readLicense('Apache License 2.0'))).toBe('Apache-2.0');
+    expect(formatSpdxExpression(readLicense('MIT OR Apache-2.0'))).toBe('MIT OR Apache-2.0');
+    expect(() => readLicense('Some License')).toThrow(SpdxError);
+  });
+});
@@ -2,6 +2,7 @@ module.exports = {
     preset: 'ts-jest',
     testEnvironment: 'node',
     collectCoverage: true, // This enables coverage reporting
+    collectCoverageFrom: ['src/**/*.ts'], // Only the source, not test fixtures such as the worker module
     coverageDirectory: 'coverage',
     coverageReporters: ['json', 'lcov', 'text', 'clover'],
     moduleFileExtensions: ['ts', 'js'], // Allow Jest to handle TypeScript files
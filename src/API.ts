@@ -1,32 +1,130 @@
-import axios from 'axios';
 import * as dotenv from 'dotenv';
+import { getWithRetry, RateLimitError } from './httpClient';
+import { getHttpMode, UnrecordedRequestError } from './recorder';
+import { CachedResponse, getAuthScope, getCachedResponse, isCacheEnabled, refreshCachedResponse, storeCachedResponse } from './cache';
+import { ResolvedResource, resolveFromGraphQL } from './graphqlData';
+import { getAuthorizationHeader } from './hosts';
 import { logMessage } from './logFile';
 dotenv.config();
 
+/**
+ * Performs a GET request through the SQLite response cache.
+ *
+ * Fresh entries are served without a request. Stale entries are revalidated with
+ * `If-None-Match`/`If-Modified-Since`; a 304 answer (which does not count against
+ * GitHub's rate limit) renews the entry. Cache failures are logged and never fail the request.
+ *
+ * @async
+ * @param {string} apiLink - The URL to request.
+ * @param {any} headers - The request headers.
+ * @returns {Promise<{ data: any, headers: any }>} - The response body and headers.
+ */
+async function cachedGet(apiLink: string, headers: any): Promise<{ data: any, headers: any }> {
+    if (!isCacheEnabled() || getHttpMode() !== 'live') {
+        return getWithRetry(apiLink, headers); // Recording and replaying always bypass the cache
+    }
+
+    const scope = getAuthScope(headers['Authorization']);
+    let cached: CachedResponse | undefined;
+    try {
+        cached = await getCachedResponse(apiLink, scope);
+    } catch (error) {
+        logMessage('cachedGet - Cache Error', ['Failed to read from the cache.', `Error: ${error}`]);
+    }
+
+    if (cached && cached.expiresAt > Date.now()) {
+        logMessage('cachedGet - Fresh', ['Serving response from the cache.', `URL: ${apiLink}`]);
+        return { data: cached.body, headers: { link: cached.link ?? undefined } };
+    }
+
+    const requestHeaders = { ...headers };
+    if (cached?.etag) {
+        requestHeaders['If-None-Match'] = cached.etag;
+    } else if (cached?.lastModified) {
+        requestHeaders['If-Modified-Since'] = cached.lastModified;
+    }
+
+    const response = await getWithRetry(apiLink, requestHeaders);
+    try {
+        if (response.status === 304 && cached) {
+            logMessage('cachedGet - Not Modified', ['Cached response is still valid.', `URL: ${apiLink}`]);
+            await refreshCachedResponse(apiLink, scope);
+            return { data: cached.body, headers: { link: cached.link ?? undefined } };
+        }
+        await storeCachedResponse(apiLink, scope, response.data, response.headers);
+    } catch (error) {
+        logMessage('cachedGet - Cache Error', ['Failed to write to the cache.', `Error: ${error}`]);
+    }
+    return response;
+}
+
+/**
+ * Tries to serve a request from the GraphQL backend. Failed GraphQL queries fall
+ * back to REST, except rate limits and replay misses, which REST would hit too.
+ *
+ * @async
+ * @param {string} apiLink - The REST API URL.
+ * @returns {Promise<ResolvedResource | undefined>} - The resource, or undefined to use REST.
+ * @throws {RateLimitError} - Throws if the GraphQL rate limit is exhausted.
+ */
+async function graphQLOrRest(apiLink: string): Promise<ResolvedResource | undefined> {
+    try {
+        return await resolveFromGraphQL(apiLink);
+    } catch (error: any) {
+        if (error instanceof RateLimitError || error instanceof UnrecordedRequestError) {
+            throw error;
+        }
+        logMessage('graphQLOrRest - Fallback', ['GraphQL request failed, using REST.', `API link: ${apiLink}, Error: ${error.message}`]);
+        return undefined;
+    }
+}
+
+/**
+ * Wraps a failed request in an error that keeps the HTTP status and the network error code,
+ * so callers can report why the request failed.
+ *
+ * @param {any} error - The error of the request.
+ * @returns {Error} The error to throw, with `status` (or null) and `code` (or null) set.
+ */
+function toRequestError(error: any): Error {
+    const wrapped: any = new Error(`API request failed: ${error.message}`);
+    wrapped.status = error.response?.status ?? null;
+    wrapped.code = typeof error.code === 'string' ? error.code : null;
+    return wrapped;
+}
+
 /**
  * Fetches JSON data from a given API endpoint.
  *
  * This function performs an HTTP GET request to the specified `apiLink` 
  * and returns the response data in JSON format. If an error occurs during 
  * the request, it logs the error and returns an empty object if the error 
- * is for the "license" endpoint.
+ * is for the "license" endpoint. Transient failures and rate limits are
+ * retried by `getWithRetry` before an error is reported. When GITHUB_BACKEND
+ * is `graphql`, repository resources are served from the GraphQL snapshot.
  *
  * @async
  * @param {string} apiLink - The URL of the API endpoint from which to fetch data.
  * @returns {Promise<any>} - A promise that resolves to the JSON data 
  * from the API response or an empty object if there is an error for 
  * the "license" endpoint.
+ * @throws {RateLimitError} - Throws if the rate limit is exhausted and retries gave up.
  * @throws {Error} - Throws an error if the HTTP request fails and the 
  * endpoint is not "license".
  */
 export async function fetchJsonFromApi(apiLink: string): Promise<any> {
-    // Get the token from environment variables
-    const token = process.env.GITHUB_TOKEN;
+    // Get the token for the API host from environment variables
+    const authorization = getAuthorizationHeader(apiLink);
     logMessage('fetchJsonFromApi - Start', [
         'Preparing to fetch JSON data from the API.',
         `API link: ${apiLink}`
     ]);
 
+    const resolved = await graphQLOrRest(apiLink);
+    if (resolved) {
+        return resolved.data;
+    }
+
     // Set up headers for the API request
     const headers: any = {
         'Accept': 'application/vnd.github.v3+json',
@@ -37,8 +135,8 @@ export async function fetchJsonFromApi(apiLink: string): Promise<any> {
     ]);
 
     // Add authorization token if available
-    if (token) {
-        headers['Authorization'] = `token ${token}`;
+    if (authorization) {
+        headers['Authorization'] = authorization;
         logMessage('fetchJsonFromApi - Authorization', [
             'Authorization token added to headers.',
             'Token present and attached to request headers.'
@@ -55,7 +153,7 @@ export async function fetchJsonFromApi(apiLink: string): Promise<any> {
             'Sending GET request to the API.',
             `Requesting data from: ${apiLink}`
         ]);
-        const response = await axios.get(apiLink, { headers });
+        const response = await cachedGet(apiLink, headers);
         logMessage('fetchJsonFromApi - Response Received', [
             'Successfully received data from the API.',
             'Data successfully fetched and returned as JSON.'
@@ -67,6 +165,11 @@ export async function fetchJsonFromApi(apiLink: string): Promise<any> {
             `Error message: ${error.message}`
         ]);
 
+        // Rate limit and replay failures are surfaced as-is so callers can tell them apart
+        if (error instanceof RateLimitError || error instanceof UnrecordedRequestError) {
+            throw error;
+        }
+
         // If the error is from the license endpoint, return an empty object
         if (apiLink.includes('/license')) {
             logMessage('fetchJsonFromApi - License Error', [
@@ -76,6 +179,147 @@ export async function fetchJsonFromApi(apiLink: string): Promise<any> {
             return {}; // Return empty dataset if no data can be retrieved
         }
 
-        throw new Error(`API request failed: ${error.message}`); // Rethrow the error for other cases
+        throw toRequestError(error); // Rethrow the error for other cases
+    }
+}
+
+/**
+ * Result of a paginated API request.
+ *
+ * @interface PaginatedResult
+ */
+export interface PaginatedResult {
+    data: any[];            // Every item collected across the fetched pages
+    pages: number;          // Number of pages that were requested
+    truncated: boolean;     // True if the page cap was hit before the last page
+}
+
+// Default number of pages followed by fetchPaginatedJsonFromApi (100 items per page)
+const DEFAULT_MAX_PAGES = 10;
+
+/**
+ * Reads the page cap for paginated requests from the GITHUB_MAX_PAGES environment variable.
+ *
+ * @returns {number} The maximum number of pages to fetch, or DEFAULT_MAX_PAGES if unset or invalid.
+ */
+export function getMaxPages(): number {
+    const maxPages = parseInt(process.env.GITHUB_MAX_PAGES || '', 10);
+    return maxPages > 0 ? maxPages : DEFAULT_MAX_PAGES;
+}
+
+/**
+ * Parses an RFC 8288 `Link` header into a map of relation names to URLs.
+ *
+ * @param {string | undefined} header - The raw `Link` header (e.g. `<https://...&page=2>; rel="next"`).
+ * @returns {Record<string, string>} A map such as `{ next: '...', last: '...' }`.
+ */
+export function parseLinkHeader(header: string | undefined): Record<string, string> {
+    const links: Record<string, string> = {};
+    if (!header) {
+        return links;
+    }
+
+    for (const part of header.split(',')) {
+        const match = /<([^>]+)>\s*;\s*rel="([^"]+)"/.exec(part);
+        if (match) {
+            for (const rel of match[2].split(' ')) {
+                links[rel] = match[1];
+            }
+        }
+    }
+    return links;
+}
+
+/**
+ * Adds `per_page=100` to a list endpoint URL unless a page size (`per_page` or Bitbucket's `pagelen`) is already set.
+ *
+ * @param {string} apiLink - The URL of the list endpoint.
+ * @returns {string} The URL requesting the largest page size GitHub allows.
+ */
+function withMaxPageSize(apiLink: string): string {
+    const url = new URL(apiLink);
+    if (!url.searchParams.has('per_page') && !url.searchParams.has('pagelen')) {
+        url.searchParams.set('per_page', '100');
+    }
+    return url.toString();
+}
+
+/**
+ * Fetches every page of a list endpoint by following `Link: rel="next"` headers
+ * (or the `next` field of Bitbucket's paginated bodies).
+ *
+ * Requests are made with `per_page=100`. At most `maxPages` pages are fetched; if more
+ * pages remain, the result is marked as truncated so callers can tell a complete
+ * listing from a capped sample. With the GraphQL backend, the list comes from the
+ * repository snapshot as a single page.
+ *
+ * @async
+ * @param {string} apiLink - The URL of the list endpoint (e.g. `.../issues?state=closed`).
+ * @param {number} [maxPages=getMaxPages()] - The maximum number of pages to fetch.
+ * @returns {Promise<PaginatedResult>} - The concatenated items, the page count and the truncation flag.
+ * @throws {RateLimitError} - Throws if the rate limit is exhausted and retries gave up.
+ * @throws {Error} - Throws an error if any page request fails.
+ */
+export async function fetchPaginatedJsonFromApi(apiLink: string, maxPages: number = getMaxPages()): Promise<PaginatedResult> {
+    logMessage('fetchPaginatedJsonFromApi - Start', [
+        'Preparing to fetch paginated JSON data from the API.',
+        `API link: ${apiLink}, Max pages: ${maxPages}`
+    ]);
+
+    // Lists longer than the snapshot holds are paged through REST so no items are lost
+    const resolved = await graphQLOrRest(apiLink);
+    if (resolved && (!resolved.truncated || maxPages <= 1)) {
+        return { data: resolved.data, pages: 1, truncated: resolved.truncated };
+    }
+
+    const authorization = getAuthorizationHeader(apiLink);
+    const headers: any = {
+        'Accept': 'application/vnd.github.v3+json',
+    };
+    if (authorization) {
+        headers['Authorization'] = authorization;
+    }
+
+    const data: any[] = [];
+    let pages = 0;
+    let nextLink: string | undefined = withMaxPageSize(apiLink);
+
+    while (nextLink && pages < maxPages) {
+        logMessage('fetchPaginatedJsonFromApi - Sending Request', [
+            `Requesting page ${pages + 1}.`,
+            `Requesting data from: ${nextLink}`
+        ]);
+
+        let response;
+        try {
+            response = await cachedGet(nextLink, headers);
+        } catch (error: any) {
+            logMessage('fetchPaginatedJsonFromApi - Error', [
+                'Error occurred during the paginated API request.',
+                `Page: ${pages + 1}, Error message: ${error.message}`
+            ]);
+            if (error instanceof RateLimitError || error instanceof UnrecordedRequestError) {
+                throw error;
+            }
+            throw toRequestError(error);
+        }
+        pages++;
+
+        // Search endpoints wrap their results in an `items` array, Bitbucket in `values`
+        const items = Array.isArray(response.data) ? response.data : (response.data?.items ?? response.data?.values);
+        if (Array.isArray(items)) {
+            data.push(...items);
+        }
+
+        // Bitbucket links the next page from the body instead of a Link header
+        nextLink = parseLinkHeader(response.headers?.link).next ?? (typeof response.data?.next === 'string' ? response.data.next : undefined);
     }
-}
\ No newline at end of file
+
+    const truncated = nextLink !== undefined;
+    logMessage('fetchPaginatedJsonFromApi - Complete', [
+        `Fetched ${data.length} items across ${pages} pages.`,
+        `Items: ${data.length}, Pages: ${pages}, Truncated: ${truncated}`
+    ]);
+
+    return { data, pages, truncated };
+}
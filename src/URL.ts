@@ -1,11 +1,14 @@
 import * as fs from 'fs';
 import { exit } from 'process';
 import { logMessage } from './logFile';
+import { getHttpMode, loadFixture, recordFixture, UnrecordedRequestError } from './recorder';
+import { getPackageRefType, parsePackageRef } from './packageRef';
 
 /**
  * Checks if a given URL is accessible by making a HEAD request.
  * Returns true if the response is successful (status code in the range 200-299),
  * otherwise returns false. Catches any errors in the process and returns false.
+ * In replay mode the recorded result is used instead, and an unrecorded URL throws.
  *
  * @export
  * @async
@@ -15,19 +18,33 @@ import { logMessage } from './logFile';
 export async function testURL(url: string): Promise<boolean> {
     try {
         logMessage('testURL', ['Checking URL accessibility.', `Testing URL: ${url}`]);
+        if (getHttpMode() === 'replay') {
+            const { response } = loadFixture('HEAD', url);
+            return response.status >= 200 && response.status < 300;
+        }
+
         const response = await fetch(url, { method: 'HEAD' }); // Make a HEAD request to check accessibility
         logMessage('testURL', ['URL accessibility check completed.', `Response OK: ${response.ok}`]);
+        if (getHttpMode() === 'record') {
+            recordFixture('HEAD', url, {}, { status: response.status, headers: {}, body: null });
+        }
         return response.ok; // Return true if the response is successful
     } catch (error) {
+        if (error instanceof UnrecordedRequestError) {
+            throw error; // Fail loudly on requests missing from the fixtures
+        }
         logMessage('testURL', ['Error while checking URL accessibility.', `Error: ${error}`]);
+        if (getHttpMode() === 'record') {
+            recordFixture('HEAD', url, {}, { status: 0, headers: {}, body: null, error: String(error) });
+        }
         return false; // Return false if there was an error
     }
 }
 
 /**
  * Determines the type of URL based on the domain.
- * If the URL contains "github.com" or "npmjs.com", it returns "github" or "npmjs" respectively, 
- * with the ".com" stripped. If neither is matched, it returns "other".
+ * GitHub repository URLs (in any form parsePackageRef accepts) return "github", npm website
+ * and registry package URLs return "npmjs". Anything else returns "other".
  *
  * @export
  * @param {string} url - The URL to evaluate.
@@ -36,12 +53,11 @@ export async function testURL(url: string): Promise<boolean> {
 export function URLType(url: string): string {
     logMessage('URLType', ['Determining URL type.', `Evaluating URL: ${url}`]);
     
-    let regex = new RegExp("(github|npmjs)\\.com", "i"); // Regex to match GitHub or npmJS domains
-    let match = regex.exec(url);
+    const type = getPackageRefType(parsePackageRef(url));
     
-    if (match) {
-        logMessage('URLType', ['Match found for URL type.', `Matched type: ${match[1]}`]);
-        return match[1]; // Return the matched type (github or npmjs)
+    if (type !== 'other') {
+        logMessage('URLType', ['Match found for URL type.', `Matched type: ${type}`]);
+        return type; // Return the matched type (github or npmjs)
     }
 
     logMessage('URLType', ['No match found for URL type.', 'Returning "other".']);
@@ -84,12 +100,6 @@ export function parseURLs(filename: string): string[] {
 export async function get_valid_urls(filename: string): Promise<string[]> {
     logMessage('get_valid_urls', ['Getting valid URLs from file.', `Filename: ${filename}`]);
 
-    let args = process.argv.slice(2);
-    if (args.length !== 1) { // Check for invalid number of arguments
-        logMessage('get_valid_urls', ['Invalid number of arguments.', 'Exiting with error.']);
-        exit(1);
-    }
-
     let url_array = parseURLs(filename); // Parse the URLs from the file
     let valid_urls: string[] = [];
 
@@ -0,0 +1,270 @@
+import * as sqlite3 from 'sqlite3';
+import * as path from 'path';
+import * as fs from 'fs';
+import * as os from 'os';
+import { createHash } from 'crypto';
+import * as dotenv from 'dotenv';
+import { logMessage } from './logFile';
+dotenv.config();
+
+/**
+ * Interface representing a response stored in the cache.
+ *
+ * @interface CachedResponse
+ */
+export interface CachedResponse {
+    url: string;                    // Request URL
+    scope: string;                  // Authorization scope the response was fetched with
+    body: any;                      // Parsed JSON response body
+    etag: string | null;            // ETag header, used for If-None-Match revalidation
+    lastModified: string | null;    // Last-Modified header, used for If-Modified-Since revalidation
+    link: string | null;            // Link header, needed to follow pagination from a cached page
+    fetchedAt: number;              // Epoch milliseconds when the response was last fetched or revalidated
+    expiresAt: number;              // Epoch milliseconds after which the response must be revalidated
+}
+
+/**
+ * Interface summarizing the contents of the cache.
+ *
+ * @interface CacheStats
+ */
+export interface CacheStats {
+    path: string;       // Location of the cache database
+    entries: number;    // Number of stored responses
+    fresh: number;      // Responses that can be served without revalidation
+    stale: number;      // Responses that need revalidation
+    sizeBytes: number;  // Size of the database file
+}
+
+// Time-to-live per endpoint, matched in order against the request URL (seconds)
+const CACHE_TTLS: { pattern: RegExp, ttl: number }[] = [
+    { pattern: /registry\.npmjs\.org/, ttl: 24 * 60 * 60 },        // npm package manifests
+    { pattern: /\/license(\?|$)/, ttl: 7 * 24 * 60 * 60 },         // Licenses rarely change
+    { pattern: /\/(commits\/[0-9a-f]{40}(\/diff)?|diffstat\/[0-9a-f]{40})(\?|$)/, ttl: 30 * 24 * 60 * 60 }, // Files changed by a commit never change
+    { pattern: /\/(contributors|readme|commits)(\?|$)/, ttl: 24 * 60 * 60 },
+    { pattern: /\/(issues|pulls|comments|events|activity|check-runs|statuses)(\?|$)/, ttl: 60 * 60 }, // Issue, PR, comment and CI listings move quickly
+];
+const DEFAULT_TTL = 6 * 60 * 60; // Repository metadata and everything else
+
+let cacheEnabled = process.env.CACHE_DISABLED !== 'true';
+let databasePromise: Promise<sqlite3.Database> | null = null;
+
+/**
+ * Gets the path of the cache database: the CACHE_FILE environment variable, or `pkgscore/cache.sqlite`
+ * in the user's cache directory (`$XDG_CACHE_HOME`, else `~/.cache`). Without a home directory the
+ * cache is kept in `.cache` under the working directory.
+ *
+ * @returns {string} The cache database path.
+ */
+export function getCacheFilePath(): string {
+    if (process.env.CACHE_FILE) {
+        return process.env.CACHE_FILE;
+    }
+    const cacheHome = process.env.XDG_CACHE_HOME || (os.homedir() ? path.join(os.homedir(), '.cache') : path.resolve('.cache'));
+    return path.join(cacheHome, 'pkgscore', 'cache.sqlite');
+}
+
+/**
+ * Enables or disables the cache for the rest of the run (used by `--no-cache`).
+ *
+ * @param {boolean} enabled - Whether responses should be read from and written to the cache.
+ */
+export function setCacheEnabled(enabled: boolean) {
+    logMessage('setCacheEnabled', [`Cache ${enabled ? 'enabled' : 'disabled'}.`, `Cache file: ${getCacheFilePath()}`]);
+    cacheEnabled = enabled;
+}
+
+/**
+ * Checks whether the cache is enabled.
+ *
+ * @returns {boolean} True if requests should use the cache.
+ */
+export function isCacheEnabled(): boolean {
+    return cacheEnabled;
+}
+
+/**
+ * Derives the cache scope for an authorization token, so responses fetched with one
+ * token are never served to another. The token itself is never stored.
+ *
+ * @param {string | undefined} token - The token used for the request.
+ * @returns {string} `anonymous` or a hash of the token.
+ */
+export function getAuthScope(token: string | undefined): string {
+    if (!token) {
+        return 'anonymous';
+    }
+    return 'token:' + createHash('sha256').update(token).digest('hex').slice(0, 16);
+}
+
+/**
+ * Gets the time-to-live for a URL based on the endpoint it targets.
+ *
+ * @param {string} url - The request URL.
+ * @returns {number} The time-to-live in seconds.
+ */
+export function getCacheTTL(url: string): number {
+    const match = CACHE_TTLS.find(entry => entry.pattern.test(url));
+    return match ? match.ttl : DEFAULT_TTL;
+}
+
+/**
+ * Opens the cache database, creating the file and table on first use.
+ *
+ * @returns {Promise<sqlite3.Database>} The open database.
+ */
+function getDatabase(): Promise<sqlite3.Database> {
+    if (!databasePromise) {
+        const filePath = getCacheFilePath();
+        logMessage('getDatabase', ['Opening cache database.', `Cache file: ${filePath}`]);
+
+        databasePromise = new Promise((resolve, reject) => {
+            fs.mkdirSync(path.dirname(filePath), { recursive: true });
+            const db = new sqlite3.Database(filePath, (error) => {
+                if (error) {
+                    reject(error);
+                    return;
+                }
+                db.run(`CREATE TABLE IF NOT EXISTS responses (
+                    url TEXT NOT NULL,
+                    scope TEXT NOT NULL,
+                    body TEXT NOT NULL,
+                    etag TEXT,
+                    last_modified TEXT,
+                    link TEXT,
+                    fetched_at INTEGER NOT NULL,
+                    expires_at INTEGER NOT NULL,
+                    PRIMARY KEY (url, scope)
+                )`, (createError) => createError ? reject(createError) : resolve(db));
+            });
+        });
+    }
+    return databasePromise;
+}
+
+/**
+ * Runs a statement against the cache database.
+ *
+ * @param {string} sql - The SQL statement.
+ * @param {any[]} params - The statement parameters.
+ * @returns {Promise<number>} The number of rows changed.
+ */
+async function run(sql: string, params: any[]): Promise<number> {
+    const db = await getDatabase();
+    return new Promise((resolve, reject) => {
+        db.run(sql, params, function (this: sqlite3.RunResult, error: Error | null) {
+            error ? reject(error) : resolve(this.changes);
+        });
+    });
+}
+
+/**
+ * Runs a query against the cache database and returns the first row.
+ *
+ * @param {string} sql - The SQL query.
+ * @param {any[]} params - The query parameters.
+ * @returns {Promise<any>} The first row, or undefined if there is none.
+ */
+async function get(sql: string, params: any[]): Promise<any> {
+    const db = await getDatabase();
+    return new Promise((resolve, reject) => {
+        db.get(sql, params, (error, row) => error ? reject(error) : resolve(row));
+    });
+}
+
+/**
+ * Looks up a cached response.
+ *
+ * @param {string} url - The request URL.
+ * @param {string} scope - The authorization scope from getAuthScope.
+ * @returns {Promise<CachedResponse | undefined>} The cached response, fresh or stale, or undefined on a miss.
+ */
+export async function getCachedResponse(url: string, scope: string): Promise<CachedResponse | undefined> {
+    const row = await get('SELECT * FROM responses WHERE url = ? AND scope = ?', [url, scope]);
+    if (!row) {
+        logMessage('getCachedResponse', ['Cache miss.', `URL: ${url}, Scope: ${scope}`]);
+        return undefined;
+    }
+
+    logMessage('getCachedResponse', ['Cache hit.', `URL: ${url}, Scope: ${scope}, Expires: ${row.expires_at}`]);
+    return {
+        url: row.url,
+        scope: row.scope,
+        body: JSON.parse(row.body),
+        etag: row.etag,
+        lastModified: row.last_modified,
+        link: row.link,
+        fetchedAt: row.fetched_at,
+        expiresAt: row.expires_at
+    };
+}
+
+/**
+ * Stores a response in the cache, replacing any previous entry.
+ *
+ * @param {string} url - The request URL.
+ * @param {string} scope - The authorization scope from getAuthScope.
+ * @param {any} body - The parsed JSON response body.
+ * @param {any} headers - The response headers.
+ */
+export async function storeCachedResponse(url: string, scope: string, body: any, headers: any) {
+    const now = Date.now();
+    const expiresAt = now + getCacheTTL(url) * 1000;
+    await run(
+        'INSERT OR REPLACE INTO responses (url, scope, body, etag, last_modified, link, fetched_at, expires_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?)',
+        [url, scope, JSON.stringify(body), headers?.etag ?? null, headers?.['last-modified'] ?? null, headers?.link ?? null, now, expiresAt]
+    );
+    logMessage('storeCachedResponse', ['Response cached.', `URL: ${url}, Scope: ${scope}, Expires: ${expiresAt}`]);
+}
+
+/**
+ * Extends the lifetime of a cached response after a 304 Not Modified revalidation.
+ *
+ * @param {string} url - The request URL.
+ * @param {string} scope - The authorization scope from getAuthScope.
+ */
+export async function refreshCachedResponse(url: string, scope: string) {
+    const now = Date.now();
+    await run('UPDATE responses SET fetched_at = ?, expires_at = ? WHERE url = ? AND scope = ?', [now, now + getCacheTTL(url) * 1000, url, scope]);
+    logMessage('refreshCachedResponse', ['Cached response revalidated.', `URL: ${url}, Scope: ${scope}`]);
+}
+
+/**
+ * Deletes every cached response.
+ *
+ * @returns {Promise<number>} The number of entries removed.
+ */
+export async function clearCache(): Promise<number> {
+    const removed = await run('DELETE FROM responses', []);
+    logMessage('clearCache', ['Cache cleared.', `Entries removed: ${removed}`]);
+    return removed;
+}
+
+/**
+ * Summarizes the contents of the cache.
+ *
+ * @returns {Promise<CacheStats>} Entry counts and the database size.
+ */
+export async function getCacheStats(): Promise<CacheStats> {
+    const row = await get('SELECT COUNT(*) AS entries, COALESCE(SUM(expires_at > ?), 0) AS fresh FROM responses', [Date.now()]);
+    const filePath = getCacheFilePath();
+    return {
+        path: filePath,
+        entries: row.entries,
+        fresh: row.fresh,
+        stale: row.entries - row.fresh,
+        sizeBytes: fs.existsSync(filePath) ? fs.statSync(filePath).size : 0
+    };
+}
+
+/**
+ * Closes the cache database if it was opened.
+ */
+export async function closeCache() {
+    if (!databasePromise) {
+        return;
+    }
+    const db = await databasePromise;
+    databasePromise = null;
+    await new Promise<void>((resolve, reject) => db.close(error => error ? reject(error) : resolve()));
+}
@@ -0,0 +1,413 @@
+import { getFormatter, getFormatters } from './formatters';
+import { MetricName } from './metrics/getMetrics';
+import { getMetricNames } from './metrics/registry';
+import { HttpMode } from './recorder';
+import { REPORT_FORMATS, ReportFormat } from './report';
+import { RESULT_ORDERS, ResultOrder } from './resultStream';
+
+/**
+ * Subcommands of the CLI.
+ */
+export type Command = 'score' | 'explain' | 'cache' | 'doctor' | 'help';
+
+/**
+ * Interface representing the parsed command line.
+ *
+ * @interface CliOptions
+ */
+export interface CliOptions {
+    command: Command;                       // Subcommand to run
+    file: string | null;                    // URL file of `score <file>`
+    repos: string[];                        // URLs given with --repo, or the URL of `explain <url>`
+    metrics: string | null;                 // Value of --metrics, resolved with parseMetrics once plugins are loaded; null for every metric
+    output: string;                         // Output format of `score`
+    out: string | null;                     // File the results are written to with --out, null for stdout
+    order: ResultOrder;                     // Order the results are written in, set with --order
+    resume: boolean;                        // True with --resume: skip the URLs already in the --out file and append the rest
+    latency: boolean | null;                // True with --latency, false with --no-latency, null for the format's default
+    report: { format: ReportFormat, path: string } | null;  // Report file of `score` written with --report
+    explain: boolean;                       // True with --explain: add an Explanation field to the JSON output
+    concurrency: number | null;             // URLs scored at once with --concurrency, null to follow the core count and API budget
+    progress: boolean | null;               // True with --progress, false with --no-progress, null to show progress on a terminal
+    threads: boolean;                       // True with --threads: run CPU-heavy analysis in worker threads
+    config: string | null;                  // Config file given with --config; looked up from the working directory if null
+    policy: string | null;                  // Policy file given with --policy, which the scores are checked against
+    cacheAction: 'stats' | 'clear' | null;  // Action of `cache`
+    cache: boolean;                         // False with --no-cache
+    httpMode: HttpMode;                     // `record` with --record, `replay` with --replay
+    helpTopic: Command | null;              // Command whose help was asked for, null for the general help
+}
+
+/**
+ * Error thrown for an invalid command line. The message is meant to be shown to the user.
+ */
+export class CliError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'CliError';
+    }
+}
+
+// Every subcommand, as typed on the command line
+const COMMANDS: Command[] = ['score', 'explain', 'cache', 'doctor', 'help'];
+
+// Options that take a value
+const VALUE_OPTIONS = ['--repo', '--metrics', '--output', '--report', '--config', '--concurrency', '--out', '--order', '--policy'];
+
+// Options that take no value
+const FLAG_OPTIONS = ['--help', '--explain', '--latency', '--no-latency', '--no-cache', '--record', '--replay', '--clear-cache', '--cache-stats', '--progress', '--no-progress', '--threads', '--resume'];
+
+// Short forms of options
+const SHORT_OPTIONS: Record<string, string> = { '-h': '--help', '-o': '--output', '-m': '--metrics', '-r': '--repo' };
+
+// Help text of each command
+const USAGE: Record<Command | 'general', string> = {
+    general: [
+        'Usage: run <command> [options]',
+        '',
+        'Commands:',
+        '  score <file>          Score every URL in a file (one URL per line)',
+        '  score --repo <url>    Score one repository or npm package (repeatable)',
+        '  explain <url>         Score one URL and describe what each metric measures',
+        '  cache stats|clear     Show or clear the response cache',
+        '  doctor                Check the environment and API access',
+        '  help [command]        Show help for a command',
+        '',
+        'Options:',
+        `  -m, --metrics <list>  Comma-separated metrics to calculate: ${getMetricOptionNames().join(', ')}`,
+        '  -o, --output <format> Output format:',
+        ...getFormatters().map(formatter => `                          ${formatter.name.padEnd(10)}${formatter.description}`),
+        '  --out <path>          Write the results to a file instead of stdout',
+        `  --order <order>       Write results in input order or as each URL completes: ${RESULT_ORDERS.join(', ')} (default: input)`,
+        '  --resume              Skip the URLs already in the --out file and append the others (json only)',
+        '  --explain             Add an Explanation field with the inputs and reasoning of each score (json only)',
+        `  --report <format> <path>  Also write a report file: ${REPORT_FORMATS.join(', ')}`,
+        `  --[no-]latency        Include the latency fields (default: on for ${getFormatters().filter(formatter => formatter.latencyByDefault).map(formatter => formatter.name).join(', ')})`,
+        '  --config <path>       Config file with weights and metric thresholds (default: the nearest .pkgscorerc)',
+        '  --policy <path>       Check the scores against a policy file and exit with status 3 on violations',
+        '  --concurrency <n>     URLs to score at once (default: from the core count and remaining API budget)',
+        '  --[no-]progress       Show progress on stderr (default: on when stderr is a terminal)',
+        '  --threads             Run CPU-heavy analysis in worker threads',
+        '  --no-cache            Bypass the response cache',
+        '  --record, --replay    Record HTTP requests to FIXTURE_DIR, or serve them from it',
+        '  -h, --help            Show help',
+        '',
+        'A URL file given without a command is scored, as in `run <file>`.',
+        'Exit status: 0 on success, 1 on errors, 2 if a metric failed for some URL (its score is null),',
+        '3 if a package violates the --policy.'
+    ].join('\n'),
+    score: [
+        'Usage: run score <file> [options]',
+        '       run score --repo <url> [--repo <url> ...] [options]',
+        '',
+        'Scores GitHub, GitLab and Bitbucket repositories and npm packages.',
+        'Options: --metrics <list>, --output <format>, --out <path>, --order <order>, --resume, --explain, --[no-]latency, --report <format> <path>, --config <path>, --policy <path>, --concurrency <n>, --[no-]progress, --threads, --no-cache, --record, --replay'
+    ].join('\n'),
+    explain: [
+        'Usage: run explain <url> [options]',
+        '',
+        'Scores one URL and prints each metric with a description of what it measures.',
+        'Options: --metrics <list>, --config <path>, --threads, --no-cache, --record, --replay'
+    ].join('\n'),
+    cache: [
+        'Usage: run cache stats',
+        '       run cache clear',
+        '',
+        'Shows the location, entry count and size of the response cache, or removes every entry.'
+    ].join('\n'),
+    doctor: [
+        'Usage: run doctor',
+        '',
+        'Checks the environment variables, the config file, the response cache and access to the GitHub API.',
+        'Options: --config <path>'
+    ].join('\n'),
+    help: [
+        'Usage: run help [command]',
+        '',
+        'Shows the help of a command, or the list of commands.'
+    ].join('\n')
+};
+
+/**
+ * Gets the metric names accepted by --metrics (e.g. `bus-factor` for BusFactor).
+ * Metrics of plugin modules are only known once the config file is loaded.
+ *
+ * @returns {string[]} The names, in calculation order.
+ */
+export function getMetricOptionNames(): string[] {
+    return getMetricNames().map(name => name.replace(/(?<=[a-z])(?=[A-Z])/g, '-').toLowerCase());
+}
+
+/**
+ * Gets the help text of a command.
+ *
+ * @param {Command | null} [command=null] - The command, or null for the general help.
+ * @returns {string} The help text.
+ */
+export function getUsage(command: Command | null = null): string {
+    return command ? USAGE[command] : USAGE.general;
+}
+
+/**
+ * Parses the value of --metrics against the registered metrics. Names are matched case-insensitively,
+ * with or without dashes and underscores (`bus-factor`, `BusFactor` and `bus_factor` are the same metric).
+ *
+ * @param {string} value - The comma-separated metric names.
+ * @returns {MetricName[]} The metrics, in calculation order.
+ * @throws {CliError} If a name is unknown or the list is empty.
+ */
+export function parseMetrics(value: string): MetricName[] {
+    const normalize = (name: string) => name.replace(/[-_\s]/g, '').toLowerCase();
+    const requested = value.split(',').map(name => name.trim()).filter(name => name !== '');
+    if (requested.length === 0) {
+        throw new CliError('--metrics needs at least one metric name.');
+    }
+
+    const metrics = getMetricNames();
+    const unknown = requested.filter(name => !metrics.some(metric => normalize(metric) === normalize(name)));
+    if (unknown.length > 0) {
+        throw new CliError(`Unknown metric${unknown.length > 1 ? 's' : ''}: ${unknown.join(', ')}. Valid metrics: ${getMetricOptionNames().join(', ')}.`);
+    }
+    return metrics.filter(metric => requested.some(name => normalize(name) === normalize(metric)));
+}
+
+/**
+ * Parses the command line arguments (without the `node` and script paths).
+ * Options may be given as `--option value` or `--option=value`, before or after the command.
+ *
+ * @param {string[]} argv - The arguments.
+ * @returns {CliOptions} The parsed command line.
+ * @throws {CliError} If the arguments are invalid.
+ */
+export function parseArgs(argv: string[]): CliOptions {
+    const options: CliOptions = {
+        command: 'score',
+        file: null,
+        repos: [],
+        metrics: null,
+        output: 'json',
+        out: null,
+        order: 'input',
+        resume: false,
+        latency: null,
+        report: null,
+        explain: false,
+        concurrency: null,
+        progress: null,
+        threads: false,
+        config: null,
+        policy: null,
+        cacheAction: null,
+        cache: true,
+        httpMode: 'live',
+        helpTopic: null
+    };
+    const positionals: string[] = [];
+    const seen = new Set<string>();
+
+    for (let i = 0; i < argv.length; i++) {
+        let arg = argv[i];
+        if (!arg.startsWith('-') || arg === '-') {
+            positionals.push(arg);
+            continue;
+        }
+
+        // Split `--option=value` and expand short forms
+        let value: string | undefined;
+        const separator = arg.indexOf('=');
+        if (arg.startsWith('--') && separator !== -1) {
+            value = arg.slice(separator + 1);
+            arg = arg.slice(0, separator);
+        }
+        arg = SHORT_OPTIONS[arg] ?? arg;
+
+        if (FLAG_OPTIONS.includes(arg)) {
+            if (value !== undefined) {
+                throw new CliError(`Option ${arg} does not take a value.`);
+            }
+        } else if (VALUE_OPTIONS.includes(arg)) {
+            if (value === undefined) {
+                value = argv[++i];
+                if (value === undefined || value.startsWith('-')) {
+                    throw new CliError(`Option ${arg} needs a value.`);
+                }
+            }
+        } else {
+            throw new CliError(`Unknown option: ${arg}. Run with --help for the list of options.`);
+        }
+        if (seen.has(arg) && arg !== '--repo') {
+            throw new CliError(`Option ${arg} was given more than once.`);
+        }
+        seen.add(arg);
+
+        switch (arg) {
+            case '--no-cache':
+                options.cache = false;
+                break;
+            case '--config':
+                options.config = value as string;
+                break;
+            case '--policy':
+                options.policy = value as string;
+                break;
+            case '--explain':
+                options.explain = true;
+                break;
+            case '--latency':
+            case '--no-latency':
+                options.latency = arg === '--latency';
+                break;
+            case '--progress':
+            case '--no-progress':
+                options.progress = arg === '--progress';
+                break;
+            case '--threads':
+                options.threads = true;
+                break;
+            case '--resume':
+                options.resume = true;
+                break;
+            case '--out':
+                options.out = value as string;
+                break;
+            case '--order':
+                if (!RESULT_ORDERS.includes(value as ResultOrder)) {
+                    throw new CliError(`Unknown order: ${value}. Valid orders: ${RESULT_ORDERS.join(', ')}.`);
+                }
+                options.order = value as ResultOrder;
+                break;
+            case '--concurrency':
+                if (!/^\d+$/.test(value as string) || parseInt(value as string, 10) < 1) {
+                    throw new CliError(`Option --concurrency needs a whole number of at least 1, got ${value}.`);
+                }
+                options.concurrency = parseInt(value as string, 10);
+                break;
+            case '--record':
+            case '--replay':
+                options.httpMode = arg === '--record' ? 'record' : 'replay';
+                break;
+            case '--clear-cache':
+            case '--cache-stats':
+                options.cacheAction = arg === '--clear-cache' ? 'clear' : 'stats';
+                break;
+            case '--repo':
+                options.repos.push(value as string);
+                break;
+            case '--metrics':
+                options.metrics = value as string;
+                break;
+            case '--report': {
+                // The format is followed by the path of the report file
+                if (!REPORT_FORMATS.includes(value as ReportFormat)) {
+                    throw new CliError(`Unknown report format: ${value}. Valid formats: ${REPORT_FORMATS.join(', ')}.`);
+                }
+                const path = argv[++i];
+                if (path === undefined || path.startsWith('-')) {
+                    throw new CliError('Option --report needs a format and a path, as in `--report html report.html`.');
+                }
+                options.report = { format: value as ReportFormat, path };
+                break;
+            }
+            case '--output':
+                if (!getFormatter(value as string)) {
+                    throw new CliError(`Unknown output format: ${value}. Valid formats: ${getFormatters().map(formatter => formatter.name).join(', ')}.`);
+                }
+                options.output = getFormatter(value as string)!.name;
+                break;
+        }
+    }
+
+    if (seen.has('--latency') && seen.has('--no-latency')) {
+        throw new CliError('--latency and --no-latency cannot be used together.');
+    }
+    if (seen.has('--progress') && seen.has('--no-progress')) {
+        throw new CliError('--progress and --no-progress cannot be used together.');
+    }
+    if (seen.has('--record') && seen.has('--replay')) {
+        throw new CliError('--record and --replay cannot be used together.');
+    }
+    if (seen.has('--clear-cache') && seen.has('--cache-stats')) {
+        throw new CliError('--clear-cache and --cache-stats cannot be used together.');
+    }
+
+    // The first positional names the command; a lone URL file is scored, as before commands existed
+    const explicitCommand = positionals.length > 0 && COMMANDS.includes(positionals[0] as Command);
+    if (explicitCommand) {
+        options.command = positionals.shift() as Command;
+    }
+
+    // --clear-cache and --cache-stats are kept from before the `cache` command existed
+    if (options.cacheAction) {
+        if (explicitCommand || positionals.length > 0 || options.repos.length > 0) {
+            throw new CliError(`Option ${seen.has('--clear-cache') ? '--clear-cache' : '--cache-stats'} cannot be combined with a command or URL; use \`cache ${options.cacheAction}\`.`);
+        }
+        options.command = 'cache';
+    }
+
+    if (seen.has('--help')) {
+        options.helpTopic = explicitCommand && options.command !== 'help' ? options.command : null;
+        options.command = 'help';
+        return options;
+    }
+
+    switch (options.command) {
+        case 'help':
+            if (positionals.length > 1 || (positionals.length === 1 && !COMMANDS.includes(positionals[0] as Command))) {
+                throw new CliError(`Unknown command: ${positionals.join(' ')}. Commands: ${COMMANDS.join(', ')}.`);
+            }
+            options.helpTopic = (positionals[0] as Command) ?? null;
+            break;
+        case 'score':
+            if (positionals.length > 1) {
+                throw new CliError(`score takes one URL file, got ${positionals.length} arguments: ${positionals.join(' ')}.`);
+            }
+            if (positionals.length === 1 && options.repos.length > 0) {
+                throw new CliError('Give either a URL file or --repo, not both.');
+            }
+            if (positionals.length === 0 && options.repos.length === 0) {
+                throw new CliError(argv.length === 0 ? 'Missing command. Run with --help for usage.' : 'score needs a URL file or --repo <url>.');
+            }
+            options.file = positionals[0] ?? null;
+            break;
+        case 'explain':
+            options.repos.push(...positionals);
+            if (options.repos.length !== 1) {
+                throw new CliError(`explain takes exactly one URL, got ${options.repos.length}.`);
+            }
+            break;
+        case 'cache':
+            if (!options.cacheAction) {
+                if (positionals.length !== 1 || !['stats', 'clear'].includes(positionals[0])) {
+                    throw new CliError('cache needs an action: stats or clear.');
+                }
+                options.cacheAction = positionals[0] as 'stats' | 'clear';
+            }
+            break;
+        case 'doctor':
+            if (positionals.length > 0) {
+                throw new CliError(`doctor takes no arguments, got: ${positionals.join(' ')}.`);
+            }
+            break;
+    }
+
+    // Options that only make sense for scoring
+    const scoringOptions: Record<string, Command[]> = { '--repo': ['score', 'explain'], '--metrics': ['score', 'explain'], '--output': ['score'], '--latency': ['score'], '--no-latency': ['score'], '--report': ['score'], '--explain': ['score'], '--concurrency': ['score'], '--out': ['score'], '--order': ['score'], '--resume': ['score'], '--policy': ['score'], '--progress': ['score'], '--no-progress': ['score'], '--threads': ['score', 'explain'], '--config': ['score', 'explain', 'doctor'] };
+    for (const [option, commands] of Object.entries(scoringOptions)) {
+        if (seen.has(option) && !commands.includes(options.command)) {
+            const list = commands.length > 1 ? `${commands.slice(0, -1).join(', ')} and ${commands[commands.length - 1]}` : commands[0];
+            throw new CliError(`Option ${option} is only valid for ${list}.`);
+        }
+    }
+
+    if (options.resume && options.out === null) {
+        throw new CliError('Option --resume needs --out <path>, the file to resume.');
+    }
+    if (options.resume && options.output !== 'json') {
+        throw new CliError(`Option --resume only works with --output json, not ${options.output}.`);
+    }
+    if (options.explain && options.output !== 'json') {
+        throw new CliError(`Option --explain only works with --output json, not ${options.output}.`);
+    }
+
+    return options;
+}
@@ -0,0 +1,564 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { createHash } from 'crypto';
+import { logMessage } from './logFile';
+import { MetricName } from './metrics/getMetrics';
+import { getRegisteredMetrics, loadMetricModule, MetricError } from './metrics/registry';
+import { formatSpdxExpression, parseSpdxExpression, SpdxError } from './spdx';
+
+/**
+ * How the NetScore treats metrics that failed: `renormalize` divides by the weights of the metrics
+ * that succeeded, `zero` counts a failed metric as a score of 0.
+ */
+export type MissingMetricPolicy = 'renormalize' | 'zero';
+
+// Every missing-metric policy, as written in the config file
+export const MISSING_METRIC_POLICIES: MissingMetricPolicy[] = ['renormalize', 'zero'];
+
+/**
+ * Signals the Correctness score combines: a test suite and test script, CI results on recent commits,
+ * the share and closure of bug reports, the CI result of the latest release, and the issue and pull request resolution rates.
+ */
+export type CorrectnessSignal = 'tests' | 'ci' | 'bugs' | 'releaseBuild' | 'resolution';
+
+// Every Correctness signal, as written in the `correctness.weights` section
+export const CORRECTNESS_SIGNALS: CorrectnessSignal[] = ['tests', 'ci', 'bugs', 'releaseBuild', 'resolution'];
+
+/**
+ * Interface representing the scoring configuration: the NetScore weights and the tunables of each metric.
+ *
+ * @interface ScoreConfig
+ */
+export interface ScoreConfig {
+    plugins: string[];                      // Absolute paths of the metric modules loaded by the config file
+    weights: Record<MetricName, number>;    // NetScore weight of each metric, normalized to sum to 1
+    netScore: {
+        missingMetrics: MissingMetricPolicy;  // How failed metrics count toward the NetScore
+    };
+    busFactor: {
+        commitShare: number;                // Share of the commits (or files) the key contributors must cover
+        windowMonths: number;               // Months of commit history counted
+        target: number;                     // Bus factor at which the score reaches 1
+        bots: string[];                     // Patterns of bot logins, names and emails, where `*` matches anything
+        fileOwnership: boolean;             // Count the files each author owns instead of their commits
+    };
+    correctness: {
+        weights: Record<CorrectnessSignal, number>; // Weight of each signal; signals without data are left out
+        windowMonths: number;               // Months of issues counted for the bug signal
+        bugLabels: string[];                // Patterns of labels that mark bug reports, where `*` matches anything
+    };
+    rampUp: {
+        maxSizeKb: number;                  // Size at which the score reaches 0
+    };
+    responsiveMaintainer: {
+        windowMonths: number;               // Months of issues and pull requests counted
+        responseHalfLifeDays: number;       // Time to first response at which the response score halves
+        closeHalfLifeDays: number;          // Time to close at which the close score halves
+        commitHalfLifeDays: number;         // Time since the last commit at which the commit score halves
+        releaseHalfLifeDays: number;        // Time since the last release at which the release score halves
+        bots: string[];                     // Patterns of bot logins, whose comments and issues are left out
+    };
+    license: {
+        compatibility: Record<string, number>;  // Score of each SPDX license id, or `id WITH exception`
+        unknown: number;                        // Score of licenses missing from `compatibility`
+        minConfidence: number;                  // Lowest similarity at which a license text counts as a known license
+    };
+}
+
+/**
+ * Error thrown for a config file that cannot be read or does not match the schema.
+ * The message names the file and, where possible, the offending key.
+ */
+export class ConfigError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'ConfigError';
+    }
+}
+
+// Name of the config file, looked up from the working directory upward
+export const CONFIG_FILE_NAME = '.pkgscorerc';
+
+// Valid range of each metric tunable, as [minimum, maximum] (both inclusive)
+const TUNABLE_RANGES: Record<'busFactor' | 'correctness' | 'rampUp' | 'responsiveMaintainer', Record<string, [number, number]>> = {
+    busFactor: { commitShare: [0.01, 1], windowMonths: [1, 120], target: [1, Infinity] },
+    correctness: { windowMonths: [1, 120] },
+    rampUp: { maxSizeKb: [1, Infinity] },
+    responsiveMaintainer: {
+        windowMonths: [1, 120], responseHalfLifeDays: [0.01, Infinity], closeHalfLifeDays: [0.01, Infinity],
+        commitHalfLifeDays: [0.01, Infinity], releaseHalfLifeDays: [0.01, Infinity]
+    }
+};
+
+// Settings of each metric section that are not numbers, and are checked separately
+const TUNABLE_OPTIONS: Partial<Record<keyof typeof TUNABLE_RANGES, string[]>> = {
+    busFactor: ['bots', 'fileOwnership'],
+    correctness: ['weights', 'bugLabels'],
+    responsiveMaintainer: ['bots']
+};
+
+// Commit authors that are automation rather than people
+const DEFAULT_BOTS = ['*[bot]', 'dependabot*', 'renovate*', 'greenkeeper*', 'github-actions*', 'snyk-bot', 'semantic-release-bot'];
+
+// Labels that mark bug reports on GitHub and GitLab
+const DEFAULT_BUG_LABELS = ['bug', 'type: bug', 'type/bug', 'kind/bug', 'kind: bug'];
+
+// Default license scores: compatibility with a product distributed under LGPL-2.1. Permissive licenses
+// and LGPL-2.1 itself can be combined with it; Apache-2.0 and MPL-2.0 add conditions that need review;
+// GPL, AGPL and LGPL-3.0 code cannot be shipped under LGPL-2.1
+const DEFAULT_LICENSE_COMPATIBILITY: Record<string, number> = {
+    'MIT': 1, 'MIT-0': 1, 'ISC': 1, 'BSD-2-Clause': 1, 'BSD-3-Clause': 1, '0BSD': 1, 'Unlicense': 1, 'CC0-1.0': 1,
+    'Zlib': 1, 'BSL-1.0': 1, 'X11': 1, 'Python-2.0': 1, 'LGPL-2.1-only': 1, 'LGPL-2.1-or-later': 1,
+    'Apache-2.0': 0.5, 'MPL-2.0': 0.5,
+    'LGPL-3.0-only': 0, 'LGPL-3.0-or-later': 0, 'GPL-2.0-only': 0, 'GPL-2.0-or-later': 0, 'GPL-3.0-only': 0,
+    'GPL-3.0-or-later': 0, 'AGPL-3.0-only': 0, 'AGPL-3.0-or-later': 0
+};
+
+let config: ScoreConfig | null = null;
+let configSource: string | null = null;
+
+/**
+ * Gets the configuration used without a config file: the default weight of every registered
+ * metric, normalized to sum to 1, and the default metric tunables.
+ *
+ * @returns {ScoreConfig} A new copy of the default configuration.
+ */
+export function getDefaultConfig(): ScoreConfig {
+    const metrics = getRegisteredMetrics();
+    const total = metrics.reduce((sum, metric) => sum + metric.defaultWeight, 0);
+    return {
+        plugins: [],
+        weights: Object.fromEntries(metrics.map(metric => [metric.name, total > 0 ? metric.defaultWeight / total : 0])),
+        netScore: { missingMetrics: 'renormalize' },
+        busFactor: { commitShare: 0.5, windowMonths: 12, target: 5, bots: [...DEFAULT_BOTS], fileOwnership: false },
+        correctness: {
+            weights: { tests: 0.25, ci: 0.25, bugs: 0.2, releaseBuild: 0.15, resolution: 0.15 },
+            windowMonths: 6,
+            bugLabels: [...DEFAULT_BUG_LABELS]
+        },
+        rampUp: { maxSizeKb: 50000 },
+        responsiveMaintainer: {
+            windowMonths: 6, responseHalfLifeDays: 7, closeHalfLifeDays: 30, commitHalfLifeDays: 90, releaseHalfLifeDays: 180,
+            bots: [...DEFAULT_BOTS]
+        },
+        license: { compatibility: { ...DEFAULT_LICENSE_COMPATIBILITY }, unknown: 0, minConfidence: 0.8 }
+    };
+}
+
+/**
+ * Gets the key of a metric in the `weights` section and the policy file: its name in camelCase (`BusFactor` becomes `busFactor`).
+ *
+ * @param {MetricName} name - The metric name.
+ * @returns {string} The key.
+ */
+export function getMetricKey(name: MetricName): string {
+    return name.charAt(0).toLowerCase() + name.slice(1);
+}
+
+/**
+ * Finds the config file, looking in a directory and then in each of its parents.
+ *
+ * @param {string} [startDir=process.cwd()] - The directory to start from.
+ * @returns {string | null} The path of the config file, or null if there is none.
+ */
+export function findConfigFile(startDir: string = process.cwd()): string | null {
+    let dir = path.resolve(startDir);
+    while (true) {
+        const candidate = path.join(dir, CONFIG_FILE_NAME);
+        if (fs.existsSync(candidate) && fs.statSync(candidate).isFile()) {
+            return candidate;
+        }
+        const parent = path.dirname(dir);
+        if (parent === dir) {
+            return null;
+        }
+        dir = parent;
+    }
+}
+
+/**
+ * Parses a YAML scalar: a number, boolean, null or (optionally quoted) string. A trailing `# comment` is ignored.
+ *
+ * @param {string} text - The scalar text.
+ * @returns {string | number | boolean | null} The value.
+ */
+function parseYamlScalar(text: string): string | number | boolean | null {
+    const quoted = /^(["'])(.*?)\1(\s+#.*)?$/.exec(text);
+    if (quoted) {
+        return quoted[2];
+    }
+    const value = text.replace(/\s+#.*$/, '');
+    if (/^[-+]?(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?$/.test(value)) {
+        return Number(value);
+    }
+    if (/^(true|false)$/i.test(value)) {
+        return value.toLowerCase() === 'true';
+    }
+    if (/^(null|~)$/i.test(value)) {
+        return null;
+    }
+    return value;
+}
+
+/**
+ * Parses the YAML the config file needs: nested mappings of scalars and lists of scalars
+ * (`- item` lines), with `#` comments. Keys other than letters, digits and `_`, `-`, `.` or `+` are quoted.
+ * Anchors and multi-line strings are not supported.
+ *
+ * @param {string} text - The YAML text.
+ * @param {string} source - The file name, for error messages.
+ * @returns {Record<string, unknown>} The parsed mapping.
+ * @throws {ConfigError} If a line is not a `key: value` pair or a list item under a key.
+ */
+function parseYaml(text: string, source: string): Record<string, unknown> {
+    const root: Record<string, unknown> = {};
+    const parents: { indent: number, node: Record<string, unknown> | unknown[], owner?: Record<string, unknown>, key?: string }[] = [{ indent: -1, node: root }];
+
+    text.split(/\r?\n/).forEach((line, index) => {
+        const content = line.trimEnd();
+        if (content.trim() === '' || content.trim().startsWith('#')) {
+            return;
+        }
+        if (/^\s*\t/.test(content)) {
+            throw new ConfigError(`${source}, line ${index + 1}: indent with spaces, not tabs.`);
+        }
+        const item = /^(\s*)-\s+(.*)$/.exec(content);
+        const match = /^(\s*)([\w.+-]+|"[^"]*"|'[^']*')\s*:(?:\s+(.*))?$/.exec(content);
+        if (!item && !match) {
+            throw new ConfigError(`${source}, line ${index + 1}: expected \`key: value\`.`);
+        }
+
+        // A line belongs to the closest less-indented mapping above it; list items may
+        // also sit at the indent of their key
+        const indent = (item ?? match as RegExpExecArray)[1].length;
+        while (item ? indent < parents[parents.length - 1].indent : indent <= parents[parents.length - 1].indent) {
+            parents.pop();
+        }
+        const top = parents[parents.length - 1];
+
+        // The first item under a key turns its empty mapping into a list
+        if (item) {
+            if (!Array.isArray(top.node) && (!top.owner || Object.keys(top.node).length > 0)) {
+                throw new ConfigError(`${source}, line ${index + 1}: expected \`key: value\`.`);
+            }
+            if (!Array.isArray(top.node)) {
+                top.node = (top.owner as Record<string, unknown>)[top.key as string] = [];
+            }
+            (top.node as unknown[]).push(parseYamlScalar(item[2].trim()));
+            return;
+        }
+        if (Array.isArray(top.node) || !match) {
+            throw new ConfigError(`${source}, line ${index + 1}: expected \`- item\`.`);
+        }
+        const parent = top.node;
+        const key = /^["']/.test(match[2]) ? match[2].slice(1, -1) : match[2]; // Keys with other characters are quoted
+        if (match[3] === undefined || match[3].startsWith('#')) {
+            const child: Record<string, unknown> = {};
+            parent[key] = child;
+            parents.push({ indent, node: child, owner: parent, key });
+        } else {
+            parent[key] = parseYamlScalar(match[3].trim());
+        }
+    });
+    return root;
+}
+
+/**
+ * Parses config file text, as JSON if it starts with `{` and as YAML otherwise.
+ *
+ * @param {string} text - The file contents.
+ * @param {string} source - The file name, for error messages.
+ * @returns {unknown} The parsed value.
+ * @throws {ConfigError} If the text is not valid JSON or YAML.
+ */
+export function parseConfigText(text: string, source: string): unknown {
+    if (!text.trimStart().startsWith('{')) {
+        return parseYaml(text, source);
+    }
+    try {
+        return JSON.parse(text);
+    } catch (error) {
+        throw new ConfigError(`${source}: invalid JSON: ${error instanceof Error ? error.message : error}`);
+    }
+}
+
+/**
+ * Checks that a value is a mapping whose keys are all known.
+ *
+ * @param {unknown} value - The value.
+ * @param {string[]} keys - The known keys.
+ * @param {string} source - The file name, for error messages.
+ * @param {string | null} section - The key of the value in the file, or null for the whole file.
+ * @returns {Record<string, unknown>} The mapping.
+ * @throws {ConfigError} If the value is not a mapping or has an unknown key.
+ */
+export function checkMapping(value: unknown, keys: string[], source: string, section: string | null): Record<string, unknown> {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        throw new ConfigError(section ? `${source}: ${section} must be a mapping.` : `${source} must contain a mapping.`);
+    }
+    const unknown = Object.keys(value).filter(key => !keys.includes(key)).map(key => section ? `${section}.${key}` : key);
+    if (unknown.length > 0) {
+        throw new ConfigError(`${source}: unknown key${unknown.length > 1 ? 's' : ''} ${unknown.join(', ')}. Valid keys: ${keys.join(', ')}.`);
+    }
+    return value as Record<string, unknown>;
+}
+
+/**
+ * Loads the metric modules listed in the `plugins` section, so their metrics are registered before the weights are checked.
+ *
+ * @param {unknown} value - The `plugins` section.
+ * @param {string} source - The file name; module paths are relative to its directory.
+ * @returns {string[]} The absolute paths of the modules.
+ * @throws {ConfigError} If the section is not a list of paths or a module cannot be loaded.
+ */
+function loadPlugins(value: unknown, source: string): string[] {
+    if (!Array.isArray(value) || value.some(item => typeof item !== 'string')) {
+        throw new ConfigError(`${source}: plugins must be a list of module paths.`);
+    }
+    return value.map(item => {
+        const file = path.resolve(path.dirname(source), item);
+        try {
+            loadMetricModule(file);
+        } catch (error) {
+            if (error instanceof MetricError) {
+                throw new ConfigError(`${source}: ${error.message}`);
+            }
+            throw error;
+        }
+        return file;
+    });
+}
+
+/**
+ * Validates a parsed config file, loads the metric modules it lists and merges it over the defaults.
+ * Weights that are not given keep their default value; the weights are then normalized to sum to 1.
+ *
+ * @param {unknown} raw - The parsed config file.
+ * @param {string} [source='config'] - The file name, for error messages.
+ * @returns {ScoreConfig} The effective configuration.
+ * @throws {ConfigError} If the config does not match the schema, a module cannot be loaded or the weights cannot be normalized.
+ */
+export function validateConfig(raw: unknown, source: string = 'config'): ScoreConfig {
+    const file = checkMapping(raw ?? {}, ['plugins', 'weights', 'netScore', ...Object.keys(TUNABLE_RANGES), 'license'], source, null);
+    const plugins = file.plugins === undefined ? [] : loadPlugins(file.plugins, source);
+    const result: ScoreConfig = { ...getDefaultConfig(), plugins };
+
+    if (file.weights !== undefined) {
+        const names = Object.fromEntries(Object.keys(result.weights).map(name => [getMetricKey(name), name]));
+        const weights = checkMapping(file.weights, Object.keys(names), source, 'weights');
+        for (const [key, value] of Object.entries(weights)) {
+            if (typeof value !== 'number' || !Number.isFinite(value) || value < 0) {
+                throw new ConfigError(`${source}: weights.${key} must be a number of at least 0, got ${JSON.stringify(value)}.`);
+            }
+            result.weights[names[key]] = value;
+        }
+    }
+    const total = Object.values(result.weights).reduce((sum, weight) => sum + weight, 0);
+    if (total <= 0) {
+        throw new ConfigError(`${source}: the weights add up to 0; give at least one metric a positive weight.`);
+    }
+    for (const name of Object.keys(result.weights)) {
+        result.weights[name] = result.weights[name] / total;
+    }
+
+    if (file.netScore !== undefined) {
+        const { missingMetrics } = checkMapping(file.netScore, ['missingMetrics'], source, 'netScore');
+        if (missingMetrics !== undefined) {
+            if (!MISSING_METRIC_POLICIES.includes(missingMetrics as MissingMetricPolicy)) {
+                throw new ConfigError(`${source}: netScore.missingMetrics must be one of ${MISSING_METRIC_POLICIES.join(', ')}, got ${JSON.stringify(missingMetrics)}.`);
+            }
+            result.netScore.missingMetrics = missingMetrics as MissingMetricPolicy;
+        }
+    }
+
+    for (const [section, ranges] of Object.entries(TUNABLE_RANGES) as [keyof typeof TUNABLE_RANGES, Record<string, [number, number]>][]) {
+        if (file[section] === undefined) {
+            continue;
+        }
+        const values = checkMapping(file[section], [...Object.keys(ranges), ...(TUNABLE_OPTIONS[section] ?? [])], source, section);
+        for (const [key, value] of Object.entries(values)) {
+            if (!(key in ranges)) {
+                continue;
+            }
+            const [min, max] = ranges[key];
+            if (typeof value !== 'number' || !Number.isFinite(value) || value < min || value > max) {
+                throw new ConfigError(`${source}: ${section}.${key} must be a number ${max === Infinity ? `of at least ${min}` : `from ${min} to ${max}`}, got ${JSON.stringify(value)}.`);
+            }
+            (result[section] as Record<string, number>)[key] = value;
+        }
+    }
+
+    for (const section of ['busFactor', 'responsiveMaintainer'] as const) {
+        const bots = (file[section] as Record<string, unknown> | undefined)?.bots;
+        if (bots !== undefined) {
+            if (!Array.isArray(bots) || bots.some(item => typeof item !== 'string' || item === '')) {
+                throw new ConfigError(`${source}: ${section}.bots must be a list of author patterns.`);
+            }
+            result[section].bots = bots;
+        }
+    }
+    if (file.busFactor !== undefined) {
+        const { fileOwnership } = file.busFactor as Record<string, unknown>;
+        if (fileOwnership !== undefined) {
+            if (typeof fileOwnership !== 'boolean') {
+                throw new ConfigError(`${source}: busFactor.fileOwnership must be true or false, got ${JSON.stringify(fileOwnership)}.`);
+            }
+            result.busFactor.fileOwnership = fileOwnership;
+        }
+    }
+
+    if (file.correctness !== undefined) {
+        const { weights, bugLabels } = file.correctness as Record<string, unknown>;
+        if (weights !== undefined) {
+            const values = checkMapping(weights, CORRECTNESS_SIGNALS, source, 'correctness.weights');
+            for (const [key, value] of Object.entries(values)) {
+                if (typeof value !== 'number' || !Number.isFinite(value) || value < 0) {
+                    throw new ConfigError(`${source}: correctness.weights.${key} must be a number of at least 0, got ${JSON.stringify(value)}.`);
+                }
+                result.correctness.weights[key as CorrectnessSignal] = value;
+            }
+            if (Object.values(result.correctness.weights).every(weight => weight === 0)) {
+                throw new ConfigError(`${source}: the correctness weights add up to 0; give at least one signal a positive weight.`);
+            }
+        }
+        if (bugLabels !== undefined) {
+            if (!Array.isArray(bugLabels) || bugLabels.some(item => typeof item !== 'string' || item === '')) {
+                throw new ConfigError(`${source}: correctness.bugLabels must be a list of label patterns.`);
+            }
+            result.correctness.bugLabels = bugLabels;
+        }
+    }
+
+    if (file.license !== undefined) {
+        const { compatibility, unknown, minConfidence } = checkMapping(file.license, ['compatibility', 'unknown', 'minConfidence'], source, 'license');
+        if (compatibility !== undefined) {
+            Object.assign(result.license.compatibility, readLicenseScores(compatibility, source));
+        }
+        if (unknown !== undefined) {
+            result.license.unknown = checkScore(unknown, source, 'license.unknown');
+        }
+        if (minConfidence !== undefined) {
+            result.license.minConfidence = checkScore(minConfidence, source, 'license.minConfidence');
+        }
+    }
+    return result;
+}
+
+/**
+ * Checks that a value is a score from 0 to 1.
+ *
+ * @param {unknown} value - The value.
+ * @param {string} source - The file name, for error messages.
+ * @param {string} key - The key of the value in the file.
+ * @returns {number} The score.
+ * @throws {ConfigError} If the value is not a number from 0 to 1.
+ */
+function checkScore(value: unknown, source: string, key: string): number {
+    if (typeof value !== 'number' || !Number.isFinite(value) || value < 0 || value > 1) {
+        throw new ConfigError(`${source}: ${key} must be a number from 0 to 1, got ${JSON.stringify(value)}.`);
+    }
+    return value;
+}
+
+/**
+ * Reads the `license.compatibility` section. Keys are SPDX license ids, optionally with an exception
+ * (`GPL-2.0-or-later WITH Classpath-exception-2.0`), and are normalized so `GPL-2.0+` and
+ * `GPL-2.0-or-later` are the same license.
+ *
+ * @param {unknown} value - The section.
+ * @param {string} source - The file name, for error messages.
+ * @returns {Record<string, number>} The score of each license.
+ * @throws {ConfigError} If a key is not a single license or a score is not from 0 to 1.
+ */
+function readLicenseScores(value: unknown, source: string): Record<string, number> {
+    const scores: Record<string, number> = {};
+    const entries = checkMapping(value, Object.keys(value ?? {}), source, 'license.compatibility');
+    for (const [key, score] of Object.entries(entries)) {
+        let license: string;
+        try {
+            const expression = parseSpdxExpression(key);
+            if (expression.type !== 'license') {
+                throw new SpdxError('it combines several licenses');
+            }
+            license = formatSpdxExpression(expression);
+        } catch (error) {
+            if (error instanceof SpdxError) {
+                throw new ConfigError(`${source}: license.compatibility.${key} must be keyed by one SPDX license id, optionally with WITH and an exception.`);
+            }
+            throw error;
+        }
+        scores[license] = checkScore(score, source, `license.compatibility.${key}`);
+    }
+    return scores;
+}
+
+/**
+ * Loads the config file and makes it the configuration of the run.
+ *
+ * @param {string | null} [file=null] - The config file given on the command line; looked up from the working directory if null.
+ * @returns {ScoreConfig} The effective configuration; the defaults if there is no config file.
+ * @throws {ConfigError} If the file cannot be read or is invalid.
+ */
+export function loadConfig(file: string | null = null): ScoreConfig {
+    const source = file ?? findConfigFile();
+    if (!source) {
+        logMessage('loadConfig', ['No config file found.', 'Using the default configuration.']);
+        setConfig(getDefaultConfig(), null);
+        return getConfig();
+    }
+
+    let text: string;
+    try {
+        text = fs.readFileSync(source, 'utf8');
+    } catch (error) {
+        throw new ConfigError(`Cannot read the config file ${source}: ${error instanceof Error ? error.message : error}`);
+    }
+    setConfig(validateConfig(parseConfigText(text, source), source), source);
+    logMessage('loadConfig', ['Config file loaded.', `Path: ${source}, Hash: ${getConfigHash()}`]);
+    return getConfig();
+}
+
+/**
+ * Sets the configuration of the run.
+ *
+ * @param {ScoreConfig} value - The configuration.
+ * @param {string | null} [source=null] - The file it was read from, or null for the defaults.
+ */
+export function setConfig(value: ScoreConfig, source: string | null = null) {
+    config = value;
+    configSource = source;
+}
+
+/**
+ * Gets the configuration of the run.
+ *
+ * @returns {ScoreConfig} The configuration; the defaults until a config file is loaded.
+ */
+export function getConfig(): ScoreConfig {
+    if (!config) {
+        config = getDefaultConfig();
+    }
+    return config;
+}
+
+/**
+ * Gets the config file the configuration was read from.
+ *
+ * @returns {string | null} The path, or null if the defaults are used.
+ */
+export function getConfigSource(): string | null {
+    return configSource;
+}
+
+/**
+ * Gets a short hash of the effective configuration, so results can be traced to the settings that produced them.
+ * Plugin modules are hashed by their path relative to the config file, so the same config hashes alike on every machine.
+ *
+ * @returns {string} The first 12 hex digits of the SHA-256 of the configuration.
+ */
+export function getConfigHash(): string {
+    const current = getConfig();
+    const base = configSource ? path.dirname(configSource) : process.cwd();
+    const plugins = current.plugins.map(file => path.relative(base, file).split(path.sep).join('/'));
+    return createHash('sha256').update(JSON.stringify({ ...current, plugins })).digest('hex').slice(0, 12);
+}
@@ -0,0 +1,102 @@
+import * as fs from 'fs';
+import { getCacheStats, isCacheEnabled } from './cache';
+import { checkGitHubToken, checkLogFile } from './checkEnv';
+import { getConfig, getConfigHash, getConfigSource, loadConfig } from './config';
+import { getAuthorizationHeader, getGitHubApiHosts } from './hosts';
+import { getWithRetry } from './httpClient';
+import { logMessage } from './logFile';
+import { getMetricNames } from './metrics/registry';
+import { getFixtureDir, getHttpMode } from './recorder';
+
+/**
+ * Interface representing the result of one `doctor` check.
+ *
+ * @interface DoctorCheck
+ */
+export interface DoctorCheck {
+    name: string;       // What was checked
+    ok: boolean;        // True if the check passed
+    required: boolean;  // True if scoring cannot work when the check fails
+    detail: string;     // What was found, or how to fix it
+}
+
+/**
+ * Checks that the GitHub API is reachable with the configured token and reports the remaining rate limit.
+ *
+ * @async
+ * @returns {Promise<DoctorCheck>} The check result.
+ */
+async function checkGitHubApi(): Promise<DoctorCheck> {
+    const url = `${getGitHubApiHosts().get('github.com')}/rate_limit`;
+    try {
+        const authorization = getAuthorizationHeader(url);
+        const response = await getWithRetry(url, authorization ? { 'Authorization': authorization } : {}, { maxRetries: 0 });
+        const core = response.data?.resources?.core;
+        return {
+            name: 'GitHub API',
+            ok: true,
+            required: true,
+            detail: core ? `Reachable, ${core.remaining} of ${core.limit} requests left` : 'Reachable'
+        };
+    } catch (error) {
+        return { name: 'GitHub API', ok: false, required: true, detail: `Request failed: ${error instanceof Error ? error.message : error}` };
+    }
+}
+
+/**
+ * Runs every environment check of the `doctor` command.
+ *
+ * @async
+ * @param {string | null} [configFile=null] - The config file given with --config; looked up from the working directory if null.
+ * @returns {Promise<DoctorCheck[]>} The check results, in display order.
+ */
+export async function runDoctorChecks(configFile: string | null = null): Promise<DoctorCheck[]> {
+    logMessage('runDoctorChecks', ['Checking the environment.', `HTTP mode: ${getHttpMode()}`]);
+
+    const checks: DoctorCheck[] = [];
+    const major = parseInt(process.versions.node.split('.')[0], 10);
+    checks.push({ name: 'Node.js', ok: major >= 18, required: true, detail: `Version ${process.versions.node}${major >= 18 ? '' : ', 18 or newer is needed'}` });
+
+    const hasToken = checkGitHubToken();
+    checks.push({ name: 'GITHUB_TOKEN', ok: hasToken, required: true, detail: hasToken ? 'Set' : 'Not set; export a GitHub personal access token' });
+
+    const hasLogFile = checkLogFile();
+    checks.push({ name: 'LOG_FILE', ok: hasLogFile, required: true, detail: hasLogFile ? process.env.LOG_FILE as string : 'Not set; export the path of the log file' });
+
+    try {
+        loadConfig(configFile);
+        const source = getConfigSource();
+        checks.push({ name: 'Config file', ok: true, required: false, detail: source ? `${source} (hash ${getConfigHash()})` : 'None; using the default weights and thresholds' });
+        if (getConfig().plugins.length > 0) {
+            checks.push({ name: 'Metric plugins', ok: true, required: false, detail: `Metrics: ${getMetricNames().join(', ')}` });
+        }
+    } catch (error) {
+        checks.push({ name: 'Config file', ok: false, required: true, detail: error instanceof Error ? error.message : String(error) });
+    }
+
+    const enterpriseHosts = Array.from(getGitHubApiHosts().keys()).filter(host => host !== 'github.com');
+    if (enterpriseHosts.length > 0) {
+        checks.push({ name: 'GitHub Enterprise hosts', ok: true, required: false, detail: enterpriseHosts.join(', ') });
+    }
+
+    if (!isCacheEnabled()) {
+        checks.push({ name: 'Response cache', ok: true, required: false, detail: 'Disabled' });
+    } else {
+        try {
+            const stats = await getCacheStats();
+            checks.push({ name: 'Response cache', ok: true, required: false, detail: `${stats.path} (${stats.entries} entries)` });
+        } catch (error) {
+            checks.push({ name: 'Response cache', ok: false, required: false, detail: `Cannot open the cache: ${error instanceof Error ? error.message : error}` });
+        }
+    }
+
+    if (getHttpMode() === 'replay') {
+        const exists = fs.existsSync(getFixtureDir());
+        checks.push({ name: 'Fixtures', ok: exists, required: true, detail: exists ? getFixtureDir() : `${getFixtureDir()} does not exist` });
+    } else if (hasToken) {
+        checks.push(await checkGitHubApi());
+    }
+
+    logMessage('runDoctorChecks', ['Environment checked.', `Failed checks: ${checks.filter(check => !check.ok).map(check => check.name).join(', ') || 'none'}`]);
+    return checks;
+}
@@ -0,0 +1,31 @@
+import { DataObject, getDataField } from '../json';
+import { Formatter, FormatOptions, getFields } from './formatter';
+
+/**
+ * Formats a CSV cell (RFC 4180). Null values become empty cells.
+ *
+ * @param {string | number | null} value - The value to format.
+ * @returns {string} The cell, quoted if it contains a comma, quote or line break.
+ */
+function toCell(value: string | number | null): string {
+    if (value === null) {
+        return '';
+    }
+    const text = String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Comma-separated values with a header row, for spreadsheets.
+ */
+export const csvFormatter: Formatter = {
+    name: 'csv',
+    description: 'Comma-separated values with a header row',
+    latencyByDefault: true,
+    streaming: false,
+
+    format(results: DataObject[], options: FormatOptions): string {
+        const fields = getFields(csvFormatter, options);
+        return [fields.join(','), ...results.map(data => fields.map(field => toCell(getDataField(data, field))).join(','))].join('\n');
+    }
+};
@@ -0,0 +1,46 @@
+import { DataObject } from '../json';
+import { getMetricNames } from '../metrics/registry';
+
+/**
+ * Interface representing options shared by every formatter.
+ *
+ * @interface FormatOptions
+ */
+export interface FormatOptions {
+    latency?: boolean;      // Include the `_Latency` fields; the formatter's default if unset
+}
+
+/**
+ * Interface implemented by each output format.
+ *
+ * @interface Formatter
+ */
+export interface Formatter {
+    name: string;                                                   // Name selected with --output
+    description: string;                                            // One-line description for the help
+    latencyByDefault: boolean;                                      // Whether latencies are shown unless --no-latency is given
+    streaming: boolean;                                             // Whether results can be written one at a time as they complete
+    format(results: DataObject[], options: FormatOptions): string;  // Formats the results, without a trailing newline
+}
+
+/**
+ * Gets the score and latency fields of a DataObject, which every format prints. Metrics follow
+ * the NetScore in registration order, so plugin metrics come after the built-in ones.
+ *
+ * @returns {string[]} The fields, in output order.
+ */
+export function getDataFields(): string[] {
+    return ['URL', 'NetScore', 'NetScore_Latency', ...getMetricNames().flatMap(name => [name, `${name}_Latency`])];
+}
+
+/**
+ * Gets the fields a formatter prints, in the stable DataObject order.
+ *
+ * @param {Formatter} formatter - The formatter.
+ * @param {FormatOptions} options - The format options.
+ * @returns {string[]} The fields to print.
+ */
+export function getFields(formatter: Formatter, options: FormatOptions): string[] {
+    const latency = options.latency ?? formatter.latencyByDefault;
+    return latency ? getDataFields() : getDataFields().filter(field => !field.endsWith('_Latency'));
+}
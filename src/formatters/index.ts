@@ -0,0 +1,42 @@
+import { csvFormatter } from './csv';
+import { Formatter } from './formatter';
+import { jsonFormatter } from './json';
+import { markdownFormatter } from './markdown';
+import { textFormatter } from './text';
+import { yamlFormatter } from './yaml';
+
+// Registered formatters by name, in the order they are listed in the help
+const formatters = new Map<string, Formatter>();
+
+// Other names accepted by --output
+const ALIASES: Record<string, string> = { ndjson: 'json', md: 'markdown', yml: 'yaml' };
+
+/**
+ * Registers an output format, replacing any format with the same name.
+ *
+ * @param {Formatter} formatter - The formatter.
+ */
+export function registerFormatter(formatter: Formatter) {
+    formatters.set(formatter.name, formatter);
+}
+
+/**
+ * Gets the formatter of an output format.
+ *
+ * @param {string} name - The format name or one of its aliases.
+ * @returns {Formatter | undefined} The formatter, or undefined if the format is unknown.
+ */
+export function getFormatter(name: string): Formatter | undefined {
+    return formatters.get(ALIASES[name] ?? name);
+}
+
+/**
+ * Lists the registered output formats.
+ *
+ * @returns {Formatter[]} The formatters, in registration order.
+ */
+export function getFormatters(): Formatter[] {
+    return Array.from(formatters.values());
+}
+
+[jsonFormatter, yamlFormatter, csvFormatter, markdownFormatter, textFormatter].forEach(registerFormatter);
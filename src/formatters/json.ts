@@ -0,0 +1,24 @@
+import { DataObject, formatJSON } from '../json';
+import { Formatter, FormatOptions, getDataFields, getFields } from './formatter';
+
+/**
+ * One JSON object per line (NDJSON), the format the tool has always printed.
+ */
+export const jsonFormatter: Formatter = {
+    name: 'json',
+    description: 'One JSON object per line (default)',
+    latencyByDefault: true,
+    streaming: true,
+
+    format(results: DataObject[], options: FormatOptions): string {
+        // With latencies the objects are printed whole, exactly as before formats were selectable;
+        // fields other than the scores and latencies, such as the explanations, are always kept
+        const latency = options.latency ?? jsonFormatter.latencyByDefault;
+        const fields = getFields(jsonFormatter, options);
+        const dataFields = getDataFields();
+        const keep = (key: string) => fields.includes(key) || !dataFields.includes(key);
+        return results
+            .map(data => formatJSON(latency ? data : Object.fromEntries(Object.entries(data).filter(([key]) => keep(key)))))
+            .join('\n');
+    }
+};
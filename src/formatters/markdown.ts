@@ -0,0 +1,52 @@
+import { DataObject, getDataField } from '../json';
+import { Formatter, FormatOptions, getFields } from './formatter';
+
+/**
+ * Renders a score as a shields.io badge, colored by how good the score is.
+ *
+ * @param {number | null} score - The score (0-1), or null if it was not calculated.
+ * @returns {string} The Markdown image of the badge.
+ */
+export function getScoreBadge(score: number | null): string {
+    if (score === null) {
+        return '![n/a](https://img.shields.io/badge/-n%2Fa-lightgrey)';
+    }
+    const color = score >= 0.7 ? 'brightgreen' : score >= 0.4 ? 'yellow' : 'red';
+    return `![${score}](https://img.shields.io/badge/-${score}-${color})`;
+}
+
+/**
+ * Escapes a value for a Markdown table cell.
+ *
+ * @param {string} text - The cell text.
+ * @returns {string} The text with pipes escaped.
+ */
+function escapeCell(text: string): string {
+    return text.replace(/\|/g, '\\|');
+}
+
+/**
+ * A GitHub-flavoured Markdown table with a colored badge for each score, for pull requests.
+ */
+export const markdownFormatter: Formatter = {
+    name: 'markdown',
+    description: 'GitHub-flavoured Markdown table with score badges',
+    latencyByDefault: false,
+    streaming: false,
+
+    format(results: DataObject[], options: FormatOptions): string {
+        const fields = getFields(markdownFormatter, options);
+        const rows = results.map(data => fields.map(field => {
+            const value = getDataField(data, field);
+            if (field === 'URL') {
+                return escapeCell(String(value));
+            }
+            return field.endsWith('_Latency') ? (value === null ? '' : `${value} ms`) : getScoreBadge(value as number | null);
+        }));
+        return [
+            `| ${fields.join(' | ')} |`,
+            `| ${fields.map(field => field === 'URL' ? '---' : ':---:').join(' | ')} |`,
+            ...rows.map(row => `| ${row.join(' | ')} |`)
+        ].join('\n');
+    }
+};
@@ -0,0 +1,25 @@
+import { DataObject, getDataField } from '../json';
+import { Formatter, FormatOptions, getFields } from './formatter';
+
+/**
+ * An aligned table for the terminal, one row per URL.
+ */
+export const textFormatter: Formatter = {
+    name: 'text',
+    description: 'Aligned table for the terminal',
+    latencyByDefault: false,
+    streaming: false,
+
+    format(results: DataObject[], options: FormatOptions): string {
+        const fields = getFields(textFormatter, options);
+        const rows = results.map(data => fields.map(field => String(getDataField(data, field) ?? '-')));
+        const widths = fields.map((field, i) => Math.max(field.length, ...rows.map(row => row[i].length)));
+
+        // URLs are left-aligned, numbers right-aligned
+        const formatRow = (cells: string[]) => cells
+            .map((cell, i) => fields[i] === 'URL' ? cell.padEnd(widths[i]) : cell.padStart(widths[i]))
+            .join('  ')
+            .trimEnd();
+        return [formatRow(fields), formatRow(widths.map(width => '-'.repeat(width))), ...rows.map(formatRow)].join('\n');
+    }
+};
@@ -0,0 +1,32 @@
+import { DataObject, getDataField } from '../json';
+import { Formatter, FormatOptions, getFields } from './formatter';
+
+/**
+ * Formats a scalar for YAML. Strings are quoted only when YAML would misread them.
+ *
+ * @param {string | number | null} value - The value to format.
+ * @returns {string} The YAML scalar.
+ */
+function toScalar(value: string | number | null): string {
+    if (value === null || typeof value === 'number') {
+        return String(value);
+    }
+    return /^[\w./@:-]+$/.test(value) && !/^(null|true|false|yes|no|on|off|~|[\d.]+)$/i.test(value) ? value : JSON.stringify(value);
+}
+
+/**
+ * A YAML list with one mapping per URL.
+ */
+export const yamlFormatter: Formatter = {
+    name: 'yaml',
+    description: 'YAML list with one mapping per URL',
+    latencyByDefault: true,
+    streaming: true,
+
+    format(results: DataObject[], options: FormatOptions): string {
+        const fields = getFields(yamlFormatter, options);
+        return results
+            .map(data => fields.map((field, i) => `${i === 0 ? '- ' : '  '}${field}: ${toScalar(getDataField(data, field))}`).join('\n'))
+            .join('\n');
+    }
+};
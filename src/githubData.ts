@@ -1,12 +1,15 @@
-import * as sqlite3 from 'sqlite3';
-import axios from 'axios';
-import { fetchJsonFromApi } from "./API";
+import { fetchJsonFromApi, fetchPaginatedJsonFromApi } from "./API";
 import { URLType } from './URL';
+import { getGitHubApiBase } from './hosts';
 import { extractLastIssuesUrlFromJson } from './json';
 import { logMessage } from './logFile';
+import { parsePackageRef } from './packageRef';
 
 /**
  * Generates a GitHub API URL based on the provided repository URL and endpoint.
+ * The owner and repository are read with parsePackageRef, so `/tree/<ref>` paths, trailing
+ * slashes, query strings, `www.` hosts and git transport URLs all resolve to the repository.
+ * Repositories on a GitHub Enterprise Server host listed in GITHUB_API_HOSTS use that host's API.
  *
  * @param {string} url - The URL of the GitHub repository (e.g., https://github.com/owner/repo).
  * @param {string} [endpoint=''] - The specific API endpoint to append (e.g., 'contributors', 'branches').
@@ -18,44 +21,32 @@ export function getGitHubAPILink(url: string, endpoint: string = ''): string {
         `Received URL: ${url}, Endpoint: ${endpoint}`
     ]);
 
-    let urlParts = url.split('/');  // Split link into parts
-    logMessage('getGitHubAPILink - URL Split', [
-        'Successfully split the URL into parts.',
-        `URL Parts: ${JSON.stringify(urlParts)}`
+    const ref = parsePackageRef(url);  // Parse link into owner and repository
+    logMessage('getGitHubAPILink - URL Parsed', [
+        'Successfully parsed the URL.',
+        `Reference: ${JSON.stringify(ref)}`
     ]);
 
-    let owner = urlParts[urlParts.length - 2];  // Isolate owner
+    const owner = ref.owner ?? '';
     logMessage('getGitHubAPILink - Owner Extracted', [
         'Extracted repository owner.',
         `Owner: ${owner}`
     ]);
 
-    let repo = urlParts[urlParts.length - 1];   // Isolate repository name
+    const repo = ref.repo ?? '';   // parsePackageRef strips ".git"
     logMessage('getGitHubAPILink - Repository Extracted', [
         'Extracted repository name.',
         `Repository: ${repo}`
     ]);
 
-    // Check if repo contains ".git" and remove it if necessary
-    logMessage('getGitHubAPILink - Checking for .git', [
-        'Checking if the repository name contains .git.',
-        `Repository before check: ${repo}`
-    ]);
-    
-    if (repo.endsWith('.git')) {
-        logMessage('getGitHubAPILink - Removing .git', [
-            'Repository name contained .git, removing it.',
-            `Repository after removing .git: ${repo}`
-        ]);
-        repo = repo.slice(0, -4); // Remove the last 4 characters (".git")
-    }
-
+    const apiBase = getGitHubApiBase(ref.host) ?? getGitHubApiBase('github.com');
+    const apiLink = `${apiBase}/repos/${owner}/${repo}${endpoint ? '/' + endpoint : ''}`;
     logMessage('getGitHubAPILink - URL Construction', [
         'Constructing the final API URL.',
-        `Final API URL: https://api.github.com/repos/${owner}/${repo}${endpoint ? '/' + endpoint : ''}`
+        `Final API URL: ${apiLink}`
     ]);
     
-    return `https://api.github.com/repos/${owner}/${repo}${endpoint ? '/' + endpoint : ''}`; // Return API link with endpoint
+    return apiLink; // Return API link with endpoint
 }
 
 /**
@@ -107,88 +98,36 @@ export function getContributionCounts(data: any[]): number[] {
  *
  * @param {string} owner - The GitHub owner of the repository.
  * @param {string} repo - The name of the repository.
+ * @param {string} [host='github.com'] - The GitHub host of the repository.
  * @returns {Promise<number>} - The number of open issues.
  */
-export async function fetchOpenIssuesCount(owner: string, repo: string): Promise<number> {
+export async function fetchOpenIssuesCount(owner: string, repo: string, host: string = 'github.com'): Promise<number> {
     logMessage('fetchOpenIssuesCount - Initialization', [
         'Starting to fetch open issues count for the repository.',
         `Owner: ${owner}, Repository: ${repo}`
     ]);
 
-    let page = 1;
-    logMessage('fetchOpenIssuesCount - Page Initialization', [
-        'Initializing page count for API requests.',
-        `Starting with page: ${page}`
-    ]);
-
-    let totalOpenIssues = 0;
-    logMessage('fetchOpenIssuesCount - Total Open Issues', [
-        'Initializing total open issues counter.',
-        `Total open issues so far: ${totalOpenIssues}`
-    ]);
-
-    let issuesOnPage = 0;
-    logMessage('fetchOpenIssuesCount - Issues on Page', [
-        'Initializing issues count for the current page.',
-        `Issues on current page: ${issuesOnPage}`
+    const issuesApiUrl = `${getGitHubApiBase(host) ?? getGitHubApiBase('github.com')}/repos/${owner}/${repo}/issues?state=open`;
+    logMessage('fetchOpenIssuesCount - API URL', [
+        'Constructing API URL for fetching issues.',
+        `API URL: ${issuesApiUrl}`
     ]);
 
-    do {
-        const issuesApiUrl = `https://api.github.com/repos/${owner}/${repo}/issues?state=open&per_page=100&page=${page}`;
-        logMessage('fetchOpenIssuesCount - API URL', [
-            'Constructing API URL for fetching issues.',
-            `API URL: ${issuesApiUrl}`
+    try {
+        const { data, truncated } = await fetchPaginatedJsonFromApi(issuesApiUrl);
+        logMessage('fetchOpenIssuesCount - Final Count', [
+            'Completed fetching open issues.',
+            `Total open issues count: ${data.length}${truncated ? ' (truncated)' : ''}`
         ]);
-
-        try {
-            logMessage('fetchOpenIssuesCount - API Call', [
-                'Making API call to fetch open issues.',
-                `Fetching from URL: ${issuesApiUrl}`
-            ]);
-
-            const response = await axios.get(issuesApiUrl, {
-                headers: {
-                    'Accept': 'application/vnd.github.v3+json'
-                }
-            });
-            logMessage('fetchOpenIssuesCount - API Response', [
-                'Received response from API.',
-                `Response data length: ${response.data.length}`
-            ]);
-
-            issuesOnPage = response.data.length; // Number of open issues on this page
-            logMessage('fetchOpenIssuesCount - Issues Count on Page', [
-                'Count of open issues on the current page.',
-                `Issues on page ${page}: ${issuesOnPage}`
-            ]);
-
-            totalOpenIssues += issuesOnPage;
-            logMessage('fetchOpenIssuesCount - Total Open Issues Update', [
-                'Updating total open issues counter.',
-                `Total open issues now: ${totalOpenIssues}`
-            ]);
-
-            page++; // Move to the next page
-            logMessage('fetchOpenIssuesCount - Next Page', [
-                'Incrementing page count for the next request.',
-                `Next page will be: ${page}`
-            ]);
-        } catch (error) {
-            logMessage('fetchOpenIssuesCount - API Error', [
-                'Error occurred while fetching open issues.',
-                `Error details: ${error}`
-            ]);
-            console.error('Error fetching open issues:', error);
-            return totalOpenIssues; // Return the count gathered so far
-        }
-    } while (issuesOnPage === 100); // Keep going until fewer than 100 issues are returned (end of pages)
-
-    logMessage('fetchOpenIssuesCount - Final Count', [
-        'Completed fetching open issues.',
-        `Total open issues count: ${totalOpenIssues}`
-    ]);
-    
-    return totalOpenIssues;
+        return data.length;
+    } catch (error) {
+        logMessage('fetchOpenIssuesCount - API Error', [
+            'Error occurred while fetching open issues.',
+            `Error details: ${error}`
+        ]);
+        console.error('Error fetching open issues:', error);
+        return 0;
+    }
 }
 
 /**
@@ -196,86 +135,34 @@ export async function fetchOpenIssuesCount(owner: string, repo: string): Promise
  *
  * @param {string} owner - The GitHub owner of the repository.
  * @param {string} repo - The name of the repository.
+ * @param {string} [host='github.com'] - The GitHub host of the repository.
  * @returns {Promise<number>} - The number of closed issues.
  */
-export async function fetchClosedIssuesCount(owner: string, repo: string): Promise<number> {
+export async function fetchClosedIssuesCount(owner: string, repo: string, host: string = 'github.com'): Promise<number> {
     logMessage('fetchClosedIssuesCount - Initialization', [
         'Starting to fetch closed issues count for the repository.',
         `Owner: ${owner}, Repository: ${repo}`
     ]);
 
-    let page = 1;
-    logMessage('fetchClosedIssuesCount - Page Initialization', [
-        'Initializing page count for API requests.',
-        `Starting with page: ${page}`
-    ]);
-
-    let totalClosedIssues = 0;
-    logMessage('fetchClosedIssuesCount - Total Closed Issues', [
-        'Initializing total closed issues counter.',
-        `Total closed issues so far: ${totalClosedIssues}`
-    ]);
-
-    let issuesOnPage = 0;
-    logMessage('fetchClosedIssuesCount - Issues on Page', [
-        'Initializing issues count for the current page.',
-        `Issues on current page: ${issuesOnPage}`
+    const issuesApiUrl = `${getGitHubApiBase(host) ?? getGitHubApiBase('github.com')}/repos/${owner}/${repo}/issues?state=closed`;
+    logMessage('fetchClosedIssuesCount - API URL', [
+        'Constructing API URL for fetching closed issues.',
+        `API URL: ${issuesApiUrl}`
     ]);
 
-    do {
-        const issuesApiUrl = `https://api.github.com/repos/${owner}/${repo}/issues?state=closed&per_page=100&page=${page}`;
-        logMessage('fetchClosedIssuesCount - API URL', [
-            'Constructing API URL for fetching closed issues.',
-            `API URL: ${issuesApiUrl}`
+    try {
+        const { data, truncated } = await fetchPaginatedJsonFromApi(issuesApiUrl);
+        logMessage('fetchClosedIssuesCount - Final Count', [
+            'Completed fetching closed issues.',
+            `Total closed issues count: ${data.length}${truncated ? ' (truncated)' : ''}`
         ]);
-
-        try {
-            logMessage('fetchClosedIssuesCount - API Call', [
-                'Making API call to fetch closed issues.',
-                `Fetching from URL: ${issuesApiUrl}`
-            ]);
-
-            const response = await axios.get(issuesApiUrl, {
-                headers: {
-                    'Accept': 'application/vnd.github.v3+json'
-                }
-            });
-            logMessage('fetchClosedIssuesCount - API Response', [
-                'Received response from API.',
-                `Response data length: ${response.data.length}`
-            ]);
-
-            issuesOnPage = response.data.length; // Number of closed issues on this page
-            logMessage('fetchClosedIssuesCount - Issues Count on Page', [
-                'Count of closed issues on the current page.',
-                `Issues on page ${page}: ${issuesOnPage}`
-            ]);
-
-            totalClosedIssues += issuesOnPage;
-            logMessage('fetchClosedIssuesCount - Total Closed Issues Update', [
-                'Updating total closed issues counter.',
-                `Total closed issues now: ${totalClosedIssues}`
-            ]);
-
-            page++; // Move to the next page
-            logMessage('fetchClosedIssuesCount - Next Page', [
-                'Incrementing page count for the next request.',
-                `Next page will be: ${page}`
-            ]);
-        } catch (error) {
-            logMessage('fetchClosedIssuesCount - API Error', [
-                'Error occurred while fetching closed issues.',
-                `Error details: ${error}`
-            ]);
-            console.error('Error fetching closed issues:', error);
-            return totalClosedIssues; // Return the count gathered so far
-        }
-    } while (issuesOnPage === 100); // Keep going until fewer than 100 issues are returned (end of pages)
-
-    logMessage('fetchClosedIssuesCount - Final Count', [
-        'Completed fetching closed issues.',
-        `Total closed issues count: ${totalClosedIssues}`
-    ]);
-    
-    return totalClosedIssues;
-}
\ No newline at end of file
+        return data.length;
+    } catch (error) {
+        logMessage('fetchClosedIssuesCount - API Error', [
+            'Error occurred while fetching closed issues.',
+            `Error details: ${error}`
+        ]);
+        console.error('Error fetching closed issues:', error);
+        return 0;
+    }
+}
@@ -0,0 +1,316 @@
+import * as dotenv from 'dotenv';
+import { getGitHubApiHosts, getGitHubGraphQLURL, getGitHubHostForApiUrl, getGitHubToken } from './hosts';
+import { postWithRetry } from './httpClient';
+import { logMessage } from './logFile';
+dotenv.config();
+
+/**
+ * The data collection backend used for GitHub repositories.
+ * `rest` issues one REST request per resource; `graphql` fetches every supported
+ * resource of a repository in one batched GraphQL query.
+ */
+export type GitHubBackend = 'rest' | 'graphql';
+
+/**
+ * Interface representing a REST-shaped resource served from the GraphQL snapshot.
+ *
+ * @interface ResolvedResource
+ */
+export interface ResolvedResource {
+    data: any;              // The resource in the shape the REST API returns it
+    truncated: boolean;     // True if the snapshot holds only part of a list resource
+}
+
+// Largest page GitHub's GraphQL API allows for a connection
+const GRAPHQL_PAGE_SIZE = 100;
+
+// Repository data gathered in a single round trip
+const REPOSITORY_QUERY = `
+query RepositorySnapshot($owner: String!, $name: String!) {
+  repository(owner: $owner, name: $name) {
+    nameWithOwner
+    diskUsage
+    pushedAt
+    isArchived
+    stargazerCount
+    forkCount
+    defaultBranchRef {
+      name
+      target {
+        ... on Commit {
+          history(first: ${GRAPHQL_PAGE_SIZE}) {
+            totalCount
+            nodes { committedDate author { email name user { login } } }
+          }
+        }
+      }
+    }
+    licenseInfo { key spdxId name }
+    openIssues: issues(states: OPEN, first: ${GRAPHQL_PAGE_SIZE}, orderBy: { field: CREATED_AT, direction: DESC }) {
+      totalCount
+      nodes { number createdAt closedAt author { login } labels(first: 20) { nodes { name } } }
+    }
+    closedIssues: issues(states: CLOSED, first: ${GRAPHQL_PAGE_SIZE}, orderBy: { field: CREATED_AT, direction: DESC }) {
+      totalCount
+      nodes { number createdAt closedAt author { login } labels(first: 20) { nodes { name } } }
+    }
+    openPullRequests: pullRequests(states: OPEN, first: ${GRAPHQL_PAGE_SIZE}, orderBy: { field: CREATED_AT, direction: DESC }) {
+      totalCount
+      nodes { number createdAt closedAt mergedAt author { login } }
+    }
+    closedPullRequests: pullRequests(states: [CLOSED, MERGED], first: ${GRAPHQL_PAGE_SIZE}, orderBy: { field: CREATED_AT, direction: DESC }) {
+      totalCount
+      nodes { number createdAt closedAt mergedAt author { login } }
+    }
+    releases(first: 10, orderBy: { field: CREATED_AT, direction: DESC }) {
+      totalCount
+      nodes { tagName createdAt publishedAt isDraft isPrerelease }
+    }
+  }
+}`;
+
+let backend: GitHubBackend = process.env.GITHUB_BACKEND === 'graphql' ? 'graphql' : 'rest';
+
+// One snapshot request per repository, shared by every metric
+const snapshots = new Map<string, Promise<any>>();
+
+/**
+ * Gets the active GitHub backend (set by the GITHUB_BACKEND environment variable or setGitHubBackend).
+ *
+ * @returns {GitHubBackend} The active backend.
+ */
+export function getGitHubBackend(): GitHubBackend {
+    return backend;
+}
+
+/**
+ * Selects the GitHub backend for the rest of the run.
+ *
+ * @param {GitHubBackend} value - The backend to use.
+ */
+export function setGitHubBackend(value: GitHubBackend) {
+    logMessage('setGitHubBackend', [`GitHub backend set to ${value}.`, `Previous backend: ${backend}`]);
+    backend = value;
+}
+
+/**
+ * Fetches the GraphQL snapshot of a repository, reusing the request already made for it.
+ *
+ * @param {string} owner - The repository owner.
+ * @param {string} repo - The repository name.
+ * @param {string} [host='github.com'] - The GitHub host of the repository.
+ * @returns {Promise<any>} The `repository` object of the query result.
+ * @throws {Error} - If the request fails or GraphQL reports errors.
+ */
+export function fetchRepositorySnapshot(owner: string, repo: string, host: string = 'github.com'): Promise<any> {
+    const key = (host === 'github.com' ? `${owner}/${repo}` : `${host}/${owner}/${repo}`).toLowerCase();
+    let snapshot = snapshots.get(key);
+    if (!snapshot) {
+        snapshot = querySnapshot(owner, repo, host);
+        snapshots.set(key, snapshot);
+        snapshot.catch(() => snapshots.delete(key)); // Let a later caller retry a failed query
+    } else {
+        logMessage('fetchRepositorySnapshot', ['Reusing GraphQL snapshot.', `Repository: ${key}`]);
+    }
+    return snapshot;
+}
+
+/**
+ * Sends the repository snapshot query.
+ *
+ * @param {string} owner - The repository owner.
+ * @param {string} repo - The repository name.
+ * @param {string} host - The GitHub host of the repository.
+ * @returns {Promise<any>} The `repository` object of the query result.
+ */
+async function querySnapshot(owner: string, repo: string, host: string): Promise<any> {
+    logMessage('querySnapshot', ['Fetching repository snapshot with GraphQL.', `Repository: ${owner}/${repo}, Host: ${host}`]);
+
+    const headers = {
+        'Authorization': `bearer ${getGitHubToken(host)}`,
+        'Content-Type': 'application/json'
+    };
+    const response = await postWithRetry(getGitHubGraphQLURL(host) as string, {
+        query: REPOSITORY_QUERY,
+        variables: { owner, name: repo }
+    }, headers);
+
+    const errors = response.data?.errors;
+    if (errors && errors.length > 0) {
+        logMessage('querySnapshot', ['GraphQL query returned errors.', `Errors: ${JSON.stringify(errors)}`]);
+        throw new Error(`GraphQL request failed: ${errors[0].message}`);
+    }
+    if (!response.data?.data?.repository) {
+        throw new Error(`GraphQL request failed: repository ${owner}/${repo} not found`);
+    }
+
+    logMessage('querySnapshot', ['Repository snapshot fetched.', `Repository: ${owner}/${repo}`]);
+    return response.data.data.repository;
+}
+
+/**
+ * Converts GraphQL issue nodes to REST issue objects.
+ *
+ * @param {any[]} nodes - The GraphQL issue nodes.
+ * @returns {any[]} REST-shaped issues.
+ */
+function toRestIssues(nodes: any[]): any[] {
+    return nodes.map(node => ({
+        number: node.number,
+        state: node.closedAt ? 'closed' : 'open',
+        created_at: node.createdAt,
+        closed_at: node.closedAt,
+        user: node.author ? { login: node.author.login } : null,
+        labels: (node.labels?.nodes ?? []).map((label: any) => ({ name: label.name }))
+    }));
+}
+
+/**
+ * Converts GraphQL pull request nodes to REST pull request objects.
+ *
+ * @param {any[]} nodes - The GraphQL pull request nodes.
+ * @returns {any[]} REST-shaped pull requests.
+ */
+function toRestPulls(nodes: any[]): any[] {
+    return nodes.map(node => ({
+        number: node.number,
+        state: node.closedAt ? 'closed' : 'open',
+        created_at: node.createdAt,
+        closed_at: node.closedAt,
+        merged_at: node.mergedAt,
+        user: node.author ? { login: node.author.login } : null
+    }));
+}
+
+/**
+ * Derives REST-style contributor counts from the default branch commit history.
+ * Commits are attributed to the author's login, falling back to their email or name.
+ *
+ * @param {any[]} commits - The GraphQL commit nodes.
+ * @returns {any[]} Contributors sorted by contribution count, as `{ login, contributions }`.
+ */
+function toRestContributors(commits: any[]): any[] {
+    const counts = new Map<string, number>();
+    for (const commit of commits) {
+        const author = commit.author?.user?.login || commit.author?.email || commit.author?.name;
+        if (author) {
+            counts.set(author, (counts.get(author) || 0) + 1);
+        }
+    }
+    return Array.from(counts.entries())
+        .map(([login, contributions]) => ({ login, contributions }))
+        .sort((a, b) => b.contributions - a.contributions);
+}
+
+/**
+ * Maps a REST resource of a repository onto the GraphQL snapshot.
+ *
+ * @param {any} snapshot - The `repository` object from the snapshot query.
+ * @param {string} resource - The REST path after `repos/{owner}/{repo}` (e.g. `issues`), or '' for the repository itself.
+ * @param {URLSearchParams} params - The REST query parameters.
+ * @returns {ResolvedResource | undefined} The REST-shaped resource, or undefined if the snapshot cannot serve it.
+ */
+function mapSnapshotResource(snapshot: any, resource: string, params: URLSearchParams): ResolvedResource | undefined {
+    const state = params.get('state') || 'open';
+    const license = snapshot.licenseInfo
+        ? { key: snapshot.licenseInfo.key, spdx_id: snapshot.licenseInfo.spdxId, name: snapshot.licenseInfo.name }
+        : null;
+
+    switch (resource) {
+        case '':
+            return {
+                data: {
+                    full_name: snapshot.nameWithOwner,
+                    size: snapshot.diskUsage,
+                    open_issues_count: snapshot.openIssues.totalCount + snapshot.openPullRequests.totalCount,
+                    default_branch: snapshot.defaultBranchRef?.name ?? null,
+                    pushed_at: snapshot.pushedAt,
+                    archived: snapshot.isArchived,
+                    stargazers_count: snapshot.stargazerCount,
+                    forks_count: snapshot.forkCount,
+                    license
+                },
+                truncated: false
+            };
+        case 'license':
+            return { data: license ? { license } : {}, truncated: false };
+        case 'contributors': {
+            const history = snapshot.defaultBranchRef?.target?.history;
+            if (!history) {
+                return { data: [], truncated: false };
+            }
+            return { data: toRestContributors(history.nodes), truncated: history.totalCount > history.nodes.length };
+        }
+        case 'issues': {
+            const lists = state === 'all' ? [snapshot.openIssues, snapshot.closedIssues]
+                : state === 'closed' ? [snapshot.closedIssues] : [snapshot.openIssues];
+            return {
+                data: lists.flatMap(list => toRestIssues(list.nodes)),
+                truncated: lists.some(list => list.totalCount > list.nodes.length)
+            };
+        }
+        case 'pulls': {
+            const lists = state === 'all' ? [snapshot.openPullRequests, snapshot.closedPullRequests]
+                : state === 'closed' ? [snapshot.closedPullRequests] : [snapshot.openPullRequests];
+            return {
+                data: lists.flatMap(list => toRestPulls(list.nodes)),
+                truncated: lists.some(list => list.totalCount > list.nodes.length)
+            };
+        }
+        case 'releases':
+            return {
+                data: snapshot.releases.nodes.map((node: any) => ({
+                    tag_name: node.tagName,
+                    created_at: node.createdAt,
+                    published_at: node.publishedAt,
+                    draft: node.isDraft,
+                    prerelease: node.isPrerelease
+                })),
+                truncated: snapshot.releases.totalCount > snapshot.releases.nodes.length
+            };
+        default:
+            return undefined;
+    }
+}
+
+/**
+ * Serves a GitHub REST API request from the repository's GraphQL snapshot when the
+ * GraphQL backend is active. Requests the snapshot does not cover (non-GitHub hosts,
+ * other endpoints, paginated page requests) resolve to undefined so the caller uses REST.
+ * GitHub Enterprise Server hosts are queried through their own GraphQL endpoint and token.
+ *
+ * @async
+ * @param {string} apiLink - The REST API URL (e.g. `https://api.github.com/repos/owner/repo/issues?state=open`).
+ * @returns {Promise<ResolvedResource | undefined>} - The REST-shaped resource, or undefined to fall back to REST.
+ * @throws {Error} - If the snapshot query fails.
+ */
+export async function resolveFromGraphQL(apiLink: string): Promise<ResolvedResource | undefined> {
+    if (backend !== 'graphql') {
+        return undefined;
+    }
+    const host = getGitHubHostForApiUrl(apiLink);
+    if (!host) {
+        return undefined;
+    }
+    if (!getGitHubToken(host)) {
+        logMessage('resolveFromGraphQL', ['GraphQL requires a token, using REST.', `API link: ${apiLink}`]);
+        return undefined;
+    }
+
+    const url = new URL(apiLink);
+    const basePath = new URL(getGitHubApiHosts().get(host) as string).pathname.replace(/\/$/, '');
+    const match = /^\/repos\/([^/]+)\/([^/]+)\/?(.*)$/.exec(url.pathname.slice(basePath.length));
+    if (!match || url.searchParams.has('page')) {
+        return undefined;
+    }
+
+    const [, owner, repo, resource] = match;
+    const snapshot = await fetchRepositorySnapshot(owner, repo, host);
+    const resolved = mapSnapshotResource(snapshot, resource.replace(/\/$/, ''), url.searchParams);
+
+    logMessage('resolveFromGraphQL', [
+        resolved ? 'Served request from the GraphQL snapshot.' : 'Resource not in the GraphQL snapshot, using REST.',
+        `API link: ${apiLink}, Truncated: ${resolved?.truncated}`
+    ]);
+    return resolved;
+}
@@ -0,0 +1,220 @@
+import * as dotenv from 'dotenv';
+dotenv.config();
+
+/**
+ * Gets the GitLab API base URL from the GITLAB_API_URL environment variable: gitlab.com by default,
+ * or a self-managed instance.
+ *
+ * @returns {string} The API base URL, without a trailing slash.
+ */
+export function getGitLabApiBase(): string {
+    return (process.env.GITLAB_API_URL || 'https://gitlab.com/api/v4').replace(/\/$/, '');
+}
+
+/**
+ * Gets the Bitbucket API base URL from the BITBUCKET_API_URL environment variable.
+ *
+ * @returns {string} The API base URL, without a trailing slash.
+ */
+export function getBitbucketApiBase(): string {
+    return (process.env.BITBUCKET_API_URL || 'https://api.bitbucket.org/2.0').replace(/\/$/, '');
+}
+
+// API base of github.com, which needs no configuration
+const GITHUB_API_BASE = 'https://api.github.com';
+
+/**
+ * Parses a comma-separated list of `host=value` entries (e.g. GITHUB_API_HOSTS).
+ * Host names are lowercased; an entry without `=` maps the host to an empty value.
+ *
+ * @param {string | undefined} list - The environment variable value.
+ * @returns {Map<string, string>} The value of each host.
+ */
+function parseHostList(list: string | undefined): Map<string, string> {
+    const entries = new Map<string, string>();
+    for (const entry of (list || '').split(',')) {
+        const separator = entry.indexOf('=');
+        const host = (separator === -1 ? entry : entry.slice(0, separator)).trim().toLowerCase();
+        if (host) {
+            entries.set(host, separator === -1 ? '' : entry.slice(separator + 1).trim());
+        }
+    }
+    return entries;
+}
+
+/**
+ * Gets the API base URL of every GitHub host: github.com plus the GitHub Enterprise Server
+ * hosts listed in GITHUB_API_HOSTS (e.g. `github.acme.corp=https://github.acme.corp/api/v3`).
+ * A host listed without a base uses the GitHub Enterprise Server default, `https://<host>/api/v3`.
+ *
+ * @returns {Map<string, string>} The API base URL of each host, without a trailing slash.
+ */
+export function getGitHubApiHosts(): Map<string, string> {
+    const hosts = new Map<string, string>([['github.com', GITHUB_API_BASE]]);
+    for (const [host, base] of parseHostList(process.env.GITHUB_API_HOSTS)) {
+        hosts.set(host, (base || `https://${host}/api/v3`).replace(/\/$/, ''));
+    }
+    return hosts;
+}
+
+/**
+ * Gets the API base URL of a GitHub host.
+ *
+ * @param {string | null} host - The web host of the repository (e.g. github.com, github.acme.corp).
+ * @returns {string | null} The API base URL, or null if the host is not a known GitHub host.
+ */
+export function getGitHubApiBase(host: string | null): string | null {
+    return host ? getGitHubApiHosts().get(host.toLowerCase()) ?? null : null;
+}
+
+/**
+ * Checks whether a host serves GitHub repositories (github.com or a configured GitHub Enterprise Server).
+ *
+ * @param {string | null} host - The web host of the repository.
+ * @returns {boolean} True if the host is a known GitHub host.
+ */
+export function isGitHubHost(host: string | null): boolean {
+    return getGitHubApiBase(host) !== null;
+}
+
+/**
+ * Finds the GitHub host whose API serves a request URL.
+ *
+ * @param {string} url - The request URL.
+ * @returns {string | null} The web host (e.g. github.com), or null if the URL is not a GitHub API URL.
+ */
+export function getGitHubHostForApiUrl(url: string): string | null {
+    for (const [host, base] of getGitHubApiHosts()) {
+        if (isUnderBase(url, base)) {
+            return host;
+        }
+    }
+    return null;
+}
+
+/**
+ * Gets the token of a GitHub host: GITHUB_TOKEN for github.com, or the host's
+ * entry in GITHUB_HOST_TOKENS (e.g. `github.acme.corp=ghp_...`) for GitHub Enterprise Server.
+ *
+ * @param {string} host - The web host.
+ * @returns {string | undefined} The token, or undefined if none is configured for the host.
+ */
+export function getGitHubToken(host: string): string | undefined {
+    if (host.toLowerCase() === 'github.com') {
+        return process.env.GITHUB_TOKEN || undefined;
+    }
+    return parseHostList(process.env.GITHUB_HOST_TOKENS).get(host.toLowerCase()) || undefined;
+}
+
+/**
+ * Gets the GraphQL endpoint of a GitHub host. GitHub Enterprise Server serves it at
+ * `/api/graphql` next to the `/api/v3` REST API.
+ *
+ * @param {string} host - The web host.
+ * @returns {string | null} The GraphQL URL, or null if the host is not a known GitHub host.
+ */
+export function getGitHubGraphQLURL(host: string): string | null {
+    const base = getGitHubApiBase(host);
+    if (!base) {
+        return null;
+    }
+    return /\/api\/v3$/.test(base) ? base.replace(/\/v3$/, '/graphql') : `${base}/graphql`;
+}
+
+/**
+ * Gets the API base URL of every GitLab host: gitlab.com and the host of GITLAB_API_URL, both served
+ * at GITLAB_API_URL, plus the self-managed hosts listed in GITLAB_API_HOSTS (e.g.
+ * `gitlab.acme.corp=https://gitlab.acme.corp/api/v4`). A host listed without a base uses `https://<host>/api/v4`.
+ *
+ * @returns {Map<string, string>} The API base URL of each host, without a trailing slash.
+ */
+export function getGitLabApiHosts(): Map<string, string> {
+    const base = getGitLabApiBase();
+    const hosts = new Map<string, string>([['gitlab.com', base]]);
+    try {
+        hosts.set(new URL(base).hostname.toLowerCase(), base);
+    } catch {
+        // An invalid GITLAB_API_URL fails on the first request instead
+    }
+    for (const [host, hostBase] of parseHostList(process.env.GITLAB_API_HOSTS)) {
+        hosts.set(host, (hostBase || `https://${host}/api/v4`).replace(/\/$/, ''));
+    }
+    return hosts;
+}
+
+/**
+ * Checks whether a host serves GitLab repositories (gitlab.com or a configured self-managed instance).
+ *
+ * @param {string | null} host - The web host of the repository.
+ * @returns {boolean} True if the host is a known GitLab host.
+ */
+export function isGitLabHost(host: string | null): boolean {
+    return host !== null && getGitLabApiHosts().has(host.toLowerCase());
+}
+
+/**
+ * Finds the GitLab host whose API serves a request URL.
+ *
+ * @param {string} url - The request URL.
+ * @returns {string | null} The web host (e.g. gitlab.com), or null if the URL is not a GitLab API URL.
+ */
+export function getGitLabHostForApiUrl(url: string): string | null {
+    for (const [host, base] of getGitLabApiHosts()) {
+        if (isUnderBase(url, base)) {
+            return host;
+        }
+    }
+    return null;
+}
+
+/**
+ * Gets the token of a GitLab host: the host's entry in GITLAB_HOST_TOKENS (e.g. `gitlab.acme.corp=glpat-...`),
+ * or else GITLAB_TOKEN for the hosts served at GITLAB_API_URL.
+ *
+ * @param {string} host - The web host.
+ * @returns {string | undefined} The token, or undefined if none is configured for the host.
+ */
+export function getGitLabToken(host: string): string | undefined {
+    const name = host.toLowerCase();
+    const hostToken = parseHostList(process.env.GITLAB_HOST_TOKENS).get(name);
+    if (hostToken) {
+        return hostToken;
+    }
+    return getGitLabApiHosts().get(name) === getGitLabApiBase() ? process.env.GITLAB_TOKEN || undefined : undefined;
+}
+
+/**
+ * Checks whether a URL points at the API behind a base URL.
+ *
+ * @param {string} url - The request URL.
+ * @param {string} base - The API base URL.
+ * @returns {boolean} True if the URL starts with the base.
+ */
+function isUnderBase(url: string, base: string): boolean {
+    return url === base || url.startsWith(base + '/') || url.startsWith(base + '?');
+}
+
+/**
+ * Picks the Authorization header for a request, so each service only ever receives its own token:
+ * the GitLab host's token for a GitLab API, BITBUCKET_TOKEN for the Bitbucket API, GITHUB_TOKEN for the github.com API
+ * and the host's GITHUB_HOST_TOKENS entry for a GitHub Enterprise Server API. Other hosts, such as the npm registry, get none.
+ *
+ * @param {string} url - The request URL.
+ * @returns {string | undefined} The header value, or undefined if the URL is not a known API or no token is configured for it.
+ */
+export function getAuthorizationHeader(url: string): string | undefined {
+    const gitlabHost = getGitLabHostForApiUrl(url);
+    if (gitlabHost) {
+        const token = getGitLabToken(gitlabHost);
+        return token ? `Bearer ${token}` : undefined;
+    }
+    if (isUnderBase(url, getBitbucketApiBase())) {
+        return process.env.BITBUCKET_TOKEN ? `Bearer ${process.env.BITBUCKET_TOKEN}` : undefined;
+    }
+    const githubHost = getGitHubHostForApiUrl(url);
+    if (!githubHost) {
+        return undefined;
+    }
+    const token = getGitHubToken(githubHost);
+    return token ? `token ${token}` : undefined;
+}
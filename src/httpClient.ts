@@ -0,0 +1,359 @@
+import axios, { AxiosResponse } from 'axios';
+import * as dotenv from 'dotenv';
+import { getHttpMode, recordFixture, replayResponse } from './recorder';
+import { logMessage } from './logFile';
+dotenv.config();
+
+/**
+ * Error raised when a request is refused because the API rate limit is exhausted
+ * and the client gives up waiting for it to reset.
+ *
+ * @class RateLimitError
+ */
+export class RateLimitError extends Error {
+    url: string;                // The URL that could not be fetched
+    status: number | null;      // HTTP status of the last response (null if the request was never sent)
+    resetAt: number | null;     // Epoch milliseconds at which the limit resets, if known
+
+    constructor(message: string, url: string, status: number | null, resetAt: number | null) {
+        super(message);
+        this.name = 'RateLimitError';
+        this.url = url;
+        this.status = status;
+        this.resetAt = resetAt;
+    }
+}
+
+/**
+ * Options controlling retries and rate limit waits.
+ *
+ * @interface RetryOptions
+ */
+export interface RetryOptions {
+    maxRetries: number;             // Number of retries after the first attempt
+    baseDelayMs: number;            // Base delay for exponential backoff
+    maxDelayMs: number;             // Upper bound for a single backoff delay
+    maxRateLimitWaitMs: number;     // Longest the client will sleep waiting for a rate limit to reset
+}
+
+/**
+ * Rate limit budget last reported by a host.
+ *
+ * @interface RateLimitState
+ */
+export interface RateLimitState {
+    limit: number | null;       // X-RateLimit-Limit
+    remaining: number | null;   // X-RateLimit-Remaining
+    resetAt: number | null;     // X-RateLimit-Reset, converted to epoch milliseconds
+}
+
+// Network error codes that are worth retrying
+const TRANSIENT_ERROR_CODES = ['ECONNRESET', 'ECONNREFUSED', 'ECONNABORTED', 'ETIMEDOUT', 'EPIPE', 'EAI_AGAIN'];
+
+// GitHub asks clients to wait at least a minute after a secondary rate limit without Retry-After
+const SECONDARY_LIMIT_DELAY_MS = 60000;
+
+// Rate limit budget per host (host includes the port) and resource (core, graphql, search)
+const rateLimitStates = new Map<string, RateLimitState>();
+
+/**
+ * Reads a non-negative integer from an environment variable.
+ *
+ * @param {string} name - The environment variable name.
+ * @param {number} fallback - The value used when the variable is unset or invalid.
+ * @returns {number} The parsed value or the fallback.
+ */
+function readIntEnv(name: string, fallback: number): number {
+    const value = parseInt(process.env[name] || '', 10);
+    return value >= 0 ? value : fallback;
+}
+
+/**
+ * Builds the retry options from the environment.
+ * HTTP_MAX_RETRIES, HTTP_RETRY_BASE_MS and RATE_LIMIT_MAX_WAIT_SECONDS override the defaults.
+ *
+ * @returns {RetryOptions} The effective retry options.
+ */
+export function getRetryOptions(): RetryOptions {
+    return {
+        maxRetries: readIntEnv('HTTP_MAX_RETRIES', 3),
+        baseDelayMs: readIntEnv('HTTP_RETRY_BASE_MS', 500),
+        maxDelayMs: 30000,
+        maxRateLimitWaitMs: readIntEnv('RATE_LIMIT_MAX_WAIT_SECONDS', 120) * 1000
+    };
+}
+
+/**
+ * Resolves after the given number of milliseconds.
+ *
+ * @param {number} ms - The delay in milliseconds.
+ * @returns {Promise<void>}
+ */
+export function sleep(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Gets the key of the rate limit budget a URL draws from. GitHub keeps separate
+ * budgets for the REST (`core`), GraphQL and search APIs on the same host.
+ *
+ * @param {string} url - The request URL.
+ * @returns {string} The budget key, `<host>:<resource>`.
+ */
+function getRateLimitKey(url: string): string {
+    const { host, pathname } = new URL(url);
+    const resource = pathname.endsWith('/graphql') ? 'graphql' : pathname.includes('/search/') ? 'search' : 'core';
+    return `${host}:${resource}`;
+}
+
+/**
+ * Returns the last rate limit budget reported by a host.
+ *
+ * @param {string} host - The host name, including the port if not the default (e.g. `api.github.com`).
+ * @param {string} [resource='core'] - The budget to read: `core`, `graphql` or `search`.
+ * @returns {RateLimitState | undefined} The known budget, or undefined if the host never reported one.
+ */
+export function getRateLimitState(host: string, resource: string = 'core'): RateLimitState | undefined {
+    return rateLimitStates.get(`${host}:${resource}`);
+}
+
+/**
+ * Returns the smallest REST or GraphQL budget left on any host whose limit has not reset yet.
+ * The search budget is left out: it is small, resets every minute and is not used for scoring.
+ *
+ * @returns {number | null} The remaining requests, or null if no host reported a budget.
+ */
+export function getRemainingBudget(): number | null {
+    const now = Date.now();
+    const remaining = [...rateLimitStates.entries()]
+        .filter(([key, state]) => !key.endsWith(':search') && state.remaining !== null && (state.resetAt === null || state.resetAt > now))
+        .map(([, state]) => state.remaining as number);
+    return remaining.length > 0 ? Math.min(...remaining) : null;
+}
+
+/**
+ * Records the rate limit headers of a response for its host.
+ *
+ * @param {string} url - The URL that produced the response.
+ * @param {any} headers - The response headers.
+ */
+function updateRateLimitState(url: string, headers: any) {
+    if (!headers || headers['x-ratelimit-remaining'] === undefined) {
+        return;
+    }
+
+    const state: RateLimitState = {
+        limit: headers['x-ratelimit-limit'] !== undefined ? parseInt(headers['x-ratelimit-limit'], 10) : null,
+        remaining: parseInt(headers['x-ratelimit-remaining'], 10),
+        resetAt: headers['x-ratelimit-reset'] !== undefined ? parseInt(headers['x-ratelimit-reset'], 10) * 1000 : null
+    };
+    rateLimitStates.set(getRateLimitKey(url), state);
+    logMessage('httpClient - Rate Limit', [
+        `Rate limit remaining: ${state.remaining}.`,
+        `Budget: ${getRateLimitKey(url)}, Limit: ${state.limit}, Remaining: ${state.remaining}, Reset: ${state.resetAt}`
+    ]);
+}
+
+/**
+ * Waits for the host's rate limit to reset if the known budget is exhausted.
+ *
+ * @param {string} url - The URL about to be requested.
+ * @param {RetryOptions} options - The retry options.
+ * @throws {RateLimitError} - If the reset is further away than `maxRateLimitWaitMs`.
+ */
+async function waitForBudget(url: string, options: RetryOptions) {
+    const state = rateLimitStates.get(getRateLimitKey(url));
+    if (!state || state.remaining !== 0 || state.resetAt === null) {
+        return;
+    }
+
+    const waitMs = state.resetAt - Date.now();
+    if (waitMs <= 0) {
+        return;
+    }
+    if (waitMs > options.maxRateLimitWaitMs) {
+        logMessage('httpClient - Budget Exhausted', [
+            'Rate limit exhausted and reset is too far away.',
+            `URL: ${url}, Wait: ${waitMs} ms, Max wait: ${options.maxRateLimitWaitMs} ms`
+        ]);
+        throw new RateLimitError(`Rate limit exhausted until ${new Date(state.resetAt).toISOString()}`, url, null, state.resetAt);
+    }
+
+    logMessage('httpClient - Deferring Request', [
+        'Rate limit exhausted, waiting for reset.',
+        `URL: ${url}, Wait: ${waitMs} ms`
+    ]);
+    await sleep(waitMs);
+}
+
+/**
+ * Computes an exponential backoff delay with jitter.
+ *
+ * @param {number} attempt - The zero-based attempt number.
+ * @param {RetryOptions} options - The retry options.
+ * @returns {number} The delay in milliseconds.
+ */
+function backoffDelay(attempt: number, options: RetryOptions): number {
+    const delay = Math.min(options.maxDelayMs, options.baseDelayMs * Math.pow(2, attempt));
+    return Math.round(delay * (0.5 + Math.random() / 2));
+}
+
+/**
+ * Determines whether a failed response was caused by a primary or secondary rate limit.
+ *
+ * @param {AxiosResponse} response - The failed response.
+ * @returns {boolean} True if the response is a rate limit rejection.
+ */
+function isRateLimitResponse(response: AxiosResponse): boolean {
+    if (response.status === 429) {
+        return true;
+    }
+    if (response.status !== 403) {
+        return false;
+    }
+    const headers: any = response.headers || {};
+    const message = String(response.data?.message || '').toLowerCase();
+    return headers['retry-after'] !== undefined || headers['x-ratelimit-remaining'] === '0' || message.includes('rate limit');
+}
+
+/**
+ * Parses a Retry-After header, which holds either a number of seconds or an HTTP-date.
+ *
+ * @param {string} value - The header value.
+ * @returns {number | null} The delay in milliseconds (0 for a date in the past), or null if neither form parses.
+ */
+function parseRetryAfter(value: string): number | null {
+    const trimmed = String(value).trim();
+    if (/^\d+$/.test(trimmed)) {
+        return parseInt(trimmed, 10) * 1000;
+    }
+    const date = Date.parse(trimmed);
+    return isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+/**
+ * Computes how long to wait before retrying a rate limited request.
+ *
+ * @param {AxiosResponse} response - The rate limited response.
+ * @param {number} attempt - The zero-based attempt number.
+ * @returns {number} The delay in milliseconds.
+ */
+function rateLimitDelay(response: AxiosResponse, attempt: number): number {
+    const headers: any = response.headers || {};
+    const retryAfter = headers['retry-after'] !== undefined ? parseRetryAfter(headers['retry-after']) : null;
+    if (retryAfter !== null) {
+        return retryAfter;
+    }
+    if (headers['x-ratelimit-remaining'] === '0' && headers['x-ratelimit-reset'] !== undefined) {
+        return Math.max(0, parseInt(headers['x-ratelimit-reset'], 10) * 1000 - Date.now());
+    }
+    return SECONDARY_LIMIT_DELAY_MS * Math.pow(2, attempt);
+}
+
+/**
+ * Performs a GET request, retrying transient failures and honouring rate limits.
+ * See requestWithRetry for the retry behaviour.
+ *
+ * @async
+ * @param {string} url - The URL to request.
+ * @param {any} headers - The request headers.
+ * @param {Partial<RetryOptions>} [overrides] - Options overriding the environment defaults.
+ * @returns {Promise<AxiosResponse>} - The successful (or 304) response.
+ */
+export async function getWithRetry(url: string, headers: any, overrides: Partial<RetryOptions> = {}): Promise<AxiosResponse> {
+    return requestWithRetry('GET', url, headers, undefined, overrides);
+}
+
+/**
+ * Performs a POST request with a JSON body, retrying transient failures and honouring rate limits.
+ * See requestWithRetry for the retry behaviour.
+ *
+ * @async
+ * @param {string} url - The URL to request.
+ * @param {any} body - The JSON request body.
+ * @param {any} headers - The request headers.
+ * @param {Partial<RetryOptions>} [overrides] - Options overriding the environment defaults.
+ * @returns {Promise<AxiosResponse>} - The successful response.
+ */
+export async function postWithRetry(url: string, body: any, headers: any, overrides: Partial<RetryOptions> = {}): Promise<AxiosResponse> {
+    return requestWithRetry('POST', url, headers, body, overrides);
+}
+
+/**
+ * Performs a request, retrying transient failures and honouring rate limits.
+ *
+ * Before each attempt the request is deferred if the host's `X-RateLimit-Remaining` budget
+ * is exhausted. 5xx responses and transient network errors are retried with jittered
+ * exponential backoff. 403/429 rate limit responses are retried after `Retry-After` or
+ * `X-RateLimit-Reset`. A 304 response is returned to the caller instead of being treated as a failure.
+ * In record mode every response is saved as a fixture; in replay mode the fixture is returned
+ * without touching the network.
+ *
+ * @async
+ * @param {'GET' | 'POST'} method - The HTTP method.
+ * @param {string} url - The URL to request.
+ * @param {any} headers - The request headers.
+ * @param {any} body - The JSON request body (POST only).
+ * @param {Partial<RetryOptions>} [overrides] - Options overriding the environment defaults.
+ * @returns {Promise<AxiosResponse>} - The successful (or 304) response.
+ * @throws {RateLimitError} - If the rate limit could not be waited out.
+ * @throws {Error} - The last error if the request is not retryable or retries are exhausted.
+ */
+export async function requestWithRetry(method: 'GET' | 'POST', url: string, headers: any, body?: any, overrides: Partial<RetryOptions> = {}): Promise<AxiosResponse> {
+    const options = { ...getRetryOptions(), ...overrides };
+    const mode = getHttpMode();
+    if (mode === 'replay') {
+        return replayResponse(method, url, body) as AxiosResponse;
+    }
+
+    for (let attempt = 0; ; attempt++) {
+        await waitForBudget(url, options);
+
+        try {
+            const response = method === 'GET' ? await axios.get(url, { headers }) : await axios.post(url, body, { headers });
+            updateRateLimitState(url, response.headers);
+            if (mode === 'record') {
+                recordFixture(method, url, headers, { status: response.status, headers: response.headers, body: response.data }, body);
+            }
+            return response;
+        } catch (error: any) {
+            const response: AxiosResponse | undefined = error.response;
+            if (mode === 'record') {
+                recordFixture(method, url, headers, response
+                    ? { status: response.status, headers: response.headers, body: response.data }
+                    : { status: 0, headers: {}, body: null, error: error.message }, body);
+            }
+            if (response) {
+                updateRateLimitState(url, response.headers);
+                if (response.status === 304) {
+                    return response; // Not modified; the caller holds the cached body
+                }
+            }
+
+            const rateLimited = response !== undefined && isRateLimitResponse(response);
+            const transient = response ? response.status >= 500 : TRANSIENT_ERROR_CODES.includes(error.code);
+            if (!rateLimited && !transient) {
+                throw error;
+            }
+
+            const delay = rateLimited ? rateLimitDelay(response!, attempt) : backoffDelay(attempt, options);
+            const resetAt = rateLimited ? Date.now() + delay : null;
+            if (attempt >= options.maxRetries || (rateLimited && delay > options.maxRateLimitWaitMs)) {
+                logMessage('httpClient - Giving Up', [
+                    `Request failed after ${attempt + 1} attempts.`,
+                    `URL: ${url}, Status: ${response?.status ?? error.code}, Rate limited: ${rateLimited}`
+                ]);
+                if (rateLimited) {
+                    throw new RateLimitError(`Rate limit exceeded for ${url}`, url, response!.status, resetAt);
+                }
+                throw error;
+            }
+
+            logMessage('httpClient - Retrying', [
+                `Retrying request in ${delay} ms.`,
+                `URL: ${url}, Attempt: ${attempt + 1}, Status: ${response?.status ?? error.code}, Rate limited: ${rateLimited}`
+            ]);
+            await sleep(delay);
+        }
+    }
+}
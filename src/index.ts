@@ -1,8 +1,56 @@
+import * as fs from 'fs';
 import { exit } from "process";
-import { get_valid_urls, URLType } from "./URL";
-import { getMetrics } from "./metrics/getMetrics";
+import { get_valid_urls } from "./URL";
+import { getDetailFields, scorePackage, ScoredPackage } from "./metrics/getMetrics";
 import { logMessage } from './logFile';
 import { checkGitHubToken, checkLogFile } from "./checkEnv";
+import { clearCache, closeCache, getCacheStats, setCacheEnabled } from "./cache";
+import { setHttpMode } from "./recorder";
+import { CliError, CliOptions, getUsage, parseArgs, parseMetrics } from './cli';
+import { runDoctorChecks } from './doctor';
+import { formatExplanation, formatPolicyResults, formatProgress } from './output';
+import { parsePackageRef } from './packageRef';
+import { writeReport } from './report';
+import { ConfigError, getConfigSource, loadConfig } from './config';
+import { getMetricNames } from './metrics/registry';
+import { getDefaultConcurrency, getNumberOfCores, runPool, setWorkerThreadsEnabled } from './multithread';
+import { createResultStream, readCompletedURLs, ResultStream } from './resultStream';
+import { evaluatePolicy, loadPolicy, Policy } from './policy';
+
+/**
+ * Prints an error for the user and exits with status 1.
+ *
+ * @param {string} message - The error message.
+ */
+function fail(message: string): never {
+    logMessage('main - Error', ['Exiting with an error.', message]);
+    console.error(`Error: ${message}`);
+    exit(1);
+}
+
+/**
+ * Collects the URLs to score: the accessible URLs of the URL file, or the --repo URLs.
+ *
+ * @param {CliOptions} options - The parsed command line.
+ * @returns {Promise<string[]>} The URLs to score.
+ */
+async function getURLs(options: CliOptions): Promise<string[]> {
+    if (options.file) {
+        if (!fs.existsSync(options.file)) {
+            fail(`URL file not found: ${options.file}`);
+        }
+        logMessage('main - Fetching Valid URLs', ['Fetching valid URLs from the provided filename.', `Filename: ${options.file}`]);
+        return get_valid_urls(options.file);
+    }
+
+    for (const url of options.repos) {
+        const ref = parsePackageRef(url);
+        if (!(ref.owner && ref.repo) && !ref.packageName) {
+            fail(`Not a repository or npm package URL: ${url}`);
+        }
+    }
+    return options.repos;
+}
 
 /**
  * Main function to process command line arguments, fetch valid URLs,
@@ -10,45 +58,213 @@ import { checkGitHubToken, checkLogFile } from "./checkEnv";
  */
 async function main() {
     logMessage('main - Start', ['Starting the main function.', 'Processing command line arguments.']);
-    let args = process.argv.slice(2);
-    logMessage('main - Arguments', [`Arguments received: ${JSON.stringify(args)}`, 'Checking if the number of arguments is correct.']);
+    const args = process.argv.slice(2);
+    logMessage('main - Arguments', [`Arguments received: ${JSON.stringify(args)}`, 'Parsing the command line.']);
+
+    let options: CliOptions;
+    try {
+        options = parseArgs(args);
+    } catch (error) {
+        if (error instanceof CliError) {
+            fail(error.message);
+        }
+        throw error;
+    }
+
+    if (options.command === 'help') {
+        console.log(getUsage(options.helpTopic));
+        return;
+    }
+
+    if (!options.cache) {
+        setCacheEnabled(false);
+    }
+
+    // Record every request to FIXTURE_DIR, or serve every request from it
+    if (options.httpMode !== 'live') {
+        setHttpMode(options.httpMode);
+    }
+
+    if (options.command === 'cache') {
+        if (options.cacheAction === 'clear') {
+            const removed = await clearCache();
+            console.log(`Removed ${removed} cached responses.`);
+        } else {
+            const stats = await getCacheStats();
+            console.log(`Cache file: ${stats.path}`);
+            console.log(`Entries: ${stats.entries} (${stats.fresh} fresh, ${stats.stale} stale)`);
+            console.log(`Size: ${(stats.sizeBytes / 1024).toFixed(1)} KB`);
+        }
+        await closeCache();
+        return;
+    }
+
+    if (options.command === 'doctor') {
+        const checks = await runDoctorChecks(options.config);
+        for (const check of checks) {
+            console.log(`[${check.ok ? 'ok' : check.required ? 'FAIL' : 'warn'}] ${check.name}: ${check.detail}`);
+        }
+        await closeCache();
+        if (checks.some(check => !check.ok && check.required)) {
+            exit(1);
+        }
+        return;
+    }
+
+    // Weights and metric thresholds come from --config or the nearest .pkgscorerc
+    try {
+        loadConfig(options.config);
+    } catch (error) {
+        if (error instanceof ConfigError) {
+            fail(error.message);
+        }
+        throw error;
+    }
+    logMessage('main - Config', ['Configuration loaded.', `Config file: ${getConfigSource() ?? 'none, using defaults'}`]);
 
-    // Check for invalid number of arguments
-    if (args.length !== 1) {
-        logMessage('main - Invalid Arguments', ['Invalid number of arguments provided.', `Arguments length: ${args.length}`]);
-        exit(1);
+    // The policy can set rules on metrics of the plugin modules the config file loaded
+    let policy: Policy | null = null;
+    try {
+        policy = options.policy ? loadPolicy(options.policy) : null;
+    } catch (error) {
+        if (error instanceof ConfigError) {
+            fail(error.message);
+        }
+        throw error;
+    }
+
+    // --metrics can name metrics of the plugin modules the config file loaded
+    let metrics: string[];
+    try {
+        metrics = options.metrics ? parseMetrics(options.metrics) : getMetricNames();
+    } catch (error) {
+        if (error instanceof CliError) {
+            fail(error.message);
+        }
+        throw error;
     }
 
     // Check for GitHub Token
     logMessage('main - Environment', ['Checking for GitHub Token in environment.', 'Checking for GitHub Token in environment.']);
     if(!checkGitHubToken()){
-        exit(1);
+        fail('GITHUB_TOKEN is not set. Run `doctor` to check the environment.');
     }
 
     // Check for Log File
     logMessage('main - Environment', ['Checking for Log File in environment.', 'Checking for Log File in environment.']);
     if(!checkLogFile()){
-        exit(1);
+        fail('LOG_FILE is not set. Run `doctor` to check the environment.');
     }
 
-    let filename = args[0];
-    logMessage('main - Filename', [`Filename received: ${filename}`, 'Proceeding to fetch valid URLs.']);
-
-    logMessage('main - Fetching Valid URLs', ['Fetching valid URLs from the provided filename.', 'Awaiting results from get_valid_urls.']);
-    let valid_urls = await get_valid_urls(filename);
+    let valid_urls = await getURLs(options);
     logMessage('main - Valid URLs', [`Valid URLs fetched: ${JSON.stringify(valid_urls)}`, 'Proceeding to gather metrics for each valid URL.']);
 
-    let repo_stats = [];
+    // With --resume, the URLs already in the output file are not scored again
+    if (options.resume) {
+        let completed = new Set<string>();
+        try {
+            completed = readCompletedURLs(options.out as string);
+        } catch (error) {
+            fail(`Cannot resume from ${options.out}: ${error instanceof Error ? error.message : error}`);
+        }
+        const remaining = valid_urls.filter(url => !completed.has(url));
+        console.error(`Resuming: ${valid_urls.length - remaining.length} of ${valid_urls.length} URLs are already in ${options.out}.`);
+        valid_urls = remaining;
+    }
+
+    // Results of `score` are written as each URL completes, so an interrupted run keeps the ones already scored
+    let stream: ResultStream | null = null;
+    if (options.command === 'score') {
+        try {
+            stream = createResultStream({
+                format: options.output,
+                formatOptions: { latency: options.latency ?? undefined },
+                order: options.order,
+                path: options.out,
+                append: options.resume
+            });
+        } catch (error) {
+            fail(`Cannot write the results to ${options.out}: ${error instanceof Error ? error.message : error}`);
+        }
+    }
+
+    setWorkerThreadsEnabled(options.threads);
+
+    // Score several URLs at once; without --concurrency the limit follows the cores and the API budget left
+    const cores = getNumberOfCores();
+    const concurrency = options.concurrency ?? (() => getDefaultConcurrency(cores));
+    logMessage('main - Concurrency', ['Scoring URLs concurrently.', `URLs: ${valid_urls.length}, Concurrency: ${options.concurrency ?? `default (${getDefaultConcurrency(cores)} now)`}`]);
 
-    for (let i = 0; i < valid_urls.length; i++) {
-        logMessage('main - Processing URL', [`Processing URL: ${valid_urls[i]}`, 'Awaiting metrics retrieval.']);
-        repo_stats.push(await getMetrics(valid_urls[i]));
-        logMessage('main - Metrics Retrieved', [`Metrics retrieved for URL: ${valid_urls[i]}`, 'Storing metrics in repository stats.']);
+    // Progress goes to stderr, on one line that is rewritten when stderr is a terminal
+    const showProgress = (options.progress ?? process.stderr.isTTY === true) && valid_urls.length > 1;
+    let failedURLs = 0;
+    const scored: ScoredPackage[] = await runPool(valid_urls, async (url, index) => {
+        logMessage('main - Processing URL', [`Processing URL: ${url}`, 'Awaiting metrics retrieval.']);
+        const result = await scorePackage(url, metrics);
+        logMessage('main - Metrics Retrieved', [`Metrics retrieved for URL: ${url}`, 'Writing the result.']);
+
+        // With --explain, each result carries the details and explanations of its scores. A progress line on the
+        // terminal is cleared first, so results printed to the same terminal start on a clean line
+        if (showProgress && process.stderr.isTTY) {
+            process.stderr.write('\r\x1b[K');
+        }
+        stream?.write(index, options.explain ? { ...result.data, ...getDetailFields(result.details), Explanation: result.explanations } : result.data);
+        if (Object.keys(result.errors).length > 0) {
+            failedURLs++;
+        }
+        return result;
+    }, concurrency, (progress, url) => {
+        if (!showProgress) {
+            return;
+        }
+        const line = formatProgress(progress, url, failedURLs);
+        process.stderr.write(process.stderr.isTTY ? `\r${line}\x1b[K${progress.done === progress.total ? '\n' : ''}` : `${line}\n`);
+    });
+
+    // A failed metric leaves a null score and an Errors entry; the other results are still printed
+    const failed = scored.filter(result => Object.keys(result.errors).length > 0);
+    for (const { data, errors } of failed) {
+        for (const [name, failure] of Object.entries(errors)) {
+            console.error(`Warning: ${data.URL}: ${name} failed (${failure!.code}): ${failure!.message}`);
+        }
+    }
+
+    // Streaming formats are written by now; the others are written whole
+    logMessage('main - Outputting Stats', [`Outputting stats for ${scored.length} repositories.`, `Format: ${options.command === 'explain' ? 'explanation' : options.output}`]);
+    if (options.command === 'explain') {
+        console.log(formatExplanation(scored[0], metrics));
+    }
+    stream?.close();
+    if (options.out) {
+        console.error(`Results written to ${options.out}`);
     }
 
-    for (let i = 0; i < repo_stats.length; i++) {
-        logMessage('main - Outputting Stats', [`Outputting stats for repository: ${repo_stats[i]}`, 'Printing metrics to console.']);
-        console.log(repo_stats[i]);
+    // Each package is checked against the policy once every URL is scored
+    const policyResults = policy ? scored.map(result => evaluatePolicy(policy as Policy, result)) : null;
+    if (policyResults) {
+        console.error(formatPolicyResults(policyResults));
+    }
+
+    if (options.report) {
+        try {
+            writeReport(options.report.format, options.report.path, scored, policyResults);
+        } catch (error) {
+            fail(`Cannot write the report to ${options.report.path}: ${error instanceof Error ? error.message : error}`);
+        }
+        console.error(`Report written to ${options.report.path}`);
+    }
+
+    await closeCache();
+
+    // The exit status tells CI that a package violates the policy, or that some results are incomplete
+    const violating = policyResults?.filter(result => !result.passed) ?? [];
+    if (violating.length > 0) {
+        logMessage('main - End', ['Some packages violate the policy.', `Packages: ${violating.map(result => result.url).join(', ')}`]);
+        exit(3);
+    }
+    if (failed.length > 0) {
+        logMessage('main - End', ['Some metrics failed.', `URLs with failed metrics: ${failed.length} of ${scored.length}`]);
+        exit(2);
     }
 
     logMessage('main - End', ['Main function completed successfully.', 'Exiting the application.']);
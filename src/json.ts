@@ -1,11 +1,15 @@
 import { logMessage } from "./logFile";
+import { MetricName } from "./metrics/getMetrics";
+import { MetricExplanation, MetricFailure } from "./metrics/metricResult";
+import { getMetricNames } from "./metrics/registry";
 
 /**
  * Interface representing a data object used for storing repository metrics.
+ * Metrics loaded from plugin modules add their own score and `_Latency` fields.
  * 
  * @interface DataObject
  */
-interface DataObject {
+export interface DataObject {
     URL: string;                                    // The URL of the repository
     NetScore: number | null;                        // Overall net score of the repository
     NetScore_Latency: number | null;                // Latency for net score
@@ -19,14 +23,31 @@ interface DataObject {
     ResponsiveMaintainer_Latency: number | null;    // Latency for responsive maintainer score
     License: number | null;                         // License metric
     License_Latency: number | null;                 // Latency for license metric
+    ConfigHash?: string;                            // Hash of the effective configuration
+    Errors?: Record<MetricName, MetricFailure>;     // Why each failed metric failed, if any did
+    Explanation?: Partial<Record<MetricName, MetricExplanation>>;  // How each metric arrived at its score, with --explain
+    [field: string]: string | number | null | undefined | Record<MetricName, MetricFailure> | Partial<Record<MetricName, MetricExplanation>>;  // Fields of plugin metrics
+}
+
+/**
+ * Gets a score, latency or the URL of a DataObject by field name.
+ *
+ * @param {DataObject} data - The DataObject.
+ * @param {string} field - The field name.
+ * @returns {string | number | null} The value, or null if the field is not set.
+ */
+export function getDataField(data: DataObject, field: string): string | number | null {
+    const value = data[field];
+    return typeof value === 'string' || typeof value === 'number' ? value : null;
 }
 
 /**
  * Initializes a DataObject for a given repository with all metrics set to null/empty.
  *
+ * @param {string[]} [metrics=getMetricNames()] - The metrics to add fields for, in output order.
  * @returns {DataObject} An initialized DataObject with null metrics.
  */
-export function initJSON(): DataObject {
+export function initJSON(metrics: string[] = getMetricNames()): DataObject {
     logMessage('initJSON - Start', ['Initializing DataObject with null metrics.', 'Creating default metrics object.']);
     
     const defaultData: DataObject = {
@@ -44,6 +65,10 @@ export function initJSON(): DataObject {
         License: null,
         License_Latency: null
     };
+    for (const name of metrics) {
+        defaultData[name] = null;
+        defaultData[`${name}_Latency`] = null;
+    }
     
     logMessage('initJSON - Complete', ['DataObject initialized successfully.', JSON.stringify(defaultData)]);
     return defaultData;
@@ -52,10 +77,10 @@ export function initJSON(): DataObject {
 /**
  * Converts a DataObject to a single-line JSON string with spaces between each metric.
  *
- * @param {DataObject} data - The DataObject to be formatted.
+ * @param {Partial<DataObject>} data - The DataObject, or some of its fields, to be formatted.
  * @returns {string} A single-line JSON string representation of the DataObject with spaces between metrics.
  */
-export function formatJSON(data: DataObject): string {
+export function formatJSON(data: Partial<DataObject>): string {
     logMessage('formatJSON - Start', ['Formatting DataObject to JSON string.', `DataObject: ${JSON.stringify(data)}`]);
     
     let jsonString = JSON.stringify(data);
@@ -0,0 +1,82 @@
+import { LICENSE_CORPUS } from './licenseCorpus';
+
+/**
+ * Interface representing the corpus license closest to a text.
+ *
+ * @interface LicenseMatch
+ */
+export interface LicenseMatch {
+    license: string;        // SPDX id of the closest license text
+    confidence: number;     // Similarity to it, from 0 (nothing in common) to 1 (the same words in the same order)
+}
+
+// Word pairs of each corpus text, built on first use
+let corpusPairs: [string, Set<string>][] | null = null;
+
+/**
+ * Normalizes a license text for comparison: copyright lines, URLs, case, punctuation and line
+ * wrapping are dropped, and spelling variants such as `licence` are unified.
+ *
+ * @param {string} text - The license text.
+ * @returns {string} The words of the text, separated by single spaces.
+ */
+export function normalizeLicenseText(text: string): string {
+    return text
+        .replace(/^\s*(copyright\s*(\(c\)|©|\d|<)|\(c\)|©).*$/gim, ' ')  // Holders and years differ in every copy
+        .replace(/^\s*all rights reserved\.?\s*$/gim, ' ')
+        .replace(/<?https?:\/\/\S+/g, ' ')
+        .toLowerCase()
+        .replace(/\blicen[cs]e/g, 'license')
+        .replace(/&/g, ' and ')
+        .replace(/[^a-z0-9]+/g, ' ')
+        .trim();
+}
+
+/**
+ * Gets the pairs of adjacent words of a normalized text, which keep some of its word order.
+ *
+ * @param {string} normalized - The normalized text.
+ * @returns {Set<string>} The word pairs.
+ */
+function getWordPairs(normalized: string): Set<string> {
+    const words = normalized.split(' ');
+    const pairs = new Set<string>();
+    for (let i = 1; i < words.length; i++) {
+        pairs.add(`${words[i - 1]} ${words[i]}`);
+    }
+    return pairs;
+}
+
+/**
+ * Compares a text with every license text of the shipped corpus, offline. The similarity is the
+ * Dice coefficient of the word pairs of the two normalized texts, so a text with extra paragraphs
+ * or missing clauses scores lower than an exact copy. The comparison is CPU-bound, which is why
+ * it is an export that can run in a worker thread.
+ *
+ * @param {string} text - The license text, such as a LICENSE file or the License section of a README.
+ * @returns {LicenseMatch | null} The closest license and the similarity to it, or null if the text has no words.
+ */
+export function classifyLicenseText(text: string): LicenseMatch | null {
+    const pairs = getWordPairs(normalizeLicenseText(text));
+    if (pairs.size === 0) {
+        return null;
+    }
+    if (!corpusPairs) {
+        corpusPairs = Object.entries(LICENSE_CORPUS).map(([license, corpusText]) => [license, getWordPairs(normalizeLicenseText(corpusText))]);
+    }
+
+    let best: LicenseMatch | null = null;
+    for (const [license, licensePairs] of corpusPairs) {
+        let shared = 0;
+        for (const pair of pairs) {
+            if (licensePairs.has(pair)) {
+                shared++;
+            }
+        }
+        const confidence = Math.round(2 * shared / (pairs.size + licensePairs.size) * 1000) / 1000;
+        if (!best || confidence > best.confidence) {
+            best = { license, confidence };
+        }
+    }
+    return best;
+}
@@ -1,52 +1,302 @@
-import { getGitHubAPILink, getContributionCounts } from '../githubData';
-import { fetchJsonFromApi } from './../API';
+import { createRepoContext, RepoContext } from '../repoContext';
 import { getTimestampWithThreeDecimalPlaces } from './getLatency';
 import { logMessage } from '../logFile';
+import { MetricResult } from './metricResult';
+import { getConfig, ScoreConfig } from '../config';
+import { Commit } from '../providers/provider';
+
+// Number of top contributors listed in the explanation of the score
+const LISTED_CONTRIBUTORS = 10;
+
+// Most recent commits whose changed files are fetched for file ownership, one request each
+const MAX_FILE_COMMITS = 100;
 
 /**
- * Calculates the Bus Factor of a repository based on the contribution distribution.
- * The Bus Factor represents the minimum number of key contributors required
- * to maintain the project, relative to the total number of contributors.
- * 
- * @param {string} URL - The GitHub repository URL.
- * @returns {Promise<{ score: number, latency: number }>} - The calculated Bus Factor and latency.
+ * Interface representing one person behind the commits of a repository, with every
+ * login, name and email they committed under.
+ *
+ * @interface CommitAuthor
  */
-export async function getBusFactor(URL: string): Promise<{ score: number, latency: number }> {
-    const latency_start = getTimestampWithThreeDecimalPlaces();
-    logMessage('getBusFactor', ['Fetching contributor data from GitHub.', `URL: ${URL}`]);
+export interface CommitAuthor {
+    name: string;           // Login if any commit is linked to an account, else the most used name or email
+    aliases: string[];      // Every login, name and email of the author, sorted
+    commits: Commit[];      // The author's commits
+}
+
+/**
+ * Converts an author pattern to a regular expression: `*` matches any characters and
+ * the match ignores case.
+ *
+ * @param {string} pattern - The pattern, such as `*[bot]`.
+ * @returns {RegExp} The regular expression matching the whole value.
+ */
+export function toPatternRegExp(pattern: string): RegExp {
+    const escaped = pattern.split('*').map(part => part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')).join('.*');
+    return new RegExp(`^${escaped}$`, 'i');
+}
+
+/**
+ * Reads the login from a GitHub noreply email, such as `123+octocat@users.noreply.github.com`.
+ *
+ * @param {string | null} email - The email.
+ * @returns {string | null} The login, or null for other emails.
+ */
+function getNoreplyLogin(email: string | null): string | null {
+    const match = /^(?:\d+\+)?([^@]+)@users\.noreply\.github\.com$/i.exec(email ?? '');
+    return match ? match[1] : null;
+}
+
+/**
+ * Gets the identities of a commit author: their login (also read from GitHub noreply emails)
+ * and email, each lowercased and tagged with its kind. Different people can share a name, so
+ * the name is an identity only for a commit without a login or email.
+ *
+ * @param {Commit} commit - The commit.
+ * @returns {string[]} The identities, such as `login:octocat`.
+ */
+function getIdentities(commit: Commit): string[] {
+    const login = commit.authorLogin ?? getNoreplyLogin(commit.authorEmail);
+    const identities = [
+        login ? `login:${login.toLowerCase()}` : null,
+        commit.authorEmail ? `email:${commit.authorEmail.toLowerCase()}` : null
+    ].filter((identity): identity is string => identity !== null);
+    return identities.length === 0 && commit.authorName ? [`name:${commit.authorName.trim().toLowerCase()}`] : identities;
+}
+
+/**
+ * Checks whether a commit was made by a bot: its login, name, email or the login of its
+ * noreply email matches one of the patterns.
+ *
+ * @param {Commit} commit - The commit.
+ * @param {RegExp[]} patterns - The bot patterns.
+ * @returns {boolean} True if the author is a bot.
+ */
+function isBotCommit(commit: Commit, patterns: RegExp[]): boolean {
+    const values = [commit.authorLogin, commit.authorName, commit.authorEmail, getNoreplyLogin(commit.authorEmail)];
+    return values.some(value => value && patterns.some(pattern => pattern.test(value)));
+}
+
+/**
+ * Groups commits by author. Commits that share a login or email belong to the same person,
+ * so someone who committed from two machines or under an old email counts once.
+ *
+ * @param {Commit[]} commits - The commits.
+ * @returns {CommitAuthor[]} The authors, most commits first; commits without any author identity are left out.
+ */
+export function groupCommitAuthors(commits: Commit[]): CommitAuthor[] {
+    // Union-find over identities: every identity of a commit joins the set of its first one
+    const parents = new Map<string, string>();
+    const find = (identity: string): string => {
+        let root = identity;
+        while (parents.get(root) !== root) {
+            root = parents.get(root) as string;
+        }
+        parents.set(identity, root);
+        return root;
+    };
+    for (const identities of commits.map(getIdentities)) {
+        for (const identity of identities) {
+            if (!parents.has(identity)) {
+                parents.set(identity, identity);
+            }
+            parents.set(find(identity), find(identities[0]));
+        }
+    }
+
+    const groups = new Map<string, { commits: Commit[], aliases: Set<string>, logins: Map<string, number> }>();
+    for (const commit of commits) {
+        const identities = getIdentities(commit);
+        if (identities.length === 0) {
+            continue;
+        }
+        const root = find(identities[0]);
+        const group = groups.get(root) ?? { commits: [], aliases: new Set<string>(), logins: new Map<string, number>() };
+        groups.set(root, group);
+        group.commits.push(commit);
 
-    let data = await fetchJsonFromApi(getGitHubAPILink(URL, "contributors"));
-    logMessage('getBusFactor', ['Contributor data fetched.', `Data length: ${data.length}`]);
+        const login = commit.authorLogin ?? getNoreplyLogin(commit.authorEmail);
+        for (const alias of [login, commit.authorName, commit.authorEmail]) {
+            if (alias) {
+                group.aliases.add(alias);
+            }
+        }
+        const display = login ? `login:${login}` : commit.authorName ?? commit.authorEmail as string;
+        group.logins.set(display, (group.logins.get(display) || 0) + 1);
+    }
+
+    return Array.from(groups.values())
+        .map(group => {
+            // A login names the author best; otherwise the name or email they used most
+            const names = Array.from(group.logins.entries()).sort((a, b) => Number(b[0].startsWith('login:')) - Number(a[0].startsWith('login:')) || b[1] - a[1]);
+            return { name: names[0][0].replace(/^login:/, ''), aliases: Array.from(group.aliases).sort(), commits: group.commits };
+        })
+        .sort((a, b) => b.commits.length - a.commits.length || a.name.localeCompare(b.name));
+}
 
-    if (data.length === 0) { // Check if no contributor data
-        const latencyMs = parseFloat((getTimestampWithThreeDecimalPlaces() - latency_start).toFixed(2));
-        logMessage('getBusFactor', ['No contributor data found.', `Latency: ${latencyMs} ms`]);
-        return { score: 0, latency: latencyMs };
+/**
+ * Counts the people who must leave before a share of the work has no author left: authors
+ * are removed in order of the items they own until the items owned by no remaining author
+ * reach the share.
+ *
+ * @param {string[][]} owners - The owners of each item (a commit, or a file).
+ * @param {number} share - The share of the items that must be left without an owner.
+ * @returns {{ people: string[], orphanedShare: number }} The authors who must leave, in order, and the share of the items left without an owner.
+ */
+export function getKeyAuthors(owners: string[][], share: number): { people: string[], orphanedShare: number } {
+    const owned = new Map<string, number>();
+    for (const itemOwners of owners) {
+        for (const owner of itemOwners) {
+            owned.set(owner, (owned.get(owner) || 0) + 1);
+        }
     }
+    const order = Array.from(owned.entries()).sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0])).map(([owner]) => owner);
 
-    let threshold = 0.95; // Define a threshold for % critical for project maintenance
-    let num_committers = data.length; // Get number of contributors in repo
-    logMessage('getBusFactor', ['Calculating Bus Factor.', `Total contributors: ${num_committers}`]);
+    const people: string[] = [];
+    let orphaned = 0;
+    while (people.length < order.length && orphaned < share * owners.length - 1e-9) {
+        people.push(order[people.length]);
+        const gone = new Set(people);
+        orphaned = owners.filter(itemOwners => itemOwners.every(owner => gone.has(owner))).length;
+    }
+    return { people, orphanedShare: owners.length > 0 ? orphaned / owners.length : 0 };
+}
 
-    let commit_count = getContributionCounts(data); // Get array of commit counts
-    logMessage('getBusFactor', ['Commit counts retrieved.', `Commit counts: ${JSON.stringify(commit_count)}`]);
+/**
+ * Gets the owners of each file changed by the commits: the authors with at least half as
+ * many commits to the file as its most frequent author.
+ *
+ * @param {CommitAuthor[]} authors - The authors.
+ * @param {Map<string, string[]>} filesBySha - The files changed by each commit whose files are known.
+ * @returns {Map<string, string[]>} The owners of each file, by path.
+ */
+function getFileOwners(authors: CommitAuthor[], filesBySha: Map<string, string[]>): Map<string, string[]> {
+    const counts = new Map<string, Map<string, number>>();
+    for (const author of authors) {
+        for (const commit of author.commits) {
+            for (const file of filesBySha.get(commit.sha) ?? []) {
+                const fileCounts = counts.get(file) ?? new Map<string, number>();
+                counts.set(file, fileCounts);
+                fileCounts.set(author.name, (fileCounts.get(author.name) || 0) + 1);
+            }
+        }
+    }
+    return new Map(Array.from(counts.entries()).map(([file, fileCounts]) => {
+        const top = Math.max(...fileCounts.values());
+        return [file, Array.from(fileCounts.entries()).filter(([, count]) => count * 2 >= top).map(([name]) => name)];
+    }));
+}
 
-    let total_commits = commit_count.reduce((sum, count) => sum + count, 0); // Sum all commit counts
-    let current_percentage = 0.0; // Start current commit percentage at 0
-    let i = 0; // Reset i to 0
+/**
+ * Gets the start of a history window: midnight UTC, `months` months before `now`,
+ * so runs on the same day share cached commit and comment listings.
+ *
+ * @param {Date} now - The current time.
+ * @param {number} months - The length of the window in months.
+ * @returns {Date} The start of the window.
+ */
+export function getWindowStart(now: Date, months: number): Date {
+    const since = new Date(now.getTime());
+    since.setUTCMonth(since.getUTCMonth() - months);
+    since.setUTCHours(0, 0, 0, 0);
+    return since;
+}
 
-    while (current_percentage < threshold && i < num_committers) { // While threshold not hit and still more committers
-        current_percentage += (commit_count[i] / total_commits); // Add each contributor's contribution percentage
-        logMessage('getBusFactor', ['Current percentage updated.', `Current percentage: ${current_percentage.toFixed(4)}`]);
-        i++; // Move to the next contributor
+/**
+ * Calculates the Bus Factor of a repository from its recent commit history: the number
+ * of people who must leave before `commitShare` of the commits made in the last
+ * `windowMonths` months (or of the files they changed, with `fileOwnership`) lose every
+ * author. Bots are left out and the aliases of one person are merged. The score is the
+ * bus factor divided by `target`, capped at 1.
+ *
+ * @param {string} URL - The GitHub repository URL.
+ * @param {RepoContext} [context] - The shared repository data; created from `URL` if omitted.
+ * @param {ScoreConfig} [config] - The scoring configuration; the run's configuration if omitted.
+ * @param {Date} [now=new Date()] - The current time, which the history window ends at.
+ * @returns {Promise<MetricResult>} - The calculated Bus Factor, latency, explanation and the bus factor itself as `People`.
+ */
+export async function getBusFactor(URL: string, context: RepoContext = createRepoContext(URL), config: ScoreConfig = getConfig(), now: Date = new Date()): Promise<MetricResult> {
+    const latency_start = getTimestampWithThreeDecimalPlaces();
+    const settings = config.busFactor;
+    const since = getWindowStart(now, settings.windowMonths);
+    const sinceDay = since.toISOString().slice(0, 10);
+    logMessage('getBusFactor', ['Fetching commit history.', `URL: ${URL}, Since: ${sinceDay}`]);
+
+    const { data, truncated } = await context.getCommits(since.toISOString());
+    const bots = settings.bots.map(toPatternRegExp);
+    const commits = data.filter(commit => !isBotCommit(commit, bots));
+    const authors = groupCommitAuthors(commits);
+    const authorCommits = authors.reduce((sum, author) => sum + author.commits.length, 0);
+    logMessage('getBusFactor', ['Commit history fetched.', `Commits: ${data.length}, Bot commits: ${data.length - commits.length}, Authors: ${authors.length}, Truncated: ${truncated}`]);
+
+    const thresholds = { commitShare: settings.commitShare, windowMonths: settings.windowMonths, target: settings.target, fileOwnership: settings.fileOwnership };
+    const inputs = { since: sinceDay, commits: authorCommits, botCommits: data.length - commits.length, authors: authors.length };
+
+    if (authors.length === 0) { // Check if no commits by people
+        const latencyMs = parseFloat((getTimestampWithThreeDecimalPlaces() - latency_start).toFixed(3));
+        logMessage('getBusFactor', ['No commits found in the window.', `Latency: ${latencyMs} ms`]);
+        return {
+            score: 0,
+            latency: latencyMs,
+            explanation: {
+                inputs: { ...inputs, topContributors: [] },
+                intermediate: { busFactor: 0 },
+                thresholds,
+                complete: !truncated,
+                reasoning: `No commits by people were made since ${sinceDay}, so the score is 0.`
+            },
+            details: { People: 0 }
+        };
+    }
+
+    // Commits are owned by their author; with file ownership, files by their main authors
+    let owners: string[][] = authors.flatMap(author => author.commits.map(() => [author.name]));
+    let filesOwned: Map<string, number> | null = null;
+    let complete = !truncated;
+    if (settings.fileOwnership) {
+        const recent = commits.slice(0, MAX_FILE_COMMITS);
+        const prefix = context.subdirectory ? `${context.subdirectory}/` : '';
+        const filesBySha = new Map<string, string[]>();
+        await Promise.all(recent.map(async commit => {
+            const files = await context.getCommitFiles(commit.sha);
+            if (files) {
+                filesBySha.set(commit.sha, files.filter(file => file.startsWith(prefix)));
+            }
+        }));
+        complete = complete && commits.length <= MAX_FILE_COMMITS && filesBySha.size === recent.length;
+        const fileOwners = getFileOwners(authors, filesBySha);
+        owners = Array.from(fileOwners.values());
+        filesOwned = new Map<string, number>();
+        for (const name of owners.flat()) {
+            filesOwned.set(name, (filesOwned.get(name) || 0) + 1);
+        }
+        logMessage('getBusFactor', ['File ownership calculated.', `Commits with files: ${filesBySha.size} of ${recent.length}, Files: ${owners.length}`]);
     }
 
-    let bus_factor = 1 - (i / num_committers); // Calculate Bus Factor from Inverse
-    bus_factor = Math.round(bus_factor * 10) / 10; // Round to nearest tenth
-    logMessage('getBusFactor', ['Bus Factor calculated.', `Bus Factor: ${bus_factor}`]);
+    const { people, orphanedShare } = getKeyAuthors(owners, settings.commitShare);
+    const bus_factor = people.length;
+    const score = parseFloat(Math.min(1, bus_factor / settings.target).toFixed(3));
+    logMessage('getBusFactor', ['Bus Factor calculated.', `Bus Factor: ${bus_factor}, Key authors: ${people.join(', ')}, Score: ${score}`]);
 
     const latencyMs = parseFloat((getTimestampWithThreeDecimalPlaces() - latency_start).toFixed(3));
     logMessage('getBusFactor', ['Latency calculated.', `Latency: ${latencyMs} ms`]);
 
-    return { score: bus_factor, latency: latencyMs };
-}
\ No newline at end of file
+    // Share of the commits (and files owned) of each top contributor
+    const topContributors = authors.slice(0, LISTED_CONTRIBUTORS).map(author => ({
+        login: author.name,
+        aliases: author.aliases.join(', '),
+        commits: author.commits.length,
+        share: parseFloat((author.commits.length / authorCommits).toFixed(3)),
+        ...(filesOwned ? { files: filesOwned.get(author.name) || 0 } : {})
+    }));
+
+    const work = filesOwned ? `own ${Math.round(orphanedShare * 100)}% of the ${owners.length} files changed` : `made ${Math.round(orphanedShare * 100)}% of the ${authorCommits} commits`;
+    const explanation = {
+        inputs: { ...inputs, ...(filesOwned ? { files: owners.length } : {}), topContributors },
+        intermediate: { busFactor: bus_factor, keyContributors: people.join(', '), keyContributorShare: parseFloat(orphanedShare.toFixed(3)) },
+        thresholds,
+        complete,
+        reasoning: `The top ${bus_factor} of ${authors.length} authors ${work} since ${sinceDay}, so the bus factor is ${bus_factor} and the score is ${bus_factor}/${settings.target}${bus_factor > settings.target ? ' capped at 1' : ''}, or ${score}.`
+    };
+
+    return { score, latency: latencyMs, explanation, details: { People: bus_factor } };
+}
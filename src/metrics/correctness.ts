@@ -1,68 +1,192 @@
-import { getGitHubAPILink } from '../githubData';
-import { fetchJsonFromApi } from '../API';
+import { createRepoContext, RepoContext } from '../repoContext';
 import { getTimestampWithThreeDecimalPlaces } from './getLatency';
 import { logMessage } from '../logFile';
+import { MetricResult } from './metricResult';
+import { CORRECTNESS_SIGNALS, CorrectnessSignal, getConfig, ScoreConfig } from '../config';
+import { getWindowStart, toPatternRegExp } from './busFactor';
+import { Check } from '../providers/provider';
+
+// Most recent commits on the default branch whose CI checks are read
+const CI_COMMITS = 5;
+
+// The test script `npm init` writes, which runs no tests
+const PLACEHOLDER_TEST_SCRIPT = /no test specified/i;
+
+/**
+ * Gets the outcome of the CI checks of one commit: failed if any check failed, passed if
+ * every check finished and at least one succeeded.
+ *
+ * @param {Check[] | null} checks - The checks of the commit, null if they cannot be listed.
+ * @returns {'success' | 'failure' | null} The outcome, or null if there is no finished check or some are still running.
+ */
+function getBuildOutcome(checks: Check[] | null): 'success' | 'failure' | null {
+    if (!checks) {
+        return null;
+    }
+    if (checks.some(check => check.conclusion === 'failure')) {
+        return 'failure';
+    }
+    if (checks.some(check => check.conclusion === 'pending') || !checks.some(check => check.conclusion === 'success')) {
+        return null;
+    }
+    return 'success';
+}
+
+/**
+ * Formats a share as a whole percentage for the reasoning.
+ *
+ * @param {number} share - The share, from 0 to 1.
+ * @returns {string} The percentage, such as `75%`.
+ */
+function formatPercent(share: number): string {
+    return `${Math.round(share * 100)}%`;
+}
 
 /**
- * Calculates the Correctness score based on various repository factors such as open issues,
- * closed pull requests, and merge rates. Fetches data in parallel to speed up the process.
- * 
+ * Calculates the Correctness score as a weighted average of five signals, each from 0 to 1:
+ * - `tests`: a test suite in the package (or repository root) and a test script in `package.json`, half each;
+ * - `ci`: the share of the last few commits whose CI checks passed;
+ * - `bugs`: the closure rate of bug reports opened in the last `windowMonths` months, lowered by the share of issues that are bugs;
+ * - `releaseBuild`: 1 if the CI checks of the latest release passed, 0 if one failed;
+ * - `resolution`: the average of the closed shares of issues and of pull requests opened in the same window.
+ * Signals without data (no CI, no release, no recent issues) are left out and the others share their weight.
+ * The window is applied when listing issues and pull requests; if the listing still hits the page cap, the reasoning says so.
+ *
  * @param {string} URL - The GitHub repository URL.
- * @returns {Promise<{ score: number; latency: number; }>} - The Correctness score (0-1) and fetch latency.
+ * @param {RepoContext} [context] - The shared repository data; created from `URL` if omitted.
+ * @param {ScoreConfig} [config] - The scoring configuration; the run's configuration if omitted.
+ * @param {Date} [now=new Date()] - The current time, which the window of recent issues and pull requests ends at.
+ * @returns {Promise<MetricResult>} - The Correctness score (0-1), fetch latency, explanation and the score of each signal.
  */
-export async function calculateCorrectness(URL: string): Promise<{ score: number; latency: number; }> {
+export async function calculateCorrectness(URL: string, context: RepoContext = createRepoContext(URL), config: ScoreConfig = getConfig(), now: Date = new Date()): Promise<MetricResult> {
     const latency_start = getTimestampWithThreeDecimalPlaces();
     logMessage('calculateCorrectness', ['Starting correctness calculation.', `URL: ${URL}`]);
+    const settings = config.correctness;
+    const since = getWindowStart(now, settings.windowMonths);
+    const sinceDay = since.toISOString().slice(0, 10);
 
-    const API_link = getGitHubAPILink(URL);
-    logMessage('calculateCorrectness', ['API link constructed.', `API link: ${API_link}`]);
-
-    // Fetch the data in parallel
-    const [
-        repoData,
-        closedPullData,
-        openPullData,
-        closedIssuesData,
-        openIssuesData
-    ] = await Promise.all([
-        fetchJsonFromApi(API_link),                          // Fetch repository data (open issues count)
-        fetchJsonFromApi(API_link + '/pulls?state=closed'),  // Fetch closed pull requests
-        fetchJsonFromApi(API_link + '/pulls?state=open'),    // Fetch open pull requests
-        fetchJsonFromApi(API_link + '/issues?state=closed'), // Fetch closed issues
-        fetchJsonFromApi(API_link + '/issues?state=open')    // Fetch open issues
+    // Fetch the data in parallel; the commits are the history the Bus Factor fetches, so both share one listing
+    const [testFiles, packageJson, commits, issues, mergeRequests, releases] = await Promise.all([
+        context.getTestFiles(),
+        context.getPackageJson(),
+        context.getCommits(getWindowStart(now, config.busFactor.windowMonths).toISOString()),
+        context.getIssues('all', since.toISOString()),
+        context.getMergeRequests('all', since.toISOString()),
+        context.getReleases()
     ]);
-    logMessage('calculateCorrectness', ['Data fetched in parallel.', 'Fetched repository, pull request, and issue data.']);
-
-    // Calculate useful metrics
-    const totalIssues = closedIssuesData.length + openIssuesData.length;
-    const totalPullRequests = closedPullData.length + openPullData.length;
-    logMessage('calculateCorrectness', ['Calculating metrics.', `Total Issues: ${totalIssues}, Total Pull Requests: ${totalPullRequests}`]);
+    const latestRelease = releases.data[0] ?? null;
+    const [commitChecks, releaseChecks] = await Promise.all([
+        Promise.all(commits.data.slice(0, CI_COMMITS).map(commit => context.getChecks(commit.sha))),
+        latestRelease ? context.getChecks(latestRelease.commit ?? latestRelease.tag) : Promise.resolve(null)
+    ]);
+    const truncated = issues.truncated || mergeRequests.truncated;
+    logMessage('calculateCorrectness', ['Data fetched in parallel.', `Test files: ${testFiles.length}, Commits checked: ${commitChecks.length}, Issues: ${issues.data.length}, Pull requests: ${mergeRequests.data.length}, Truncated: ${truncated}`]);
 
-    const issueResolutionRate = totalIssues ? closedIssuesData.length / totalIssues : 1; // Calculate issue resolution rate
-    const pullRequestMergeRate = totalPullRequests ? closedPullData.length / totalPullRequests : 1; // Calculate pull request merge rate
+    // Tests: a test suite and a real test script; repositories without package.json are judged on the suite alone
+    const testScript = typeof packageJson?.scripts?.test === 'string' && !PLACEHOLDER_TEST_SCRIPT.test(packageJson.scripts.test) ? packageJson.scripts.test : null;
+    const testsScore = packageJson ? (testFiles.length > 0 ? 0.5 : 0) + (testScript ? 0.5 : 0) : (testFiles.length > 0 ? 1 : 0);
 
-    const openIssuesCount = repoData.open_issues_count || openIssuesData.length; // Get the count of open issues
-    logMessage('calculateCorrectness', ['Metrics calculated.', `Issue Resolution Rate: ${issueResolutionRate}, Pull Request Merge Rate: ${pullRequestMergeRate}`]);
+    // CI: share of the recent commits with finished checks whose checks passed
+    const outcomes = commitChecks.map(getBuildOutcome).filter(outcome => outcome !== null);
+    const passedCommits = outcomes.filter(outcome => outcome === 'success').length;
+    const ciScore = outcomes.length > 0 ? passedCommits / outcomes.length : null;
 
-    // Define reasonable maximums for issues and pull requests
-    const MAX_ISSUES = 150;
-    const MAX_PULL_REQUESTS = 300;
+    // Bugs: closure rate of recent bug reports, lowered by up to half when every recent issue is a bug
+    const bugLabels = settings.bugLabels.map(toPatternRegExp);
+    const recentIssues = issues.data.filter(issue => !issue.isPullRequest);
+    const bugs = recentIssues.filter(issue => issue.labels.some(label => bugLabels.some(pattern => pattern.test(label))));
+    const closedBugs = bugs.filter(issue => issue.state === 'closed').length;
+    const bugShare = recentIssues.length > 0 ? bugs.length / recentIssues.length : null;
+    const bugClosureRate = bugs.length > 0 ? closedBugs / bugs.length : null;
+    const bugsScore = bugShare === null ? null : (bugClosureRate ?? 1) * (1 - bugShare / 2);
 
-    // Normalize the open issues and pull requests to create a score
-    const issueScore = 1 - Math.min(openIssuesCount / MAX_ISSUES, 1); // Score based on open issues
-    const pullRequestScore = Math.min(closedPullData.length / MAX_PULL_REQUESTS, 1); // Score based on closed pull requests
-    logMessage('calculateCorrectness', ['Normalizing scores.', `Issue Score: ${issueScore}, Pull Request Score: ${pullRequestScore}`]);
+    // Release build: whether the checks of the latest release passed
+    const releaseOutcome = getBuildOutcome(releaseChecks);
+    const releaseBuildScore = releaseOutcome === null ? null : releaseOutcome === 'success' ? 1 : 0;
 
-    // Combine the metrics with defined weights
-    const combinedScore = 0.4 * issueScore + 0.3 * pullRequestScore + 0.15 * issueResolutionRate + 0.15 * pullRequestMergeRate;
+    // Resolution: closed shares of the recent issues and pull requests, 1 when there are none
+    const closedIssues = recentIssues.filter(issue => issue.state === 'closed').length;
+    const closedPullRequests = mergeRequests.data.filter(request => request.state !== 'open').length;
+    const issueResolutionRate = recentIssues.length ? closedIssues / recentIssues.length : 1;
+    const pullRequestMergeRate = mergeRequests.data.length ? closedPullRequests / mergeRequests.data.length : 1;
+    const resolutionScore = (issueResolutionRate + pullRequestMergeRate) / 2;
 
-    // Round the score to 1 decimal place
-    const roundedScore = parseFloat(combinedScore.toFixed(1));
-    logMessage('calculateCorrectness', ['Combined score calculated.', `Rounded Score: ${roundedScore}`]);
+    const signals: Record<CorrectnessSignal, number | null> = {
+        tests: testsScore, ci: ciScore, bugs: bugsScore, releaseBuild: releaseBuildScore, resolution: resolutionScore
+    };
+    let weighted = 0;
+    let totalWeight = 0;
+    for (const signal of CORRECTNESS_SIGNALS) {
+        const value = signals[signal];
+        if (value !== null) {
+            weighted += settings.weights[signal] * value;
+            totalWeight += settings.weights[signal];
+        }
+    }
+    const roundedScore = parseFloat((totalWeight > 0 ? weighted / totalWeight : 0).toFixed(2));
+    logMessage('calculateCorrectness', ['Combined score calculated.', `Rounded Score: ${roundedScore}, Signals: ${JSON.stringify(signals)}`]);
 
     // Calculate latency in milliseconds
     const latencyMs = parseFloat((getTimestampWithThreeDecimalPlaces() - latency_start).toFixed(3));
     logMessage('calculateCorrectness', ['Latency calculated.', `Latency: ${latencyMs} ms`]);
 
-    return { score: roundedScore, latency: latencyMs }; // Return the final score and latency
-}
\ No newline at end of file
+    const round = (value: number | null) => value === null ? null : parseFloat(value.toFixed(3));
+    const reasons = [
+        `tests ${round(testsScore)} (${testFiles.length > 0 ? 'a test suite' : 'no test suite'}${packageJson ? `, ${testScript ? 'a test script' : 'no test script'}` : ''})`,
+        ciScore === null
+            ? 'CI unknown (no finished checks on recent commits)'
+            : `CI ${round(ciScore)} (${passedCommits} of ${outcomes.length} recent commits passed)`,
+        bugsScore === null
+            ? `bugs unknown (no issues opened since ${sinceDay})`
+            : `bugs ${round(bugsScore)} (${bugs.length} of ${recentIssues.length} issues since ${sinceDay} are bugs, ${closedBugs} closed)`,
+        !latestRelease
+            ? 'release build unknown (no release)'
+            : releaseBuildScore === null
+                ? `release build unknown (no finished checks on ${latestRelease.tag})`
+                : `release build ${releaseBuildScore} (${latestRelease.tag} ${releaseBuildScore ? 'passed' : 'failed'})`,
+        `resolution ${round(resolutionScore)} (${formatPercent(issueResolutionRate)} of issues and ${formatPercent(pullRequestMergeRate)} of pull requests since ${sinceDay} closed)`
+    ];
+    const sample = truncated
+        ? ` Only the newest issues and pull requests since ${sinceDay} could be listed, so bugs and resolution are based on a truncated sample.`
+        : '';
+
+    const explanation = {
+        inputs: {
+            testFiles: testFiles.length > 0 ? testFiles.join(', ') : null,
+            testScript,
+            commitsChecked: outcomes.length,
+            commitsPassed: passedCommits,
+            since: sinceDay,
+            recentIssues: recentIssues.length,
+            bugIssues: bugs.length,
+            closedBugIssues: closedBugs,
+            latestRelease: latestRelease?.tag ?? null,
+            openIssues: recentIssues.length - closedIssues,
+            closedIssues,
+            openPullRequests: mergeRequests.data.length - closedPullRequests,
+            closedPullRequests
+        },
+        intermediate: {
+            testsScore: round(testsScore),
+            ciScore: round(ciScore),
+            bugShare: round(bugShare),
+            bugClosureRate: round(bugClosureRate),
+            bugsScore: round(bugsScore),
+            releaseBuildScore,
+            issueResolutionRate: parseFloat(issueResolutionRate.toFixed(3)),
+            pullRequestMergeRate: parseFloat(pullRequestMergeRate.toFixed(3)),
+            resolutionScore: round(resolutionScore)
+        },
+        thresholds: {
+            ...Object.fromEntries(CORRECTNESS_SIGNALS.map(signal => [`${signal}Weight`, settings.weights[signal]])),
+            windowMonths: settings.windowMonths,
+            ciCommits: CI_COMMITS
+        },
+        complete: !truncated,
+        reasoning: `Signals: ${reasons.join('; ')}; their weighted average is ${roundedScore}.${sample}`
+    };
+    const details = {
+        Tests: round(testsScore), CI: round(ciScore), Bugs: round(bugsScore), ReleaseBuild: releaseBuildScore, Resolution: round(resolutionScore)
+    };
+    return { score: roundedScore, latency: latencyMs, explanation, details }; // Return the final score, latency, explanation and signal scores
+}
@@ -1,14 +1,66 @@
-import { getBusFactor } from "./busFactor";
-import { getLicenseScore } from "./license";
-import { formatJSON, initJSON } from "../json";
+import { DataObject, formatJSON, initJSON } from "../json";
 import { URLType } from "../URL";
-import { getNodeJsAPILink } from "../npmjsData";
-import { calculateCorrectness } from "./correctness";
-import { calculateRampUp } from "./rampUp";
-import { calculateResponsiveMaintainer } from "./responsiveMaintainer";
+import { getNodeJsRepository } from "../npmjsData";
 import { getNetScore, getNetScoreLatency } from "./netScore";
-import { getNumberOfCores } from "../multithread";
 import { logMessage } from '../logFile';
+import { createRepoContext } from '../repoContext';
+import { MetricDetails, MetricExplanation, MetricFailure, MetricResult } from './metricResult';
+import { RateLimitError } from '../httpClient';
+import { UnrecordedRequestError } from '../recorder';
+import { getConfig, getConfigHash } from '../config';
+import { createMetricContext, getMetric, getMetricNames } from './registry';
+
+/**
+ * Names of the metrics, as used for their fields in the DataObject. Built-in metrics are
+ * `BusFactor`, `Correctness`, `License`, `RampUp` and `ResponsiveMaintainer`; plugin modules add more.
+ */
+export type MetricName = string;
+
+/**
+ * Interface representing the scores of one URL together with how each was calculated.
+ *
+ * @interface ScoredPackage
+ */
+export interface ScoredPackage {
+    data: DataObject;                                               // The scores and latencies
+    explanations: Partial<Record<MetricName, MetricExplanation>>;   // Explanation of each calculated metric that reports one
+    details: Partial<Record<MetricName, MetricDetails>>;            // Extra values of each calculated metric that reports them; not part of `data`
+    errors: Partial<Record<MetricName, MetricFailure>>;             // Why each failed metric failed; empty if all succeeded
+}
+
+/**
+ * Describes why a metric failed, with a code that tells rate limits, HTTP errors and network errors apart.
+ *
+ * @param {unknown} error - The error the metric threw.
+ * @returns {MetricFailure} The code and message of the failure.
+ */
+export function getMetricFailure(error: unknown): MetricFailure {
+    const message = error instanceof Error ? error.message : String(error);
+    if (error instanceof RateLimitError) {
+        return { code: 'RATE_LIMITED', message };
+    }
+    if (error instanceof UnrecordedRequestError) {
+        return { code: 'NOT_RECORDED', message };
+    }
+    const { status, code } = (error ?? {}) as { status?: unknown, code?: unknown };
+    if (typeof status === 'number') {
+        return { code: `HTTP_${status}`, message };
+    }
+    if (typeof code === 'string') {
+        return { code, message };
+    }
+    return { code: 'METRIC_FAILED', message };
+}
+
+/**
+ * Flattens the details of each metric into `<metric>_<key>` fields, as the JSON output carries them with --explain.
+ *
+ * @param {ScoredPackage['details']} details - The details of each metric.
+ * @returns {Record<string, string | number | null>} The detail fields, such as `License_Detected`.
+ */
+export function getDetailFields(details: ScoredPackage['details']): Record<string, string | number | null> {
+    return Object.fromEntries(Object.entries(details).flatMap(([name, values]) => Object.entries(values ?? {}).map(([key, value]) => [`${name}_${key}`, value])));
+}
 
 /**
  * Fetches and calculates various metrics for a given GitHub or npm repository URL.
@@ -17,76 +69,126 @@ import { logMessage } from '../logFile';
  * @returns {Promise<string>} A promise that resolves to a formatted JSON string containing the calculated metrics.
  */
 export async function getMetrics(URL: string): Promise<string> {
+    return formatJSON(await getMetricsData(URL)); // Return the formatted JSON string
+}
+
+/**
+ * Calculates the requested metrics for a given GitHub or npm repository URL.
+ *
+ * @param {string} URL - The repository URL to analyze.
+ * @param {MetricName[]} [metrics=getMetricNames()] - The metrics to calculate.
+ * @returns {Promise<DataObject>} A promise that resolves to the calculated metrics.
+ */
+export async function getMetricsData(URL: string, metrics: MetricName[] = getMetricNames()): Promise<DataObject> {
+    return (await scorePackage(URL, metrics)).data;
+}
+
+/**
+ * Calculates the requested metrics for a given GitHub or npm repository URL. Only the
+ * requested metric functions run; the fields of the others stay null. The Net Score
+ * combines every registered metric, so it is only calculated when all of them are requested.
+ * A metric that throws does not stop the others: its score and latency are null and the
+ * reason is added to the `Errors` field. The Net Score then follows the missing-metric policy.
+ * 
+ * @param {string} URL - The repository URL to analyze.
+ * @param {MetricName[]} [metrics=getMetricNames()] - The registered metrics to calculate.
+ * @returns {Promise<ScoredPackage>} A promise that resolves to the calculated metrics and their explanations.
+ * @throws {Error} If a metric is not registered.
+ */
+export async function scorePackage(URL: string, metrics: MetricName[] = getMetricNames()): Promise<ScoredPackage> {
     logMessage('getMetrics', ['Initializing metrics calculation.', 'Starting to create empty JSON.']);
   
     let repo_data = initJSON(); // Initialize an empty JSON object for storing results
     logMessage('getMetrics', ['Empty JSON created.', 'Initialized repo_data.']);
 
-    logMessage('getMetrics', ['Fetching number of cores.', 'Calling getNumberOfCores.']);
-    let num_cores = getNumberOfCores(); // Get the number of processing cores available
-    logMessage('getMetrics', ['Number of cores fetched.', `Cores: ${num_cores}`]);
-
     logMessage('getMetrics', ['Setting repository URL.', `URL: ${URL}`]);
     repo_data.URL = URL; // Store the original URL in the JSON object
 
-    // Convert npmjs URL to Node.js API link if necessary
-    if (URLType(URL) === "npmjs") {
-        logMessage('getMetrics', ['Converting npmjs URL to Node.js API link.', `Original URL: ${URL}`]);
-        URL = await getNodeJsAPILink(URL); // Fetch the Node.js API link
-        logMessage('getMetrics', ['Converted npmjs URL.', `New URL: ${URL}`]);
+    // Look up every metric first, so an unknown name is reported before anything is fetched
+    const definitions = metrics.map(name => {
+        const metric = getMetric(name);
+        if (!metric) {
+            throw new Error(`Unknown metric: ${name}`);
+        }
+        return metric;
+    });
+    const config = getConfig();
+
+    let settled: PromiseSettledResult<MetricResult>[];
+    try {
+        // Convert npmjs URL to Node.js API link if necessary
+        let packageURL: string | undefined;
+        let directory: string | null = null;
+        let manifest: any;
+        if (URLType(URL) === "npmjs") {
+            packageURL = URL;
+            logMessage('getMetrics', ['Converting npmjs URL to Node.js API link.', `Original URL: ${URL}`]);
+            ({ url: URL, directory, manifest } = await getNodeJsRepository(URL)); // Fetch the repository, package directory and manifest
+            logMessage('getMetrics', ['Converted npmjs URL.', `New URL: ${URL}, Directory: ${directory}`]);
+        }
+
+        // Every metric reads from the same context, so each resource is fetched once
+        const context = createRepoContext(URL, packageURL, directory, manifest);
+
+        logMessage('getMetrics', ['Calculating metrics concurrently.', `Metrics: ${metrics.join(', ')}`]);
+
+        // Fetch the requested metrics concurrently, all with the same configuration; each
+        // metric only sees the data sources it declares, and one failing does not stop the others
+        const repoURL = URL;
+        settled = await Promise.allSettled(definitions.map(metric => Promise.resolve().then(() => metric.compute(repoURL, createMetricContext(context, metric), config))));
+
+        const { requests, saved } = context.getStats();
+        logMessage('getMetrics', ['Metrics calculation complete.', `Storing results in repo_data. Resources fetched: ${requests}, Calls saved: ${saved}`]);
+    } catch (error) {
+        // Without a repository no metric can run, so they all fail with the same error
+        logMessage('getMetrics', ['Cannot resolve the repository.', `URL: ${URL}, Error: ${error instanceof Error ? error.message : error}`]);
+        settled = metrics.map(() => ({ status: 'rejected', reason: error }));
     }
 
-    logMessage('getMetrics', ['Calculating metrics concurrently.', 'Starting Promise.all for metrics.']);
-    
-    // Fetch various metrics concurrently
-    const [
-        { score: busFactorScore, latency: busFactorLatency },
-        { score: correctnessScore, latency: correctnessLatency },
-        { score: licenseScore, latency: licenseLatency },
-        { score: rampUpScore, latency: rampUpLatency },
-        { score: responsiveMaintainerScore, latency: responsiveMaintainerLatency }
-    ] = await Promise.all([
-        getBusFactor(URL),
-        calculateCorrectness(URL),
-        getLicenseScore(URL),
-        calculateRampUp(URL),
-        calculateResponsiveMaintainer(URL)
-    ]);
-
-    logMessage('getMetrics', ['Metrics calculation complete.', 'Storing results in repo_data.']);
-
-    // Store the calculated metrics and their latencies in the JSON object
-    repo_data.BusFactor = busFactorScore;
-    repo_data.BusFactor_Latency = busFactorLatency;
-    repo_data.Correctness = correctnessScore;
-    repo_data.Correctness_Latency = correctnessLatency;
-    repo_data.License = licenseScore;
-    repo_data.License_Latency = licenseLatency;
-    repo_data.RampUp = rampUpScore;
-    repo_data.RampUp_Latency = rampUpLatency;
-    repo_data.ResponsiveMaintainer = responsiveMaintainerScore;
-    repo_data.ResponsiveMaintainer_Latency = responsiveMaintainerLatency;
+    // Every result records which settings produced it
+    repo_data.ConfigHash = getConfigHash();
+
+    // Store the calculated metrics and their latencies in the JSON object; failed metrics are null
+    const explanations: ScoredPackage['explanations'] = {};
+    const details: ScoredPackage['details'] = {};
+    const errors: ScoredPackage['errors'] = {};
+    const scores: Record<MetricName, number | null> = {};
+    const latencies: Record<MetricName, number | null> = {};
+    settled.forEach((result, i) => {
+        const name = metrics[i];
+        if (result.status === 'rejected') {
+            const failure = errors[name] = getMetricFailure(result.reason);
+            repo_data[name] = scores[name] = null;
+            repo_data[`${name}_Latency`] = latencies[name] = null;
+            logMessage('getMetrics', ['Metric failed.', `Metric: ${name}, Code: ${failure.code}, Message: ${failure.message}`]);
+            return;
+        }
+        repo_data[name] = scores[name] = result.value.score;
+        repo_data[`${name}_Latency`] = latencies[name] = result.value.latency;
+        if (result.value.details) {
+            details[name] = result.value.details;
+        }
+        if (result.value.explanation) {
+            explanations[name] = result.value.explanation;
+        }
+    });
+    if (Object.keys(errors).length > 0) {
+        repo_data.Errors = errors as Record<MetricName, MetricFailure>;
+    }
+
+    if (getMetricNames().some(name => !metrics.includes(name))) {
+        logMessage('getMetrics', ['Skipping Net Score.', 'Not every metric was requested.']);
+        return { data: repo_data, explanations, details, errors };
+    }
 
     logMessage('getMetrics', ['Results stored.', 'Calculating Net Score and Latency.']);
 
     // Calculate the Net Score and its latency
-    const netScore = await getNetScore(
-        rampUpScore,
-        correctnessScore,
-        busFactorScore,
-        responsiveMaintainerScore,
-        licenseScore
-    );
+    const netScore = await getNetScore(scores, config.weights, config.netScore.missingMetrics);
 
     logMessage('getMetrics', ['Net Score calculated.', `Net Score: ${netScore}`]);
 
-    const netScore_Latency = await getNetScoreLatency(
-        rampUpLatency,
-        correctnessLatency,
-        busFactorLatency,
-        responsiveMaintainerLatency,
-        licenseLatency
-    );
+    const netScore_Latency = await getNetScoreLatency(latencies);
 
     logMessage('getMetrics', ['Net Score Latency calculated.', `Net Score Latency: ${netScore_Latency}`]);
 
@@ -94,7 +196,7 @@ export async function getMetrics(URL: string): Promise<string> {
     repo_data.NetScore = netScore;
     repo_data.NetScore_Latency = netScore_Latency;
 
-    logMessage('getMetrics', ['Returning formatted JSON data.', 'Finalizing metrics response.']);
+    logMessage('getMetrics', ['Returning metrics data.', 'Finalizing metrics response.']);
   
-    return formatJSON(repo_data); // Return the formatted JSON string
-}
\ No newline at end of file
+    return { data: repo_data, explanations, details, errors };
+}
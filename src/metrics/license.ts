@@ -1,41 +1,344 @@
-import { getGitHubAPILink } from "../githubData";
-import { fetchJsonFromApi } from "../API";
+import { createRepoContext, RepoContext } from "../repoContext";
 import { getTimestampWithThreeDecimalPlaces } from "./getLatency";
 import { logMessage } from '../logFile';
+import { MetricResult } from './metricResult';
+import * as path from 'path';
+import { getConfig, ScoreConfig } from '../config';
+import { formatSpdxExpression, parseSpdxExpression, readLicense, SpdxError, SpdxExpression } from '../spdx';
+import { LicenseMatch } from '../licenseClassifier';
+import { runInWorker } from '../multithread';
 
 /**
- * Fetches the license data for a given GitHub repository URL and calculates a license score.
- * The score is 1 if a license is found, and 0 otherwise.
+ * Interface representing a license found for a package.
+ *
+ * @interface DetectedLicense
+ */
+export interface DetectedLicense {
+    expression: SpdxExpression | null;  // The license, or null if a license was found but not identified
+    declared: string;                   // The license as written where it was found
+    source: string;                     // Where it was found, e.g. `the npm manifest` or `the license API`
+    confidence: number | null;          // Similarity of the text to the license text it matches, or null if the license is named
+}
+
+// The license text classifier, which runs in a worker thread with --threads
+const CLASSIFIER_MODULE = path.join(__dirname, '..', `licenseClassifier${path.extname(__filename)}`);
+
+// Phrases that identify a license in its full text, most specific first
+const LICENSE_SIGNATURES: [RegExp, string][] = [
+    [/GNU LESSER GENERAL PUBLIC LICENSE\s+Version 2\.1/i, 'LGPL-2.1-only'],
+    [/GNU LESSER GENERAL PUBLIC LICENSE\s+Version 3/i, 'LGPL-3.0-only'],
+    [/GNU AFFERO GENERAL PUBLIC LICENSE\s+Version 3/i, 'AGPL-3.0-only'],
+    [/GNU GENERAL PUBLIC LICENSE\s+Version 3/i, 'GPL-3.0-only'],
+    [/GNU GENERAL PUBLIC LICENSE\s+Version 2/i, 'GPL-2.0-only'],
+    [/Apache License,?\s+Version 2\.0/i, 'Apache-2.0'],
+    [/Mozilla Public License,?\s+(Version|v\.?)\s*2\.0/i, 'MPL-2.0'],
+    [/This is free and unencumbered software released into the public domain/i, 'Unlicense'],
+    [/Permission to use, copy, modify, and\/or distribute this software for any\s+purpose with or without fee/i, 'ISC'],
+    [/Permission is hereby granted, free of charge/i, 'MIT'],
+    [/Redistribution and use in source and binary forms[\s\S]*Neither the name/i, 'BSD-3-Clause'],
+    [/Redistribution and use in source and binary forms/i, 'BSD-2-Clause'],
+    [/^\s*(The )?MIT License\b/i, 'MIT']
+];
+
+// Ways a README names a license in its License section
+const LICENSE_MENTIONS: [RegExp, string][] = [
+    [/\bLGPL[- ]?v?2\.1/i, 'LGPL-2.1-only'],
+    [/\bLGPL[- ]?v?3/i, 'LGPL-3.0-only'],
+    [/\bAGPL[- ]?v?3/i, 'AGPL-3.0-only'],
+    [/\bGPL[- ]?v?3/i, 'GPL-3.0-only'],
+    [/\bGPL[- ]?v?2/i, 'GPL-2.0-only'],
+    [/\bApache[- ](License,? )?(Version |v)?2(\.0)?\b/i, 'Apache-2.0'],
+    [/\b(MPL[- ]?2\.0|Mozilla Public License,? (Version |v)?2\.0)/i, 'MPL-2.0'],
+    [/\bBSD[- ]3[- ]Clause/i, 'BSD-3-Clause'],
+    [/\bBSD[- ]2[- ]Clause/i, 'BSD-2-Clause'],
+    [/\bUnlicense\b/i, 'Unlicense'],
+    [/\bCC0\b/i, 'CC0-1.0'],
+    [/\bISC\b/, 'ISC'],
+    [/\bMIT\b/, 'MIT']
+];
+
+/**
+ * Reads the `SPDX-License-Identifier` tag of a text.
+ *
+ * @param {string} text - The text.
+ * @returns {SpdxExpression | null} The tagged license, or null if there is no valid tag.
+ */
+function readLicenseTag(text: string): SpdxExpression | null {
+    const tag = /SPDX-License-Identifier:\s*(.+?)\s*(\*\/|-->|$)/m.exec(text);
+    if (!tag) {
+        return null;
+    }
+    try {
+        return parseSpdxExpression(tag[1]);
+    } catch (error) {
+        if (!(error instanceof SpdxError)) {
+            throw error;
+        }
+        logMessage('detectLicenseInText', ['Ignoring an invalid SPDX-License-Identifier tag.', error.message]);
+        return null;
+    }
+}
+
+/**
+ * Identifies the license of a license file or README section without comparing it to the corpus:
+ * an `SPDX-License-Identifier` tag, or the opening words of a well-known license.
+ *
+ * @param {string} text - The text.
+ * @returns {SpdxExpression | null} The license, or null if the text does not identify one.
+ */
+export function detectLicenseInText(text: string): SpdxExpression | null {
+    const signature = LICENSE_SIGNATURES.find(([pattern]) => pattern.test(text));
+    return readLicenseTag(text) ?? (signature ? parseSpdxExpression(signature[1]) : null);
+}
+
+/**
+ * Identifies the license of a license file or README section. An `SPDX-License-Identifier` tag
+ * wins; otherwise the text is compared with the license corpus, and a match below `minConfidence`
+ * only counts if the text opens like a well-known license.
+ *
+ * @param {string} text - The text.
+ * @param {number} minConfidence - The lowest similarity that counts as a match.
+ * @returns {Promise<{ expression: SpdxExpression, confidence: number | null } | null>} The license and the similarity of the match, or null if the text does not identify one.
+ */
+async function identifyLicenseText(text: string, minConfidence: number): Promise<{ expression: SpdxExpression, confidence: number | null } | null> {
+    const tagged = readLicenseTag(text);
+    if (tagged) {
+        return { expression: tagged, confidence: null };
+    }
+    const match = await runInWorker<LicenseMatch | null>(CLASSIFIER_MODULE, 'classifyLicenseText', [text]);
+    logMessage('identifyLicenseText', ['License text compared with the corpus.', `Closest: ${match ? `${match.license} (${match.confidence})` : 'none'}, Minimum: ${minConfidence}`]);
+    if (match && match.confidence >= minConfidence) {
+        return { expression: parseSpdxExpression(match.license), confidence: match.confidence };
+    }
+    const detected = detectLicenseInText(text);
+    return detected ? { expression: detected, confidence: null } : null;
+}
+
+/**
+ * Gets the License section of a README: the text under a `License` or `Licence` heading, up to the
+ * next heading of the same or a higher level.
+ *
+ * @param {string} readme - The README text.
+ * @returns {string | null} The section text, or null if the README has no License section.
+ */
+function getLicenseSection(readme: string): string | null {
+    const lines = readme.split(/\r?\n/);
+    const start = lines.findIndex(line => /^#{1,6}\s*licen[cs](e|ing)\b/i.test(line));
+    if (start === -1) {
+        return null;
+    }
+    const level = (/^#+/.exec(lines[start]) as RegExpExecArray)[0].length;
+    const end = lines.findIndex((line, i) => i > start && /^#+\s/.test(line) && (/^#+/.exec(line) as RegExpExecArray)[0].length <= level);
+    return lines.slice(start + 1, end === -1 ? undefined : end).join('\n');
+}
+
+/**
+ * Identifies the license of the License section of a README: a license text, or else the first
+ * license the section names.
+ *
+ * @param {string} readme - The README text.
+ * @param {number} minConfidence - The lowest similarity at which a license text counts as a match.
+ * @returns {Promise<{ expression: SpdxExpression, confidence: number | null } | null>} The license, or null if the README names none.
+ */
+async function detectLicenseInReadme(readme: string, minConfidence: number): Promise<{ expression: SpdxExpression, confidence: number | null } | null> {
+    const section = getLicenseSection(readme);
+    if (section === null) {
+        return null;
+    }
+    const identified = await identifyLicenseText(section, minConfidence);
+    if (identified) {
+        return identified;
+    }
+    const mentions = LICENSE_MENTIONS
+        .map(([pattern, id]) => ({ id, index: section.search(pattern) }))
+        .filter(mention => mention.index !== -1)
+        .sort((a, b) => a.index - b.index);
+    return mentions.length > 0 ? { expression: parseSpdxExpression(mentions[0].id), confidence: null } : null;
+}
+
+/**
+ * Reads the `license` field of an npm manifest, or the legacy `licenses` list. `SEE LICENSE IN`
+ * points to a file, so it names no license.
+ *
+ * @param {any} manifest - The package manifest or registry document.
+ * @returns {string | null} The declared license as an SPDX expression, or null if none is declared.
+ */
+function getManifestLicense(manifest: any): string | null {
+    const license = manifest?.license;
+    if (typeof license === 'string' || typeof license?.type === 'string') {
+        const text: string = typeof license === 'string' ? license : license.type;
+        return /^SEE LICEN[CS]E IN\b/i.test(text.trim()) ? null : text;
+    }
+    if (Array.isArray(manifest?.licenses) && manifest.licenses.length > 0) {
+        const types = manifest.licenses.map((entry: any) => typeof entry === 'string' ? entry : entry?.type).filter((type: unknown) => typeof type === 'string');
+        return types.length > 0 ? types.map((type: string) => types.length > 1 ? `(${type})` : type).join(' OR ') : null;
+    }
+    return null;
+}
+
+/**
+ * Reads a declared license, or returns null if it is not a license id, name or SPDX expression.
+ *
+ * @param {string} text - The declared license.
+ * @param {string} source - Where it was declared, for the log.
+ * @returns {SpdxExpression | null} The license.
+ */
+function tryReadLicense(text: string, source: string): SpdxExpression | null {
+    try {
+        return readLicense(text);
+    } catch (error) {
+        if (!(error instanceof SpdxError)) {
+            throw error;
+        }
+        logMessage('detectLicense', [`Ignoring the license of ${source}.`, error.message]);
+        return null;
+    }
+}
+
+/**
+ * Finds the license of a package. The npm manifest is checked first, then the SPDX id of the
+ * provider's license API, then the license file the API found, then the LICENSE* and COPYING*
+ * files, then the License section of the README. Texts are identified with identifyLicenseText.
+ *
+ * @param {RepoContext} context - The repository data.
+ * @param {number} minConfidence - The lowest similarity at which a license text counts as a match.
+ * @returns {Promise<DetectedLicense | null>} The license, or null if no license was found at all.
+ */
+export async function detectLicense(context: RepoContext, minConfidence: number): Promise<DetectedLicense | null> {
+    const manifestLicense = getManifestLicense(await context.getPackageManifest());
+    const fromManifest = manifestLicense === null ? null : tryReadLicense(manifestLicense, 'the npm manifest');
+    if (manifestLicense !== null && fromManifest) {
+        return { expression: fromManifest, declared: manifestLicense, source: 'the npm manifest', confidence: null };
+    }
+
+    // GitHub reports NOASSERTION (and the key `other`) for a license file it cannot identify
+    const info = await context.getLicense();
+    const apiId = info?.spdxId && info.spdxId !== 'NOASSERTION' ? info.spdxId : info?.key && info.key !== 'other' ? info.key : null;
+    const fromApi = info && apiId ? tryReadLicense(apiId, 'the license API') : null;
+    if (info && apiId && fromApi) {
+        return { expression: fromApi, declared: apiId, source: 'the license API', confidence: null };
+    }
+
+    const fromFile = info?.text ? await identifyLicenseText(info.text, minConfidence) : null;
+    if (info && fromFile) {
+        return { ...fromFile, declared: info.name, source: info.key === null ? `the file ${info.name}` : 'the license file' };
+    }
+
+    // GitHub finds no license at all when it cannot tell which file holds one
+    const files = await context.getLicenseFiles();
+    for (const file of files) {
+        const fromText = file.text === info?.text ? null : await identifyLicenseText(file.text, minConfidence);
+        if (fromText) {
+            return { ...fromText, declared: file.path, source: `the file ${file.path}` };
+        }
+    }
+
+    const readme = await context.getReadme();
+    const fromReadme = readme ? await detectLicenseInReadme(readme, minConfidence) : null;
+    if (fromReadme) {
+        return { ...fromReadme, declared: formatSpdxExpression(fromReadme.expression), source: 'the README' };
+    }
+
+    // A license that names no known license still counts as found
+    if (info) {
+        return { expression: null, declared: info.spdxId ?? info.name, source: info.key === null ? `the file ${info.name}` : 'the license API', confidence: null };
+    }
+    if (files.length > 0) {
+        return { expression: null, declared: files[0].path, source: `the file ${files[0].path}`, confidence: null };
+    }
+    if (manifestLicense !== null) {
+        return { expression: null, declared: manifestLicense, source: 'the npm manifest', confidence: null };
+    }
+    return null;
+}
+
+/**
+ * Scores a license expression against the compatibility matrix. A license with an exception is
+ * looked up with the exception first and without it second; `id+` falls back to `id`. Where OR
+ * offers a choice the best license counts, and where AND combines licenses the worst one does.
+ *
+ * @param {SpdxExpression} expression - The license expression.
+ * @param {Pick<ScoreConfig['license'], 'compatibility' | 'unknown'>} settings - The compatibility matrix and the score of unknown licenses.
+ * @returns {{ score: number, licenses: Record<string, number>, unknown: string[] }} The score, the score of each license in the expression and the licenses missing from the matrix.
+ */
+export function scoreLicenseExpression(expression: SpdxExpression, settings: Pick<ScoreConfig['license'], 'compatibility' | 'unknown'>): { score: number, licenses: Record<string, number>, unknown: string[] } {
+    const licenses: Record<string, number> = {};
+    const unknown: string[] = [];
+    const score = (node: SpdxExpression): number => {
+        if (node.type === 'license') {
+            const key = formatSpdxExpression(node);
+            const value = settings.compatibility[key] ?? settings.compatibility[node.id] ?? settings.compatibility[node.id.replace(/\+$/, '')];
+            if (value === undefined) {
+                unknown.push(key);
+            }
+            return licenses[key] = value ?? settings.unknown;
+        }
+        const scores = [score(node.left), score(node.right)];
+        return node.type === 'or' ? Math.max(...scores) : Math.min(...scores);
+    };
+    return { score: score(expression), licenses, unknown };
+}
+
+/**
+ * Fetches the license of a repository or npm package and scores how compatible it is with the
+ * product license, using the compatibility matrix of the configuration (LGPL-2.1 by default).
+ * The score is 0 if no license is found.
  * 
  * @param {string} URL - The GitHub repository URL.
- * @returns {Promise<{ score: number, latency: number }>} - An object containing the license score and the fetch latency in milliseconds.
+ * @param {RepoContext} [context] - The shared repository data; created from `URL` if omitted.
+ * @param {ScoreConfig} [config] - The scoring configuration; the run's configuration if omitted.
+ * @returns {Promise<MetricResult>} - An object containing the license score, the fetch latency in milliseconds, the explanation and the detected license with the reason for its score.
  */
-export async function getLicenseScore(URL: string): Promise<{ score: number, latency: number }> {
+export async function getLicenseScore(URL: string, context: RepoContext = createRepoContext(URL), config: ScoreConfig = getConfig()): Promise<MetricResult> {
     logMessage('getLicenseScore', ['Starting license score calculation.', `URL: ${URL}`]);
     
     const latency_start = getTimestampWithThreeDecimalPlaces(); // Start timing the fetch
     logMessage('getLicenseScore', ['Latency tracking started.', `Start timestamp: ${latency_start}`]);
 
-    // Construct the API link for fetching license data
-    const API_link = getGitHubAPILink(URL, 'license'); // Adjust endpoint as needed
-    logMessage('getLicenseScore', ['Constructed API link for license data.', `API link: ${API_link}`]);
-
-    // Fetch the license data from the API
-    const license_data = await fetchJsonFromApi(API_link);
-    logMessage('getLicenseScore', ['License data fetched successfully.', `License data: ${JSON.stringify(license_data)}`]);
+    // Find the license in the manifest, the license API, the license files or the README
+    const settings = config.license;
+    const detected = await detectLicense(context, settings.minConfidence);
+    logMessage('getLicenseScore', ['License detection complete.', `License: ${detected ? `${detected.declared} (from ${detected.source})` : 'none'}`]);
 
-    // Calculate the license score based on the presence of license data
+    // Score the license against the compatibility matrix; a license that names no SPDX license is unknown
     let license_score = 0;
-    if (license_data.license) {
-        license_score = 1; // Score of 1 indicates a license is present
-        logMessage('getLicenseScore', ['License score calculated.', `Score: ${license_score}`]);
-    } else {
-        logMessage('getLicenseScore', ['No license found.', 'Score remains 0.']);
+    let licenses: Record<string, number> = {};
+    let reason = 'No license was found, so the score is 0.';
+    if (detected?.expression) {
+        const scored = scoreLicenseExpression(detected.expression, settings);
+        license_score = scored.score;
+        licenses = scored.licenses;
+        const expression = formatSpdxExpression(detected.expression);
+        const found = detected.confidence === null
+            ? `${detected.source} declares ${expression}`
+            : `${detected.source} matches the text of ${expression} with confidence ${detected.confidence}`;
+        if (Object.keys(licenses).length > 1) {
+            const list = Object.entries(licenses).map(([license, value]) => `${license} scores ${value}`).join(', ');
+            reason = `${found}: ${list}. OR takes the best choice and AND the worst, so the score is ${license_score}.`;
+        } else if (scored.unknown.length > 0) {
+            reason = `${found}, which is not in the license compatibility matrix, so the score is ${license_score}.`;
+        } else {
+            reason = `${found}, which scores ${license_score} in the license compatibility matrix.`;
+        }
+    } else if (detected) {
+        license_score = settings.unknown;
+        const where = detected.source.endsWith(detected.declared) ? detected.source : `${detected.source} (${detected.declared})`;
+        reason = `A license was found in ${where} but not identified, so the score is ${license_score}.`;
     }
+    reason = reason.charAt(0).toUpperCase() + reason.slice(1);
+    logMessage('getLicenseScore', ['License score calculated.', `Score: ${license_score}, Reason: ${reason}`]);
 
     // Calculate latency in milliseconds
     const latencyMs = parseFloat((getTimestampWithThreeDecimalPlaces() - latency_start).toFixed(3));
     logMessage('getLicenseScore', ['Latency calculation complete.', `Latency: ${latencyMs} ms`]);
 
-    return { score: license_score, latency: latencyMs }; // Return the score and latency
-}
\ No newline at end of file
+    const license = detected?.expression ? formatSpdxExpression(detected.expression) : null;
+    const explanation = {
+        inputs: { declared: detected?.declared ?? null, source: detected?.source ?? null },
+        intermediate: { license, confidence: detected?.confidence ?? null, ...licenses },
+        thresholds: { unknown: settings.unknown, minConfidence: settings.minConfidence },
+        complete: true,
+        reasoning: reason
+    };
+    return { score: license_score, latency: latencyMs, explanation, details: { Detected: license ?? detected?.declared ?? null, Confidence: detected?.confidence ?? null, Reason: reason } };
+}
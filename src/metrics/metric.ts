@@ -0,0 +1,46 @@
+import { ScoreConfig } from '../config';
+import { RepoContext } from '../repoContext';
+import { MetricResult } from './metricResult';
+
+/**
+ * Resources of a RepoContext a metric can read. A metric only sees the resources it declares.
+ */
+export type DataSource = 'repo' | 'contributors' | 'commits' | 'commitFiles' | 'issues' | 'mergeRequests' | 'comments' | 'releases' | 'checks' | 'license' | 'licenseFiles' | 'readme' | 'testFiles' | 'packageJson' | 'size' | 'packageManifest';
+
+/**
+ * Names of the RepoContext getters that fetch a resource, such as `getIssues`.
+ */
+export type DataSourceGetter = { [K in keyof RepoContext]-?: RepoContext[K] extends (...args: any[]) => Promise<unknown> ? K : never }[keyof RepoContext];
+
+// The RepoContext getter serving each data source
+export const DATA_SOURCE_GETTERS: Record<DataSource, DataSourceGetter> = {
+    repo: 'getRepo',
+    contributors: 'getContributors',
+    commits: 'getCommits',
+    commitFiles: 'getCommitFiles',
+    issues: 'getIssues',
+    mergeRequests: 'getMergeRequests',
+    comments: 'getComments',
+    releases: 'getReleases',
+    checks: 'getChecks',
+    license: 'getLicense',
+    licenseFiles: 'getLicenseFiles',
+    readme: 'getReadme',
+    testFiles: 'getTestFiles',
+    packageJson: 'getPackageJson',
+    size: 'getSizeKb',
+    packageManifest: 'getPackageManifest'
+};
+
+/**
+ * Interface implemented by every metric, built in or loaded from a plugin module.
+ *
+ * @interface Metric
+ */
+export interface Metric {
+    name: string;                   // Field name in the output, in PascalCase (e.g. `BusFactor`)
+    description: string;            // What the metric measures, in one or two sentences
+    dataSources: DataSource[];      // Resources of the repository the metric reads
+    defaultWeight: number;          // NetScore weight without a config file, before normalization
+    compute(URL: string, context: RepoContext, config: ScoreConfig): Promise<MetricResult>;  // Calculates the score
+}
@@ -0,0 +1,50 @@
+/**
+ * A raw value that went into a metric score.
+ */
+export type MetricInputValue = string | number | boolean | null;
+
+/**
+ * Named values behind a metric score (e.g. `openIssues` for Correctness).
+ * Lists, such as the contributor shares of the Bus Factor, are arrays of rows.
+ */
+export type MetricInputs = Record<string, MetricInputValue | Record<string, MetricInputValue>[]>;
+
+/**
+ * Extra values a metric reports besides its score, such as the detected license.
+ */
+export type MetricDetails = Record<string, string | number | null>;
+
+/**
+ * Interface representing how a metric arrived at its score.
+ *
+ * @interface MetricExplanation
+ */
+export interface MetricExplanation {
+    inputs: MetricInputs;        // Raw data the score is based on: counts, sizes, contributor shares
+    intermediate: MetricInputs;  // Values derived from the inputs, such as rates and normalized scores
+    thresholds: MetricInputs;    // Constants the values are measured against
+    complete: boolean;           // False if some data was truncated or unavailable
+    reasoning: string;           // How the score follows from the values, in one sentence
+}
+
+/**
+ * Interface representing what a metric function returns.
+ *
+ * @interface MetricResult
+ */
+export interface MetricResult {
+    score: number;                      // Score between 0 and 1
+    latency: number;                    // Time taken to calculate the score, in milliseconds
+    explanation?: MetricExplanation;    // How the score was calculated
+    details?: MetricDetails;            // Extra values, shown by `explain`, in the HTML report and as `<metric>_<key>` fields with --explain
+}
+
+/**
+ * Interface representing why a metric could not be calculated.
+ *
+ * @interface MetricFailure
+ */
+export interface MetricFailure {
+    code: string;       // Machine-readable cause: `HTTP_<status>`, a network error code such as `ECONNRESET`, `RATE_LIMITED`, `NOT_RECORDED` or `METRIC_FAILED`
+    message: string;    // The error message
+}
@@ -1,37 +1,52 @@
 import { getTimestampWithThreeDecimalPlaces } from "./getLatency";
 import { logMessage } from '../logFile';
+import { getConfig, MissingMetricPolicy } from '../config';
+import { MetricName } from './getMetrics';
 
 /**
- * Calculates the net score based on various metrics.
- * The score is calculated using weighted contributions from ramp-up time,
- * correctness, bus factor, responsive maintainer score, and license score.
+ * Calculates the net score as the weighted sum of the metric scores.
+ * The weights come from the config file; by default license and correctness
+ * weigh 20%, bus factor and responsive maintainer 25% and ramp-up 10%, and
+ * plugin metrics weigh their default weight. Metrics that failed (null scores)
+ * are handled by the missing-metric policy: `renormalize` divides by the weights
+ * of the metrics that succeeded, `zero` counts them as 0.
  *
  * @export
- * @param {number} ramp_up_time - Calculated Ramp Up Time Score.
- * @param {number} correctness - Calculated Correctness Score.
- * @param {number} bus_factor - Calculated Bus Factor.
- * @param {number} responsive_maintainer - Responsive Maintainer Score.
- * @param {number} license - Calculated License Score.
- * @returns {Promise<number>} - The calculated net score.
+ * @param {Record<MetricName, number | null>} scores - Score of each metric, null if it failed.
+ * @param {Record<MetricName, number>} [weights] - Weight of each metric, summing to 1; the run's configuration if omitted.
+ * @param {MissingMetricPolicy} [missingMetrics] - How failed metrics count; the run's configuration if omitted.
+ * @returns {Promise<number | null>} - The calculated net score, or null if no metric with a weight succeeded under `renormalize`.
  */
 export async function getNetScore(
-    ramp_up_time: number,
-    correctness: number,
-    bus_factor: number,
-    responsive_maintainer: number,
-    license: number
-): Promise<number> {
+    scores: Record<MetricName, number | null>,
+    weights: Record<MetricName, number> = getConfig().weights,
+    missingMetrics: MissingMetricPolicy = getConfig().netScore.missingMetrics
+): Promise<number | null> {
     logMessage('getNetScore', ['Calculating net score.', 'Starting calculations.']);
 
     // Initialize net score to zero
     let net_score = 0;
+    let missing_weight = 0;
 
-    // Add weighted contributions to the net score
-    net_score += (0.2) * license;             // Weighted License score (20%)
-    net_score += (0.25) * bus_factor;         // Weighted Bus Factor Score (25%)
-    net_score += (0.25) * responsive_maintainer; // Weighted Responsive Maintainer Score (25%)
-    net_score += (0.2) * correctness;         // Weighted Correctness score (20%)
-    net_score += (0.1) * ramp_up_time;       // Weighted Ramp-Up Time score (10%)
+    // Add the weighted contribution of each metric; metrics without a weight do not count
+    for (const [name, score] of Object.entries(scores)) {
+        if (score === null) {
+            missing_weight += weights[name] ?? 0;
+            continue;
+        }
+        net_score += (weights[name] ?? 0) * score;
+    }
+
+    // Spread the weight of the failed metrics over the others
+    if (missing_weight > 0 && missingMetrics === 'renormalize') {
+        const present_weight = Object.entries(scores).reduce((total, [name, score]) => score === null ? total : total + (weights[name] ?? 0), 0);
+        if (present_weight <= 0) {
+            logMessage('getNetScore', ['No weighted metric succeeded.', 'Net score is null.']);
+            return null;
+        }
+        net_score = net_score / present_weight;
+        logMessage('getNetScore', ['Renormalized over the metrics that succeeded.', `Missing weight: ${missing_weight}, Present weight: ${present_weight}`]);
+    }
 
     logMessage('getNetScore', ['Net score calculated before rounding.', `Net score: ${net_score}`]);
 
@@ -46,24 +61,14 @@ export async function getNetScore(
  * Calculates the total latency for the net score based on various latency metrics.
  *
  * @export
- * @param {number} ramp_up_latency - Latency for ramp-up time.
- * @param {number} correctness_latency - Latency for correctness.
- * @param {number} bus_factor_latency - Latency for bus factor.
- * @param {number} responsive_maintainer_latency - Latency for responsive maintainer.
- * @param {number} license_latency - Latency for license.
+ * @param {Record<MetricName, number | null>} latencies - Latency of each metric, null if it failed.
  * @returns {Promise<number>} - The calculated net score latency.
  */
-export async function getNetScoreLatency(
-    ramp_up_latency: number,
-    correctness_latency: number,
-    bus_factor_latency: number,
-    responsive_maintainer_latency: number,
-    license_latency: number
-): Promise<number> {
+export async function getNetScoreLatency(latencies: Record<MetricName, number | null>): Promise<number> {
     logMessage('getNetScoreLatency', ['Calculating net score latency.', 'Starting latency calculations.']);
 
-    // Calculate total latency by summing individual latencies
-    let netScore_Latency = ramp_up_latency + correctness_latency + bus_factor_latency + responsive_maintainer_latency + license_latency;
+    // Calculate total latency by summing individual latencies; failed metrics add nothing
+    let netScore_Latency = Object.values(latencies).reduce((total: number, latency) => total + (latency ?? 0), 0);
 
     logMessage('getNetScoreLatency', ['Net score latency calculated before rounding.', `Net score latency: ${netScore_Latency}`]);
 
@@ -72,4 +77,4 @@ export async function getNetScoreLatency(
     logMessage('getNetScoreLatency', ['Net score latency rounded.', `Rounded net score latency: ${netScore_Latency}`]);
 
     return netScore_Latency; // Return the final net score latency
-}
\ No newline at end of file
+}
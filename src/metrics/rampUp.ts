@@ -1,41 +1,42 @@
 import axios from 'axios';
-import { getGitHubAPILink } from '../githubData';
-import { fetchJsonFromApi } from '../API';
+import { createRepoContext, RepoContext } from '../repoContext';
 import { getTimestampWithThreeDecimalPlaces } from './getLatency';
 import { logMessage } from '../logFile';
+import { MetricResult } from './metricResult';
+import { getConfig, ScoreConfig } from '../config';
 
 /**
  * Calculates the RampUp score and fetch latency for GitHub repositories.
- * The smaller the repository size, the higher the score.
+ * The smaller the repository size, the higher the score. For a package in a monorepo,
+ * the size of the package's directory is used where the provider reports it.
  * 
  * @param {string} repoURL - The GitHub repository URL.
- * @returns {Promise<{ score: number, latency: number }>} - The RampUp score and latency.
+ * @param {RepoContext} [context] - The shared repository data; created from `repoURL` if omitted.
+ * @param {ScoreConfig} [config] - The scoring configuration; the run's configuration if omitted.
+ * @returns {Promise<MetricResult>} - The RampUp score, latency and explanation.
  */
-export async function calculateRampUp(repoURL: string): Promise<{ score: number, latency: number }> {
+export async function calculateRampUp(repoURL: string, context: RepoContext = createRepoContext(repoURL), config: ScoreConfig = getConfig()): Promise<MetricResult> {
     logMessage('calculateRampUp', ['Starting RampUp score calculation.', `Repository URL: ${repoURL}`]);
 
     // Start latency tracking
     const latency_start = getTimestampWithThreeDecimalPlaces();
-    const MAX_SIZE_KB = 50000; // Arbitrary maximum repository size in KB (50MB)
+    const MAX_SIZE_KB = config.rampUp.maxSizeKb; // Maximum repository size in KB (50MB by default)
     
     logMessage('calculateRampUp', ['Setting maximum repository size.', `Max size: ${MAX_SIZE_KB} KB`]);
 
     // Construct GitHub API URL for repository information
-    const apiLink = getGitHubAPILink(repoURL);
-    logMessage('calculateRampUp', ['Constructed API link for repository data.', `API Link: ${apiLink}`]);
+    logMessage('calculateRampUp', ['Constructed API link for repository data.', `API Link: ${context.apiLink}`]);
 
-    // Fetch repository data from GitHub
-    let repoData;
+    // Fetch the repository size, or the package directory size for monorepo packages
+    let sizeInKb;
     try {
-        repoData = await fetchJsonFromApi(apiLink);
-        logMessage('calculateRampUp', ['Fetched repository data successfully.', JSON.stringify(repoData)]);
+        sizeInKb = (await context.getSizeKb()) || 0;
+        logMessage('calculateRampUp', ['Fetched repository size successfully.', `Size: ${sizeInKb} KB, Directory: ${context.subdirectory ?? '(root)'}`]);
     } catch (error) {
         logMessage('calculateRampUp', ['Error fetching repository data from GitHub.', String(error)]);
         throw new Error('Error fetching repository data from GitHub');
     }
 
-    // Calculate repo size in KB
-    const sizeInKb = repoData.size || 0;
     if (sizeInKb <= 0) {
         console.warn('GitHub repository size information not available or invalid. Using default size of 0.');
         logMessage('calculateRampUp', ['Invalid repository size detected. Defaulting size to 0.', `Size: ${sizeInKb}`]);
@@ -49,5 +50,12 @@ export async function calculateRampUp(repoURL: string): Promise<{ score: number,
     const latencyMs = parseFloat((getTimestampWithThreeDecimalPlaces() - latency_start).toFixed(3));
     logMessage('calculateRampUp', ['Calculated fetch latency.', `Latency: ${latencyMs} ms`]);
 
-    return { score, latency: latencyMs }; // Return score and latency
+    const explanation = {
+        inputs: { sizeKb: sizeInKb, directory: context.subdirectory ?? null },
+        intermediate: {},
+        thresholds: { maxSizeKb: MAX_SIZE_KB },
+        complete: sizeInKb > 0, // The size is unknown, not zero
+        reasoning: `The score is 1 - ${sizeInKb} KB / ${MAX_SIZE_KB} KB (at least 0), rounded to ${score}.`
+    };
+    return { score, latency: latencyMs, explanation }; // Return score, latency and explanation
 }
\ No newline at end of file
@@ -0,0 +1,205 @@
+import * as path from 'path';
+import { logMessage } from '../logFile';
+import { RepoContext } from '../repoContext';
+import { getBusFactor } from './busFactor';
+import { calculateCorrectness } from './correctness';
+import { getLicenseScore } from './license';
+import { calculateRampUp } from './rampUp';
+import { calculateResponsiveMaintainer } from './responsiveMaintainer';
+import { DATA_SOURCE_GETTERS, DataSource, DataSourceGetter, Metric } from './metric';
+
+/**
+ * Error thrown for a metric that cannot be registered or a plugin module that cannot be loaded.
+ */
+export class MetricError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'MetricError';
+    }
+}
+
+// Metrics that ship with the tool, in output order. The metric functions are called through
+// arrow functions because their modules import the config, which imports this registry
+const BUILTIN_METRICS: Metric[] = [
+    {
+        name: 'RampUp',
+        description: 'Smaller repositories score higher; a repository of rampUp.maxSizeKb or more scores 0.',
+        dataSources: ['size'],
+        defaultWeight: 0.1,
+        compute: (URL, context, config) => calculateRampUp(URL, context, config)
+    },
+    {
+        name: 'Correctness',
+        description: 'Weighted average of a test suite and test script, CI results on recent commits and the latest release, how many recent issues are bugs and how many of those are closed, and the closure rates of recent issues and pull requests.',
+        dataSources: ['testFiles', 'packageJson', 'commits', 'checks', 'issues', 'mergeRequests', 'releases'],
+        defaultWeight: 0.2,
+        compute: (URL, context, config) => calculateCorrectness(URL, context, config)
+    },
+    {
+        name: 'BusFactor',
+        description: 'How many people must leave before the busFactor.commitShare share of the commits from the last busFactor.windowMonths months loses its author, bots excluded; busFactor.target or more scores 1.',
+        dataSources: ['commits', 'commitFiles'],
+        defaultWeight: 0.25,
+        compute: (URL, context, config) => getBusFactor(URL, context, config)
+    },
+    {
+        name: 'ResponsiveMaintainer',
+        description: 'How quickly maintainers first respond to and close issues and pull requests opened in the last responsiveMaintainer.windowMonths months, with the recency of the last commit and release; each duration halves its score every configured half-life.',
+        dataSources: ['repo', 'issues', 'mergeRequests', 'comments', 'commits', 'releases', 'packageManifest'],
+        defaultWeight: 0.25,
+        compute: (URL, context, config) => calculateResponsiveMaintainer(URL, context, config)
+    },
+    {
+        name: 'License',
+        description: 'How compatible the license is with the product license (LGPL-2.1 by default), from the compatibility matrix; 0 if no license is found.',
+        dataSources: ['packageManifest', 'license', 'licenseFiles', 'readme'],
+        defaultWeight: 0.2,
+        compute: (URL, context, config) => getLicenseScore(URL, context, config)
+    }
+];
+
+// Output fields a metric name must not shadow
+const RESERVED_NAMES = ['URL', 'NetScore', 'ConfigHash', 'Errors', 'Explanation'];
+
+// Registered metrics by name, in output order
+const metrics = new Map<string, Metric>();
+
+// Metrics registered by each plugin module already loaded, by resolved path
+const loadedModules = new Map<string, Metric[]>();
+
+/**
+ * Checks that a value is a complete metric definition.
+ *
+ * @param {any} metric - The value.
+ * @param {string} source - Where the metric comes from, for error messages.
+ * @throws {MetricError} If a field is missing or invalid.
+ */
+function validateMetric(metric: any, source: string) {
+    if (typeof metric !== 'object' || metric === null) {
+        throw new MetricError(`${source}: a metric must be an object.`);
+    }
+    if (typeof metric.name !== 'string' || !/^[A-Z][A-Za-z0-9]*$/.test(metric.name)) {
+        throw new MetricError(`${source}: metric name must be PascalCase letters and digits, got ${JSON.stringify(metric.name)}.`);
+    }
+    if (RESERVED_NAMES.includes(metric.name)) {
+        throw new MetricError(`${source}: ${metric.name} is an output field and cannot name a metric.`);
+    }
+    if (typeof metric.description !== 'string' || metric.description.trim() === '') {
+        throw new MetricError(`${source}: metric ${metric.name} needs a description.`);
+    }
+    const unknown = Array.isArray(metric.dataSources) ? metric.dataSources.filter((source: unknown) => !(String(source) in DATA_SOURCE_GETTERS)) : null;
+    if (!unknown || unknown.length > 0) {
+        throw new MetricError(`${source}: metric ${metric.name} has invalid data sources${unknown ? ` ${unknown.join(', ')}` : ''}. Valid data sources: ${Object.keys(DATA_SOURCE_GETTERS).join(', ')}.`);
+    }
+    if (typeof metric.defaultWeight !== 'number' || !Number.isFinite(metric.defaultWeight) || metric.defaultWeight < 0) {
+        throw new MetricError(`${source}: metric ${metric.name} needs a default weight of at least 0.`);
+    }
+    if (typeof metric.compute !== 'function') {
+        throw new MetricError(`${source}: metric ${metric.name} needs a compute function.`);
+    }
+}
+
+/**
+ * Registers a metric. It is calculated, printed and weighed into the NetScore after the metrics registered before it.
+ *
+ * @param {Metric} metric - The metric.
+ * @param {string} [source='registerMetric'] - Where the metric comes from, for error messages.
+ * @throws {MetricError} If the metric is invalid or a metric of the same name is registered.
+ */
+export function registerMetric(metric: Metric, source: string = 'registerMetric') {
+    validateMetric(metric, source);
+    if (metrics.has(metric.name)) {
+        throw new MetricError(`${source}: a metric named ${metric.name} is already registered.`);
+    }
+    metrics.set(metric.name, metric);
+    logMessage('registerMetric', ['Metric registered.', `Name: ${metric.name}, Data sources: ${metric.dataSources.join(', ')}, Source: ${source}`]);
+}
+
+/**
+ * Gets a registered metric.
+ *
+ * @param {string} name - The metric name.
+ * @returns {Metric | undefined} The metric, or undefined if none has that name.
+ */
+export function getMetric(name: string): Metric | undefined {
+    return metrics.get(name);
+}
+
+/**
+ * Gets every registered metric.
+ *
+ * @returns {Metric[]} The metrics, in output order.
+ */
+export function getRegisteredMetrics(): Metric[] {
+    return [...metrics.values()];
+}
+
+/**
+ * Gets the names of every registered metric.
+ *
+ * @returns {string[]} The names, in output order.
+ */
+export function getMetricNames(): string[] {
+    return [...metrics.keys()];
+}
+
+/**
+ * Loads a plugin module and registers the metrics it exports as `metric`, `metrics` (a list) or `default`.
+ * Loading the same file again returns its metrics without registering them twice.
+ *
+ * @param {string} file - The path of the module, compiled to JavaScript.
+ * @returns {Metric[]} The metrics of the module.
+ * @throws {MetricError} If the module cannot be loaded, exports no metric or exports an invalid one.
+ */
+export function loadMetricModule(file: string): Metric[] {
+    const resolved = path.resolve(file);
+    const loaded = loadedModules.get(resolved);
+    if (loaded) {
+        return loaded;
+    }
+
+    let exported: any;
+    try {
+        exported = require(resolved);
+    } catch (error) {
+        throw new MetricError(`Cannot load the metric module ${file}: ${error instanceof Error ? error.message : error}`);
+    }
+    const found = [exported?.metric, ...(Array.isArray(exported?.metrics) ? exported.metrics : []), exported?.default].filter(value => value !== undefined);
+    if (found.length === 0) {
+        throw new MetricError(`${file}: the module exports no metric; export it as \`metric\`, \`metrics\` or \`default\`.`);
+    }
+
+    // Nothing is registered unless every metric of the module is valid
+    found.forEach(metric => {
+        validateMetric(metric, file);
+        if (metrics.has(metric.name)) {
+            throw new MetricError(`${file}: a metric named ${metric.name} is already registered.`);
+        }
+    });
+    found.forEach(metric => registerMetric(metric, file));
+    loadedModules.set(resolved, found);
+    logMessage('loadMetricModule', ['Metric module loaded.', `Path: ${resolved}, Metrics: ${found.map(metric => metric.name).join(', ')}`]);
+    return found;
+}
+
+/**
+ * Restricts a repository context to the data sources a metric declares. Reading any other
+ * resource throws, so a metric's declaration stays accurate as it changes.
+ *
+ * @param {RepoContext} context - The shared repository context.
+ * @param {Metric} metric - The metric reading from it.
+ * @returns {RepoContext} The restricted context.
+ */
+export function createMetricContext(context: RepoContext, metric: Metric): RepoContext {
+    const refused: Partial<Pick<RepoContext, DataSourceGetter>> = {};
+    for (const [source, getter] of Object.entries(DATA_SOURCE_GETTERS) as [DataSource, DataSourceGetter][]) {
+        if (!metric.dataSources.includes(source)) {
+            refused[getter] = (): never => {
+                throw new MetricError(`Metric ${metric.name} reads the ${source} data source, which it does not declare.`);
+            };
+        }
+    }
+    return { ...context, ...refused };
+}
+
+BUILTIN_METRICS.forEach(metric => registerMetric(metric, 'built-in'));
@@ -1,58 +1,247 @@
-import { getGitHubAPILink } from '../githubData';
-import { fetchJsonFromApi } from '../API';
+import { createRepoContext, RepoContext } from '../repoContext';
 import { getTimestampWithThreeDecimalPlaces } from './getLatency';
 import { logMessage } from '../logFile';
+import { MetricResult } from './metricResult';
+import { getConfig, ScoreConfig } from '../config';
+import { getWindowStart, toPatternRegExp } from './busFactor';
+
+// Share of the score of each signal; signals without data are left out and the others scaled up
+const SIGNAL_WEIGHTS = { firstResponse: 0.35, close: 0.35, lastCommit: 0.15, lastRelease: 0.15 };
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Interface representing the typical and slow durations of a set of issues and pull requests.
+ *
+ * @interface DurationStats
+ */
+export interface DurationStats {
+    medianDays: number;     // Half of the items took at most this long
+    p90Days: number;        // 90% of the items took at most this long
+}
+
+/**
+ * Interface representing an issue or pull request opened in the window.
+ *
+ * @interface TrackedItem
+ */
+interface TrackedItem {
+    key: string;            // `issue:<number>` or `mergeRequest:<number>`
+    author: string | null;
+    createdAt: number;      // Milliseconds since the epoch
+    closedAt: number | null;
+}
+
+/**
+ * Gets a percentile of sorted values, interpolating between the two nearest values.
+ *
+ * @param {number[]} sorted - The values, in ascending order.
+ * @param {number} fraction - The percentile as a fraction, e.g. 0.9 for the 90th percentile.
+ * @returns {number} The percentile.
+ */
+export function getPercentile(sorted: number[], fraction: number): number {
+    const index = (sorted.length - 1) * fraction;
+    const lower = Math.floor(index);
+    const upper = Math.ceil(index);
+    return sorted[lower] + (sorted[upper] - sorted[lower]) * (index - lower);
+}
+
+/**
+ * Gets the median and 90th percentile of durations.
+ *
+ * @param {number[]} durations - The durations in milliseconds.
+ * @returns {DurationStats | null} The durations in days, or null if there are none.
+ */
+function getDurationStats(durations: number[]): DurationStats | null {
+    if (durations.length === 0) {
+        return null;
+    }
+    const sorted = [...durations].sort((a, b) => a - b);
+    return {
+        medianDays: parseFloat((getPercentile(sorted, 0.5) / DAY_MS).toFixed(2)),
+        p90Days: parseFloat((getPercentile(sorted, 0.9) / DAY_MS).toFixed(2))
+    };
+}
+
+/**
+ * Scores a duration with half-life decay: 1 for no time at all, 0.5 at the half-life, 0.25 at twice the half-life.
+ *
+ * @param {number} days - The duration in days.
+ * @param {number} halfLifeDays - The half-life in days.
+ * @returns {number} The score, from 0 to 1.
+ */
+export function decayScore(days: number, halfLifeDays: number): number {
+    return Math.pow(0.5, Math.max(0, days) / halfLifeDays);
+}
+
+/**
+ * Formats a duration in days for the reasoning, in hours below one day.
+ *
+ * @param {number} days - The duration in days.
+ * @returns {string} The duration, such as `5 hours` or `3.5 days`.
+ */
+function formatDuration(days: number): string {
+    if (days < 1) {
+        const hours = Math.round(days * 24);
+        return `${hours} hour${hours === 1 ? '' : 's'}`;
+    }
+    const rounded = parseFloat(days.toFixed(1));
+    return `${rounded} day${rounded === 1 ? '' : 's'}`;
+}
 
 /**
- * Calculates the Responsive Maintainer score based on the recency of updates.
- * A higher score is given if the package has been updated within the last 6 months.
- * 
+ * Finds the latest release: the newest release (or tag) of the repository, or the newest
+ * version published to npm if that is more recent.
+ *
+ * @param {{ tag: string, publishedAt: string }[]} releases - The releases of the repository.
+ * @param {any} manifest - The npm registry manifest, undefined for repository URLs.
+ * @returns {{ name: string, date: number } | null} The release and when it was published, or null if there is none.
+ */
+function findLatestRelease(releases: { tag: string, publishedAt: string }[], manifest: any): { name: string, date: number } | null {
+    const candidates = releases.map(release => ({ name: release.tag, date: Date.parse(release.publishedAt) }));
+    for (const [version, time] of Object.entries(manifest?.time ?? {})) {
+        if (version !== 'created' && version !== 'modified') {
+            candidates.push({ name: `${manifest.name ?? 'npm'}@${version}`, date: Date.parse(String(time)) });
+        }
+    }
+    return candidates.filter(candidate => !Number.isNaN(candidate.date)).sort((a, b) => b.date - a.date)[0] ?? null;
+}
+
+/**
+ * Calculates the Responsive Maintainer score from how quickly issues and pull requests opened
+ * in the last `windowMonths` months got a first response from a maintainer and were closed,
+ * and how recent the last commit and release are. Each duration is scored with half-life
+ * decay; response and close times average the scores of their median and 90th percentile.
+ * Pull requests listed among the issues are counted once, as pull requests, and bots are
+ * left out. Items still waiting count with the time they have waited so far.
+ *
  * @param {string} URL - The GitHub repository URL.
- * @returns {Promise<{ score: number; latency: number }>} - The Responsive Maintainer score (0-1) and fetch latency.
+ * @param {RepoContext} [context] - The shared repository data; created from `URL` if omitted.
+ * @param {ScoreConfig} [config] - The scoring configuration; the run's configuration if omitted.
+ * @param {Date} [now=new Date()] - The current time, which durations of open items and recency are measured to.
+ * @returns {Promise<MetricResult>} - The Responsive Maintainer score (0-1), fetch latency and explanation.
  */
-export async function calculateResponsiveMaintainer(URL: string): Promise<{ score: number; latency: number }> {
+export async function calculateResponsiveMaintainer(URL: string, context: RepoContext = createRepoContext(URL), config: ScoreConfig = getConfig(), now: Date = new Date()): Promise<MetricResult> {
     logMessage('calculateResponsiveMaintainer', ['Starting Responsive Maintainer score calculation.', `Repository URL: ${URL}`]);
-    
+
     // Start latency tracking
     const latency_start = getTimestampWithThreeDecimalPlaces();
-    logMessage('calculateResponsiveMaintainer', ['Latency tracking started.']);
+    const settings = config.responsiveMaintainer;
+    const since = getWindowStart(now, settings.windowMonths);
+    const sinceDay = since.toISOString().slice(0, 10);
 
-    // Construct the GitHub API link for the repository
-    const API_link = getGitHubAPILink(URL);
-    logMessage('calculateResponsiveMaintainer', ['Constructed API link for repository data.', `API Link: ${API_link}`]);
-
-    // Fetch repository data and issues data concurrently
-    const [repoData, issuesData] = await Promise.all([
-        fetchJsonFromApi(API_link),
-        fetchJsonFromApi(`${API_link}/issues?state=all`)
+    // The last commit is read from the history the Bus Factor fetches, so both share one listing
+    const [repoData, issues, mergeRequests, comments, commits, releases, manifest] = await Promise.all([
+        context.getRepo(),
+        context.getIssues('all', since.toISOString()),
+        context.getMergeRequests('all', since.toISOString()),
+        context.getComments(since.toISOString()),
+        context.getCommits(getWindowStart(now, config.busFactor.windowMonths).toISOString()),
+        context.getReleases(),
+        context.getPackageManifest()
     ]);
-    logMessage('calculateResponsiveMaintainer', ['Fetched repository and issues data successfully.']);
+    logMessage('calculateResponsiveMaintainer', ['Fetched issues, pull requests, comments, commits and releases.', `Issues: ${issues.data.length}, Pull requests: ${mergeRequests.data.length}, Comments: ${comments.data.length}, Releases: ${releases.data.length}`]);
 
-    let openIssuesCount = 0;
-    let closedIssuesCount = 0;
+    // Issues and pull requests opened in the window, without pull requests listed as issues and items opened by bots
+    const bots = settings.bots.map(toPatternRegExp);
+    const isBot = (login: string | null) => login !== null && bots.some(pattern => pattern.test(login));
+    const opened = [
+        ...issues.data.filter(issue => !issue.isPullRequest).map(issue => ({ ...issue, key: `issue:${issue.number}` })),
+        ...mergeRequests.data.map(request => ({ ...request, key: `mergeRequest:${request.number}` }))
+    ].filter(item => Date.parse(item.createdAt) >= since.getTime());
+    const items: TrackedItem[] = opened
+        .filter(item => !isBot(item.author))
+        .map(item => ({ key: item.key, author: item.author, createdAt: Date.parse(item.createdAt), closedAt: item.closedAt ? Date.parse(item.closedAt) : null }));
 
-    // Count open and closed issues
-    for (const issue of issuesData) {
-        if (issue.closed_at) {
-            closedIssuesCount++;
-        } else {
-            openIssuesCount++;
+    // Comments by maintainers (anyone where the provider does not tell roles), without bots
+    const responses = new Map<string, { author: string | null, time: number }[]>();
+    const humanComments = comments.data.filter(comment => !comment.bot && !isBot(comment.author) && comment.maintainer !== false);
+    for (const comment of humanComments) {
+        const keys = comment.onMergeRequest === null ? ['issue', 'mergeRequest'] : [comment.onMergeRequest ? 'mergeRequest' : 'issue'];
+        for (const key of keys.map(kind => `${kind}:${comment.number}`)) {
+            responses.set(key, [...(responses.get(key) ?? []), { author: comment.author, time: Date.parse(comment.createdAt) }]);
         }
     }
-    logMessage('calculateResponsiveMaintainer', [`Counted issues - Open: ${openIssuesCount}, Closed: ${closedIssuesCount}`]);
 
-    // Use open_issues_count from repoData if available
-    openIssuesCount = repoData.open_issues_count || openIssuesCount;
-    logMessage('calculateResponsiveMaintainer', ['Using open issues count from repoData.', `Open Issues Count: ${openIssuesCount}`]);
+    // The author answering their own item is no response; a close without a comment is one, and items still waiting count the time so far
+    const firstResponses: number[] = [];
+    const closes: number[] = [];
+    for (const item of items) {
+        const times = (responses.get(item.key) ?? [])
+            .filter(response => response.time >= item.createdAt && (item.author === null || response.author !== item.author))
+            .map(response => response.time);
+        const firstResponse = Math.min(...times, item.closedAt ?? Infinity);
+        firstResponses.push((Number.isFinite(firstResponse) ? firstResponse : now.getTime()) - item.createdAt);
+        closes.push((item.closedAt ?? now.getTime()) - item.createdAt);
+    }
+    const firstResponse = getDurationStats(firstResponses);
+    const close = getDurationStats(closes);
+
+    // Recency of the last commit, from the commit history or else the last push
+    const lastCommitAt = commits.data.length > 0 ? Math.max(...commits.data.map(commit => Date.parse(commit.date))) : repoData.pushedAt ? Date.parse(repoData.pushedAt) : null;
+    const daysSinceLastCommit = lastCommitAt === null ? null : parseFloat(((now.getTime() - lastCommitAt) / DAY_MS).toFixed(2));
+    const lastRelease = findLatestRelease(releases.data, manifest);
+    const daysSinceLastRelease = lastRelease ? parseFloat(((now.getTime() - lastRelease.date) / DAY_MS).toFixed(2)) : null;
 
-    // Calculate the ratio of open to closed issues
-    const ratio = closedIssuesCount > 0 ? openIssuesCount / closedIssuesCount : 0; // Avoid division by zero
-    const score = parseFloat((1 / (1 + ratio)).toFixed(2)); // Calculate score
-    logMessage('calculateResponsiveMaintainer', ['Calculated Responsive Maintainer score.', `Score: ${score}`]);
+    const signals: Record<keyof typeof SIGNAL_WEIGHTS, number | null> = {
+        firstResponse: firstResponse ? (decayScore(firstResponse.medianDays, settings.responseHalfLifeDays) + decayScore(firstResponse.p90Days, settings.responseHalfLifeDays)) / 2 : null,
+        close: close ? (decayScore(close.medianDays, settings.closeHalfLifeDays) + decayScore(close.p90Days, settings.closeHalfLifeDays)) / 2 : null,
+        lastCommit: daysSinceLastCommit === null ? 0 : decayScore(daysSinceLastCommit, settings.commitHalfLifeDays),
+        lastRelease: daysSinceLastRelease === null ? null : decayScore(daysSinceLastRelease, settings.releaseHalfLifeDays)
+    };
+    let weighted = 0;
+    let totalWeight = 0;
+    for (const [signal, value] of Object.entries(signals) as [keyof typeof SIGNAL_WEIGHTS, number | null][]) {
+        if (value !== null) {
+            weighted += SIGNAL_WEIGHTS[signal] * value;
+            totalWeight += SIGNAL_WEIGHTS[signal];
+        }
+    }
+    const score = parseFloat((totalWeight > 0 ? weighted / totalWeight : 0).toFixed(2));
+    logMessage('calculateResponsiveMaintainer', ['Calculated Responsive Maintainer score.', `Score: ${score}, Signals: ${JSON.stringify(signals)}`]);
 
     // Calculate latency in milliseconds
     const latencyMs = parseFloat((getTimestampWithThreeDecimalPlaces() - latency_start).toFixed(3));
     logMessage('calculateResponsiveMaintainer', ['Calculated fetch latency.', `Latency: ${latencyMs} ms`]);
 
-    return { score, latency: latencyMs }; // Return score and latency
-}
\ No newline at end of file
+    const round = (value: number | null) => value === null ? null : parseFloat(value.toFixed(3));
+    const activity = items.length > 0 && firstResponse && close
+        ? `Of the ${items.length} issues and pull requests opened since ${sinceDay}, half got a first response within ${formatDuration(firstResponse.medianDays)} (90% within ${formatDuration(firstResponse.p90Days)}) and half were closed within ${formatDuration(close.medianDays)} (90% within ${formatDuration(close.p90Days)})`
+        : `No issues or pull requests were opened since ${sinceDay}`;
+    const commitText = daysSinceLastCommit === null ? 'no commit was found' : `the last commit was ${formatDuration(daysSinceLastCommit)} ago`;
+    const releaseText = lastRelease && daysSinceLastRelease !== null ? `the last release (${lastRelease.name}) ${formatDuration(daysSinceLastRelease)} ago` : 'no release was found';
+
+    const explanation = {
+        inputs: {
+            since: sinceDay,
+            issues: items.filter(item => item.key.startsWith('issue:')).length,
+            pullRequests: items.filter(item => item.key.startsWith('mergeRequest:')).length,
+            botItems: opened.length - items.length,
+            maintainerComments: humanComments.length,
+            lastCommit: lastCommitAt === null ? null : new Date(lastCommitAt).toISOString(),
+            lastRelease: lastRelease?.name ?? null
+        },
+        intermediate: {
+            firstResponseMedianDays: firstResponse?.medianDays ?? null,
+            firstResponseP90Days: firstResponse?.p90Days ?? null,
+            closeMedianDays: close?.medianDays ?? null,
+            closeP90Days: close?.p90Days ?? null,
+            daysSinceLastCommit,
+            daysSinceLastRelease,
+            firstResponseScore: round(signals.firstResponse),
+            closeScore: round(signals.close),
+            lastCommitScore: round(signals.lastCommit),
+            lastReleaseScore: round(signals.lastRelease)
+        },
+        thresholds: {
+            windowMonths: settings.windowMonths,
+            responseHalfLifeDays: settings.responseHalfLifeDays,
+            closeHalfLifeDays: settings.closeHalfLifeDays,
+            commitHalfLifeDays: settings.commitHalfLifeDays,
+            releaseHalfLifeDays: settings.releaseHalfLifeDays
+        },
+        complete: !issues.truncated && !mergeRequests.truncated && !comments.truncated,
+        reasoning: `${activity}; ${commitText} and ${releaseText}, so the weighted score is ${score}.`
+    };
+    return { score, latency: latencyMs, explanation }; // Return score, latency and explanation
+}
@@ -1,5 +1,39 @@
 import { cpus } from 'os';
+import * as path from 'path';
+import { Worker } from 'worker_threads';
 import { logMessage } from './logFile';
+import { getRemainingBudget } from './httpClient';
+
+/**
+ * Interface representing how far a pool run has got, reported each time an item finishes.
+ *
+ * @interface PoolProgress
+ */
+export interface PoolProgress {
+    done: number;       // Items finished so far
+    total: number;      // Items in the run
+    running: number;    // Items still running
+}
+
+// URLs scored at once per CPU core by default; scoring mostly waits on the network
+const URLS_PER_CORE = 4;
+
+// Upper bound of the default concurrency, to stay clear of GitHub's secondary rate limits
+const MAX_DEFAULT_CONCURRENCY = 16;
+
+// Rough number of API requests it takes to score one URL
+const REQUESTS_PER_URL = 10;
+
+// Script of a worker thread: calls an export of a compiled module and posts back its result
+const WORKER_SCRIPT = `
+const { parentPort, workerData } = require('worker_threads');
+Promise.resolve()
+    .then(() => require(workerData.file)[workerData.exportName](...workerData.args))
+    .then(result => parentPort.postMessage({ result }), error => parentPort.postMessage({ error: error instanceof Error ? error.message : String(error) }));
+`;
+
+// True to run CPU-heavy analysis in worker threads (set with --threads)
+let workerThreadsEnabled = false;
 
 /**
  * Retrieves the number of CPU cores available on the system.
@@ -15,4 +49,122 @@ export function getNumberOfCores(): number {
     logMessage('getNumberOfCores', [`Number of CPU cores: ${cores}`, 'Returning the core count.']);
 
     return cores; // Return the count of CPU cores
-}
\ No newline at end of file
+}
+
+/**
+ * Gets how many URLs to score at once when --concurrency is not given. The limit grows with the
+ * core count and shrinks as the API budget runs low, so a large run does not exhaust it early.
+ *
+ * @param {number} cores - The number of CPU cores.
+ * @param {number | null} [remainingBudget=getRemainingBudget()] - The API requests left, or null if unknown.
+ * @returns {number} The number of URLs to score at once, at least 1.
+ */
+export function getDefaultConcurrency(cores: number, remainingBudget: number | null = getRemainingBudget()): number {
+    const byCores = Math.min(Math.max(cores, 1) * URLS_PER_CORE, MAX_DEFAULT_CONCURRENCY);
+    if (remainingBudget === null) {
+        return byCores;
+    }
+    return Math.max(1, Math.min(byCores, Math.floor(remainingBudget / REQUESTS_PER_URL)));
+}
+
+/**
+ * Runs a task for every item with at most `concurrency` tasks running at once. The limit is read
+ * again before each task starts, so it can follow a changing budget. Results keep the order of the
+ * items, whatever order the tasks finish in.
+ *
+ * @param {T[]} items - The items.
+ * @param {(item: T, index: number) => Promise<R>} task - The task to run for each item.
+ * @param {number | (() => number)} concurrency - The limit, or a function returning it; values below 1 count as 1.
+ * @param {(progress: PoolProgress, item: T) => void} [onProgress] - Called each time a task finishes.
+ * @returns {Promise<R[]>} The result of each item, in item order.
+ * @throws If a task throws. No new task starts after that.
+ */
+export function runPool<T, R>(items: T[], task: (item: T, index: number) => Promise<R>, concurrency: number | (() => number), onProgress?: (progress: PoolProgress, item: T) => void): Promise<R[]> {
+    const getLimit = () => Math.max(1, Math.floor(typeof concurrency === 'function' ? concurrency() : concurrency));
+    const results: R[] = new Array(items.length);
+    let next = 0;
+    let running = 0;
+    let done = 0;
+    let failed = false;
+
+    return new Promise((resolve, reject) => {
+        const startTasks = () => {
+            if (failed) {
+                return;
+            }
+            if (done === items.length) {
+                resolve(results);
+                return;
+            }
+            while (next < items.length && running < getLimit()) {
+                const index = next++;
+                running++;
+                Promise.resolve().then(() => task(items[index], index)).then(result => {
+                    results[index] = result;
+                    running--;
+                    done++;
+                    onProgress?.({ done, total: items.length, running }, items[index]);
+                    startTasks();
+                }, error => {
+                    logMessage('runPool', ['Task failed; starting no more tasks.', `Item: ${index}, Error: ${error instanceof Error ? error.message : error}`]);
+                    failed = true;
+                    reject(error);
+                });
+            }
+        };
+        startTasks();
+    });
+}
+
+/**
+ * Turns offloading CPU-heavy analysis to worker threads on or off.
+ *
+ * @param {boolean} enabled - True to use worker threads.
+ */
+export function setWorkerThreadsEnabled(enabled: boolean) {
+    workerThreadsEnabled = enabled;
+}
+
+/**
+ * Calls an exported function of a module in a worker thread, so CPU-heavy analysis does not hold
+ * up the requests of other URLs. The arguments and result must survive structured cloning. The call
+ * runs in the current thread when worker threads are off or the module is not compiled JavaScript
+ * (as under ts-node), since a worker cannot load TypeScript.
+ *
+ * @param {string} file - The absolute path of the module.
+ * @param {string} exportName - The name of the exported function.
+ * @param {unknown[]} args - The arguments of the function.
+ * @returns {Promise<R>} The result of the function.
+ * @throws {Error} If the function throws, keeping its message, or if the worker exits without a result.
+ */
+export async function runInWorker<R>(file: string, exportName: string, args: unknown[]): Promise<R> {
+    if (!workerThreadsEnabled || path.extname(file) !== '.js') {
+        return require(file)[exportName](...args);
+    }
+
+    logMessage('runInWorker', ['Starting a worker thread.', `Module: ${file}, Function: ${exportName}`]);
+    return new Promise<R>((resolve, reject) => {
+        const worker = new Worker(WORKER_SCRIPT, { eval: true, workerData: { file, exportName, args } });
+        let settled = false;
+        worker.once('message', (message: { result?: R, error?: string }) => {
+            settled = true;
+            if (message.error !== undefined) {
+                reject(new Error(message.error));
+            } else {
+                resolve(message.result as R);
+            }
+            worker.terminate();
+        });
+        worker.once('error', error => {
+            settled = true;
+            reject(error);
+        });
+        // A worker can also end without posting, e.g. when the module calls process.exit
+        worker.once('exit', code => {
+            if (!settled) {
+                logMessage('runInWorker', ['Worker thread exited without a result.', `Module: ${file}, Function: ${exportName}, Exit code: ${code}`]);
+                reject(new Error(`Worker thread for ${exportName} exited with code ${code} before returning a result`));
+            }
+        });
+    });
+}
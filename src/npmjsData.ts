@@ -1,65 +1,92 @@
 import { fetchJsonFromApi } from './API';
 import { getGitHubAPILink, getContributionCounts } from './githubData';
 import { logMessage } from './logFile';
+import { UnrecordedRequestError } from './recorder';
+import { getRegistryURL, getRepositoryURL, parsePackageRef } from './packageRef';
 
 /**
- * Converts a GitHub repository URL from git+ssh format to HTTPS format.
+ * Converts a repository URL in any form accepted by parsePackageRef (git+ssh, git+https,
+ * git://, scp-like or `github:owner/repo` shorthand) to HTTPS format.
  *
  * @param {string} repoUrl - The repository URL (e.g., git+ssh://git@github.com/browserify/browserify.git).
- * @returns {string} The cleaned-up GitHub URL (e.g., https://github.com/browserify/browserify).
+ * @returns {string} The cleaned-up GitHub URL (e.g., https://github.com/browserify/browserify), or the input if it names no repository.
  */
-function convertGitUrlToHttps(repoUrl: string): string {
+export function convertGitUrlToHttps(repoUrl: string): string {
     logMessage('convertGitUrlToHttps', ['Converting Git URL to HTTPS format.', `Original URL: ${repoUrl}`]);
 
-    if (repoUrl.startsWith('git+')) {
-        // Remove 'git+' and replace 'git@' with 'https://'
-        repoUrl = repoUrl.replace('git+ssh://git@', 'https://');
-    }
-    
-    logMessage('convertGitUrlToHttps', ['Removing .git extension if present.', 'Processing the URL.']);
-    
-    // Remove the '.git' extension if present
-    if (repoUrl.endsWith('.git')) {
-        repoUrl = repoUrl.slice(0, -4);
+    const httpsUrl = getRepositoryURL(parsePackageRef(repoUrl));
+    if (!httpsUrl) {
+        logMessage('convertGitUrlToHttps', ['URL does not name a repository.', 'Returning the URL unchanged.']);
+        return repoUrl;
     }
 
-    return repoUrl; // Return the cleaned GitHub URL
+    return httpsUrl; // Return the cleaned GitHub URL
 }
 
 /**
- * Gets the API link for the Node.js repository on GitHub from the provided npm package URL.
+ * Interface representing the repository of an npm package.
+ *
+ * @interface NpmRepository
+ */
+export interface NpmRepository {
+    url: string;                // HTTPS repository URL, empty if the package names no repository
+    directory: string | null;   // Package directory inside the repository (`repository.directory`), null if unset
+    manifest?: any;             // Registry manifest the repository was read from, unset if it could not be fetched
+}
+
+/**
+ * Gets the repository of an npm package from its registry manifest. Scoped packages (`@types/node`)
+ * and version URLs (`/v/1.2.3`) read the manifest of that package and version. Packages published
+ * from a monorepo also report the directory they live in. The manifest is returned too, so the
+ * metrics can read it without fetching it again.
  *
  * @param {string} url - The URL of the npm package.
- * @returns {Promise<string>} A promise that resolves to the cleaned GitHub repository URL.
+ * @returns {Promise<NpmRepository>} A promise that resolves to the cleaned repository URL, package directory and manifest.
  */
-export async function getNodeJsAPILink(url: string): Promise<string> {
-    logMessage('getNodeJsAPILink', ['Fetching API link for Node.js repository.', `NPM package URL: ${url}`]);
+export async function getNodeJsRepository(url: string): Promise<NpmRepository> {
+    logMessage('getNodeJsRepository', ['Fetching repository of npm package.', `NPM package URL: ${url}`]);
 
-    let url_parts = url.split('/');
-    let repo = url_parts[url_parts.length - 1]; // Extract the repository name
-    let registry_url = `https://registry.npmjs.org/${repo}`; // Construct the registry URL
+    const registry_url = getRegistryURL(parsePackageRef(url)); // Construct the registry URL
+    if (!registry_url) {
+        logMessage('getNodeJsRepository', ['No package name found in URL.', 'Returning empty repository.']);
+        return { url: '', directory: null };
+    }
     
-    logMessage('getNodeJsAPILink', ['Constructed registry URL.', `Registry URL: ${registry_url}`]);
+    logMessage('getNodeJsRepository', ['Constructed registry URL.', `Registry URL: ${registry_url}`]);
 
     try {
         // Fetch JSON data from the npm registry
         const data = await fetchJsonFromApi(registry_url);
         
-        // Extract the GitHub repository link from the npm package data
-        const repositoryUrl = data?.repository?.url;
+        // Extract the repository link and directory from the npm package data
+        const repositoryUrl = typeof data?.repository === 'string' ? data.repository : data?.repository?.url;
+        const directory = typeof data?.repository?.directory === 'string' ? data.repository.directory.replace(/^\/+|\/+$/g, '') || null : null;
         
-        logMessage('getNodeJsAPILink', ['Extracted repository URL from package data.', `Repository URL: ${repositoryUrl}`]);
+        logMessage('getNodeJsRepository', ['Extracted repository URL from package data.', `Repository URL: ${repositoryUrl}, Directory: ${directory}`]);
 
         if (repositoryUrl) {
             const httpsRepoUrl = convertGitUrlToHttps(repositoryUrl); // Convert to HTTPS format
-            logMessage('getNodeJsAPILink', ['Returning cleaned GitHub repository URL.', httpsRepoUrl]);
-            return httpsRepoUrl; // Return the cleaned GitHub repository URL
+            logMessage('getNodeJsRepository', ['Returning cleaned repository URL.', httpsRepoUrl]);
+            return { url: httpsRepoUrl, directory, manifest: data };
         } else {
-            logMessage('getNodeJsAPILink', ['No GitHub repository link found or data is incomplete.', 'Returning empty string.']);
-            return ''; // Return an empty string if no GitHub link is found
+            logMessage('getNodeJsRepository', ['No repository link found or data is incomplete.', 'Returning empty repository.']);
+            return { url: '', directory: null, manifest: data }; // Return an empty URL if no repository link is found
         }
     } catch (error) {
-        logMessage('getNodeJsAPILink', ['Error fetching data from npm API.', `Error: ${error}`]);
-        return ''; // Return an empty string in case of an error
+        logMessage('getNodeJsRepository', ['Error fetching data from npm API.', `Error: ${error}`]);
+        if (error instanceof UnrecordedRequestError) {
+            throw error; // Fail loudly on requests missing from the fixtures
+        }
+        return { url: '', directory: null }; // Return an empty URL in case of an error
     }
-}
\ No newline at end of file
+}
+
+/**
+ * Gets the API link for the Node.js repository on GitHub from the provided npm package URL.
+ *
+ * @param {string} url - The URL of the npm package.
+ * @returns {Promise<string>} A promise that resolves to the cleaned GitHub repository URL.
+ */
+export async function getNodeJsAPILink(url: string): Promise<string> {
+    return (await getNodeJsRepository(url)).url;
+}
@@ -0,0 +1,116 @@
+import { getFormatter } from './formatters';
+import { FormatOptions } from './formatters/formatter';
+import { DataObject, getDataField } from './json';
+import { MetricName, ScoredPackage } from './metrics/getMetrics';
+import { MetricInputs } from './metrics/metricResult';
+import { getMetric, getMetricNames } from './metrics/registry';
+import { PoolProgress } from './multithread';
+import { PolicyResult } from './policy';
+
+/**
+ * Formats the results of a run.
+ *
+ * @param {DataObject[]} results - The results, one per URL.
+ * @param {string} format - The name of a registered output format.
+ * @param {FormatOptions} [options={}] - The format options.
+ * @returns {string} The formatted results, without a trailing newline.
+ * @throws {Error} If the format is not registered.
+ */
+export function formatOutput(results: DataObject[], format: string, options: FormatOptions = {}): string {
+    const formatter = getFormatter(format);
+    if (!formatter) {
+        throw new Error(`Unknown output format: ${format}`);
+    }
+    return formatter.format(results, options);
+}
+
+/**
+ * Formats named explanation values as indented `name: value` lines. Lists of rows get one line per row.
+ *
+ * @param {string} title - The heading of the values.
+ * @param {MetricInputs} values - The values.
+ * @returns {string[]} The lines, or none if there are no values.
+ */
+function formatExplanationValues(title: string, values: MetricInputs): string[] {
+    const entries = Object.entries(values);
+    if (entries.length === 0) {
+        return [];
+    }
+    const lines = [`  ${title}:`];
+    for (const [name, value] of entries) {
+        if (Array.isArray(value)) {
+            lines.push(`    ${name}:${value.length === 0 ? ' none' : ''}`);
+            lines.push(...value.map(row => `      - ${Object.entries(row).map(([key, item]) => `${key}: ${item ?? '-'}`).join(', ')}`));
+        } else {
+            lines.push(`    ${name}: ${value ?? '-'}`);
+        }
+    }
+    return lines;
+}
+
+/**
+ * Formats the `explain` output: the score of each metric with a description of what it measures
+ * and, where the metric reports them, how it arrived at the score and its extra details.
+ *
+ * @param {ScoredPackage} scored - The results for one URL, their explanations and details.
+ * @param {MetricName[]} [metrics=getMetricNames()] - The metrics that were calculated.
+ * @returns {string} The explanation text.
+ */
+export function formatExplanation({ data, explanations, details, errors }: ScoredPackage, metrics: MetricName[] = getMetricNames()): string {
+    const lines = [`${data.URL}`, `NetScore: ${data.NetScore ?? '-'}`];
+    for (const name of metrics) {
+        lines.push('', `${name}: ${getDataField(data, name) ?? '-'} (${getDataField(data, `${name}_Latency`) ?? '-'} ms)`, `  ${getMetric(name)?.description ?? ''}`);
+
+        const failure = errors[name];
+        if (failure) {
+            lines.push(`  Failed (${failure.code}): ${failure.message}`);
+        }
+
+        const explanation = explanations[name];
+        if (explanation) {
+            lines.push(`  ${explanation.reasoning}`);
+            if (!explanation.complete) {
+                lines.push('  Some data was truncated or unavailable; the score may be inaccurate.');
+            }
+            lines.push(
+                ...formatExplanationValues('Inputs', explanation.inputs),
+                ...formatExplanationValues('Intermediate values', explanation.intermediate),
+                ...formatExplanationValues('Thresholds', explanation.thresholds)
+            );
+        }
+        lines.push(...formatExplanationValues('Details', details[name] ?? {}));
+    }
+    return lines.join('\n');
+}
+
+/**
+ * Formats the progress line of a run, such as `[12/300] https://github.com/a/b (2 failed)`.
+ *
+ * @param {PoolProgress} progress - How many URLs are scored.
+ * @param {string} url - The URL scored last.
+ * @param {number} [failed=0] - URLs scored so far with failed metrics.
+ * @returns {string} The progress line.
+ */
+export function formatProgress({ done, total }: PoolProgress, url: string, failed: number = 0): string {
+    return `[${String(done).padStart(String(total).length)}/${total}] ${url}${failed > 0 ? ` (${failed} failed)` : ''}`;
+}
+
+/**
+ * Formats the policy check of a run: each package that breaks a rule, with the rules it breaks,
+ * and a summary line. Waived rules are listed with the date their exception expires.
+ *
+ * @param {PolicyResult[]} results - The policy result of each package.
+ * @returns {string} The policy check text.
+ */
+export function formatPolicyResults(results: PolicyResult[]): string {
+    const lines: string[] = [];
+    for (const { url, passed, violations } of results.filter(result => result.violations.length > 0)) {
+        lines.push(`${passed ? 'PASS' : 'FAIL'} ${url}`);
+        lines.push(...violations.map(({ rule, message, waivedUntil }) => `  ${rule}: ${message}${waivedUntil ? ` (waived until ${waivedUntil})` : ''}`));
+    }
+    const failed = results.filter(result => !result.passed).length;
+    lines.push(failed > 0
+        ? `Policy: ${failed} of ${results.length} package${results.length === 1 ? '' : 's'} violate${failed === 1 ? 's' : ''} the policy.`
+        : results.length === 1 ? 'Policy: the package passes.' : `Policy: all ${results.length} packages pass.`);
+    return lines.join('\n');
+}
@@ -0,0 +1,194 @@
+import { isGitHubHost } from './hosts';
+import { logMessage } from './logFile';
+
+/**
+ * Interface representing a package or repository reference parsed from a URL.
+ * Fields that do not apply to the input are null.
+ *
+ * @interface PackageRef
+ */
+export interface PackageRef {
+    host: string | null;            // Host without `www.` (e.g. github.com, npmjs.com, registry.npmjs.org)
+    owner: string | null;           // Repository owner
+    repo: string | null;            // Repository name without `.git`
+    packageName: string | null;     // npm package name, including the scope
+    scope: string | null;           // npm scope, including the `@`
+    version: string | null;         // npm version, or the git ref (branch, tag or commit) of a repository URL
+    subdirectory: string | null;    // Path inside the repository (from `/tree/<ref>/<path>` URLs)
+}
+
+// Hosts of the `host:owner/repo` shorthands accepted in package.json
+const SHORTHAND_HOSTS: Record<string, string> = {
+    github: 'github.com',
+    gitlab: 'gitlab.com',
+    bitbucket: 'bitbucket.org'
+};
+
+// npm website and registry hosts
+const NPM_WEBSITE_HOSTS = ['npmjs.com', 'npmjs.org'];
+const NPM_REGISTRY_HOST = 'registry.npmjs.org';
+
+/**
+ * Creates a reference with every field unset.
+ *
+ * @returns {PackageRef} The empty reference.
+ */
+function emptyRef(): PackageRef {
+    return { host: null, owner: null, repo: null, packageName: null, scope: null, version: null, subdirectory: null };
+}
+
+/**
+ * Strips a trailing `.git` from a repository name.
+ *
+ * @param {string} repo - The repository name.
+ * @returns {string} The name without `.git`.
+ */
+function stripGitSuffix(repo: string): string {
+    return repo.endsWith('.git') ? repo.slice(0, -4) : repo;
+}
+
+/**
+ * Reads an npm package name from URL path segments.
+ * Handles scoped names given as two segments (`@types/node`) or as one encoded segment (`@types%2fnode`).
+ *
+ * @param {PackageRef} ref - The reference to fill in.
+ * @param {string[]} segments - The decoded path segments, starting at the package name.
+ * @returns {string[]} The segments following the package name.
+ */
+function readPackageName(ref: PackageRef, segments: string[]): string[] {
+    let rest = segments;
+    if (rest.length > 0 && rest[0].startsWith('@')) {
+        const [scope, name] = rest[0].includes('/') ? rest[0].split('/') : [rest[0], rest[1]];
+        rest = rest[0].includes('/') ? rest.slice(1) : rest.slice(2);
+        if (name) {
+            ref.scope = scope;
+            ref.packageName = `${scope}/${name}`;
+        }
+    } else if (rest.length > 0) {
+        ref.packageName = rest[0];
+        rest = rest.slice(1);
+    }
+    return rest;
+}
+
+/**
+ * Parses a GitHub, GitLab, Bitbucket, npm website or npm registry URL into a PackageRef.
+ *
+ * Accepted forms include `https://github.com/owner/repo/tree/main/packages/a`, `www.github.com`,
+ * trailing slashes, query strings and fragments, `git://`, `git+ssh://`, `git+https://`,
+ * `git@github.com:owner/repo.git`, the `github:owner/repo` and bare `owner/repo` shorthands,
+ * `https://www.npmjs.com/package/@scope/name/v/1.2.3` and `https://registry.npmjs.org/@scope%2fname`.
+ * A `#ref` fragment on a git URL is read as the version; on a web URL it is ignored.
+ *
+ * @param {string} input - The URL or shorthand to parse.
+ * @returns {PackageRef} The parsed reference. Every field is null if the input is not a URL.
+ */
+export function parsePackageRef(input: string): PackageRef {
+    const ref = emptyRef();
+    let value = input.trim();
+
+    // `github:owner/repo#ref` and bare `owner/repo` shorthands
+    const shorthand = /^(?:(github|gitlab|bitbucket):)?([\w-]+)\/([\w.-]+?)(?:#(.+))?$/.exec(value);
+    if (shorthand && !value.includes('://')) {
+        ref.host = SHORTHAND_HOSTS[shorthand[1] || 'github'];
+        ref.owner = shorthand[2];
+        ref.repo = stripGitSuffix(shorthand[3]);
+        ref.version = shorthand[4] ? shorthand[4].replace(/^semver:/, '') : null;
+        logMessage('parsePackageRef', ['Parsed repository shorthand.', `Input: ${input}, Reference: ${JSON.stringify(ref)}`]);
+        return ref;
+    }
+
+    // scp-like `git@github.com:owner/repo.git`
+    const scp = /^([\w.-]+@)?([\w.-]+\.[a-z]+):(?!\/\/|\d+(?:\/|$))(.+)$/i.exec(value);
+    if (scp) {
+        value = `ssh://${scp[1] || ''}${scp[2]}/${scp[3]}`;
+    }
+
+    const isGitTransport = /^(git\+|git:|ssh:)/i.test(value);
+    value = value.replace(/^git\+/i, '');
+    if (!/^[a-z][a-z0-9+.-]*:\/\//i.test(value)) {
+        value = `https://${value}`;
+    }
+
+    let url: URL;
+    try {
+        url = new URL(value);
+    } catch (error) {
+        logMessage('parsePackageRef', ['Input is not a URL.', `Input: ${input}, Error: ${error}`]);
+        return ref;
+    }
+
+    ref.host = url.hostname.toLowerCase().replace(/^www\./, '');
+    const segments = url.pathname.split('/').filter(segment => segment.length > 0).map(segment => decodeURIComponent(segment));
+
+    if (ref.host === NPM_REGISTRY_HOST) {
+        const rest = readPackageName(ref, segments);
+        ref.version = rest.length > 0 && rest[0] !== '-' ? rest[0] : null;
+    } else if (NPM_WEBSITE_HOSTS.includes(ref.host)) {
+        if (segments[0] === 'package') {
+            const rest = readPackageName(ref, segments.slice(1));
+            ref.version = rest[0] === 'v' && rest[1] ? rest[1] : null;
+        }
+    } else if (segments.length >= 2) {
+        ref.owner = segments[0];
+        ref.repo = stripGitSuffix(segments[1]);
+
+        // GitLab inserts a `-` segment before `tree` and `blob`
+        const rest = segments[2] === '-' ? segments.slice(3) : segments.slice(2);
+        if ((rest[0] === 'tree' || rest[0] === 'blob') && rest[1]) {
+            ref.version = rest[1];
+            const pathSegments = rest[0] === 'blob' ? rest.slice(2, -1) : rest.slice(2);
+            ref.subdirectory = pathSegments.length > 0 ? pathSegments.join('/') : null;
+        }
+        if (isGitTransport && url.hash.length > 1) {
+            ref.version = decodeURIComponent(url.hash.slice(1)).replace(/^semver:/, '');
+        }
+    }
+
+    logMessage('parsePackageRef', ['Parsed package reference.', `Input: ${input}, Reference: ${JSON.stringify(ref)}`]);
+    return ref;
+}
+
+/**
+ * Classifies a reference by the service that hosts it.
+ *
+ * @param {PackageRef} ref - The parsed reference.
+ * @returns {string} "github", "npmjs", or "other".
+ */
+export function getPackageRefType(ref: PackageRef): string {
+    if (isGitHubHost(ref.host) && ref.owner && ref.repo) {
+        return 'github';
+    }
+    if ((ref.host === NPM_REGISTRY_HOST || NPM_WEBSITE_HOSTS.includes(ref.host || '')) && ref.packageName) {
+        return 'npmjs';
+    }
+    return 'other';
+}
+
+/**
+ * Builds the npm registry URL of a package's manifest. Scoped names are sent as one
+ * encoded path segment (`@scope%2Fname`), as the registry expects.
+ *
+ * @param {PackageRef} ref - The parsed reference.
+ * @returns {string | null} The registry URL, for the referenced version if one is set, or null if the reference names no package.
+ */
+export function getRegistryURL(ref: PackageRef): string | null {
+    if (!ref.packageName) {
+        return null;
+    }
+    const encodedName = ref.packageName.replace('/', '%2F');
+    return `https://${NPM_REGISTRY_HOST}/${encodedName}${ref.version ? '/' + ref.version : ''}`;
+}
+
+/**
+ * Builds the HTTPS URL of the repository a reference points to.
+ *
+ * @param {PackageRef} ref - The parsed reference.
+ * @returns {string | null} The URL (e.g. `https://github.com/owner/repo`), or null if the reference has no repository.
+ */
+export function getRepositoryURL(ref: PackageRef): string | null {
+    if (!ref.host || !ref.owner || !ref.repo) {
+        return null;
+    }
+    return `https://${ref.host}/${ref.owner}/${ref.repo}`;
+}
@@ -0,0 +1,215 @@
+import * as fs from 'fs';
+import { logMessage } from './logFile';
+import { getDataField } from './json';
+import { ScoredPackage } from './metrics/getMetrics';
+import { getMetricNames } from './metrics/registry';
+import { checkMapping, ConfigError, getMetricKey, parseConfigText } from './config';
+import { parsePackageRef } from './packageRef';
+
+/**
+ * Sections of the policy file that set the lowest allowed scores.
+ */
+export type PolicySection = 'minimums' | 'requirements';
+
+/**
+ * Interface representing an exception that waives minimums for one package until it expires.
+ *
+ * @interface PolicyException
+ */
+export interface PolicyException {
+    package: string;            // npm package name, `owner/repo` or URL of the package
+    rules: string[] | null;     // Fields of the waived minimums (e.g. `NetScore`), or null for every minimum
+    expires: string;            // Last day the exception applies, as YYYY-MM-DD (UTC)
+    reason: string | null;      // Why the exception was granted
+}
+
+/**
+ * Interface representing a policy: the lowest scores packages may have, and the exceptions to them.
+ *
+ * @interface Policy
+ */
+export interface Policy {
+    minimums: Record<string, number>;       // Lowest allowed score by field (`NetScore` or a metric); exceptions can waive them
+    requirements: Record<string, number>;   // Lowest allowed score by field, which no exception waives
+    exceptions: PolicyException[];          // Exceptions, in file order
+}
+
+/**
+ * Interface representing a rule a package breaks.
+ *
+ * @interface PolicyViolation
+ */
+export interface PolicyViolation {
+    rule: string;                   // The rule, as `<section>.<key>` (e.g. `requirements.busFactor`)
+    message: string;                // What is wrong, e.g. `BusFactor 0.2 is below the required 0.3`
+    waivedUntil: string | null;     // Expiry date of the exception that waives it, or null if it counts
+}
+
+/**
+ * Interface representing how one package fares against the policy.
+ *
+ * @interface PolicyResult
+ */
+export interface PolicyResult {
+    url: string;                    // The URL of the package, as given
+    passed: boolean;                // True if every rule the package breaks is waived
+    violations: PolicyViolation[];  // Every rule the package breaks, waived or not
+}
+
+// Format of the expiry dates of exceptions
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Reads the rules of a `minimums` or `requirements` section.
+ *
+ * @param {unknown} value - The section.
+ * @param {PolicySection} section - The name of the section.
+ * @param {Record<string, string>} fields - The field of each valid key.
+ * @param {string} source - The file name, for error messages.
+ * @returns {Record<string, number>} The lowest allowed score by field.
+ * @throws {ConfigError} If a key is unknown or a score is not from 0 to 1.
+ */
+function readRules(value: unknown, section: PolicySection, fields: Record<string, string>, source: string): Record<string, number> {
+    const rules: Record<string, number> = {};
+    for (const [key, score] of Object.entries(checkMapping(value, Object.keys(fields), source, section))) {
+        if (typeof score !== 'number' || !Number.isFinite(score) || score < 0 || score > 1) {
+            throw new ConfigError(`${source}: ${section}.${key} must be a number from 0 to 1, got ${JSON.stringify(score)}.`);
+        }
+        rules[fields[key]] = score;
+    }
+    return rules;
+}
+
+/**
+ * Reads the `exceptions` section: a mapping from each package to its exception.
+ *
+ * @param {unknown} value - The section.
+ * @param {Record<string, string>} fields - The field of each valid rule key.
+ * @param {string} source - The file name, for error messages.
+ * @returns {PolicyException[]} The exceptions.
+ * @throws {ConfigError} If an exception has an unknown key, an unknown rule or an invalid expiry date.
+ */
+function readExceptions(value: unknown, fields: Record<string, string>, source: string): PolicyException[] {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        throw new ConfigError(`${source}: exceptions must be a mapping from each package to its exception.`);
+    }
+    return Object.entries(value).map(([name, entry]) => {
+        const section = `exceptions.${name}`;
+        const { rules, expires, reason } = checkMapping(entry, ['rules', 'expires', 'reason'], source, section);
+        if (typeof expires !== 'string' || !DATE_PATTERN.test(expires) || Number.isNaN(Date.parse(expires))) {
+            throw new ConfigError(`${source}: ${section}.expires must be a date as YYYY-MM-DD, got ${JSON.stringify(expires)}.`);
+        }
+        if (rules !== undefined && (!Array.isArray(rules) || rules.some(rule => !(String(rule) in fields)))) {
+            throw new ConfigError(`${source}: ${section}.rules must be a list of minimums to waive. Valid rules: ${Object.keys(fields).join(', ')}.`);
+        }
+        if (reason !== undefined && typeof reason !== 'string') {
+            throw new ConfigError(`${source}: ${section}.reason must be text.`);
+        }
+        return {
+            package: name,
+            rules: rules === undefined ? null : (rules as string[]).map(rule => fields[rule]),
+            expires,
+            reason: reason ?? null
+        };
+    });
+}
+
+/**
+ * Validates a parsed policy file. Rules are keyed by `netScore` or by the camelCase name of a
+ * registered metric, so the config file's plugins must be loaded first.
+ *
+ * @param {unknown} raw - The parsed policy file.
+ * @param {string} [source='policy'] - The file name, for error messages.
+ * @returns {Policy} The policy.
+ * @throws {ConfigError} If the policy does not match the schema.
+ */
+export function validatePolicy(raw: unknown, source: string = 'policy'): Policy {
+    const file = checkMapping(raw ?? {}, ['minimums', 'requirements', 'exceptions'], source, null);
+    const fields = Object.fromEntries(['NetScore', ...getMetricNames()].map(field => [getMetricKey(field), field]));
+    return {
+        minimums: file.minimums === undefined ? {} : readRules(file.minimums, 'minimums', fields, source),
+        requirements: file.requirements === undefined ? {} : readRules(file.requirements, 'requirements', fields, source),
+        exceptions: file.exceptions === undefined ? [] : readExceptions(file.exceptions, fields, source)
+    };
+}
+
+/**
+ * Reads and validates a policy file, as JSON if it starts with `{` and as YAML otherwise.
+ *
+ * @param {string} file - The path of the policy file.
+ * @returns {Policy} The policy.
+ * @throws {ConfigError} If the file cannot be read or is invalid.
+ */
+export function loadPolicy(file: string): Policy {
+    let text: string;
+    try {
+        text = fs.readFileSync(file, 'utf8');
+    } catch (error) {
+        throw new ConfigError(`Cannot read the policy file ${file}: ${error instanceof Error ? error.message : error}`);
+    }
+    const policy = validatePolicy(parseConfigText(text, file), file);
+    logMessage('loadPolicy', ['Policy file loaded.', `Path: ${file}, Minimums: ${Object.keys(policy.minimums).length}, Requirements: ${Object.keys(policy.requirements).length}, Exceptions: ${policy.exceptions.length}`]);
+    return policy;
+}
+
+/**
+ * Checks whether an exception names a package, by URL, npm package name or `owner/repo`.
+ *
+ * @param {PolicyException} exception - The exception.
+ * @param {string} url - The URL of the package.
+ * @returns {boolean} True if the exception applies to the package.
+ */
+function appliesTo(exception: PolicyException, url: string): boolean {
+    const ref = parsePackageRef(url);
+    return exception.package === url
+        || exception.package === ref.packageName
+        || (ref.owner !== null && ref.repo !== null && exception.package.toLowerCase() === `${ref.owner}/${ref.repo}`.toLowerCase());
+}
+
+/**
+ * Checks a scored package against the policy. A score that could not be calculated breaks every
+ * rule on it. Minimums are waived by an exception for the package that names them (or names no
+ * rules) and has not expired; requirements always count.
+ *
+ * @param {Policy} policy - The policy.
+ * @param {ScoredPackage} scored - The scores of the package.
+ * @param {Date} [now=new Date()] - The current time, which exception expiry dates are compared to.
+ * @returns {PolicyResult} The rules the package breaks.
+ */
+export function evaluatePolicy(policy: Policy, { data, errors }: ScoredPackage, now: Date = new Date()): PolicyResult {
+    const today = now.toISOString().slice(0, 10);
+    const exceptions = policy.exceptions.filter(exception => appliesTo(exception, data.URL));
+    const violations: PolicyViolation[] = [];
+
+    for (const section of ['requirements', 'minimums'] as PolicySection[]) {
+        for (const [field, minimum] of Object.entries(policy[section])) {
+            const score = getDataField(data, field) as number | null;
+            if (score !== null && score >= minimum) {
+                continue;
+            }
+
+            const bound = section === 'requirements' ? 'the required' : 'the minimum';
+            const failure = errors[field];
+            let message = score === null
+                ? `${field} has no score${failure ? ` (${failure.code})` : ''}, so it does not reach ${bound} ${minimum}`
+                : `${field} ${score} is below ${bound} ${minimum}`;
+
+            // Exceptions only waive minimums; the one that lasts longest wins
+            let waivedUntil: string | null = null;
+            if (section === 'minimums') {
+                const covering = exceptions.filter(exception => exception.rules === null || exception.rules.includes(field));
+                const latest = covering.map(exception => exception.expires).sort().pop();
+                if (latest !== undefined && latest >= today) {
+                    waivedUntil = latest;
+                } else if (latest !== undefined) {
+                    message += ` (the exception expired on ${latest})`;
+                }
+            }
+            violations.push({ rule: `${section}.${getMetricKey(field)}`, message, waivedUntil });
+        }
+    }
+
+    const passed = violations.every(violation => violation.waivedUntil !== null);
+    logMessage('evaluatePolicy', ['Package checked against the policy.', `URL: ${data.URL}, Passed: ${passed}, Violations: ${violations.map(violation => violation.rule).join(', ') || 'none'}`]);
+    return { url: data.URL, passed, violations };
+}
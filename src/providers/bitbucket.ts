@@ -0,0 +1,228 @@
+import { fetchJsonFromApi, fetchPaginatedJsonFromApi } from '../API';
+import { getBitbucketApiBase } from '../hosts';
+import { RateLimitError } from '../httpClient';
+import { PackageRef } from '../packageRef';
+import { UnrecordedRequestError } from '../recorder';
+import { Check, Comment, Commit, countCommitAuthors, fetchOptionalJson, Issue, LICENSE_FILES, ListResult, ListState, MergeRequest, RepositoryProvider } from './provider';
+
+// Bitbucket issue states that count as open; every other state counts as closed
+const OPEN_ISSUE_STATES = ['new', 'open', 'on hold'];
+const CLOSED_ISSUE_STATES = ['resolved', 'invalid', 'duplicate', 'wontfix', 'closed'];
+
+// Bitbucket pull request states for each normalized state
+const PULL_REQUEST_STATES: Record<ListState, string[]> = {
+    open: ['OPEN'],
+    closed: ['MERGED', 'DECLINED', 'SUPERSEDED'],
+    all: ['OPEN', 'MERGED', 'DECLINED', 'SUPERSEDED']
+};
+
+// Outcome of each Bitbucket build status; stopped builds count as skipped
+const CHECK_CONCLUSIONS: Record<string, Check['conclusion']> = { SUCCESSFUL: 'success', FAILED: 'failure', INPROGRESS: 'pending', STOPPED: 'skipped' };
+
+/**
+ * Converts a Bitbucket pull request to the normalized shape. Bitbucket has no close
+ * timestamp, so the last update time of a closed pull request is used.
+ *
+ * @param {any} item - The Bitbucket pull request.
+ * @returns {MergeRequest} The normalized pull request.
+ */
+function toMergeRequest(item: any): MergeRequest {
+    const closed = item.state !== 'OPEN';
+    return {
+        number: item.id,
+        state: item.state === 'MERGED' ? 'merged' : closed ? 'closed' : 'open',
+        createdAt: item.created_on,
+        closedAt: closed ? item.updated_on : null,
+        mergedAt: item.state === 'MERGED' ? item.updated_on : null,
+        author: item.author?.nickname ?? null
+    };
+}
+
+/**
+ * Creates the provider for a Bitbucket Cloud repository, backed by the Bitbucket API (BITBUCKET_API_URL).
+ *
+ * @param {PackageRef} ref - The parsed repository URL.
+ * @returns {RepositoryProvider} The Bitbucket provider.
+ */
+export function createBitbucketProvider(ref: PackageRef): RepositoryProvider {
+    const apiLink = `${getBitbucketApiBase()}/repositories/${ref.owner}/${ref.repo}`;
+    let defaultBranch: Promise<string> | undefined;
+
+    const provider: RepositoryProvider = {
+        name: 'bitbucket',
+        repositoryURL: `https://${ref.host}/${ref.owner}/${ref.repo}`,
+        apiLink,
+
+        async getMetadata() {
+            const data = await fetchJsonFromApi(apiLink);
+            return {
+                fullName: data.full_name,
+                sizeKb: Math.round((data.size || 0) / 1024),
+                openIssuesCount: null, // Bitbucket does not report issue counts
+                defaultBranch: data.mainbranch?.name ?? null,
+                pushedAt: data.updated_on ?? null,
+                archived: false
+            };
+        },
+
+        async getContributors(path) {
+            // Bitbucket has no contributors endpoint, so authors of recent commits are counted
+            const filter = path ? `&path=${encodeURIComponent(path)}` : '';
+            const { data, truncated } = await fetchPaginatedJsonFromApi(`${apiLink}/commits?pagelen=100${filter}`);
+            return { data: countCommitAuthors(data, commit => commit.author?.user?.nickname || commit.author?.raw), truncated };
+        },
+
+        async getCommits(since, path): Promise<ListResult<Commit>> {
+            // Bitbucket cannot filter commits by date, so older commits are dropped after fetching
+            const filter = path ? `&path=${encodeURIComponent(path)}` : '';
+            const { data, truncated } = await fetchPaginatedJsonFromApi(`${apiLink}/commits?pagelen=100${filter}`);
+            const commits: Commit[] = data.map((item: any) => {
+                const raw = /^(.*?)\s*<([^>]*)>\s*$/.exec(item.author?.raw ?? '');
+                return {
+                    sha: item.hash,
+                    date: item.date,
+                    authorLogin: item.author?.user?.nickname ?? null,
+                    authorName: raw ? raw[1] || null : item.author?.raw ?? null,
+                    authorEmail: raw ? raw[2] || null : null
+                };
+            });
+            const recent = commits.filter(commit => Date.parse(commit.date) >= Date.parse(since));
+            return { data: recent, truncated: truncated && recent.length === commits.length };
+        },
+
+        async getCommitFiles(sha) {
+            const data = await fetchOptionalJson(`${apiLink}/diffstat/${sha}?pagelen=100`);
+            return Array.isArray(data?.values) ? data.values.map((diff: any) => diff.new?.path ?? diff.old?.path) : null;
+        },
+
+        async getIssues(state, since): Promise<ListResult<Issue>> {
+            const states = state === 'open' ? OPEN_ISSUE_STATES : state === 'closed' ? CLOSED_ISSUE_STATES : [];
+            const stateFilter = states.map(value => `state="${value}"`).join(' OR ');
+            const filter = since ? (stateFilter ? `(${stateFilter}) AND created_on>=${since}` : `created_on>=${since}`) : stateFilter;
+            const query = filter ? `?q=${encodeURIComponent(filter)}&pagelen=50` : '?pagelen=50';
+
+            let result;
+            try {
+                result = await fetchPaginatedJsonFromApi(`${apiLink}/issues${query}`);
+            } catch (error) {
+                if (error instanceof RateLimitError || error instanceof UnrecordedRequestError) {
+                    throw error;
+                }
+                return { data: [], truncated: false }; // Repositories without the issue tracker answer 404
+            }
+
+            const { data, truncated } = result;
+            return {
+                data: data.map((item: any) => {
+                    const open = OPEN_ISSUE_STATES.includes(item.state);
+                    return {
+                        number: item.id,
+                        state: open ? 'open' : 'closed',
+                        createdAt: item.created_on,
+                        closedAt: open ? null : item.updated_on,
+                        author: item.reporter?.nickname ?? null,
+                        isPullRequest: false,
+                        labels: item.kind ? [item.kind] : [] // Bitbucket issues have a kind (bug, enhancement, ...) instead of labels
+                    };
+                }),
+                truncated
+            };
+        },
+
+        async getMergeRequests(state, since) {
+            const filter = since ? `&q=${encodeURIComponent(`created_on>=${since}`)}` : '';
+            const query = PULL_REQUEST_STATES[state].map(value => `state=${value}`).join('&') + filter;
+            const { data, truncated } = await fetchPaginatedJsonFromApi(`${apiLink}/pullrequests?${query}&pagelen=50`);
+            return { data: data.map(toMergeRequest), truncated };
+        },
+
+        async getComments(since): Promise<ListResult<Comment>> {
+            // The pull request activity log is the only repository-wide listing of comments, so issue comments are left out
+            const { data, truncated } = await fetchPaginatedJsonFromApi(`${apiLink}/pullrequests/activity?pagelen=50`);
+            const comments: Comment[] = data
+                .filter((item: any) => item.comment && item.pull_request)
+                .map((item: any) => ({
+                    number: item.pull_request.id,
+                    onMergeRequest: true,
+                    author: item.comment.user?.nickname ?? null,
+                    createdAt: item.comment.created_on,
+                    maintainer: null, // Comments do not tell the role of the author
+                    bot: item.comment.user?.type === 'app_user'
+                }));
+            const recent = comments.filter(comment => Date.parse(comment.createdAt) >= Date.parse(since));
+            return { data: recent, truncated: truncated && recent.length === comments.length };
+        },
+
+        async getReleases() {
+            // Bitbucket has no releases, so tags stand in for them
+            const { data, truncated } = await fetchPaginatedJsonFromApi(`${apiLink}/refs/tags?sort=-target.date&pagelen=10`, 1);
+            return {
+                data: data.filter((item: any) => item.target?.date).map((item: any) => ({ tag: item.name, publishedAt: item.target.date, commit: item.target.hash ?? null })),
+                truncated
+            };
+        },
+
+        async getChecks(ref) {
+            const data = await fetchOptionalJson(`${apiLink}/commit/${encodeURIComponent(ref)}/statuses?pagelen=100`);
+            if (!Array.isArray(data?.values)) {
+                return null;
+            }
+            return data.values.map((item: any) => ({ name: item.name ?? item.key, conclusion: CHECK_CONCLUSIONS[item.state] ?? 'skipped' }));
+        },
+
+        async getLicense() {
+            for (const file of LICENSE_FILES) {
+                const text = await provider.getFileContents(file);
+                if (text !== null) {
+                    return { key: null, spdxId: null, name: file, text };
+                }
+            }
+            return null;
+        },
+
+        async getReadme(path) {
+            return provider.getFileContents(path ? `${path}/README.md` : 'README.md');
+        },
+
+        async getFileContents(path) {
+            if (!defaultBranch) {
+                defaultBranch = provider.getMetadata().then(metadata => metadata.defaultBranch || 'main');
+            }
+            const branch = encodeURIComponent(await defaultBranch);
+            const data = await fetchOptionalJson(`${apiLink}/src/${branch}/${path}`);
+            if (data === null || (Array.isArray(data?.values) && 'pagelen' in data)) {
+                return null; // Missing file, or a directory listing
+            }
+            return typeof data === 'object' ? JSON.stringify(data, null, 2) : String(data); // JSON files arrive parsed
+        },
+
+        async listFiles(path) {
+            if (!defaultBranch) {
+                defaultBranch = provider.getMetadata().then(metadata => metadata.defaultBranch || 'main');
+            }
+            const branch = encodeURIComponent(await defaultBranch);
+            const data = await fetchOptionalJson(`${apiLink}/src/${branch}/${path ? path + '/' : ''}?pagelen=100`);
+            if (!Array.isArray(data?.values)) {
+                return null;
+            }
+            return data.values.filter((item: any) => item.type === 'commit_file').map((item: any) => String(item.path).split('/').pop());
+        },
+
+        async listDirectories(path) {
+            if (!defaultBranch) {
+                defaultBranch = provider.getMetadata().then(metadata => metadata.defaultBranch || 'main');
+            }
+            const branch = encodeURIComponent(await defaultBranch);
+            const data = await fetchOptionalJson(`${apiLink}/src/${branch}/${path ? path + '/' : ''}?pagelen=100`);
+            if (!Array.isArray(data?.values)) {
+                return null;
+            }
+            return data.values.filter((item: any) => item.type === 'commit_directory').map((item: any) => String(item.path).split('/').pop());
+        },
+
+        async getDirectorySize() {
+            return null; // Directory listings are paginated per level, so sizes are not summed
+        }
+    };
+    return provider;
+}
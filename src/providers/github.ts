@@ -0,0 +1,203 @@
+import { fetchJsonFromApi, fetchPaginatedJsonFromApi } from '../API';
+import { getGitHubAPILink } from '../githubData';
+import { getRepositoryURL, parsePackageRef } from '../packageRef';
+import { Check, countCommitAuthors, decodeBase64, fetchOptionalJson, Issue, keepOpenedSince, ListResult, ListState, MergeRequest, RepositoryProvider } from './provider';
+
+// Author associations of people who can write to the repository
+const MAINTAINER_ASSOCIATIONS = ['OWNER', 'MEMBER', 'COLLABORATOR'];
+
+// Check run conclusions that mean the check did not pass; `neutral`, `skipped`, `cancelled` and `stale` do not count
+const FAILED_CONCLUSIONS = ['failure', 'timed_out', 'action_required', 'startup_failure'];
+
+/**
+ * Normalizes the outcome of a GitHub check run.
+ *
+ * @param {any} run - The check run, as returned by the API.
+ * @returns {Check['conclusion']} The outcome.
+ */
+function toConclusion(run: any): Check['conclusion'] {
+    if (run.status !== 'completed') {
+        return 'pending';
+    }
+    return run.conclusion === 'success' ? 'success' : FAILED_CONCLUSIONS.includes(run.conclusion) ? 'failure' : 'skipped';
+}
+
+/**
+ * Creates the provider for a GitHub repository, backed by the REST API (or the
+ * GraphQL snapshot when GITHUB_BACKEND is `graphql`).
+ *
+ * @param {string} URL - The GitHub repository URL.
+ * @returns {RepositoryProvider} The GitHub provider.
+ */
+export function createGitHubProvider(URL: string): RepositoryProvider {
+    const apiLink = getGitHubAPILink(URL);
+
+    // Lists issues (with pull requests) or pull requests, newest first. GitHub cannot filter either by
+    // creation time (`since` on issues is the update time), so a window is applied to each state's listing
+    const listOpenedSince = async <T extends { createdAt: string }>(list: (state: ListState) => Promise<ListResult<T>>, state: ListState, since?: string): Promise<ListResult<T>> => {
+        if (!since) {
+            return list(state);
+        }
+        const states: ListState[] = state === 'all' ? ['open', 'closed'] : [state];
+        const results = (await Promise.all(states.map(list))).map(result => keepOpenedSince(result, since));
+        return { data: results.flatMap(result => result.data), truncated: results.some(result => result.truncated) };
+    };
+
+    return {
+        name: 'github',
+        repositoryURL: getRepositoryURL(parsePackageRef(URL)) ?? URL,
+        apiLink,
+
+        async getMetadata() {
+            const data = await fetchJsonFromApi(apiLink);
+            return {
+                fullName: data.full_name,
+                sizeKb: data.size || 0,
+                openIssuesCount: data.open_issues_count ?? null,
+                defaultBranch: data.default_branch ?? null,
+                pushedAt: data.pushed_at ?? null,
+                archived: data.archived === true
+            };
+        },
+
+        async getContributors(path) {
+            if (path) {
+                // Contributor statistics cover the whole repository, so path-scoped history counts commit authors
+                const commits = await fetchPaginatedJsonFromApi(`${apiLink}/commits?path=${encodeURIComponent(path)}`);
+                return { data: countCommitAuthors(commits.data, commit => commit.author?.login || commit.commit?.author?.email), truncated: commits.truncated };
+            }
+            const { data, truncated } = await fetchPaginatedJsonFromApi(`${apiLink}/contributors`);
+            return {
+                data: data.map((item: any) => ({ login: item.login, contributions: item.contributions })),
+                truncated
+            };
+        },
+
+        async getCommits(since, path) {
+            const filter = path ? `&path=${encodeURIComponent(path)}` : '';
+            const { data, truncated } = await fetchPaginatedJsonFromApi(`${apiLink}/commits?since=${encodeURIComponent(since)}${filter}`);
+            return {
+                data: data.map((item: any) => ({
+                    sha: item.sha,
+                    date: item.commit?.author?.date,
+                    authorLogin: item.author?.login ?? null,
+                    authorName: item.commit?.author?.name ?? null,
+                    authorEmail: item.commit?.author?.email ?? null
+                })),
+                truncated
+            };
+        },
+
+        async getCommitFiles(sha) {
+            const data = await fetchOptionalJson(`${apiLink}/commits/${sha}`);
+            return Array.isArray(data?.files) ? data.files.map((file: any) => file.filename) : null;
+        },
+
+        async getIssues(state, since) {
+            const filter = since ? `&since=${encodeURIComponent(since)}` : '';
+            return listOpenedSince(async (value): Promise<ListResult<Issue>> => {
+                const { data, truncated } = await fetchPaginatedJsonFromApi(`${apiLink}/issues?state=${value}${filter}`);
+                return {
+                    data: data.map((item: any) => ({
+                        number: item.number,
+                        state: item.closed_at ? 'closed' : 'open',
+                        createdAt: item.created_at,
+                        closedAt: item.closed_at ?? null,
+                        author: item.user?.login ?? null,
+                        isPullRequest: item.pull_request !== undefined,
+                        labels: (item.labels ?? []).map((label: any) => typeof label === 'string' ? label : label.name)
+                    })),
+                    truncated
+                };
+            }, state, since);
+        },
+
+        async getMergeRequests(state, since) {
+            return listOpenedSince(async (value): Promise<ListResult<MergeRequest>> => {
+                const { data, truncated } = await fetchPaginatedJsonFromApi(`${apiLink}/pulls?state=${value}`);
+                return {
+                    data: data.map((item: any) => ({
+                        number: item.number,
+                        state: item.merged_at ? 'merged' : item.closed_at ? 'closed' : 'open',
+                        createdAt: item.created_at,
+                        closedAt: item.closed_at ?? null,
+                        mergedAt: item.merged_at ?? null,
+                        author: item.user?.login ?? null
+                    })),
+                    truncated
+                };
+            }, state, since);
+        },
+
+        async getComments(since) {
+            // Pull request conversations are issue comments too; both share one numbering
+            const { data, truncated } = await fetchPaginatedJsonFromApi(`${apiLink}/issues/comments?since=${encodeURIComponent(since)}&sort=created&direction=desc`);
+            return {
+                data: data.map((item: any) => ({
+                    number: Number(String(item.issue_url).split('/').pop()),
+                    onMergeRequest: null,
+                    author: item.user?.login ?? null,
+                    createdAt: item.created_at,
+                    maintainer: MAINTAINER_ASSOCIATIONS.includes(item.author_association),
+                    bot: item.user?.type === 'Bot'
+                })),
+                truncated
+            };
+        },
+
+        async getReleases() {
+            const { data, truncated } = await fetchPaginatedJsonFromApi(`${apiLink}/releases`, 1);
+            return {
+                data: data
+                    .filter((item: any) => !item.draft)
+                    .map((item: any) => ({ tag: item.tag_name, publishedAt: item.published_at ?? item.created_at, commit: null })),
+                truncated
+            };
+        },
+
+        async getChecks(ref) {
+            const data = await fetchOptionalJson(`${apiLink}/commits/${encodeURIComponent(ref)}/check-runs?per_page=100`);
+            if (!Array.isArray(data?.check_runs)) {
+                return null;
+            }
+            return data.check_runs.map((run: any) => ({ name: run.name, conclusion: toConclusion(run) }));
+        },
+
+        async getLicense() {
+            const data = await fetchJsonFromApi(`${apiLink}/license`); // Resolves to {} if there is no license
+            if (!data.license) {
+                return null;
+            }
+            return { key: data.license.key ?? null, spdxId: data.license.spdx_id ?? null, name: data.license.name, text: decodeBase64(data.content) };
+        },
+
+        async getReadme(path) {
+            const data = await fetchOptionalJson(`${apiLink}/readme${path ? '/' + path : ''}`);
+            return decodeBase64(data?.content);
+        },
+
+        async getFileContents(path) {
+            const data = await fetchOptionalJson(`${apiLink}/contents/${path}`);
+            return decodeBase64(data?.content);
+        },
+
+        async listFiles(path) {
+            const data = await fetchOptionalJson(`${apiLink}/contents${path ? '/' + path : ''}`);
+            return Array.isArray(data) ? data.filter((item: any) => item.type === 'file').map((item: any) => item.name) : null;
+        },
+
+        async listDirectories(path) {
+            const data = await fetchOptionalJson(`${apiLink}/contents${path ? '/' + path : ''}`);
+            return Array.isArray(data) ? data.filter((item: any) => item.type === 'dir').map((item: any) => item.name) : null;
+        },
+
+        async getDirectorySize(path, ref) {
+            const data = await fetchOptionalJson(`${apiLink}/git/trees/${encodeURIComponent(`${ref}:${path}`)}?recursive=1`);
+            if (!Array.isArray(data?.tree) || data.truncated) {
+                return null; // Missing directory, or too many files to list in one response
+            }
+            const bytes = data.tree.reduce((sum: number, entry: any) => sum + (entry.type === 'blob' ? entry.size || 0 : 0), 0);
+            return Math.round(bytes / 1024);
+        }
+    };
+}
@@ -0,0 +1,206 @@
+import { fetchJsonFromApi, fetchPaginatedJsonFromApi } from '../API';
+import { getGitLabApiBase, getGitLabApiHosts } from '../hosts';
+import { PackageRef } from '../packageRef';
+import { Check, countCommitAuthors, decodeBase64, fetchOptionalJson, ListState, MergeRequest, RepositoryProvider } from './provider';
+
+// GitLab names the open state `opened`
+const GITLAB_STATES: Record<ListState, string> = { open: 'opened', closed: 'closed', all: 'all' };
+
+// Commit status of each GitLab job state; manual jobs that never ran count as skipped
+const CHECK_CONCLUSIONS: Record<string, Check['conclusion']> = {
+    success: 'success', failed: 'failure', canceled: 'skipped', skipped: 'skipped', manual: 'skipped',
+    created: 'pending', waiting_for_resource: 'pending', preparing: 'pending', pending: 'pending', running: 'pending', scheduled: 'pending'
+};
+
+/**
+ * Converts a GitLab merge request to the normalized shape.
+ *
+ * @param {any} item - The GitLab merge request.
+ * @returns {MergeRequest} The normalized merge request.
+ */
+function toMergeRequest(item: any): MergeRequest {
+    return {
+        number: item.iid,
+        state: item.state === 'merged' ? 'merged' : item.state === 'opened' ? 'open' : 'closed',
+        createdAt: item.created_at,
+        closedAt: item.closed_at ?? item.merged_at ?? null,
+        mergedAt: item.merged_at ?? null,
+        author: item.author?.username ?? null
+    };
+}
+
+/**
+ * Creates the provider for a GitLab project, backed by the REST API of its host (GITLAB_API_URL, or the host's GITLAB_API_HOSTS entry).
+ * Projects are addressed by their `owner/repo` path, so projects in nested groups are not supported.
+ *
+ * @param {PackageRef} ref - The parsed repository URL.
+ * @returns {RepositoryProvider} The GitLab provider.
+ */
+export function createGitLabProvider(ref: PackageRef): RepositoryProvider {
+    const apiBase = getGitLabApiHosts().get((ref.host ?? '').toLowerCase()) ?? getGitLabApiBase();
+    const apiLink = `${apiBase}/projects/${encodeURIComponent(`${ref.owner}/${ref.repo}`)}`;
+    let defaultBranch: Promise<string> | undefined;
+
+    const provider: RepositoryProvider = {
+        name: 'gitlab',
+        repositoryURL: `https://${ref.host}/${ref.owner}/${ref.repo}`,
+        apiLink,
+
+        async getMetadata() {
+            const data = await fetchJsonFromApi(`${apiLink}?statistics=true`);
+            return {
+                fullName: data.path_with_namespace,
+                sizeKb: Math.round((data.statistics?.repository_size || 0) / 1024), // Only visible to project members
+                openIssuesCount: data.open_issues_count ?? null,
+                defaultBranch: data.default_branch ?? null,
+                pushedAt: data.last_activity_at ?? null,
+                archived: data.archived === true
+            };
+        },
+
+        async getContributors(path) {
+            if (path) {
+                // The contributors endpoint covers the whole repository, so path-scoped history counts commit authors
+                const commits = await fetchPaginatedJsonFromApi(`${apiLink}/repository/commits?path=${encodeURIComponent(path)}`);
+                return { data: countCommitAuthors(commits.data, commit => commit.author_name || commit.author_email), truncated: commits.truncated };
+            }
+            const { data, truncated } = await fetchPaginatedJsonFromApi(`${apiLink}/repository/contributors?order_by=commits&sort=desc`);
+            return {
+                data: data
+                    .map((item: any) => ({ login: item.name || item.email, contributions: item.commits }))
+                    .sort((a, b) => b.contributions - a.contributions),
+                truncated
+            };
+        },
+
+        async getCommits(since, path) {
+            const filter = path ? `&path=${encodeURIComponent(path)}` : '';
+            const { data, truncated } = await fetchPaginatedJsonFromApi(`${apiLink}/repository/commits?since=${encodeURIComponent(since)}${filter}`);
+            return {
+                data: data.map((item: any) => ({
+                    sha: item.id,
+                    date: item.authored_date,
+                    authorLogin: null, // GitLab does not link commits to accounts
+                    authorName: item.author_name ?? null,
+                    authorEmail: item.author_email ?? null
+                })),
+                truncated
+            };
+        },
+
+        async getCommitFiles(sha) {
+            const data = await fetchOptionalJson(`${apiLink}/repository/commits/${sha}/diff?per_page=100`);
+            return Array.isArray(data) ? data.map((diff: any) => diff.new_path) : null;
+        },
+
+        async getIssues(state, since) {
+            const filter = since ? `&created_after=${encodeURIComponent(since)}` : '';
+            const { data, truncated } = await fetchPaginatedJsonFromApi(`${apiLink}/issues?state=${GITLAB_STATES[state]}${filter}`);
+            return {
+                data: data.map((item: any) => ({
+                    number: item.iid,
+                    state: item.state === 'opened' ? 'open' : 'closed',
+                    createdAt: item.created_at,
+                    closedAt: item.closed_at ?? null,
+                    author: item.author?.username ?? null,
+                    isPullRequest: false,
+                    labels: item.labels ?? []
+                })),
+                truncated
+            };
+        },
+
+        async getMergeRequests(state, since) {
+            // GitLab keeps merged merge requests out of `closed`; GitHub counts them as closed
+            const states = state === 'closed' ? ['closed', 'merged'] : [GITLAB_STATES[state]];
+            const filter = since ? `&created_after=${encodeURIComponent(since)}` : '';
+            const results = await Promise.all(states.map(value => fetchPaginatedJsonFromApi(`${apiLink}/merge_requests?state=${value}${filter}`)));
+            return {
+                data: results.flatMap(result => result.data.map(toMergeRequest)),
+                truncated: results.some(result => result.truncated)
+            };
+        },
+
+        async getComments(since) {
+            // Project events list the comments on every issue and merge request in one listing
+            const after = new Date(Date.parse(since) - 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+            const { data, truncated } = await fetchPaginatedJsonFromApi(`${apiLink}/events?action=commented&after=${after}`);
+            return {
+                data: data
+                    .filter((item: any) => ['Issue', 'MergeRequest'].includes(item.note?.noteable_type) && !item.note.system)
+                    .map((item: any) => ({
+                        number: item.note.noteable_iid,
+                        onMergeRequest: item.note.noteable_type === 'MergeRequest',
+                        author: item.author?.username ?? null,
+                        createdAt: item.created_at,
+                        maintainer: null, // Events do not tell the role of the author
+                        bot: item.author?.bot === true
+                    })),
+                truncated
+            };
+        },
+
+        async getReleases() {
+            const { data, truncated } = await fetchPaginatedJsonFromApi(`${apiLink}/releases`, 1);
+            return {
+                data: data.map((item: any) => ({ tag: item.tag_name, publishedAt: item.released_at ?? item.created_at, commit: item.commit?.id ?? null })),
+                truncated
+            };
+        },
+
+        async getChecks(ref) {
+            const data = await fetchOptionalJson(`${apiLink}/repository/commits/${encodeURIComponent(ref)}/statuses?per_page=100`);
+            if (!Array.isArray(data)) {
+                return null;
+            }
+            return data.map((item: any) => ({
+                name: item.name,
+                conclusion: item.status === 'failed' && item.allow_failure ? 'skipped' : CHECK_CONCLUSIONS[item.status] ?? 'skipped'
+            }));
+        },
+
+        async getLicense() {
+            const data = await fetchOptionalJson(`${apiLink}?license=true`);
+            if (!data?.license) {
+                return null;
+            }
+            return { key: data.license.key ?? null, spdxId: null, name: data.license.name, text: null };
+        },
+
+        async getReadme(path) {
+            return provider.getFileContents(path ? `${path}/README.md` : 'README.md');
+        },
+
+        async getFileContents(path) {
+            if (!defaultBranch) {
+                defaultBranch = provider.getMetadata().then(metadata => metadata.defaultBranch || 'main');
+            }
+            const branch = encodeURIComponent(await defaultBranch);
+            const data = await fetchOptionalJson(`${apiLink}/repository/files/${encodeURIComponent(path)}?ref=${branch}`);
+            return decodeBase64(data?.content);
+        },
+
+        async listFiles(path) {
+            if (!defaultBranch) {
+                defaultBranch = provider.getMetadata().then(metadata => metadata.defaultBranch || 'main');
+            }
+            const branch = encodeURIComponent(await defaultBranch);
+            const data = await fetchOptionalJson(`${apiLink}/repository/tree?ref=${branch}&per_page=100${path ? `&path=${encodeURIComponent(path)}` : ''}`);
+            return Array.isArray(data) ? data.filter((item: any) => item.type === 'blob').map((item: any) => item.name) : null;
+        },
+
+        async listDirectories(path) {
+            if (!defaultBranch) {
+                defaultBranch = provider.getMetadata().then(metadata => metadata.defaultBranch || 'main');
+            }
+            const branch = encodeURIComponent(await defaultBranch);
+            const data = await fetchOptionalJson(`${apiLink}/repository/tree?ref=${branch}&per_page=100${path ? `&path=${encodeURIComponent(path)}` : ''}`);
+            return Array.isArray(data) ? data.filter((item: any) => item.type === 'tree').map((item: any) => item.name) : null;
+        },
+
+        async getDirectorySize() {
+            return null; // The repository tree API does not report file sizes
+        }
+    };
+    return provider;
+}
@@ -0,0 +1,28 @@
+import { parsePackageRef } from '../packageRef';
+import { logMessage } from '../logFile';
+import { isGitLabHost } from '../hosts';
+import { RepositoryProvider } from './provider';
+import { createGitHubProvider } from './github';
+import { createGitLabProvider } from './gitlab';
+import { createBitbucketProvider } from './bitbucket';
+
+/**
+ * Selects the provider for a repository URL by its host. gitlab.com and the self-managed GitLab
+ * hosts set up in GITLAB_API_URL or GITLAB_API_HOSTS are served by the GitLab provider; hosts
+ * other than those and Bitbucket are served by the GitHub provider.
+ *
+ * @param {string} URL - The repository URL.
+ * @returns {RepositoryProvider} The provider for the repository.
+ */
+export function createRepositoryProvider(URL: string): RepositoryProvider {
+    const ref = parsePackageRef(URL);
+    logMessage('createRepositoryProvider', ['Selecting repository provider.', `URL: ${URL}, Host: ${ref.host}`]);
+
+    if (isGitLabHost(ref.host)) {
+        return createGitLabProvider(ref);
+    }
+    if (ref.host === 'bitbucket.org') {
+        return createBitbucketProvider(ref);
+    }
+    return createGitHubProvider(URL);
+}
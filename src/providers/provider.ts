@@ -0,0 +1,277 @@
+import { fetchJsonFromApi } from '../API';
+import { RateLimitError } from '../httpClient';
+import { UnrecordedRequestError } from '../recorder';
+
+/**
+ * Issue and merge request states, named as on GitHub.
+ */
+export type ListState = 'open' | 'closed' | 'all';
+
+/**
+ * Interface representing a list fetched from a provider.
+ *
+ * @interface ListResult
+ */
+export interface ListResult<T> {
+    data: T[];              // The items fetched
+    truncated: boolean;     // True if the page cap was hit before the last item
+}
+
+/**
+ * Interface representing a detected license.
+ *
+ * @interface LicenseInfo
+ */
+export interface LicenseInfo {
+    key: string | null;     // Provider license key (e.g. `mit`), null if only a license file was found
+    spdxId: string | null;  // SPDX identifier (e.g. `MIT`), null if the provider does not report one
+    name: string;           // License name, or the license file name
+    text: string | null;    // Text of the license file, null if the provider does not return it
+}
+
+/**
+ * Interface representing a file that may hold a license text.
+ *
+ * @interface LicenseFile
+ */
+export interface LicenseFile {
+    path: string;           // Path of the file in the repository
+    text: string;           // Text of the file
+}
+
+/**
+ * Interface representing repository metadata.
+ *
+ * @interface RepositoryMetadata
+ */
+export interface RepositoryMetadata {
+    fullName: string;                   // `owner/repo`
+    sizeKb: number;                     // Repository size in kilobytes, 0 if unknown
+    openIssuesCount: number | null;     // Open issue count reported by the provider, null if it reports none
+    defaultBranch: string | null;       // Default branch name
+    pushedAt: string | null;            // ISO timestamp of the last push or activity
+    archived: boolean;                  // True if the repository is archived
+}
+
+/**
+ * Interface representing a contributor and their commit count.
+ *
+ * @interface Contributor
+ */
+export interface Contributor {
+    login: string;          // Username, or the commit author name or email if there is no account
+    contributions: number;  // Number of commits
+}
+
+/**
+ * Interface representing a commit and its author. Authors are identified by whatever the
+ * provider reports, so the same person may appear under several logins, names or emails.
+ *
+ * @interface Commit
+ */
+export interface Commit {
+    sha: string;
+    date: string;                   // ISO timestamp of when the commit was authored
+    authorLogin: string | null;     // Account of the author, null if the commit is not linked to one
+    authorName: string | null;      // Author name as written in the commit
+    authorEmail: string | null;     // Author email as written in the commit
+}
+
+/**
+ * Interface representing an issue.
+ *
+ * @interface Issue
+ */
+export interface Issue {
+    number: number;
+    state: 'open' | 'closed';
+    createdAt: string;
+    closedAt: string | null;
+    author: string | null;
+    isPullRequest: boolean;     // True for pull requests listed among the issues, as GitHub does
+    labels: string[];           // Label names (the issue kind on Bitbucket)
+}
+
+/**
+ * Interface representing a pull request (GitHub, Bitbucket) or merge request (GitLab).
+ *
+ * @interface MergeRequest
+ */
+export interface MergeRequest {
+    number: number;
+    state: 'open' | 'closed' | 'merged';
+    createdAt: string;
+    closedAt: string | null;    // When it was closed or merged
+    mergedAt: string | null;
+    author: string | null;
+}
+
+/**
+ * Interface representing a comment on an issue or merge request.
+ *
+ * @interface Comment
+ */
+export interface Comment {
+    number: number;                 // Number of the issue or merge request commented on
+    onMergeRequest: boolean | null; // True on merge requests, false on issues, null where both share one numbering (GitHub)
+    author: string | null;
+    createdAt: string;
+    maintainer: boolean | null;     // True if the author can write to the repository, null if the provider does not tell
+    bot: boolean;                   // True if the provider marks the author as a bot or app
+}
+
+/**
+ * Interface representing a release, or a tag where the provider has no releases.
+ *
+ * @interface Release
+ */
+export interface Release {
+    tag: string;
+    publishedAt: string;            // ISO timestamp of the release, or of the tagged commit
+    commit: string | null;          // SHA of the tagged commit, null if the provider does not report it
+}
+
+/**
+ * Interface representing a CI check (GitHub check run, GitLab job status or Bitbucket build status) on a commit.
+ *
+ * @interface Check
+ */
+export interface Check {
+    name: string;
+    conclusion: 'success' | 'failure' | 'pending' | 'skipped';  // Neutral, skipped and cancelled checks count as skipped
+}
+
+/**
+ * Interface implemented by each code hosting service. Every method returns data in
+ * the same normalized shape, so metrics work the same against every provider.
+ *
+ * @interface RepositoryProvider
+ */
+export interface RepositoryProvider {
+    name: 'github' | 'gitlab' | 'bitbucket';                    // Provider identifier
+    repositoryURL: string;                                      // Web URL of the repository
+    apiLink: string;                                            // API URL of the repository
+    getMetadata(): Promise<RepositoryMetadata>;                 // Repository metadata
+    getContributors(path?: string): Promise<ListResult<Contributor>>; // Contributors, most commits first; only commits touching `path` if set
+    getCommits(since: string, path?: string): Promise<ListResult<Commit>>; // Commits on the default branch authored since an ISO timestamp, newest first; only those touching `path` if set
+    getCommitFiles(sha: string): Promise<string[] | null>;      // Paths of the files a commit changed, null if they cannot be listed
+    getIssues(state: ListState, since?: string): Promise<ListResult<Issue>>; // Issues in a state; only those opened since an ISO timestamp if set
+    getMergeRequests(state: ListState, since?: string): Promise<ListResult<MergeRequest>>; // Merge requests in a state (closed includes merged); only those opened since an ISO timestamp if set
+    getComments(since: string): Promise<ListResult<Comment>>;   // Comments on issues and merge requests made since an ISO timestamp, newest first
+    getReleases(): Promise<ListResult<Release>>;                // Latest releases, newest first
+    getChecks(ref: string): Promise<Check[] | null>;            // CI checks reported on a commit, tag or branch, null if they cannot be listed
+    getLicense(): Promise<LicenseInfo | null>;                  // Detected license, null if none
+    getReadme(path?: string): Promise<string | null>;           // README text of the repository or of directory `path`, null if none
+    getFileContents(path: string): Promise<string | null>;      // Text of a file on the default branch, null if missing
+    listFiles(path?: string): Promise<string[] | null>;         // Names of the files in the root or directory `path` on the default branch, null if it cannot be listed
+    listDirectories(path?: string): Promise<string[] | null>;   // Names of the subdirectories of the root or directory `path` on the default branch, null if it cannot be listed
+    getDirectorySize(path: string, ref: string): Promise<number | null>; // Size of a directory in kilobytes, null if the provider cannot tell
+}
+
+// File names checked for a license where the provider does not detect one
+export const LICENSE_FILES = ['LICENSE', 'LICENSE.md', 'LICENSE.txt', 'COPYING'];
+
+// Names of files that may hold a license text, such as `LICENSE-MIT`, `LICENCE.md` or `COPYING.LESSER`
+export const LICENSE_FILE_PATTERN = /^(licen[cs]e|copying)([-._][\w.-]*)?$/i;
+
+// Extensions of source files, which are never license texts even when named like one (`license.js`)
+const SOURCE_FILE_EXTENSION = /\.(c|cc|cpp|go|h|java|js|json|mjs|py|rb|rs|sh|ts)$/i;
+
+/**
+ * Checks whether a file name looks like a license file.
+ *
+ * @param {string} name - The file name.
+ * @returns {boolean} True for names like `LICENSE`, `LICENSE-APACHE` or `COPYING.txt`.
+ */
+export function isLicenseFileName(name: string): boolean {
+    return LICENSE_FILE_PATTERN.test(name) && !SOURCE_FILE_EXTENSION.test(name);
+}
+
+// Names of directories that hold a test suite
+const TEST_DIRECTORY_PATTERN = /^(__tests__|tests?|specs?|e2e)$/i;
+
+// Names of test files kept next to the code, such as `index.test.ts` or `parser.spec.js`
+const TEST_FILE_PATTERN = /\.(test|spec)\.[cm]?[jt]sx?$/i;
+
+/**
+ * Checks whether a directory name looks like a test suite.
+ *
+ * @param {string} name - The directory name.
+ * @returns {boolean} True for names like `test`, `tests`, `__tests__` or `spec`.
+ */
+export function isTestDirectoryName(name: string): boolean {
+    return TEST_DIRECTORY_PATTERN.test(name);
+}
+
+/**
+ * Checks whether a file name looks like a test file.
+ *
+ * @param {string} name - The file name.
+ * @returns {boolean} True for names like `index.test.js` or `parser.spec.ts`.
+ */
+export function isTestFileName(name: string): boolean {
+    return TEST_FILE_PATTERN.test(name);
+}
+
+/**
+ * Decodes base64 file content as returned by the GitHub and GitLab file APIs.
+ *
+ * @param {string | undefined} content - The base64 content.
+ * @returns {string | null} The decoded text, or null if there is no content.
+ */
+export function decodeBase64(content: string | undefined): string | null {
+    return content ? Buffer.from(content, 'base64').toString('utf-8') : null;
+}
+
+/**
+ * Counts the commits of each author, for providers (and path-scoped history) without contributor statistics.
+ *
+ * @param {any[]} commits - The commits, as returned by the provider.
+ * @param {(commit: any) => string | null | undefined} getAuthor - Reads the author name of a commit.
+ * @returns {Contributor[]} The authors, most commits first.
+ */
+export function countCommitAuthors(commits: any[], getAuthor: (commit: any) => string | null | undefined): Contributor[] {
+    const counts = new Map<string, number>();
+    for (const commit of commits) {
+        const author = getAuthor(commit);
+        if (author) {
+            counts.set(author, (counts.get(author) || 0) + 1);
+        }
+    }
+    return Array.from(counts.entries())
+        .map(([login, contributions]) => ({ login, contributions }))
+        .sort((a, b) => b.contributions - a.contributions);
+}
+
+/**
+ * Keeps the items of a newest-first listing that were opened at or after a time. A listing cut off at
+ * the page limit only stays truncated if its oldest item is inside the window; the items cut off are older.
+ *
+ * @param {ListResult<T>} result - The listing, newest first.
+ * @param {string} since - The ISO timestamp the window starts at.
+ * @returns {ListResult<T>} The items opened in the window.
+ */
+export function keepOpenedSince<T extends { createdAt: string }>(result: ListResult<T>, since: string): ListResult<T> {
+    const start = Date.parse(since);
+    const data = result.data.filter(item => Date.parse(item.createdAt) >= start);
+    return { data, truncated: result.truncated && data.length === result.data.length };
+}
+
+/**
+ * Fetches an optional resource, such as a file that may not exist. Failed requests
+ * resolve to null, except rate limits and replay misses, which are rethrown.
+ *
+ * @async
+ * @param {string} apiLink - The URL of the resource.
+ * @returns {Promise<any | null>} - The response body, or null if the request failed.
+ */
+export async function fetchOptionalJson(apiLink: string): Promise<any | null> {
+    try {
+        return await fetchJsonFromApi(apiLink);
+    } catch (error) {
+        if (error instanceof RateLimitError || error instanceof UnrecordedRequestError) {
+            throw error;
+        }
+        return null;
+    }
+}
@@ -0,0 +1,192 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { createHash } from 'crypto';
+import * as dotenv from 'dotenv';
+import { logMessage } from './logFile';
+dotenv.config();
+
+/**
+ * How HTTP requests are served: from the network (`live`), from the network while
+ * saving every exchange (`record`), or only from saved fixtures (`replay`).
+ */
+export type HttpMode = 'live' | 'record' | 'replay';
+
+/**
+ * Interface representing a recorded request/response exchange.
+ *
+ * @interface Fixture
+ */
+export interface Fixture {
+    method: string;                                         // HTTP method (GET, HEAD, or POST for GraphQL queries)
+    url: string;                                            // Requested URL
+    request: { headers: Record<string, string>, body?: any }; // Request headers, with credentials scrubbed, and body
+    response: {
+        status: number;                                     // HTTP status, or 0 if the request failed without a response
+        headers: Record<string, string>;                    // Response headers
+        body: any;                                          // Parsed response body
+        error?: string;                                     // Error message for requests that failed without a response
+    };
+}
+
+/**
+ * Error raised in replay mode when a request has no recorded fixture.
+ *
+ * @class UnrecordedRequestError
+ */
+export class UnrecordedRequestError extends Error {
+    method: string;
+    url: string;
+    fixturePath: string;
+
+    constructor(method: string, url: string, fixturePath: string) {
+        super(`No recorded fixture for ${method} ${url} (expected ${fixturePath})`);
+        this.name = 'UnrecordedRequestError';
+        this.method = method;
+        this.url = url;
+        this.fixturePath = fixturePath;
+    }
+}
+
+// Request and response headers whose values must never be written to a fixture
+const SENSITIVE_HEADERS = ['authorization', 'cookie', 'proxy-authorization', 'set-cookie', 'private-token', 'x-api-key'];
+
+let httpMode: HttpMode = parseHttpMode(process.env.HTTP_MODE);
+
+/**
+ * Parses an HTTP mode name, defaulting to `live`.
+ *
+ * @param {string | undefined} value - The mode name.
+ * @returns {HttpMode} The parsed mode.
+ */
+function parseHttpMode(value: string | undefined): HttpMode {
+    return value === 'record' || value === 'replay' ? value : 'live';
+}
+
+/**
+ * Gets the current HTTP mode (set by the HTTP_MODE environment variable or setHttpMode).
+ *
+ * @returns {HttpMode} The current mode.
+ */
+export function getHttpMode(): HttpMode {
+    return httpMode;
+}
+
+/**
+ * Sets the HTTP mode for the rest of the run (used by `--record` and `--replay`).
+ *
+ * @param {HttpMode} mode - The new mode.
+ */
+export function setHttpMode(mode: HttpMode) {
+    logMessage('setHttpMode', [`HTTP mode set to ${mode}.`, `Fixture directory: ${getFixtureDir()}`]);
+    httpMode = mode;
+}
+
+/**
+ * Gets the fixture directory from the FIXTURE_DIR environment variable.
+ *
+ * @returns {string} The fixture directory.
+ */
+export function getFixtureDir(): string {
+    return process.env.FIXTURE_DIR || path.join(process.cwd(), 'fixtures');
+}
+
+/**
+ * Gets the path of the fixture file for a request. The name combines a readable
+ * slug of the URL with a hash, so fixtures are easy to find and never collide.
+ *
+ * @param {string} method - The HTTP method.
+ * @param {string} url - The requested URL.
+ * @param {any} [body] - The request body, for requests such as GraphQL queries that share a URL.
+ * @returns {string} The fixture file path.
+ */
+export function getFixturePath(method: string, url: string, body?: any): string {
+    const slug = url.replace(/^[a-z+]+:\/\//i, '').replace(/[^a-zA-Z0-9]+/g, '_').slice(0, 80);
+    const key = body === undefined ? `${method} ${url}` : `${method} ${url}\n${JSON.stringify(body)}`;
+    const hash = createHash('sha256').update(key).digest('hex').slice(0, 12);
+    return path.join(getFixtureDir(), `${method}-${slug}-${hash}.json`);
+}
+
+/**
+ * Copies headers into a plain object, replacing credentials with a placeholder.
+ *
+ * @param {any} headers - The headers to scrub.
+ * @returns {Record<string, string>} The scrubbed headers.
+ */
+export function scrubHeaders(headers: any): Record<string, string> {
+    const scrubbed: Record<string, string> = {};
+    for (const [name, value] of Object.entries(headers || {})) {
+        if (value === undefined || value === null || typeof value === 'function') {
+            continue;
+        }
+        scrubbed[name] = SENSITIVE_HEADERS.includes(name.toLowerCase()) ? '[REDACTED]' : String(value);
+    }
+    return scrubbed;
+}
+
+/**
+ * Saves a request/response exchange as a fixture.
+ *
+ * @param {string} method - The HTTP method.
+ * @param {string} url - The requested URL.
+ * @param {any} requestHeaders - The request headers (credentials are scrubbed).
+ * @param {{ status: number, headers: any, body: any, error?: string }} response - The response to save.
+ * @param {any} [requestBody] - The request body, if any.
+ */
+export function recordFixture(method: string, url: string, requestHeaders: any, response: { status: number, headers: any, body: any, error?: string }, requestBody?: any) {
+    const fixturePath = getFixturePath(method, url, requestBody);
+    const fixture: Fixture = {
+        method,
+        url,
+        request: requestBody === undefined ? { headers: scrubHeaders(requestHeaders) } : { headers: scrubHeaders(requestHeaders), body: requestBody },
+        response: { ...response, headers: scrubHeaders(response.headers) }
+    };
+
+    fs.mkdirSync(path.dirname(fixturePath), { recursive: true });
+    fs.writeFileSync(fixturePath, JSON.stringify(fixture, null, 2) + '\n', 'utf-8');
+    logMessage('recordFixture', ['Recorded request.', `${method} ${url} -> ${fixturePath}`]);
+}
+
+/**
+ * Loads the fixture for a request.
+ *
+ * @param {string} method - The HTTP method.
+ * @param {string} url - The requested URL.
+ * @param {any} [body] - The request body, if any.
+ * @returns {Fixture} The recorded exchange.
+ * @throws {UnrecordedRequestError} - If no fixture was recorded for the request.
+ */
+export function loadFixture(method: string, url: string, body?: any): Fixture {
+    const fixturePath = getFixturePath(method, url, body);
+    if (!fs.existsSync(fixturePath)) {
+        logMessage('loadFixture', ['Unrecorded request in replay mode.', `${method} ${url}, Expected: ${fixturePath}`]);
+        throw new UnrecordedRequestError(method, url, fixturePath);
+    }
+
+    logMessage('loadFixture', ['Replaying recorded request.', `${method} ${url} <- ${fixturePath}`]);
+    return JSON.parse(fs.readFileSync(fixturePath, 'utf-8'));
+}
+
+/**
+ * Replays a recorded request in the shape of an axios response. Recorded error
+ * responses are thrown in the shape of an axios error, so callers handle them the same way.
+ *
+ * @param {string} method - The HTTP method.
+ * @param {string} url - The requested URL.
+ * @param {any} [body] - The request body, if any.
+ * @returns {{ status: number, headers: Record<string, string>, data: any }} The recorded response.
+ * @throws {UnrecordedRequestError} - If no fixture was recorded for the request.
+ */
+export function replayResponse(method: string, url: string, body?: any): { status: number, headers: Record<string, string>, data: any } {
+    const { response } = loadFixture(method, url, body);
+    const replayed = { status: response.status, headers: response.headers, data: response.body };
+
+    if (response.status === 0) {
+        throw new Error(response.error || 'Recorded request failed');
+    }
+    if ((response.status < 200 || response.status >= 300) && response.status !== 304) {
+        const error: any = new Error(`Request failed with status code ${response.status}`);
+        error.response = replayed;
+        throw error;
+    }
+    return replayed;
+}
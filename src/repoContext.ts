@@ -0,0 +1,185 @@
+import { fetchJsonFromApi } from './API';
+import { logMessage } from './logFile';
+import { getRegistryURL, parsePackageRef } from './packageRef';
+import { createRepositoryProvider } from './providers';
+import { Check, Comment, Commit, Contributor, isLicenseFileName, isTestDirectoryName, isTestFileName, Issue, LICENSE_FILES, LicenseFile, LicenseInfo, ListResult, ListState, MergeRequest, Release, RepositoryMetadata, RepositoryProvider } from './providers/provider';
+
+/**
+ * Interface summarizing the requests made through a RepoContext.
+ *
+ * @interface RepoContextStats
+ */
+export interface RepoContextStats {
+    requests: number;   // Resources actually fetched
+    saved: number;      // Calls served from a resource already fetched or in flight
+}
+
+/**
+ * Data shared by every metric scoring one repository. Each resource is fetched at
+ * most once: later and concurrent callers receive the same promise. When the package
+ * lives in a subdirectory of the repository (a monorepo), contributors, commits, README,
+ * license, tests, `package.json` and size are scoped to that directory.
+ *
+ * @interface RepoContext
+ */
+export interface RepoContext {
+    url: string;                                                        // Repository URL
+    packageURL?: string;                                                // npm package URL the repository was resolved from
+    subdirectory: string | null;                                        // Directory of the package inside the repository, null for the whole repository
+    apiLink: string;                                                    // API link of the repository
+    provider: RepositoryProvider;                                       // Provider serving the repository's host
+    getRepo(): Promise<RepositoryMetadata>;                             // Repository metadata
+    getContributors(): Promise<ListResult<Contributor>>;                // Contributors with commit counts (authors of commits touching the subdirectory)
+    getCommits(since: string): Promise<ListResult<Commit>>;             // Commits authored since an ISO timestamp (those touching the subdirectory)
+    getCommitFiles(sha: string): Promise<string[] | null>;              // Paths of the files a commit changed, null if they cannot be listed
+    getIssues(state: ListState, since?: string): Promise<ListResult<Issue>>; // Issues in a state (GitHub includes pull requests); only those opened since an ISO timestamp if set
+    getMergeRequests(state: ListState, since?: string): Promise<ListResult<MergeRequest>>; // Pull or merge requests in a state; only those opened since an ISO timestamp if set
+    getComments(since: string): Promise<ListResult<Comment>>;           // Comments on issues and pull requests made since an ISO timestamp
+    getReleases(): Promise<ListResult<Release>>;                        // Latest releases (tags on Bitbucket)
+    getChecks(ref: string): Promise<Check[] | null>;                    // CI checks reported on a commit or tag, null if they cannot be listed
+    getLicense(): Promise<LicenseInfo | null>;                          // License file of the subdirectory, else the detected license; null if none
+    getLicenseFiles(): Promise<LicenseFile[]>;                          // LICENSE* and COPYING* files of the subdirectory, else of the repository root
+    getReadme(): Promise<string | null>;                                // README text of the subdirectory or repository, null if none
+    getTestFiles(): Promise<string[]>;                                  // Test directories (ending in `/`) and test files of the subdirectory, else of the repository root
+    getPackageJson(): Promise<any | null>;                              // Parsed `package.json` of the subdirectory or repository, null if missing or invalid
+    getSizeKb(): Promise<number>;                                       // Size of the subdirectory (or repository if unknown) in kilobytes
+    getPackageManifest(): Promise<any>;                                 // npm registry manifest, undefined for repository URLs
+    getStats(): RepoContextStats;                                       // Requests made and saved so far
+}
+
+/**
+ * Creates the data context for one repository. Nothing is fetched until a metric asks for it.
+ *
+ * @param {string} URL - The GitHub, GitLab or Bitbucket repository URL.
+ * @param {string} [packageURL] - The npm package URL, if the repository was resolved from one.
+ * @param {string | null} [subdirectory] - The package directory inside the repository; read from `/tree/<ref>/<path>` URLs if omitted.
+ * @param {any} [manifest] - The npm registry manifest of `packageURL`, if already fetched; fetched on first use if omitted.
+ * @returns {RepoContext} The context to pass to every metric.
+ */
+export function createRepoContext(URL: string, packageURL?: string, subdirectory?: string | null, manifest?: any): RepoContext {
+    const provider = createRepositoryProvider(URL);
+    const directory = (subdirectory ?? parsePackageRef(URL).subdirectory ?? '').replace(/^\/+|\/+$/g, '') || null;
+    const registryURL = packageURL ? getRegistryURL(parsePackageRef(packageURL)) : null;
+    const resources = new Map<string, Promise<any>>();
+    const stats: RepoContextStats = { requests: 0, saved: 0 };
+
+    // The manifest the repository was resolved from is not fetched again
+    if (registryURL && manifest !== undefined) {
+        resources.set('manifest', Promise.resolve(manifest));
+    }
+
+    // Returns the in-flight or settled promise for a resource, starting the fetch on first use
+    function memoize<T>(key: string, fetcher: () => Promise<T>): Promise<T> {
+        const existing = resources.get(key);
+        if (existing) {
+            stats.saved++;
+            logMessage('RepoContext', ['Reusing fetched resource.', `Resource: ${key}, Repository: ${URL}, Calls saved: ${stats.saved}`]);
+            return existing;
+        }
+
+        stats.requests++;
+        const promise = fetcher();
+        resources.set(key, promise);
+        return promise;
+    }
+
+    // Prefers a license file in the package directory; packages without one inherit the repository license
+    async function findLicense(): Promise<LicenseInfo | null> {
+        if (directory) {
+            for (const file of LICENSE_FILES) {
+                const text = await provider.getFileContents(`${directory}/${file}`);
+                if (text !== null) {
+                    return { key: null, spdxId: null, name: `${directory}/${file}`, text };
+                }
+            }
+            logMessage('RepoContext', ['No license file in the package directory, using the repository license.', `Directory: ${directory}`]);
+        }
+        return provider.getLicense();
+    }
+
+    // Lists the license files of the package directory, or of the repository root if the directory has none
+    async function findLicenseFiles(): Promise<LicenseFile[]> {
+        for (const dir of directory ? [directory, null] : [null]) {
+            const names = ((await provider.listFiles(dir ?? undefined)) ?? []).filter(isLicenseFileName).sort();
+            const files = await Promise.all(names.map(async name => {
+                const path = dir ? `${dir}/${name}` : name;
+                return { path, text: await provider.getFileContents(path) };
+            }));
+            const found = files.filter((file): file is LicenseFile => file.text !== null);
+            if (found.length > 0) {
+                return found;
+            }
+        }
+        return [];
+    }
+
+    // Lists test directories and test files of the package directory, or of the repository root if the directory has none
+    async function findTestFiles(): Promise<string[]> {
+        for (const dir of directory ? [directory, null] : [null]) {
+            const [directories, files] = await Promise.all([provider.listDirectories(dir ?? undefined), provider.listFiles(dir ?? undefined)]);
+            const prefix = dir ? `${dir}/` : '';
+            const found = [
+                ...(directories ?? []).filter(isTestDirectoryName).map(name => `${prefix}${name}/`),
+                ...(files ?? []).filter(isTestFileName).map(name => `${prefix}${name}`)
+            ].sort();
+            if (found.length > 0) {
+                return found;
+            }
+        }
+        return [];
+    }
+
+    // Reads the manifest of the package directory; a directory without one is no package of its own
+    async function findPackageJson(): Promise<any | null> {
+        const text = await provider.getFileContents(directory ? `${directory}/package.json` : 'package.json');
+        if (text === null) {
+            return null;
+        }
+        try {
+            return JSON.parse(text);
+        } catch {
+            logMessage('RepoContext', ['Ignoring a package.json that is not valid JSON.', `Directory: ${directory ?? '(root)'}`]);
+            return null;
+        }
+    }
+
+    // Falls back to the repository size when the provider cannot size the directory
+    async function findDirectorySizeKb(directory: string): Promise<number> {
+        const metadata = await context.getRepo();
+        const size = await provider.getDirectorySize(directory, metadata.defaultBranch || 'HEAD');
+        if (size === null) {
+            logMessage('RepoContext', ['Directory size unavailable, using the repository size.', `Directory: ${directory}`]);
+        }
+        return size ?? metadata.sizeKb;
+    }
+
+    const context: RepoContext = {
+        url: URL,
+        packageURL,
+        subdirectory: directory,
+        apiLink: provider.apiLink,
+        provider,
+        getRepo: () => memoize('repo', () => provider.getMetadata()),
+        getContributors: () => memoize('contributors', () => provider.getContributors(directory ?? undefined)),
+        getCommits: (since) => memoize(`commits:${since}`, () => provider.getCommits(since, directory ?? undefined)),
+        getCommitFiles: (sha) => memoize(`commitFiles:${sha}`, () => provider.getCommitFiles(sha)),
+        getIssues: (state, since) => memoize(since ? `issues:${state}:${since}` : `issues:${state}`, () => provider.getIssues(state, since)),
+        getMergeRequests: (state, since) => memoize(since ? `mergeRequests:${state}:${since}` : `mergeRequests:${state}`, () => provider.getMergeRequests(state, since)),
+        getComments: (since) => memoize(`comments:${since}`, () => provider.getComments(since)),
+        getReleases: () => memoize('releases', () => provider.getReleases()),
+        getChecks: (ref) => memoize(`checks:${ref}`, () => provider.getChecks(ref)),
+        getLicense: () => memoize('license', findLicense),
+        getLicenseFiles: () => memoize('licenseFiles', findLicenseFiles),
+        getReadme: () => memoize('readme', () => provider.getReadme(directory ?? undefined)),
+        getTestFiles: () => memoize('testFiles', findTestFiles),
+        getPackageJson: () => memoize('packageJson', findPackageJson),
+        getSizeKb: () => directory
+            ? memoize('size', () => findDirectorySizeKb(directory))
+            : context.getRepo().then(metadata => metadata.sizeKb),
+        getPackageManifest: () => registryURL
+            ? memoize('manifest', () => fetchJsonFromApi(registryURL))
+            : Promise.resolve(undefined),
+        getStats: () => ({ ...stats })
+    };
+    return context;
+}
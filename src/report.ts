@@ -0,0 +1,301 @@
+import * as fs from 'fs';
+import { logMessage } from './logFile';
+import { getDataField } from './json';
+import { ScoredPackage } from './metrics/getMetrics';
+import { MetricExplanation, MetricInputs, MetricInputValue } from './metrics/metricResult';
+import { getMetric, getMetricNames } from './metrics/registry';
+import { getConfigHash, getConfigSource } from './config';
+import { PolicyResult } from './policy';
+
+/**
+ * Report formats of --report.
+ */
+export type ReportFormat = 'html' | 'junit';
+
+// Every report format, as accepted by --report
+export const REPORT_FORMATS: ReportFormat[] = ['html', 'junit'];
+
+// Buckets of the NetScore distribution, as [lower bound, upper bound)
+const DISTRIBUTION_BUCKETS: [number, number][] = [[0, 0.2], [0.2, 0.4], [0.4, 0.6], [0.6, 0.8], [0.8, 1.01]];
+
+// Styles of the report, inlined so the file opens without network access
+const STYLE = `
+body { font-family: system-ui, sans-serif; margin: 2rem; color: #1f2328; }
+h1 { margin-bottom: 0.25rem; }
+.meta { color: #656d76; margin-top: 0; }
+table { border-collapse: collapse; margin: 1rem 0; }
+th, td { border: 1px solid #d0d7de; padding: 0.3rem 0.6rem; text-align: right; }
+th:first-child, td:first-child { text-align: left; }
+#scores th { cursor: pointer; background: #f6f8fa; user-select: none; }
+#scores th[data-order="asc"]::after { content: " \\25B2"; }
+#scores th[data-order="desc"]::after { content: " \\25BC"; }
+.good { background: #dafbe1; } .fair { background: #fff8c5; } .poor { background: #ffebe9; } .none { color: #8c959f; }
+.chart { margin: 0.5rem 0 1.5rem; max-width: 48rem; }
+.row { display: flex; align-items: center; margin: 0.2rem 0; }
+.label { width: 18rem; overflow: hidden; text-overflow: ellipsis; white-space: nowrap; }
+.track { flex: 1; background: #f6f8fa; height: 1rem; }
+.bar { height: 100%; background: #0969da; }
+.value { width: 4rem; text-align: right; }
+.charts { display: grid; grid-template-columns: repeat(auto-fill, minmax(24rem, 1fr)); gap: 0 2rem; }
+details { margin: 0.5rem 0; border: 1px solid #d0d7de; padding: 0.5rem 1rem; }
+summary { cursor: pointer; font-weight: 600; }
+.description { color: #656d76; margin: 0.25rem 0; }
+.incomplete { color: #9a6700; }
+h5 { margin: 0.5rem 0 0; }
+`;
+
+// Sorts the score table by the clicked column; cells carry their sort value in data-value
+const SCRIPT = `
+document.querySelectorAll('#scores th').forEach(function (th, column) {
+  th.addEventListener('click', function () {
+    var order = th.dataset.order === 'desc' ? 'asc' : 'desc';
+    document.querySelectorAll('#scores th').forEach(function (other) { delete other.dataset.order; });
+    th.dataset.order = order;
+    var body = document.querySelector('#scores tbody');
+    var rows = Array.prototype.slice.call(body.rows);
+    rows.sort(function (a, b) {
+      var x = a.cells[column].dataset.value, y = b.cells[column].dataset.value;
+      var result = column === 0 ? x.localeCompare(y) : parseFloat(x) - parseFloat(y);
+      return order === 'asc' ? result : -result;
+    });
+    rows.forEach(function (row) { body.appendChild(row); });
+  });
+});
+`;
+
+/**
+ * Escapes text for HTML and XML.
+ *
+ * @param {string} text - The text.
+ * @returns {string} The escaped text.
+ */
+function escapeHtml(text: string): string {
+    return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+/**
+ * Gets the CSS class of a score cell, using the same thresholds as the Markdown badges.
+ *
+ * @param {number | null} score - The score, or null if it was not calculated.
+ * @returns {string} The class name.
+ */
+function getScoreClass(score: number | null): string {
+    if (score === null) {
+        return 'none';
+    }
+    return score >= 0.7 ? 'good' : score >= 0.4 ? 'fair' : 'poor';
+}
+
+/**
+ * Turns an input name into a label (`openIssues` becomes `Open issues`).
+ *
+ * @param {string} name - The input name.
+ * @returns {string} The label.
+ */
+function toLabel(name: string): string {
+    const words = name.replace(/(?<=[a-z])(?=[A-Z])/g, ' ').toLowerCase();
+    return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+/**
+ * Renders a list of horizontal bars.
+ *
+ * @param {{ label: string, value: number | null, width: number }[]} bars - The bars; width is a fraction of the track.
+ * @returns {string} The HTML of the chart.
+ */
+function renderBars(bars: { label: string, value: number | null, width: number }[]): string {
+    const rows = bars.map(bar => `<div class="row"><span class="label" title="${escapeHtml(bar.label)}">${escapeHtml(bar.label)}</span>`
+        + `<span class="track"><div class="bar" style="width: ${(Math.max(0, Math.min(bar.width, 1)) * 100).toFixed(1)}%"></div></span>`
+        + `<span class="value">${bar.value ?? 'n/a'}</span></div>`);
+    return `<div class="chart">\n${rows.join('\n')}\n</div>`;
+}
+
+/**
+ * Renders named values of an explanation as a table. Lists of rows become nested tables.
+ *
+ * @param {MetricInputs} inputs - The values.
+ * @returns {string} The HTML table.
+ */
+function renderInputs(inputs: MetricInputs): string {
+    const formatValue = (value: MetricInputValue) => escapeHtml(value === null ? 'n/a' : String(value));
+    const rows = Object.entries(inputs).map(([name, value]) => {
+        if (!Array.isArray(value)) {
+            return `<tr><td>${escapeHtml(toLabel(name))}</td><td>${formatValue(value)}</td></tr>`;
+        }
+        if (value.length === 0) {
+            return `<tr><td>${escapeHtml(toLabel(name))}</td><td>none</td></tr>`;
+        }
+        const columns = Object.keys(value[0]);
+        const nested = `<table><thead><tr>${columns.map(column => `<th>${escapeHtml(toLabel(column))}</th>`).join('')}</tr></thead>`
+            + `<tbody>${value.map(row => `<tr>${columns.map(column => `<td>${formatValue(row[column])}</td>`).join('')}</tr>`).join('')}</tbody></table>`;
+        return `<tr><td>${escapeHtml(toLabel(name))}</td><td>${nested}</td></tr>`;
+    });
+    return `<table>${rows.join('')}</table>`;
+}
+
+/**
+ * Renders how a metric arrived at its score: the reasoning, then the inputs, intermediate values and thresholds.
+ *
+ * @param {MetricExplanation} explanation - The explanation.
+ * @returns {string} The HTML.
+ */
+function renderExplanation(explanation: MetricExplanation): string {
+    const parts = [`<p>${escapeHtml(explanation.reasoning)}</p>`];
+    if (!explanation.complete) {
+        parts.push('<p class="incomplete">Some data was truncated or unavailable; the score may be inaccurate.</p>');
+    }
+    const sections: [string, MetricInputs][] = [['Inputs', explanation.inputs], ['Intermediate values', explanation.intermediate], ['Thresholds', explanation.thresholds]];
+    for (const [title, values] of sections) {
+        if (Object.keys(values).length > 0) {
+            parts.push(`<h5>${title}</h5>`, renderInputs(values));
+        }
+    }
+    return parts.join('\n');
+}
+
+/**
+ * Renders the score table, sortable by clicking a column header.
+ *
+ * @param {ScoredPackage[]} packages - The scored packages.
+ * @returns {string} The HTML table.
+ */
+function renderScoreTable(packages: ScoredPackage[]): string {
+    const columns = ['NetScore', ...getMetricNames()];
+    const header = `<tr><th>URL</th>${columns.map(column => `<th>${column}</th>`).join('')}</tr>`;
+    const rows = packages.map(({ data }) => `<tr><td data-value="${escapeHtml(data.URL)}">${escapeHtml(data.URL)}</td>`
+        + columns.map(column => getDataField(data, column) as number | null)
+            .map(score => `<td class="${getScoreClass(score)}" data-value="${score ?? -1}">${score ?? 'n/a'}</td>`).join('')
+        + '</tr>');
+    return `<table id="scores">\n<thead>${header}</thead>\n<tbody>\n${rows.join('\n')}\n</tbody>\n</table>`;
+}
+
+/**
+ * Renders the expandable section of one package, with the explanation and details of each score.
+ *
+ * @param {ScoredPackage} scored - The scored package.
+ * @returns {string} The HTML section.
+ */
+function renderDetails({ data, explanations, details, errors }: ScoredPackage): string {
+    const metrics = getMetricNames().filter(name => getDataField(data, name) !== null || errors[name]).map(name => [
+        `<h4>${name}: ${getDataField(data, name) ?? 'failed'}</h4>`,
+        `<p class="description">${escapeHtml(getMetric(name)?.description ?? '')}</p>`,
+        errors[name]
+            ? `<p class="incomplete">Failed (${escapeHtml(errors[name]!.code)}): ${escapeHtml(errors[name]!.message)}</p>`
+            : explanations[name] ? renderExplanation(explanations[name] as MetricExplanation) : '<p class="description">No explanation reported.</p>',
+        ...(details[name] ? ['<h5>Details</h5>', renderInputs(details[name] as MetricInputs)] : [])
+    ].join('\n'));
+    return `<details>\n<summary>${escapeHtml(data.URL)} (NetScore ${data.NetScore ?? 'n/a'})</summary>\n${metrics.join('\n')}\n</details>`;
+}
+
+/**
+ * Renders a self-contained HTML report of a run: a sortable score table, the NetScore
+ * distribution, a bar chart per metric and the explanation of each score. Styles and the
+ * sorting script are inlined, so the file can be opened from a CI artifact without network access.
+ *
+ * @param {ScoredPackage[]} packages - The scored packages, in input order.
+ * @param {Date} [generatedAt=new Date()] - When the report was generated.
+ * @returns {string} The HTML document.
+ */
+export function renderHtmlReport(packages: ScoredPackage[], generatedAt: Date = new Date()): string {
+    const netScores = packages.map(({ data }) => data.NetScore).filter((score): score is number => score !== null);
+    const mean = netScores.length > 0 ? (netScores.reduce((sum, score) => sum + score, 0) / netScores.length).toFixed(2) : 'n/a';
+
+    const distribution = renderBars(DISTRIBUTION_BUCKETS.map(([low, high]) => {
+        const count = netScores.filter(score => score >= low && score < high).length;
+        return { label: `${low.toFixed(1)} to ${Math.min(high, 1).toFixed(1)}`, value: count, width: netScores.length ? count / netScores.length : 0 };
+    }));
+
+    const charts = getMetricNames().map(name => `<section>\n<h3>${name}</h3>\n`
+        + renderBars(packages.map(({ data }) => ({ label: data.URL, value: getDataField(data, name) as number | null, width: (getDataField(data, name) as number | null) ?? 0 })))
+        + '\n</section>');
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>Package score report</title>
+<style>${STYLE}</style>
+</head>
+<body>
+<h1>Package score report</h1>
+<p class="meta">Generated ${escapeHtml(generatedAt.toISOString())} for ${packages.length} package${packages.length === 1 ? '' : 's'}. Mean NetScore: ${mean}.</p>
+<p class="meta">${getConfigSource() ? `Config ${escapeHtml(getConfigSource() as string)} (hash ${getConfigHash()}).` : `Default weights and thresholds (hash ${getConfigHash()}).`}</p>
+<h2>Scores</h2>
+<p class="meta">Click a column header to sort.</p>
+${renderScoreTable(packages)}
+<h2>NetScore distribution</h2>
+${distribution}
+<h2>Metrics</h2>
+<div class="charts">
+${charts.join('\n')}
+</div>
+<h2>Details</h2>
+${packages.map(renderDetails).join('\n')}
+<script>${SCRIPT}</script>
+</body>
+</html>
+`;
+}
+
+/**
+ * Renders a JUnit XML report with one test case per package, so a CI system lists each package as a
+ * test. With a policy, a package fails when it breaks a rule that is not waived; without one, when
+ * a metric failed. Scores and waived rules are added as the output of the test case.
+ *
+ * @param {ScoredPackage[]} packages - The scored packages, in input order.
+ * @param {PolicyResult[] | null} [policy=null] - The policy result of each package, in the same order, or null without a policy.
+ * @param {Date} [generatedAt=new Date()] - When the report was generated.
+ * @returns {string} The XML document.
+ */
+export function renderJUnitReport(packages: ScoredPackage[], policy: PolicyResult[] | null = null, generatedAt: Date = new Date()): string {
+    let failures = 0;
+    const cases = packages.map(({ data, errors }, i) => {
+        const scores = ['NetScore', ...getMetricNames()].map(name => `${name}: ${getDataField(data, name) ?? '-'}`);
+        const failed = Object.entries(errors).map(([name, failure]) => `${name} failed (${failure!.code}): ${failure!.message}`);
+        const time = ((getDataField(data, 'NetScore_Latency') as number | null) ?? 0) / 1000;
+
+        let failure = '';
+        let output = [...scores, ...failed];
+        if (policy) {
+            const violations = policy[i].violations.filter(violation => violation.waivedUntil === null);
+            const waived = policy[i].violations.filter(violation => violation.waivedUntil !== null);
+            if (violations.length > 0) {
+                const message = `${violations.length} policy rule${violations.length === 1 ? '' : 's'} violated`;
+                failure = `      <failure type="PolicyViolation" message="${message}">${escapeHtml(violations.map(({ rule, message }) => `${rule}: ${message}`).join('\n'))}</failure>\n`;
+            }
+            output = [...output, ...waived.map(({ rule, message, waivedUntil }) => `Waived until ${waivedUntil}: ${rule}: ${message}`)];
+        } else if (failed.length > 0) {
+            failure = `      <failure type="MetricFailure" message="${failed.length} metric${failed.length === 1 ? '' : 's'} failed">${escapeHtml(failed.join('\n'))}</failure>\n`;
+        }
+        failures += failure ? 1 : 0;
+
+        return `    <testcase classname="${policy ? 'policy' : 'scores'}" name="${escapeHtml(data.URL)}" time="${time.toFixed(3)}">\n`
+            + failure
+            + `      <system-out>${escapeHtml(output.join('\n'))}</system-out>\n`
+            + '    </testcase>';
+    });
+
+    const name = policy ? 'Package policy' : 'Package scores';
+    return `<?xml version="1.0" encoding="UTF-8"?>
+<testsuites name="${name}" tests="${packages.length}" failures="${failures}" errors="0">
+  <testsuite name="${name}" tests="${packages.length}" failures="${failures}" errors="0" skipped="0" timestamp="${generatedAt.toISOString()}">
+${cases.join('\n')}
+  </testsuite>
+</testsuites>
+`;
+}
+
+/**
+ * Writes the report of a run to a file.
+ *
+ * @param {ReportFormat} format - The report format.
+ * @param {string} path - The path of the report file.
+ * @param {ScoredPackage[]} packages - The scored packages, in input order.
+ * @param {PolicyResult[] | null} [policy=null] - The policy result of each package, or null without a policy.
+ */
+export function writeReport(format: ReportFormat, path: string, packages: ScoredPackage[], policy: PolicyResult[] | null = null) {
+    logMessage('writeReport', ['Writing the report.', `Format: ${format}, Path: ${path}, Packages: ${packages.length}`]);
+    fs.writeFileSync(path, format === 'junit' ? renderJUnitReport(packages, policy) : renderHtmlReport(packages));
+    logMessage('writeReport', ['Report written.', `Path: ${path}`]);
+}
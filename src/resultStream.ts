@@ -0,0 +1,164 @@
+import * as fs from 'fs';
+import { getFormatter } from './formatters';
+import { FormatOptions } from './formatters/formatter';
+import { DataObject } from './json';
+import { logMessage } from './logFile';
+import { formatOutput } from './output';
+
+/**
+ * Order in which results are written: the order of the input URLs, or the order they complete in.
+ */
+export type ResultOrder = 'input' | 'completion';
+
+/**
+ * Every result order, as given to --order.
+ */
+export const RESULT_ORDERS: ResultOrder[] = ['input', 'completion'];
+
+/**
+ * Interface representing where and how the results of a run are written.
+ *
+ * @interface ResultStreamOptions
+ */
+export interface ResultStreamOptions {
+    format: string;                 // Name of a registered output format
+    formatOptions: FormatOptions;   // Options of the format
+    order: ResultOrder;             // Order the results are written in
+    path: string | null;            // File the results are written to, or null for stdout
+    append: boolean;                // Append to the file instead of replacing it
+}
+
+/**
+ * Interface representing the output of a run, written as results come in.
+ *
+ * @interface ResultStream
+ */
+export interface ResultStream {
+    write(index: number, result: DataObject): void;  // Adds the result of the input URL at `index`
+    close(): void;                                   // Writes the results still held back and closes the file
+}
+
+/**
+ * Creates the output of a run. With a streaming format each result is written as soon as it is
+ * complete, or as soon as the results of the URLs before it are, in input order. Each result is
+ * written with one synchronous write, so an interrupted run keeps every result written so far, and
+ * none is cut in half. Other formats, such as CSV tables, are written once the run is closed.
+ *
+ * @param {ResultStreamOptions} options - Where and how to write the results.
+ * @returns {ResultStream} The output.
+ * @throws {Error} If the format is unknown or the file cannot be opened.
+ */
+export function createResultStream(options: ResultStreamOptions): ResultStream {
+    const formatter = getFormatter(options.format);
+    if (!formatter) {
+        throw new Error(`Unknown output format: ${options.format}`);
+    }
+    const fd = options.path ? fs.openSync(options.path, options.append ? 'a' : 'w') : null;
+    logMessage('createResultStream', ['Output opened.', `Path: ${options.path ?? 'stdout'}, Format: ${formatter.name}, Order: ${options.order}, Streaming: ${formatter.streaming}`]);
+
+    // Results not written yet, by input index, in the order they completed
+    const held = new Map<number, DataObject>();
+    let nextIndex = 0; // Input index of the next result to write in input order
+
+    const writeResults = (results: DataObject[]) => {
+        if (results.length === 0) {
+            return;
+        }
+        const text = `${formatOutput(results, formatter.name, options.formatOptions)}\n`;
+        if (fd === null) {
+            process.stdout.write(text);
+        } else {
+            fs.writeSync(fd, text);
+        }
+    };
+
+    // Gets the results held back, in the configured order
+    const takeHeld = (): DataObject[] => {
+        const entries = [...held.entries()];
+        held.clear();
+        if (options.order === 'input') {
+            entries.sort(([a], [b]) => a - b);
+        }
+        return entries.map(([, result]) => result);
+    };
+
+    return {
+        write(index: number, result: DataObject) {
+            held.set(index, result);
+            if (!formatter.streaming) {
+                return;
+            }
+            if (options.order === 'completion') {
+                writeResults(takeHeld());
+                return;
+            }
+            while (held.has(nextIndex)) {
+                writeResults([held.get(nextIndex)!]);
+                held.delete(nextIndex++);
+            }
+        },
+
+        close() {
+            writeResults(takeHeld());
+            if (fd !== null) {
+                fs.fsyncSync(fd);
+                fs.closeSync(fd);
+            }
+            logMessage('createResultStream', ['Output closed.', `Path: ${options.path ?? 'stdout'}`]);
+        }
+    };
+}
+
+/**
+ * Reads the URLs of the results in an NDJSON output file, so a resumed run can skip them. A last
+ * line cut off by a crash is removed from the file, so new results start on a line of their own.
+ *
+ * @param {string} path - The output file.
+ * @returns {Set<string>} The URLs in the file; none if the file does not exist.
+ * @throws {Error} If a complete line is not a JSON result with a URL.
+ */
+export function readCompletedURLs(path: string): Set<string> {
+    const urls = new Set<string>();
+    if (!fs.existsSync(path)) {
+        return urls;
+    }
+
+    const content = fs.readFileSync(path, 'utf-8');
+    const lines = content.split('\n');
+    const last = lines.pop() as string; // Text after the last newline; empty if the file ends with one
+
+    // Gets the URL of a result line, or null if the line is not a result
+    const getURL = (line: string): string | null => {
+        try {
+            const result = JSON.parse(line);
+            return typeof result?.URL === 'string' ? result.URL : null;
+        } catch {
+            return null;
+        }
+    };
+
+    lines.forEach((line, i) => {
+        if (line.trim() === '') {
+            return;
+        }
+        const url = getURL(line);
+        if (url === null) {
+            throw new Error(`line ${i + 1} is not a JSON result with a URL.`);
+        }
+        urls.add(url);
+    });
+
+    if (last.trim() !== '') {
+        const url = getURL(last);
+        if (url !== null) {
+            urls.add(url);
+            fs.appendFileSync(path, '\n');
+        } else {
+            fs.truncateSync(path, Buffer.byteLength(content) - Buffer.byteLength(last));
+            logMessage('readCompletedURLs', ['Removed a result cut off by an interrupted run.', `Path: ${path}, Line: ${lines.length + 1}`]);
+        }
+    }
+
+    logMessage('readCompletedURLs', ['Read the results of a previous run.', `Path: ${path}, URLs: ${urls.size}`]);
+    return urls;
+}
@@ -0,0 +1,199 @@
+/**
+ * A parsed SPDX license expression: a license, optionally with an exception, or two
+ * expressions joined by AND (both apply) or OR (either may be chosen).
+ */
+export type SpdxExpression =
+    | { type: 'license', id: string, exception: string | null }
+    | { type: 'and' | 'or', left: SpdxExpression, right: SpdxExpression };
+
+/**
+ * Error thrown for text that is not a valid SPDX expression.
+ */
+export class SpdxError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'SpdxError';
+    }
+}
+
+// Common SPDX license ids, used to correct the case of ids written by hand
+const KNOWN_LICENSES = [
+    '0BSD', 'AFL-3.0', 'AGPL-3.0-only', 'AGPL-3.0-or-later', 'Apache-1.1', 'Apache-2.0', 'Artistic-2.0', 'BlueOak-1.0.0',
+    'BSD-2-Clause', 'BSD-3-Clause', 'BSD-4-Clause', 'BSL-1.0', 'CC-BY-3.0', 'CC-BY-4.0', 'CC-BY-SA-4.0', 'CC0-1.0',
+    'CDDL-1.0', 'EPL-1.0', 'EPL-2.0', 'EUPL-1.2', 'GPL-2.0-only', 'GPL-2.0-or-later', 'GPL-3.0-only', 'GPL-3.0-or-later',
+    'ISC', 'LGPL-2.0-only', 'LGPL-2.0-or-later', 'LGPL-2.1-only', 'LGPL-2.1-or-later', 'LGPL-3.0-only', 'LGPL-3.0-or-later',
+    'MIT', 'MIT-0', 'MPL-1.1', 'MPL-2.0', 'MS-PL', 'NCSA', 'ODbL-1.0', 'OFL-1.1', 'PostgreSQL', 'Python-2.0', 'Unlicense',
+    'UPL-1.0', 'W3C', 'WTFPL', 'X11', 'Zlib', 'NOASSERTION'
+];
+
+// GNU licenses whose bare ids are deprecated in favour of `-only` and `-or-later`
+const GNU_LICENSES = ['AGPL-1.0', 'AGPL-3.0', 'GPL-1.0', 'GPL-2.0', 'GPL-3.0', 'LGPL-2.0', 'LGPL-2.1', 'LGPL-3.0'];
+
+// License names used by the GitHub license API and in package manifests, keyed without case, spaces or punctuation
+const LICENSE_ALIASES: Record<string, string> = {
+    mitlicense: 'MIT',
+    apache2: 'Apache-2.0',
+    apache20: 'Apache-2.0',
+    apachelicense20: 'Apache-2.0',
+    apachelicenseversion20: 'Apache-2.0',
+    isclicense: 'ISC',
+    bsd2clausesimplifiedlicense: 'BSD-2-Clause',
+    bsd3clausenewrevisedlicense: 'BSD-3-Clause',
+    bsd3clausenewlicense: 'BSD-3-Clause',
+    bsdzeroclauselicense: '0BSD',
+    gnugeneralpubliclicensev20: 'GPL-2.0-only',
+    gnugeneralpubliclicensev30: 'GPL-3.0-only',
+    gnulessergeneralpubliclicensev21: 'LGPL-2.1-only',
+    gnulessergeneralpubliclicensev30: 'LGPL-3.0-only',
+    gnuafferogeneralpubliclicensev30: 'AGPL-3.0-only',
+    gplv2: 'GPL-2.0-only',
+    gplv3: 'GPL-3.0-only',
+    lgplv21: 'LGPL-2.1-only',
+    lgplv3: 'LGPL-3.0-only',
+    mozillapubliclicense20: 'MPL-2.0',
+    theunlicense: 'Unlicense',
+    creativecommonszerov10universal: 'CC0-1.0',
+    boostsoftwarelicense10: 'BSL-1.0',
+    eclipsepubliclicense20: 'EPL-2.0',
+    zliblicense: 'Zlib'
+};
+
+/**
+ * Normalizes a license id or name to its SPDX id: the case of known ids is corrected, deprecated
+ * GNU ids get their `-only` or `-or-later` form (`GPL-2.0+` becomes `GPL-2.0-or-later`) and common
+ * license names (`MIT License`, `Apache 2.0`) become ids. Anything else is returned unchanged.
+ *
+ * @param {string} id - The license id or name.
+ * @returns {string} The SPDX id.
+ */
+export function normalizeLicenseId(id: string): string {
+    const text = id.trim();
+    const orLater = text.endsWith('+');
+    const bare = orLater ? text.slice(0, -1) : text;
+
+    const gnu = GNU_LICENSES.find(license => license.toLowerCase() === bare.toLowerCase());
+    if (gnu) {
+        return `${gnu}-${orLater ? 'or-later' : 'only'}`;
+    }
+    const known = KNOWN_LICENSES.find(license => license.toLowerCase() === bare.toLowerCase());
+    if (known) {
+        return orLater ? `${known}+` : known;
+    }
+    return LICENSE_ALIASES[text.toLowerCase().replace(/[^a-z0-9]/g, '')] ?? text;
+}
+
+/**
+ * Parses an SPDX license expression such as `MIT OR (Apache-2.0 AND BSD-3-Clause)` or
+ * `GPL-2.0-or-later WITH Classpath-exception-2.0`. WITH binds tightest, then AND, then OR.
+ * Operators may be written in any case, and license ids are normalized with normalizeLicenseId.
+ *
+ * @param {string} text - The expression.
+ * @returns {SpdxExpression} The parsed expression.
+ * @throws {SpdxError} If the text is not a valid expression.
+ */
+export function parseSpdxExpression(text: string): SpdxExpression {
+    const tokens = text.match(/\(|\)|[^\s()]+/g) ?? [];
+    let position = 0;
+
+    const peek = () => tokens[position]?.toUpperCase();
+    const fail = (problem: string): never => {
+        throw new SpdxError(`Invalid SPDX expression "${text}": ${problem}.`);
+    };
+
+    function parseOr(): SpdxExpression {
+        let left = parseAnd();
+        while (peek() === 'OR') {
+            position++;
+            left = { type: 'or', left, right: parseAnd() };
+        }
+        return left;
+    }
+
+    function parseAnd(): SpdxExpression {
+        let left = parseLicense();
+        while (peek() === 'AND') {
+            position++;
+            left = { type: 'and', left, right: parseLicense() };
+        }
+        return left;
+    }
+
+    function parseLicense(): SpdxExpression {
+        const token = tokens[position++];
+        if (token === undefined) {
+            return fail('it ends where a license is expected');
+        }
+        if (token === '(') {
+            const inner = parseOr();
+            if (tokens[position++] !== ')') {
+                fail('a parenthesis is not closed');
+            }
+            return inner;
+        }
+        if (token === ')' || ['AND', 'OR', 'WITH'].includes(token.toUpperCase()) || !/^[A-Za-z0-9.:-]+\+?$/.test(token)) {
+            return fail(`"${token}" is not a license id`);
+        }
+
+        let exception: string | null = null;
+        if (peek() === 'WITH') {
+            position++;
+            exception = tokens[position++] ?? null;
+            if (exception === null || !/^[A-Za-z0-9.-]+$/.test(exception)) {
+                fail('WITH must be followed by an exception id');
+            }
+        }
+        return { type: 'license', id: normalizeLicenseId(token), exception };
+    }
+
+    if (tokens.length === 0) {
+        fail('it is empty');
+    }
+    const expression = parseOr();
+    if (position < tokens.length) {
+        fail(`"${tokens[position]}" is not expected here`);
+    }
+    return expression;
+}
+
+/**
+ * Reads a license from a package manifest or license API: an SPDX expression, or a license name
+ * such as `Apache License 2.0`, which is not valid SPDX but is common.
+ *
+ * @param {string} text - The license text.
+ * @returns {SpdxExpression} The license expression.
+ * @throws {SpdxError} If the text is neither an expression nor a license name.
+ */
+export function readLicense(text: string): SpdxExpression {
+    const id = normalizeLicenseId(text);
+    if (id !== text.trim() || !/\s/.test(id)) {
+        return parseSpdxExpression(id);
+    }
+    return parseSpdxExpression(text);
+}
+
+/**
+ * Formats an expression as SPDX text, with parentheses only where they are needed.
+ *
+ * @param {SpdxExpression} expression - The expression.
+ * @returns {string} The SPDX text.
+ */
+export function formatSpdxExpression(expression: SpdxExpression): string {
+    if (expression.type === 'license') {
+        return expression.exception ? `${expression.id} WITH ${expression.exception}` : expression.id;
+    }
+    const side = (inner: SpdxExpression) => inner.type === 'or' && expression.type === 'and' ? `(${formatSpdxExpression(inner)})` : formatSpdxExpression(inner);
+    return `${side(expression.left)} ${expression.type.toUpperCase()} ${side(expression.right)}`;
+}
+
+/**
+ * Lists the licenses of an expression, each with its exception, in the order they appear.
+ *
+ * @param {SpdxExpression} expression - The expression.
+ * @returns {string[]} The licenses, as `id` or `id WITH exception`.
+ */
+export function getExpressionLicenses(expression: SpdxExpression): string[] {
+    if (expression.type === 'license') {
+        return [formatSpdxExpression(expression)];
+    }
+    return [...getExpressionLicenses(expression.left), ...getExpressionLicenses(expression.right)];
+}